@@ -0,0 +1,168 @@
+import http from "http";
+import { ZeroHash, getAddress, isAddress } from "ethers";
+import type { FundraisingClient } from "../sdk/FundraisingClient";
+import { NftType, UNCAPPED, nftTypeName, statusName, tokenIdToIndex, tokenIdToType } from "../sdk/types";
+import { IndexedContributor, IndexedFundraising, IndexerStore } from "../indexer/IndexerStore";
+
+export interface ApiOptions {
+    // Indexed events everything but the status is served from
+    store: IndexerStore;
+    // Live reads of `getFundraisingStatus`, which depends on the current time, and of whitelist roots
+    client: FundraisingClient;
+}
+
+export class HttpError extends Error {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = "HttpError";
+        this.status = status;
+    }
+}
+
+type Handler = (params: string[], options: ApiOptions) => Promise<unknown>;
+
+const parseId = (value: string): bigint => {
+    if (!/^\d+$/.test(value)) {
+        throw new HttpError(400, `Invalid ID: ${value}`);
+    }
+    return BigInt(value);
+};
+
+const parseAddress = (value: string): string => {
+    if (!isAddress(value)) {
+        throw new HttpError(400, `Invalid address: ${value}`);
+    }
+    return getAddress(value);
+};
+
+const byTypeJson = (byType: Record<NftType, bigint>) =>
+    Object.fromEntries(Object.entries(byType).map(([nftType, amount]) => [nftTypeName(Number(nftType)), amount]));
+
+// null for a tier without cap
+const maxBuyAmountsJson = (maxBuyAmounts: Record<NftType, bigint>) =>
+    Object.fromEntries(Object.entries(maxBuyAmounts).map(([nftType, amount]) => [nftTypeName(Number(nftType)), amount === UNCAPPED ? null : amount]));
+
+const fundraisingJson = async (fundraising: IndexedFundraising, { client }: ApiOptions) => ({
+    id: fundraising.id,
+    moderator: fundraising.moderator,
+    startTime: fundraising.startTime,
+    targetTime: fundraising.startTime + fundraising.duration,
+    targetAmount: fundraising.targetAmount,
+    tiers: fundraising.tiers.map(nftTypeName),
+    // amounts are in this ERC-20 token, in native currency when null
+    paymentToken: fundraising.paymentToken ?? null,
+    cancelled: fundraising.cancelled,
+    claimedFund: fundraising.claimedFund ?? null,
+    status: statusName(await client.getStatus(fundraising.id)),
+});
+
+const contributorJson = (contributor: IndexedContributor) => ({
+    user: contributor.user,
+    amounts: byTypeJson(contributor.byType),
+    totalAmount: contributor.totalAmount,
+    nftClaimed: contributor.nftClaimed,
+    refund: contributor.refund ?? null,
+});
+
+const getFundraising = (id: bigint, { store }: ApiOptions): IndexedFundraising => {
+    const fundraising = store.getFundraising(id);
+    if (fundraising === undefined) {
+        throw new HttpError(404, `Fundraising #${id} not found`);
+    }
+    return fundraising;
+};
+
+const ROUTES: [RegExp, Handler][] = [
+    [
+        /^\/fundraisings$/,
+        async (_, options) => Promise.all(options.store.getFundraisings().map((fundraising) => fundraisingJson(fundraising, options))),
+    ],
+    [
+        /^\/fundraisings\/([^/]+)$/,
+        async ([id], options) => {
+            const fundraising = getFundraising(parseId(id), options);
+            return {
+                ...(await fundraisingJson(fundraising, options)),
+                maxBuyAmounts: maxBuyAmountsJson(fundraising.maxBuyAmounts),
+                boughtAmounts: byTypeJson(options.store.getBoughtAmounts(fundraising.id)),
+                contributors: options.store.getContributors(fundraising.id).length,
+            };
+        },
+    ],
+    [
+        /^\/fundraisings\/([^/]+)\/contributors$/,
+        async ([id], options) => {
+            const fundraising = getFundraising(parseId(id), options);
+            return options.store.getContributors(fundraising.id).map(contributorJson);
+        },
+    ],
+    [
+        /^\/users\/([^/]+)\/positions$/,
+        async ([address], options) => {
+            const user = parseAddress(address);
+            return Promise.all(
+                options.store.getPositions(user).map(async (position) => {
+                    // Only addresses added with `addToWhitelist` are indexed, not those admitted by a Merkle proof,
+                    // so `whitelisted` is left out for unlisted users of raises with a root
+                    const listed = options.store.getWhitelist(position.fundraisingId).includes(user);
+                    const [status, root] = await Promise.all([
+                        options.client.getStatus(position.fundraisingId),
+                        listed ? ZeroHash : options.client.getWhitelistRoot(position.fundraisingId),
+                    ]);
+                    return {
+                        fundraisingId: position.fundraisingId,
+                        status: statusName(status),
+                        ...(listed || root === ZeroHash ? { whitelisted: listed } : {}),
+                        ...contributorJson(position),
+                    };
+                })
+            );
+        },
+    ],
+    [
+        /^\/nfts\/([^/]+)$/,
+        async ([value], { store }) => {
+            const tokenId = parseId(value);
+            const owner = store.getOwner(tokenId);
+            if (owner === undefined) {
+                throw new HttpError(404, `Token ${tokenId} not found`);
+            }
+            return { tokenId, type: nftTypeName(tokenIdToType(tokenId)), index: tokenIdToIndex(tokenId), owner };
+        },
+    ],
+];
+
+// uint256 values are sent as decimal strings, JSON numbers would lose precision
+const toJson = (value: unknown): string => JSON.stringify(value, (_, item) => (typeof item === "bigint" ? item.toString() : item));
+
+const send = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+    res.end(toJson(body));
+};
+
+export const createApiHandler = (options: ApiOptions) => async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    try {
+        if (req.method !== "GET") {
+            throw new HttpError(405, `Method ${req.method} not allowed`);
+        }
+        const { pathname } = new URL(req.url ?? "/", "http://localhost");
+        for (const [pattern, handle] of ROUTES) {
+            const match = pattern.exec(pathname.replace(/\/+$/, ""));
+            if (match) {
+                send(res, 200, await handle(match.slice(1).map(decodeURIComponent), options));
+                return;
+            }
+        }
+        throw new HttpError(404, `No route for ${pathname}`);
+    } catch (e) {
+        if (e instanceof HttpError) {
+            send(res, e.status, { error: e.message });
+        } else {
+            send(res, 500, { error: (e as Error).message });
+        }
+    }
+};
+
+export const createApiServer = (options: ApiOptions): http.Server => http.createServer(createApiHandler(options));
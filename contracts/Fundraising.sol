@@ -2,23 +2,37 @@
 pragma solidity ^0.8.20;
 
 
-import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
-import "@openzeppelin/contracts/access/AccessControl.sol";
-import "@openzeppelin/contracts/utils/Counters.sol";
-import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/CountersUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 import { PeaqNFT, NftTypes } from "./PeaqNFT.sol";
+import { FundraisingPricing } from "./FundraisingPricing.sol";
+import { FundraisingVesting } from "./FundraisingVesting.sol";
 
-contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
-    using Counters for Counters.Counter;
+// Deployed behind a transparent proxy like `PeaqNFT`.
+// Storage: only append state variables (taking them from `__gap`) and struct fields, never reorder or remove them.
+contract FundraisingCenter is AccessControlUpgradeable, ReentrancyGuardUpgradeable, NftTypes {
+    using CountersUpgradeable for CountersUpgradeable.Counter;
+    using SafeERC20 for IERC20;
 
     // Roles
     bytes32 public constant MODERATOR_ROLE = keccak256("MODERATOR_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
 
     // Config variables
     uint256 public maxStartTime;
     uint256 public maxDuration;
-    mapping(NftType => uint256) public nftDurations;
+    // Default phase durations, copied into the tiers of fundraisings created with `createFundraising`
+    mapping(uint8 => uint256) public nftDurations;
+    uint256 public constant MAX_TIERS = 16;
+    uint256 public constant MAX_PERCENTAGE = 100_00; // denotes 100.00%, like `PeaqNFT.MAX_PERCENTAGE`
+    uint256 public constant MAX_TRANCHES = 16;
+    uint256 public constant FORCE_FAIL_DELAY = 1 days; // between the moderator requesting to fail an open fundraising and failing it
 
     PeaqNFT public nftContract;
 
@@ -30,13 +44,40 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
         SUCCESS
     }
 
+    // @notice One tier of a fundraising, tiers are sold in the order they are configured
+    // @dev The phase of a tier lasts `duration` seconds after the phase of the previous tier. During that phase
+    // the tier and every tier after it can be bought; the phase of the last tier lasts until the end of the raise.
+    struct Tier {
+        uint8 nftType; // PeaqNFT type of the tokens minted for this tier
+        bool whitelistOnly;
+        uint256 basePrice;
+        uint256 maxBuyAmount; // type(uint256).max for no cap
+        uint256 duration;
+    }
+
+    enum PriceCurve {
+        FIXED, // every NFT of the tier costs its base price
+        LINEAR, // the price goes up by `step` with every NFT of the tier sold
+        DUTCH_AUCTION // the price goes down by `step` every `interval` seconds of the tier phase, down to `floorPrice`
+    }
+
+    // @notice Pricing of a tier on top of its base price, FIXED by default
+    struct Pricing {
+        PriceCurve curve;
+        uint256 step;
+        uint256 interval; // DUTCH_AUCTION only
+        uint256 floorPrice; // DUTCH_AUCTION only
+    }
+
     struct User {
-        mapping(NftType => uint256) contributions; // number of NFTs bought
+        mapping(uint8 => uint256) contributions; // number of NFTs bought
         uint256 totalValue;
         bool refunded;
         bool fullClaimed;
         uint256 claimedCount;
         uint256 totalContribution;
+        mapping(uint8 => uint256) paid; // value paid for the NFTs of each tier, what `refund` pays back
+        uint256[] payments; // value of each contribution, in order
     }
 
     struct Fundraising {
@@ -44,19 +85,81 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
         uint256 startTime;
         uint256 targetTime;
         uint256 targetAmount;
-        mapping(NftType => uint256) basePrices;
-        mapping(NftType => uint256) maxBuyAmounts;
+        Tier[] tiers;
         Status status;
         
         uint256 totalContribution;
         bool fundClaimed;
         mapping(address => User) users;
         mapping(address => bool) whitelist;
-        mapping(NftType => uint256) boughtAmounts;
+        mapping(uint8 => uint256) boughtAmounts;
+        bytes32 whitelistRoot; // optional Merkle root of whitelisted addresses
+        IERC20 paymentToken; // zero address for native currency
+        uint256 minContribution; // minimum value of one contribution
+        uint256 maxWalletValue; // maximum value one wallet contributes in total, zero for no cap
+        mapping(uint8 => uint256) maxPerWallet; // maximum number of NFTs of a tier per wallet, zero for no cap
+        uint256 hardCap; // maximum total contribution, zero for no cap. `targetAmount` is the soft cap: the success threshold
+        bool closeOnHardCap; // end the raise as SUCCESS as soon as the hard cap is reached
+        mapping(uint8 => Pricing) pricing;
+        bool frozen; // every call updating its status reverts, see `setFrozen`
+        uint256 forceFailTime; // when its moderator may fail it, zero if not requested, see `requestForceFail`
+    }
+
+    // @notice Referral program of a fundraising
+    struct Referrals {
+        uint256 percentage; // share of referred contributions paid to their referrer on SUCCESS, out of MAX_PERCENTAGE
+        uint256 totalRewards; // accrued rewards, held back from the fund
+        mapping(address => address) referrers; // referrer each contributor is attributed to
+        mapping(address => uint256) rewards; // accrued reward of each referrer, zeroed once claimed
+    }
+
+    enum ReleaseKind {
+        IMMEDIATE, // the whole fund is released once the raise succeeds
+        LINEAR, // nothing is released before `cliff`, then the fund is released linearly until `duration`
+        MILESTONES, // each tranche releases its percentage of the fund once its delay has passed
+        GOVERNED // the fund stays in escrow, `governor` pays each tranche once PeaqNFT holders voted for it
+    }
+
+    // @notice One tranche of a MILESTONES or GOVERNED release schedule
+    struct Tranche {
+        uint256 delay; // seconds after the end of the raise
+        uint256 percentage; // share of the fund, out of MAX_PERCENTAGE
+    }
+
+    // @notice Release schedule of the fund of a fundraising to its moderator, IMMEDIATE by default
+    // @dev Times count from `targetTime`, also when the raise closes early on its hard cap
+    struct VestingSchedule {
+        ReleaseKind kind;
+        uint256 cliff; // LINEAR only
+        uint256 duration; // LINEAR only, at least `cliff`
+        Tranche[] tranches; // MILESTONES and GOVERNED only, by increasing delay, their percentages adding up to MAX_PERCENTAGE
+    }
+
+    struct Vesting {
+        VestingSchedule schedule;
+        uint256 released; // part of the fund claimed by the moderator so far
     }
 
-    mapping(uint256 => Fundraising) public fundraisings;
-    Counters.Counter private _fundraisingIdCounter;
+    // @notice Per-wallet limits of a fundraising, zero meaning no limit
+    struct WalletLimits {
+        uint256 minContribution;
+        uint256 maxWalletValue;
+        uint256[] maxPerWallet; // one entry per tier, in the order of the tiers
+    }
+
+    // Read through `getFundraising` and the other getters, `fundraisings` serves the fields its generated getter served
+    /// @custom:oz-renamed-from fundraisings
+    mapping(uint256 => Fundraising) internal _fundraisings;
+    CountersUpgradeable.Counter private _fundraisingIdCounter;
+    mapping(uint256 => Referrals) private _referrals;
+    mapping(uint256 => Vesting) private _vestings;
+    // Pays out the fund of GOVERNED fundraisings, see `FundraisingGovernor`
+    address public governor;
+    // Entry points stopped by the pausers, by selector, see `setFunctionPaused`
+    mapping(bytes4 => bool) public pausedFunctions;
+
+    // Reserved slots for state variables added by upgrades
+    uint256[46] private __gap;
 
     event FundraisingCreated(uint256 indexed fundraisingId, address indexed moderator, uint256 startTime, uint256 duration, uint256 targetAmount);
     event FundraisingCancelled(uint256 indexed fundraisingId);
@@ -65,32 +168,65 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
     event FundClaimed(uint256 indexed fundraisingId, address indexed moderator, uint256 amount);
     event NftClaimed(uint256 indexed fundraisingId, address indexed user);
     event WhitelistUpdated(uint256 indexed fundraisingId, address indexed user, bool isAdded);
+    event WhitelistRootUpdated(uint256 indexed fundraisingId, bytes32 root);
     event MaxStartTimeUpdated(uint256 newMaxStartTime);
     event MaxDurationUpdated(uint256 newMaxDuration);
-    event BasePriceUpdated(uint256 indexed fundraisingId, NftType indexed nftType, uint256 newBasePrice);
-    event NftDurationUpdated(NftType nftType, uint256 newDuration);
+    event TiersConfigured(uint256 indexed fundraisingId, Tier[] tiers);
+    event PaymentTokenSet(uint256 indexed fundraisingId, address indexed paymentToken);
+    event WalletLimitsUpdated(uint256 indexed fundraisingId, WalletLimits limits);
+    event BasePriceUpdated(uint256 indexed fundraisingId, uint8 indexed nftType, uint256 newBasePrice);
+    event StartTimeUpdated(uint256 indexed fundraisingId, uint256 newStartTime);
+    event DurationUpdated(uint256 indexed fundraisingId, uint256 newDuration);
+    event TargetAmountUpdated(uint256 indexed fundraisingId, uint256 newTargetAmount);
+    event MaxBuyAmountUpdated(uint256 indexed fundraisingId, uint8 indexed nftType, uint256 newMaxBuyAmount);
+    event HardCapUpdated(uint256 indexed fundraisingId, uint256 hardCap, bool closeOnHardCap);
+    event PricingUpdated(uint256 indexed fundraisingId, Pricing[] pricing);
+    event ReferralPercentageUpdated(uint256 indexed fundraisingId, uint256 percentage);
+    event ReferralRecorded(uint256 indexed fundraisingId, address indexed user, address indexed referrer, uint256 value, uint256 reward);
+    event ReferralRewardClaimed(uint256 indexed fundraisingId, address indexed referrer, uint256 amount);
+    event VestingUpdated(uint256 indexed fundraisingId, VestingSchedule schedule);
+    event NftDurationUpdated(uint8 nftType, uint256 newDuration);
     event NftContractUpdated(address newNftContract);
+    event GovernorUpdated(address newGovernor);
+    event FunctionPauseUpdated(bytes4 indexed selector, bool paused);
+    event FundraisingFrozen(uint256 indexed fundraisingId, bool frozen);
+    event EmergencyRefundEnabled(uint256 indexed fundraisingId);
+    event ForceFailRequested(uint256 indexed fundraisingId, uint256 forceFailTime, string reason);
+    event FundraisingForceFailed(uint256 indexed fundraisingId, address indexed by, string reason);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
 
-    constructor(
+    function initialize(
         address nftContractAddress,
         uint256 _maxStartTime, 
         uint256 _maxDuration, 
         uint256 _legendaryDuration, 
         uint256 _epicDuration 
-    ) {
+    ) public initializer {
+        __AccessControl_init();
+        __ReentrancyGuard_init();
         _setupRole(DEFAULT_ADMIN_ROLE, msg.sender);
         nftContract = PeaqNFT(nftContractAddress);
         maxStartTime = _maxStartTime;
         maxDuration = _maxDuration;
-        nftDurations[NftType.LEGENDARY] = _legendaryDuration;
-        nftDurations[NftType.EPIC] = _epicDuration;
+        nftDurations[LEGENDARY] = _legendaryDuration;
+        nftDurations[EPIC] = _epicDuration;
     }
 
     modifier onlyFundraisingModerator(uint256 fundraisingId) {
-        require(fundraisings[fundraisingId].moderator == msg.sender, "only moderator");
+        _checkFundraisingModerator(fundraisingId);
         _;
     }
 
+    // Out of the modifier so that its code is not inlined in every function using it
+    function _checkFundraisingModerator(uint256 fundraisingId) private view {
+        require(_fundraisings[fundraisingId].moderator == msg.sender, "only moderator");
+        _requireActive(_fundraisings[fundraisingId]);
+    }
+
     /**
      * DEFAULT ADMIN FUNCTIONS
      */
@@ -105,7 +241,8 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
         emit MaxDurationUpdated(_maxDuration);
     }
 
-    function setNftDuration(NftType nftType, uint256 duration) external onlyRole(DEFAULT_ADMIN_ROLE) {
+    // @dev Only fundraisings created afterwards use the new duration, the tiers of existing ones keep theirs
+    function setNftDuration(uint8 nftType, uint256 duration) external onlyRole(DEFAULT_ADMIN_ROLE) {
         nftDurations[nftType] = duration;
         emit NftDurationUpdated(nftType, duration);
     }
@@ -115,11 +252,53 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
         emit NftContractUpdated(nftContractAddress);
     }
 
+    function setGovernor(address newGovernor) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        governor = newGovernor;
+        emit GovernorUpdated(newGovernor);
+    }
+
+    /**
+     * EMERGENCY FUNCTIONS
+     */
+
+    // @notice Stop or resume an entry point acting on a fundraising, like `contribute`, `claimNft`, `claimFund` or `refund`.
+    // Pausers stop them, only the admin resumes them.
+    // @dev Every variant of an entry point has a switch of its own, `contributeWithProof` is not stopped with `contribute`.
+    // The `emergency:pause` task stops all the variants of `contribute` and of `claimNft` by their name.
+    function setFunctionPaused(bytes4 selector, bool paused) external {
+        _checkRole(paused ? PAUSER_ROLE : DEFAULT_ADMIN_ROLE);
+        pausedFunctions[selector] = paused;
+        emit FunctionPauseUpdated(selector, paused);
+    }
+
+    // @notice Stop every call acting on a fundraising that has not ended yet: its contributions, claims and settings, or resume them
+    // @dev Nothing is paid out of a raise before it ends, so a frozen raise can always be failed by `enableEmergencyRefund`
+    function setFrozen(uint256 fundraisingId, bool frozen) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        if (frozen) {
+            Status status = _calcStatus(fundraising);
+            require(status == Status.CREATION || status == Status.OPEN, "Fundraising ended");
+        }
+        fundraising.frozen = frozen;
+        emit FundraisingFrozen(fundraisingId, frozen);
+    }
+
+    // @notice Fail a frozen fundraising and lift its freeze, so that backers get refunded what they paid
+    function enableEmergencyRefund(uint256 fundraisingId) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        require(fundraising.frozen, "Fundraising not frozen");
+        fundraising.status = Status.FAILED;
+        fundraising.frozen = false;
+        emit FundraisingFrozen(fundraisingId, false);
+        emit EmergencyRefundEnabled(fundraisingId);
+    }
+
     /**
      * FUNDRAISING MANAGEMENT FUNCTIONS
      */
 
     // Fundraising creation and cancellation
+    // @notice Create a fundraising selling legendary, epic then common NFTs, with phase durations taken from `nftDurations`
     function createFundraising(
         uint256 startTime, 
         uint256 duration, 
@@ -130,67 +309,287 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
         uint256 maxBuyAmountLegendary,
         uint256 maxBuyAmountEpic
     ) external onlyRole(MODERATOR_ROLE) {
+        require(maxBuyAmountLegendary > 0 && maxBuyAmountEpic > 0, "invalid max buy amount");
+
+        Tier[] memory tiers = new Tier[](3);
+        tiers[0] = Tier(LEGENDARY, true, basePriceLegendary, maxBuyAmountLegendary, nftDurations[LEGENDARY]);
+        tiers[1] = Tier(EPIC, false, basePriceEpic, maxBuyAmountEpic, nftDurations[EPIC]);
+        tiers[2] = Tier(COMMON, false, basePriceCommon, type(uint256).max, nftDurations[COMMON]);
+        _createFundraising(startTime, duration, targetAmount, tiers, address(0));
+    }
+
+    // @notice Create a fundraising with any set of tiers, sold in the given order
+    // @param paymentToken ERC-20 token that prices, contributions, refunds and the raised fund are in,
+    // or the zero address for native currency. Tokens taking a fee on transfer are not supported.
+    function createFundraisingWithTiers(
+        uint256 startTime,
+        uint256 duration,
+        uint256 targetAmount,
+        Tier[] calldata tiers,
+        address paymentToken
+    ) external onlyRole(MODERATOR_ROLE) {
+        _createFundraising(startTime, duration, targetAmount, tiers, paymentToken);
+    }
+
+    function _createFundraising(uint256 startTime, uint256 duration, uint256 targetAmount, Tier[] memory tiers, address paymentToken) private {
+        _requireNotPaused();
         require(startTime <= block.timestamp + maxStartTime, "Start time too late");
         require(duration <= maxDuration, "Duration too long");
-        require(maxBuyAmountLegendary > 0 && maxBuyAmountEpic > 0, "invalid max buy amount");
+        require(tiers.length > 0 && tiers.length <= MAX_TIERS, "Invalid tier count");
+        require(paymentToken == address(0) || paymentToken.code.length > 0, "Invalid payment token");
 
         uint256 fundraisingId = _fundraisingIdCounter.current();
         _fundraisingIdCounter.increment();
 
-        Fundraising storage newFundraising = fundraisings[fundraisingId];
+        Fundraising storage newFundraising = _fundraisings[fundraisingId];
         newFundraising.startTime = startTime;
         newFundraising.targetTime = startTime + duration;
         newFundraising.targetAmount = targetAmount;
-        newFundraising.basePrices[NftType.LEGENDARY] = basePriceLegendary;
-        newFundraising.basePrices[NftType.EPIC] = basePriceEpic;
-        newFundraising.basePrices[NftType.COMMON] = basePriceCommon;
-        newFundraising.maxBuyAmounts[NftType.LEGENDARY] = maxBuyAmountLegendary;
-        newFundraising.maxBuyAmounts[NftType.EPIC] = maxBuyAmountEpic;
-        newFundraising.maxBuyAmounts[NftType.COMMON] = type(uint256).max - maxBuyAmountLegendary - maxBuyAmountEpic;
         newFundraising.moderator = msg.sender;
         newFundraising.status = Status.CREATION;
+        newFundraising.paymentToken = IERC20(paymentToken);
+
+        uint256 seenTypes; // bitmap of the NFT types already configured
+        for (uint i; i < tiers.length; i++) {
+            uint8 nftType = tiers[i].nftType;
+            require(nftType != NONE && seenTypes & (uint256(1) << nftType) == 0, "Invalid tier type");
+            require(tiers[i].maxBuyAmount > 0, "invalid max buy amount");
+            seenTypes |= uint256(1) << nftType;
+            newFundraising.tiers.push(tiers[i]);
+        }
 
         emit FundraisingCreated(fundraisingId, msg.sender, startTime, duration, targetAmount);
+        emit TiersConfigured(fundraisingId, tiers);
+        if (paymentToken != address(0)) {
+            emit PaymentTokenSet(fundraisingId, paymentToken);
+        }
     }
 
-    function setBasePrice(uint256 fundraisingId, NftType nftType, uint256 newBasePrice) external onlyFundraisingModerator(fundraisingId) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
-        require(_updateStatus(fundraising) == Status.CREATION, "Fundraising not in creation");
-        fundraising.basePrices[nftType] = newBasePrice;
+    function setBasePrice(uint256 fundraisingId, uint8 nftType, uint256 newBasePrice) external onlyFundraisingModerator(fundraisingId) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        _requireCreation(fundraising);
+        fundraising.tiers[_tierIndex(fundraising, nftType)].basePrice = newBasePrice;
         emit BasePriceUpdated(fundraisingId, nftType, newBasePrice);
     }
 
+    // @notice Move the start of the raise, keeping its duration
+    function setStartTime(uint256 fundraisingId, uint256 newStartTime) external onlyFundraisingModerator(fundraisingId) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        _requireCreation(fundraising);
+        require(newStartTime <= block.timestamp + maxStartTime, "Start time too late");
+
+        fundraising.targetTime = newStartTime + fundraising.targetTime - fundraising.startTime;
+        fundraising.startTime = newStartTime;
+        emit StartTimeUpdated(fundraisingId, newStartTime);
+    }
+
+    function setDuration(uint256 fundraisingId, uint256 newDuration) external onlyFundraisingModerator(fundraisingId) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        _requireCreation(fundraising);
+        require(newDuration <= maxDuration, "Duration too long");
+
+        fundraising.targetTime = fundraising.startTime + newDuration;
+        emit DurationUpdated(fundraisingId, newDuration);
+    }
+
+    // @dev The target stays within the hard cap, if any
+    function setTargetAmount(uint256 fundraisingId, uint256 newTargetAmount) external onlyFundraisingModerator(fundraisingId) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        _requireCreation(fundraising);
+        require(fundraising.hardCap == 0 || newTargetAmount <= fundraising.hardCap, "Invalid target amount");
+
+        fundraising.targetAmount = newTargetAmount;
+        emit TargetAmountUpdated(fundraisingId, newTargetAmount);
+    }
+
+    function setMaxBuyAmount(uint256 fundraisingId, uint8 nftType, uint256 newMaxBuyAmount) external onlyFundraisingModerator(fundraisingId) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        _requireCreation(fundraising);
+        require(newMaxBuyAmount > 0, "invalid max buy amount");
+
+        fundraising.tiers[_tierIndex(fundraising, nftType)].maxBuyAmount = newMaxBuyAmount;
+        emit MaxBuyAmountUpdated(fundraisingId, nftType, newMaxBuyAmount);
+    }
+
+    // @notice Bound what a single wallet can buy, checked on every contribution and quote
+    function setWalletLimits(uint256 fundraisingId, WalletLimits calldata limits) external onlyFundraisingModerator(fundraisingId) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        _requireCreation(fundraising);
+        require(limits.maxPerWallet.length == fundraising.tiers.length, "Invalid wallet limits");
+
+        fundraising.minContribution = limits.minContribution;
+        fundraising.maxWalletValue = limits.maxWalletValue;
+        for (uint i; i < limits.maxPerWallet.length; i++) {
+            fundraising.maxPerWallet[fundraising.tiers[i].nftType] = limits.maxPerWallet[i];
+        }
+        emit WalletLimitsUpdated(fundraisingId, limits);
+    }
+
+    // @notice Cap the total contribution at `hardCap`, zero for no cap. The purchase reaching it is trimmed to what fits.
+    // @param closeOnHardCap End the raise as SUCCESS once no NFT on sale fits under the hard cap, so claims start early
+    function setHardCap(uint256 fundraisingId, uint256 hardCap, bool closeOnHardCap) external onlyFundraisingModerator(fundraisingId) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        _requireCreation(fundraising);
+        require(hardCap == 0 ? !closeOnHardCap : hardCap >= fundraising.targetAmount, "Invalid hard cap");
+
+        fundraising.hardCap = hardCap;
+        fundraising.closeOnHardCap = closeOnHardCap;
+        emit HardCapUpdated(fundraisingId, hardCap, closeOnHardCap);
+    }
+
+    // @notice Set the price curve of every tier, in the order of the tiers
+    function setPricing(uint256 fundraisingId, Pricing[] calldata pricing) external onlyFundraisingModerator(fundraisingId) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        _requireCreation(fundraising);
+        require(pricing.length == fundraising.tiers.length, "Invalid pricing");
+
+        for (uint i; i < pricing.length; i++) {
+            Tier storage tier = fundraising.tiers[i];
+            if (pricing[i].curve == PriceCurve.DUTCH_AUCTION) {
+                require(pricing[i].interval > 0 && pricing[i].floorPrice <= tier.basePrice, "Invalid pricing");
+            }
+            fundraising.pricing[tier.nftType] = pricing[i];
+        }
+        emit PricingUpdated(fundraisingId, pricing);
+    }
+
+    // @notice Pay referrers `percentage` of the contributions they brought, out of the raised fund and only if the raise succeeds
+    function setReferralPercentage(uint256 fundraisingId, uint256 percentage) external onlyFundraisingModerator(fundraisingId) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        _requireCreation(fundraising);
+        require(percentage <= MAX_PERCENTAGE, "Invalid percentage");
+
+        _referrals[fundraisingId].percentage = percentage;
+        emit ReferralPercentageUpdated(fundraisingId, percentage);
+    }
+
+    // @notice Release the fund to the moderator over time rather than all at once when the raise succeeds
+    function setVesting(uint256 fundraisingId, VestingSchedule calldata schedule) external onlyFundraisingModerator(fundraisingId) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        _requireCreation(fundraising);
+        FundraisingVesting.setSchedule(_vestings[fundraisingId].schedule, schedule);
+        emit VestingUpdated(fundraisingId, schedule);
+    }
+
     function cancelFundraising(uint256 fundraisingId) external onlyFundraisingModerator(fundraisingId) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
-        require(_updateStatus(fundraising) == Status.CREATION, "Fundraising not in creation");
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        _requireCreation(fundraising);
 
         fundraising.status = Status.CANCELLED;
         emit FundraisingCancelled(fundraisingId);
     }
 
+    // @notice Start the timelock after which the moderator may fail their open fundraising with `forceFail`
+    function requestForceFail(uint256 fundraisingId, string calldata reason) external onlyFundraisingModerator(fundraisingId) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        require(_updateStatus(fundraising) == Status.OPEN, "Fundraising not open");
+        require(fundraising.forceFailTime == 0, "Force fail requested");
+
+        fundraising.forceFailTime = block.timestamp + FORCE_FAIL_DELAY;
+        emit ForceFailRequested(fundraisingId, fundraising.forceFailTime, reason);
+    }
+
+    // @notice End an open fundraising as FAILED: contributors get refunded what they paid and the fund is never claimed.
+    // The admin fails it at once, its moderator once the timelock of their request has passed.
+    function forceFail(uint256 fundraisingId, string calldata reason) external {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        if (!hasRole(DEFAULT_ADMIN_ROLE, msg.sender)) {
+            _checkFundraisingModerator(fundraisingId);
+            require(fundraising.forceFailTime != 0 && block.timestamp >= fundraising.forceFailTime, "Timelock not passed");
+        }
+        require(_updateStatus(fundraising) == Status.OPEN, "Fundraising not open");
+
+        fundraising.status = Status.FAILED;
+        emit FundraisingForceFailed(fundraisingId, msg.sender, reason);
+    }
+
     // Whitelist management
     function addToWhitelist(uint256 fundraisingId, address user) external onlyFundraisingModerator(fundraisingId) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
         fundraising.whitelist[user] = true;
         emit WhitelistUpdated(fundraisingId, user, true);
     }
 
     function removeFromWhitelist(uint256 fundraisingId, address user) external onlyFundraisingModerator(fundraisingId) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
         fundraising.whitelist[user] = false;
         emit WhitelistUpdated(fundraisingId, user, false);
     }
 
+    function addToWhitelistBatch(uint256 fundraisingId, address[] calldata users) external onlyFundraisingModerator(fundraisingId) {
+        _updateWhitelist(fundraisingId, users, true);
+    }
+
+    function removeFromWhitelistBatch(uint256 fundraisingId, address[] calldata users) external onlyFundraisingModerator(fundraisingId) {
+        _updateWhitelist(fundraisingId, users, false);
+    }
+
+    function _updateWhitelist(uint256 fundraisingId, address[] calldata users, bool isAdded) private {
+        require(users.length > 0, "Empty whitelist batch");
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        for (uint i; i < users.length; i++) {
+            fundraising.whitelist[users[i]] = isAdded;
+            emit WhitelistUpdated(fundraisingId, users[i], isAdded);
+        }
+    }
+
+    // @notice Whitelist addresses through a Merkle tree instead of storing each of them
+    // @dev Leaves are `keccak256(bytes.concat(keccak256(abi.encode(user))))`, as built by OpenZeppelin's `StandardMerkleTree`.
+    // Set the root to zero to disable proofs; addresses whitelisted in storage stay whitelisted either way.
+    function setWhitelistRoot(uint256 fundraisingId, bytes32 root) external onlyFundraisingModerator(fundraisingId) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        fundraising.whitelistRoot = root;
+        emit WhitelistRootUpdated(fundraisingId, root);
+    }
+
     // Fund claiming
+    // @notice Release to the moderator the part of the fund vested so far, `fundClaimed` being set once all of it is released
     function claimFund(uint256 fundraisingId) external nonReentrant onlyFundraisingModerator(fundraisingId) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
         require(_updateStatus(fundraising) == Status.SUCCESS, "Fundraising not successful");
         require(!fundraising.fundClaimed, "already claimed");
 
-        fundraising.fundClaimed = true;
-        payable(fundraising.moderator).transfer(fundraising.totalContribution);
+        Vesting storage vesting = _vestings[fundraisingId];
+        uint256 fund = _fund(fundraisingId);
+        uint256 amount = FundraisingVesting.vested(fundraising, vesting, fund, block.timestamp) - vesting.released;
+        require(amount > 0, "Nothing vested");
+        vesting.released += amount;
+        fundraising.fundClaimed = vesting.released == fund;
+        _pay(fundraising, fundraising.moderator, amount);
+
+        emit FundClaimed(fundraisingId, msg.sender, amount);
+    }
+
+    // @notice Pay `amount` of the escrowed fund of a GOVERNED fundraising to `to`, as decided by the vote of the governor
+    // @dev Emits `FundClaimed` with `to` as the payee, be it the moderator or a backer reclaiming the fund of a failed vote
+    function payGovernedFund(uint256 fundraisingId, address to, uint256 amount) external nonReentrant {
+        require(msg.sender == governor, "only governor");
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        require(_updateStatus(fundraising) == Status.SUCCESS, "Fundraising not successful");
+        Vesting storage vesting = _vestings[fundraisingId];
+        require(vesting.schedule.kind == ReleaseKind.GOVERNED, "Fund not governed");
+        uint256 fund = _fund(fundraisingId);
+        require(vesting.released + amount <= fund, "Exceeds fund");
+
+        vesting.released += amount;
+        fundraising.fundClaimed = vesting.released == fund;
+        _pay(fundraising, to, amount);
 
-        emit FundClaimed(fundraisingId, msg.sender, fundraising.totalContribution);
+        emit FundClaimed(fundraisingId, to, amount);
+    }
+
+    // @notice Referrer claims the rewards of the contributions they brought to a successful fundraising
+    function claimReferralReward(uint256 fundraisingId) external nonReentrant {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        require(_updateStatus(fundraising) == Status.SUCCESS, "Fundraising not successful");
+        Referrals storage referrals = _referrals[fundraisingId];
+        uint256 amount = referrals.rewards[msg.sender];
+        require(amount > 0, "No referral reward");
+
+        referrals.rewards[msg.sender] = 0;
+        _pay(fundraising, msg.sender, amount);
+
+        emit ReferralRewardClaimed(fundraisingId, msg.sender, amount);
     }
 
     /**
@@ -198,152 +597,190 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
      */
 
     struct BuyAmount {
-        NftType nftType;
+        uint8 nftType;
         uint256 amount;
     }
 
+    // EIP-2612 permit signed by the contributor for this contract
+    struct PermitSignature {
+        uint256 value;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
     // Contribution logic
     function contribute(uint256 fundraisingId, uint256 number) external payable nonReentrant {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
-        require(_updateStatus(fundraising) == Status.OPEN, "Not open");
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        _contribute(fundraisingId, number, fundraising.whitelist[msg.sender]);
+    }
 
-        BuyAmount[] memory amounts;
-        uint256 totalValue;
+    // @notice Contribute with a Merkle proof that the sender is whitelisted
+    // @dev The proof is only checked when the sender is not already whitelisted in storage.
+    function contributeWithProof(uint256 fundraisingId, uint256 number, bytes32[] calldata proof) external payable nonReentrant {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        bool userWhitelisted = fundraising.whitelist[msg.sender] || _verifyWhitelistProof(fundraising, msg.sender, proof);
+        _contribute(fundraisingId, number, userWhitelisted);
+    }
 
-        (amounts, totalValue) = _determineBuyAmounts(fundraising, number, block.timestamp);
-        require(msg.value >= totalValue, "Invalid value");
+    // @notice Contribute on behalf of `referrer`, who then earns the referral percentage of this and later contributions
+    // @dev The first referrer of a contributor sticks: later ones are ignored. `proof` may be empty, as in `contributeWithPermit`.
+    function contributeWithReferrer(uint256 fundraisingId, uint256 number, bytes32[] calldata proof, address referrer) external payable nonReentrant {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        require(referrer != msg.sender, "Invalid referrer");
+        Referrals storage referrals = _referrals[fundraisingId];
+        if (referrals.referrers[msg.sender] == address(0)) {
+            referrals.referrers[msg.sender] = referrer;
+        }
+        bool userWhitelisted = fundraising.whitelist[msg.sender] || _verifyWhitelistProof(fundraising, msg.sender, proof);
+        _contribute(fundraisingId, number, userWhitelisted);
+    }
+
+    // @notice Contribute to an ERC-20 fundraising, approving the payment token with a permit in the same transaction
+    // @dev `proof` is only checked when the sender is not whitelisted in storage and may be empty.
+    // A failing permit is ignored, e.g. when it was front-run, the transfer then relies on the current allowance.
+    function contributeWithPermit(
+        uint256 fundraisingId,
+        uint256 number,
+        bytes32[] calldata proof,
+        PermitSignature calldata permit
+    ) external nonReentrant {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        require(address(fundraising.paymentToken) != address(0), "Not a token fundraising");
+        try IERC20Permit(address(fundraising.paymentToken)).permit(
+            msg.sender, address(this), permit.value, permit.deadline, permit.v, permit.r, permit.s
+        ) {} catch {}
+
+        bool userWhitelisted = fundraising.whitelist[msg.sender] || _verifyWhitelistProof(fundraising, msg.sender, proof);
+        _contribute(fundraisingId, number, userWhitelisted);
+    }
+
+    function _contribute(uint256 fundraisingId, uint256 number, bool userWhitelisted) private {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        require(_updateStatus(fundraising) == Status.OPEN, "Not open");
 
         User storage user = fundraising.users[msg.sender];
-        bool userWhitelisted = fundraising.whitelist[msg.sender];
+        (BuyAmount[] memory amounts, uint256 totalValue, bool whitelistOnly) = FundraisingPricing.determineBuyAmounts(fundraising, user, number, block.timestamp);
+        bool isNative = address(fundraising.paymentToken) == address(0);
+        // token fundraisings take no native currency, the total value is transferred from the sender instead
+        require(isNative ? msg.value >= totalValue : msg.value == 0, "Invalid value");
+        require(userWhitelisted || !whitelistOnly, "Not whitelisted");
+
         for (uint i; i < amounts.length; i++) {
             uint256 amount = amounts[i].amount;
             if (amount == 0) {
                 continue;
             }
 
-            NftType nftType = amounts[i].nftType;
-            require(userWhitelisted || nftType != NftType.LEGENDARY, "Not whitelisted");            
+            uint8 nftType = amounts[i].nftType;
+            // priced before `boughtAmounts` moves the curve
+            user.paid[nftType] += FundraisingPricing.tierCost(fundraising, _tierIndex(fundraising, nftType), amount, block.timestamp);
             user.contributions[nftType] += amount;
             user.totalContribution += amount; 
             fundraising.boughtAmounts[nftType] += amount;
         }
 
         user.totalValue += totalValue;
+        user.payments.push(totalValue);
         fundraising.totalContribution += totalValue;
 
-        // refund if overpaid
-        if (msg.value > totalValue) {
+        if (!isNative) {
+            fundraising.paymentToken.safeTransferFrom(msg.sender, address(this), totalValue);
+        } else if (msg.value > totalValue) {
+            // refund if overpaid
             payable(msg.sender).transfer(msg.value - totalValue);
         }
 
         emit ContributionMade(fundraisingId, msg.sender, amounts);
+        _accrueReferralReward(fundraisingId, totalValue);
+    }
+
+    // @dev Accrue the reward of the referrer the sender is attributed to, if any, on a contribution of `value`
+    function _accrueReferralReward(uint256 fundraisingId, uint256 value) private {
+        Referrals storage referrals = _referrals[fundraisingId];
+        address referrer = referrals.referrers[msg.sender];
+        if (referrer == address(0)) {
+            return;
+        }
+        uint256 reward = value * referrals.percentage / MAX_PERCENTAGE;
+        referrals.rewards[referrer] += reward;
+        referrals.totalRewards += reward;
+        emit ReferralRecorded(fundraisingId, msg.sender, referrer, value, reward);
+    }
+
+    function _verifyWhitelistProof(Fundraising storage fundraising, address user, bytes32[] calldata proof) private view returns (bool) {
+        bytes32 root = fundraising.whitelistRoot;
+        if (root == bytes32(0)) {
+            return false;
+        }
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(user))));
+        return MerkleProof.verifyCalldata(proof, root, leaf);
     }
 
     // @notice Determine the NFT type to buy based on the number of NFTs and the current time
     // @dev This function is called by the user to determine the NFT type to buy based on the number of NFTs and the current time
     // @param timestamp The front-end should pass the current timestamp, as the `contribute()` method always uses `block.timestamp`.
     // Many eth-client treat `block.timestamp` as zero in view functions, so the front-end should pass the current timestamp.
+    // Wallet limits are checked as for a wallet that has not contributed yet, see `determineBuyAmountsFor`.
     function determineBuyAmounts(uint256 fundraisingId, uint256 number, uint256 timestamp) public view returns (BuyAmount[] memory amounts, uint256 totalValue) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
-        return _determineBuyAmounts(fundraising, number, timestamp);
+        return determineBuyAmountsFor(fundraisingId, address(0), number, timestamp);
     }
 
-    function _determineBuyAmounts(Fundraising storage fundraising, uint256 number, uint256 timestamp) private view returns (BuyAmount[] memory amounts, uint256 totalValue) {
-        require(number > 0, "Invalid number");        
-        
-        amounts = new BuyAmount[](4);
-        totalValue = 0;
-
-        // cache to memory
-        uint256[] memory boughtAmounts = new uint256[](4);
-        uint256[] memory maxBuyAmounts = new uint256[](4);
-        for (uint8 i = uint8(NftType.COMMON); i <= uint8(NftType.LEGENDARY); i++) {
-            NftType cType = NftType(i);
-            boughtAmounts[i] = fundraising.boughtAmounts[cType];
-            maxBuyAmounts[i] = fundraising.maxBuyAmounts[cType];
-        }
-
-        // calculate elapsed time
-        uint256 elapsed = timestamp - fundraising.startTime;
-        uint256 accum = 0;
-        uint256 counter = 0;
-
-        // loop through NFT types from legendary to common
-        // and determine the amount to buy for each type
-        // if the elapsed time is within the duration of the NFT type and the user has not bought the maximum amount
-        // then the user can buy the NFT type, otherwise, move to the next type
-        for (uint8 i = uint8(NftType.LEGENDARY); i >= uint8(NftType.COMMON); i--) {
-            NftType cType = NftType(i);
-            accum += nftDurations[cType];
-            if (elapsed < accum) {
-                for (uint8 j = i; j >= uint8(NftType.COMMON); j--) {
-                    NftType jType = NftType(j);
-                    uint256 remaining =  maxBuyAmounts[j] - boughtAmounts[j];
-                    uint256 toBuy = number > remaining ? remaining : number;
-                    if (toBuy == 0) {
-                        continue;
-                    }
-                    amounts[counter++] = BuyAmount(jType, toBuy);
-                    totalValue += toBuy * fundraising.basePrices[jType];
-                    number -= toBuy;
-
-                    if (number == 0) {
-                        // set length of `amounts` to non-zero values
-                        assembly {
-                            mstore(amounts, counter)
-                        }
-                        return (amounts, totalValue);
-                    }
-                }
-            }
-        }
-
-        // if the timestamp is in the last open phase, the user can only buy common NFTs
-        amounts[0] = BuyAmount(NftType.COMMON, number);
-        totalValue = number * fundraising.basePrices[NftType.COMMON];
-        assembly {
-            mstore(amounts, 1)
-        }
-        return (amounts, totalValue);
+    // @notice Same as `determineBuyAmounts`, checking the wallet limits against what `user` already contributed
+    function determineBuyAmountsFor(uint256 fundraisingId, address user, uint256 number, uint256 timestamp) public view returns (BuyAmount[] memory amounts, uint256 totalValue) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        (amounts, totalValue, ) = FundraisingPricing.determineBuyAmounts(fundraising, fundraising.users[user], number, timestamp);
     }
 
     // @notice User claim refund 
     // @dev User can claim their refund if "fundraising is canceled" or "target is not reached and fundraising is over"
     function refund(uint256 fundraisingId) external nonReentrant {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
         require(_updateStatus(fundraising) == Status.FAILED, "fundraising not failed");
         User storage user = fundraising.users[msg.sender];
         require(!user.refunded, "Already refunded");
 
-        uint256 refundAmount;
-        for (uint8 i = uint8(NftType.COMMON); i <= uint8(NftType.LEGENDARY); i++) {
-            NftType cType = NftType(i);
-            refundAmount += user.contributions[cType] * fundraising.basePrices[cType];
-        }
+        uint256 refundAmount = _paidAmount(fundraising, user);
         require(refundAmount > 0, "No refund available");
 
         user.refunded = true;
-        payable(msg.sender).transfer(refundAmount);
+        _pay(fundraising, msg.sender, refundAmount);
 
         emit RefundClaimed(fundraisingId, msg.sender, refundAmount);
     }
 
+    // @dev Value the user paid for the tiers of the fundraising, as recorded in their ledger.
+    // Price curves and base price updates make it differ from the current prices of what they bought.
+    // Contributions made before the upgrade introducing the ledger are only counted in `totalValue`, not in `payments`.
+    function _paidAmount(Fundraising storage fundraising, User storage user) private view returns (uint256 paid) {
+        uint256 unrecorded = user.totalValue;
+        for (uint i; i < user.payments.length; i++) {
+            unrecorded -= user.payments[i];
+        }
+        for (uint i; i < fundraising.tiers.length; i++) {
+            paid += user.paid[fundraising.tiers[i].nftType];
+        }
+        paid += unrecorded;
+    }
+
     // @notice User claim NFTs after fundraising is over
     // @dev This function is called by the user to claim their NFTs after the target is reached and the fundraising is over.
-    // If there is `out-of-gas` issue, use `claimNft(uint256, uint amount)` instead.
+    // Each tier is minted in one `PeaqNFT.mintTaggedBatch`, tagged with the fundraising ID, whose cost per token is mostly its `Transfer` event.
+    // For thousands of NFTs, use `claimNft(uint256, uint amount)` to stay within the block gas limit.
     function claimAllNft(uint256 fundraisingId) external nonReentrant {
         _claimNft(fundraisingId, type(uint256).max);
     }
 
-    // @notice User claim NFTs in batches to avoid out-of-gas issues
-    // @dev This function is called by the user to claim a specific amount of NFTs sequentially from common to legendary type.
+    // @notice User claim NFTs in batches to stay within the block gas limit
+    // @dev This function is called by the user to claim a specific amount of NFTs sequentially from the last tier to the first one.
     function claimNft(uint256 fundraisingId, uint256 amount) external nonReentrant {
         _claimNft(fundraisingId, amount);        
     }
 
     // @dev Internal function to claim NFTs
     function _claimNft(uint256 fundraisingId, uint256 amount) internal {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
         require(_updateStatus(fundraising) == Status.SUCCESS, "Raise not success");
 
         User storage user = fundraising.users[msg.sender];
@@ -352,8 +789,8 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
         uint256 claimed = user.claimedCount;
         uint256 accumContribution;
         uint256 totalContribution = user.totalContribution;
-        for (uint8 i = uint8(NftType.COMMON); i <= uint8(NftType.LEGENDARY); i++) {
-            NftType cType = NftType(i);
+        for (uint i = fundraising.tiers.length; i > 0; i--) {
+            uint8 cType = fundraising.tiers[i - 1].nftType;
             // Check if user has any contribution for the NFT type
             accumContribution += user.contributions[cType];
             int256 available = int256(accumContribution) - int256(claimed);
@@ -361,7 +798,7 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
             if (available > 0) {
                 // Claim the minimum of the available NFTs and the requested amount
                 uint256 toClaim = uint256(available) > amount ? amount : uint256(available);
-                nftContract.mint(msg.sender, cType, uint16(toClaim));
+                nftContract.mintTaggedBatch(msg.sender, cType, toClaim, fundraisingId);
                 claimed += toClaim;
                 amount -= toClaim;
 
@@ -381,12 +818,28 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
         emit NftClaimed(fundraisingId, msg.sender);
     }
 
+    // Settings of a fundraising only change before it starts
+    function _requireCreation(Fundraising storage fundraising) private {
+        require(_updateStatus(fundraising) == Status.CREATION, "Fundraising not in creation");
+    }
+
     function _updateStatus(Fundraising storage fundraising) internal returns (Status) {
+        _requireActive(fundraising);
         Status status = _calcStatus(fundraising);
         fundraising.status = status;
         return status;
     }
 
+    function _requireNotPaused() private view {
+        require(!pausedFunctions[msg.sig], "Function paused");
+    }
+
+    // @dev Every entry point acting on a fundraising checks it, through `_updateStatus` or the moderator check
+    function _requireActive(Fundraising storage fundraising) private view {
+        _requireNotPaused();
+        require(!fundraising.frozen, "Fundraising frozen");
+    }
+
     function _calcStatus(Fundraising storage fundraising) internal view returns (Status) {
         if (fundraising.status == Status.CANCELLED || fundraising.status == Status.FAILED || fundraising.status == Status.SUCCESS) {
             return fundraising.status;
@@ -401,6 +854,9 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
         }
 
         if (block.timestamp >= fundraising.startTime) {
+            if (fundraising.closeOnHardCap && isTargetReached(fundraising) && FundraisingPricing.isHardCapReached(fundraising)) {
+                return Status.SUCCESS;
+            }
             return Status.OPEN;
         }
 
@@ -411,12 +867,54 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
         return fundraising.totalContribution >= fundraising.targetAmount;
     }
 
+    // @dev Sends `amount` of the payment token of the fundraising, or of native currency
+    function _pay(Fundraising storage fundraising, address to, uint256 amount) private {
+        if (address(fundraising.paymentToken) == address(0)) {
+            payable(to).transfer(amount);
+        } else {
+            fundraising.paymentToken.safeTransfer(to, amount);
+        }
+    }
+
+    // @dev Fund of the moderator: referral rewards stay in the contract until their referrers claim them
+    function _fund(uint256 fundraisingId) private view returns (uint256) {
+        return _fundraisings[fundraisingId].totalContribution - _referrals[fundraisingId].totalRewards;
+    }
+
+    function _findTier(Fundraising storage fundraising, uint8 nftType) private view returns (bool found, uint256 index) {
+        for (uint i; i < fundraising.tiers.length; i++) {
+            if (fundraising.tiers[i].nftType == nftType) {
+                return (true, i);
+            }
+        }
+    }
+
+    function _tierIndex(Fundraising storage fundraising, uint8 nftType) private view returns (uint256) {
+        (bool found, uint256 index) = _findTier(fundraising, nftType);
+        require(found, "Unknown tier");
+        return index;
+    }
+
     /**
      * GETTER FUNCTIONS
      */
     
+    // @notice When the moderator may fail the fundraising with `forceFail`, zero if they did not request it
+    function getForceFailTime(uint256 fundraisingId) external view returns (uint256) {
+        return _fundraisings[fundraisingId].forceFailTime;
+    }
+
+    function isFrozen(uint256 fundraisingId) external view returns (bool) {
+        return _fundraisings[fundraisingId].frozen;
+    }
+
+    // @notice Number of fundraisings created, their IDs go from zero to this number excluded
+    function getFundraisingCount() external view returns (uint256) {
+        return _fundraisingIdCounter.current();
+    }
+
     function getFundraisingStatus(uint256 fundraisingId) external view returns (Status) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
         return _calcStatus(fundraising);
     }
 
@@ -427,36 +925,97 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
         uint256 targetAmount;
         uint256 totalContribution;
         bool fundClaimed;
+        address paymentToken; // zero address for native currency
+        uint256 hardCap; // zero for no cap
+        bool closeOnHardCap;
     }
 
     function getFundraising(uint256 fundraisingId) external view returns (FundraisingInfo memory) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
         FundraisingInfo memory info = FundraisingInfo(
             fundraising.moderator,
             fundraising.startTime,
             fundraising.targetTime,
             fundraising.targetAmount,
             fundraising.totalContribution,
-            fundraising.fundClaimed
+            fundraising.fundClaimed,
+            address(fundraising.paymentToken),
+            fundraising.hardCap,
+            fundraising.closeOnHardCap
         );
         return info;
     }
 
-    function getFundraisingBasePrice(uint256 fundraisingId, NftType nftType) external view returns (uint256) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
-        return fundraising.basePrices[nftType];
+    // @notice Fields of a fundraising the public `fundraisings` mapping served before new ones made its getter too large.
+    // `status` is the stored one, `getFundraisingStatus` the one at the time of the call.
+    function fundraisings(uint256 fundraisingId) external view returns (
+        address moderator,
+        uint256 startTime,
+        uint256 targetTime,
+        uint256 targetAmount,
+        Status status,
+        uint256 totalContribution,
+        bool fundClaimed
+    ) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        return (
+            fundraising.moderator,
+            fundraising.startTime,
+            fundraising.targetTime,
+            fundraising.targetAmount,
+            fundraising.status,
+            fundraising.totalContribution,
+            fundraising.fundClaimed
+        );
+    }
+
+    function getFundraisingTiers(uint256 fundraisingId) external view returns (Tier[] memory) {
+        return _fundraisings[fundraisingId].tiers;
     }
 
-    function getFundraisingMaxBuyAmount(uint256 fundraisingId, NftType nftType) external view returns (uint256) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
-        return fundraising.maxBuyAmounts[nftType];
+    // @dev Returns zero for NFT types the fundraising does not sell, like the two getters below
+    function getFundraisingBasePrice(uint256 fundraisingId, uint8 nftType) external view returns (uint256) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        (bool found, uint256 index) = _findTier(fundraising, nftType);
+        return found ? fundraising.tiers[index].basePrice : 0;
     }
 
-    function getFundraisingBoughtAmount(uint256 fundraisingId, NftType nftType) external view returns (uint256) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
+    function getFundraisingMaxBuyAmount(uint256 fundraisingId, uint8 nftType) external view returns (uint256) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        (bool found, uint256 index) = _findTier(fundraising, nftType);
+        return found ? fundraising.tiers[index].maxBuyAmount : 0;
+    }
+
+    function getFundraisingBoughtAmount(uint256 fundraisingId, uint8 nftType) external view returns (uint256) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
         return fundraising.boughtAmounts[nftType];
     }
 
+    // @notice Pricing of every tier, in the order of the tiers
+    function getPricing(uint256 fundraisingId) external view returns (Pricing[] memory pricing) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        pricing = new Pricing[](fundraising.tiers.length);
+        for (uint i; i < pricing.length; i++) {
+            pricing[i] = fundraising.pricing[fundraising.tiers[i].nftType];
+        }
+    }
+
+    // @notice Price of the next NFT of a tier at `timestamp`, following the price curve of the tier
+    function getUnitPrice(uint256 fundraisingId, uint8 nftType, uint256 timestamp) external view returns (uint256) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        return FundraisingPricing.tierCost(fundraising, _tierIndex(fundraising, nftType), 1, timestamp);
+    }
+
+    function getWalletLimits(uint256 fundraisingId) external view returns (WalletLimits memory limits) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        limits.minContribution = fundraising.minContribution;
+        limits.maxWalletValue = fundraising.maxWalletValue;
+        limits.maxPerWallet = new uint256[](fundraising.tiers.length);
+        for (uint i; i < fundraising.tiers.length; i++) {
+            limits.maxPerWallet[i] = fundraising.maxPerWallet[fundraising.tiers[i].nftType];
+        }
+    }
+
     struct UserContribution {
         uint256 totalValue;
         uint256 totalContribution;
@@ -467,7 +1026,7 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
     }
 
     function getUserContribution(uint256 fundraisingId, address user) external view returns (UserContribution memory) {
-        Fundraising storage $fundraising = fundraisings[fundraisingId];
+        Fundraising storage $fundraising = _fundraisings[fundraisingId];
         User storage $user = $fundraising.users[user];
         return UserContribution(
             $user.totalValue,
@@ -480,13 +1039,78 @@ contract FundraisingCenter is AccessControl, ReentrancyGuard, NftTypes {
     }
 
     function getUserWhitelisted(uint256 fundraisingId, address user) external view returns (bool) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
         return fundraising.whitelist[user];
     }
 
-    function getUserContributionByType(uint256 fundraisingId, address user, NftType nftType) external view returns (uint256) {
-        Fundraising storage fundraising = fundraisings[fundraisingId];
+    function getWhitelistRoot(uint256 fundraisingId) external view returns (bytes32) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        return fundraising.whitelistRoot;
+    }
+
+    // @notice Whether `user` may buy legendary NFTs, either from storage or with a Merkle `proof`
+    function isWhitelisted(uint256 fundraisingId, address user, bytes32[] calldata proof) external view returns (bool) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        return fundraising.whitelist[user] || _verifyWhitelistProof(fundraising, user, proof);
+    }
+
+    function getUserContributionByType(uint256 fundraisingId, address user, uint8 nftType) external view returns (uint256) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
         User storage $user = fundraising.users[user];
         return $user.contributions[nftType];
     }
+
+    // @notice Referral percentage of the fundraising, and the rewards accrued to all referrers so far
+    function getReferralInfo(uint256 fundraisingId) external view returns (uint256 percentage, uint256 totalRewards) {
+        Referrals storage referrals = _referrals[fundraisingId];
+        return (referrals.percentage, referrals.totalRewards);
+    }
+
+    // @notice Referrer a contributor is attributed to, zero for none
+    function getReferrer(uint256 fundraisingId, address user) external view returns (address) {
+        return _referrals[fundraisingId].referrers[user];
+    }
+
+    // @notice Reward accrued to a referrer and not claimed yet
+    function getReferralReward(uint256 fundraisingId, address referrer) external view returns (uint256) {
+        return _referrals[fundraisingId].rewards[referrer];
+    }
+
+    function getVesting(uint256 fundraisingId) external view returns (VestingSchedule memory) {
+        return _vestings[fundraisingId].schedule;
+    }
+
+    // @notice Part of the fund released to the moderator so far, the part `claimFund` would release now and what is left to release
+    function getFundRelease(uint256 fundraisingId) external view returns (uint256 released, uint256 releasable, uint256 remaining) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        Vesting storage vesting = _vestings[fundraisingId];
+        uint256 fund = _fund(fundraisingId);
+        released = vesting.released;
+        if (_calcStatus(fundraising) == Status.SUCCESS) {
+            releasable = FundraisingVesting.vested(fundraising, vesting, fund, block.timestamp) - released;
+        }
+        remaining = fund - released;
+    }
+
+    // @notice Part of the current fund the release schedule vests by `timestamp`, whether the raise succeeds or not
+    function getVestedFund(uint256 fundraisingId, uint256 timestamp) external view returns (uint256) {
+        return FundraisingVesting.vested(_fundraisings[fundraisingId], _vestings[fundraisingId], _fund(fundraisingId), timestamp);
+    }
+
+    // @notice Value the user paid for the NFTs of a tier
+    function getUserPaidByType(uint256 fundraisingId, address user, uint8 nftType) external view returns (uint256) {
+        return _fundraisings[fundraisingId].users[user].paid[nftType];
+    }
+
+    // @notice Value of each contribution of the user, in order
+    function getUserPayments(uint256 fundraisingId, address user) external view returns (uint256[] memory) {
+        return _fundraisings[fundraisingId].users[user].payments;
+    }
+
+    // @notice Amount `refund` pays the user if the fundraising fails, zero once refunded
+    function getRefundAmount(uint256 fundraisingId, address user) external view returns (uint256) {
+        Fundraising storage fundraising = _fundraisings[fundraisingId];
+        User storage $user = fundraising.users[user];
+        return $user.refunded ? 0 : _paidAmount(fundraising, $user);
+    }
 }
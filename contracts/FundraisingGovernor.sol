@@ -0,0 +1,404 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+
+import { FundraisingCenter } from "./Fundraising.sol";
+import { PeaqNFT, NftTypes } from "./PeaqNFT.sol";
+
+// Lets PeaqNFT holders vote on the release of the fund of GOVERNED fundraisings, which `FundraisingCenter` keeps in escrow.
+// The moderator proposes the next tranche of the release schedule once its delay has passed, holders of the tokens of the
+// fundraising vote with the ones they held when it was proposed, weighted by tier. Tokens not claimed by then vote for the
+// backer who claims them. A proposal passes with a quorum of the weight of the NFTs the fundraising sold and more votes for
+// than against: the tranche is paid to the moderator. A failed proposal ends the release, as does a tranche the moderator
+// does not propose within `proposalTimeout`: holders reclaim the rest of the fund by the weight of their tokens.
+contract FundraisingGovernor is AccessControlUpgradeable, ReentrancyGuardUpgradeable, NftTypes {
+    uint256 public constant MAX_PERCENTAGE = 100_00; // denotes 100.00%, like `PeaqNFT.MAX_PERCENTAGE`
+    uint256 public constant MAX_TIERS = 16;
+
+    enum ProposalState {
+        ACTIVE,
+        SUCCEEDED,
+        DEFEATED
+    }
+
+    struct Proposal {
+        uint256 fundraisingId;
+        uint256 tranche; // index of the tranche in the release schedule
+        uint256 amount;
+        uint256 deadline; // votes are cast until then
+        uint256 quorum; // voting weight to reach, votes for and against both count
+        uint256 forVotes;
+        uint256 againstVotes;
+        bool executed;
+        uint256 snapshotId; // voting power on the proposal
+    }
+
+    // Release of the fund of one fundraising
+    struct Release {
+        uint256 nextTranche;
+        bool pending; // a proposal awaits its execution
+        bool revoked; // a proposal failed, holders reclaim the rest of the fund
+        uint256 reclaimable; // rest of the fund when the release was revoked
+        mapping(uint256 => bool) reclaimed; // token ID => whether the share of the token was reclaimed
+        uint256 executedAt; // when the last proposal was executed, the next tranche is overdue `proposalTimeout` after it at the earliest
+        uint256 snapshotId; // shares of the fund left, the snapshot of the failed proposal or of the revocation
+    }
+
+    // Voting power over the fund of a fundraising, fixed when a proposal is made or a release revoked
+    struct Snapshot {
+        // Tokens count for the account holding them at the end of this block, the one before the snapshot.
+        // Tokens claimed since count for the backer who claimed them, see `PeaqNFT.getPastOwner`.
+        uint256 blockNumber;
+        uint256 weight; // weight of the NFTs the fundraising sold
+        mapping(uint8 => uint256) weights; // NFT type => weight of one token
+    }
+
+    FundraisingCenter public fundraisingCenter;
+    PeaqNFT public nftContract;
+    uint256 public votingPeriod;
+    uint256 public quorumPercentage; // out of MAX_PERCENTAGE of the total voting weight
+    // NFT types with a voting weight, and the weight of one token of each
+    uint8[] private _tiers;
+    mapping(uint8 => uint256) public tierWeights;
+    Proposal[] private _proposals;
+    // proposal ID => token ID => whether the token voted
+    mapping(uint256 => mapping(uint256 => bool)) public hasVoted;
+    mapping(uint256 => Release) private _releases;
+    // Time the moderator has to propose a due tranche before anyone can revoke the release
+    uint256 public proposalTimeout;
+    Snapshot[] private _snapshots;
+
+    // Reserved slots for state variables added by upgrades
+    uint256[48] private __gap;
+
+    event VotingPeriodUpdated(uint256 votingPeriod);
+    event QuorumPercentageUpdated(uint256 quorumPercentage);
+    event ProposalTimeoutUpdated(uint256 proposalTimeout);
+    event TierWeightsUpdated(uint8[] tiers, uint256[] weights);
+    event ProposalCreated(uint256 indexed proposalId, uint256 indexed fundraisingId, uint256 tranche, uint256 amount, uint256 deadline, uint256 quorum);
+    event VoteCast(uint256 indexed proposalId, address indexed voter, bool support, uint256[] tokenIds, uint256 weight);
+    event ProposalExecuted(uint256 indexed proposalId, bool passed);
+    event ReleaseRevoked(uint256 indexed fundraisingId, uint256 reclaimable);
+    event FundReclaimed(uint256 indexed fundraisingId, address indexed holder, uint256[] tokenIds, uint256 amount);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        address fundraisingCenterAddress,
+        uint256 _votingPeriod,
+        uint256 _quorumPercentage,
+        uint256 _proposalTimeout,
+        uint8[] calldata tiers,
+        uint256[] calldata weights
+    ) public initializer {
+        __AccessControl_init();
+        __ReentrancyGuard_init();
+        _setupRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        fundraisingCenter = FundraisingCenter(fundraisingCenterAddress);
+        nftContract = fundraisingCenter.nftContract();
+        _setVotingPeriod(_votingPeriod);
+        _setQuorumPercentage(_quorumPercentage);
+        _setProposalTimeout(_proposalTimeout);
+        _setTierWeights(tiers, weights);
+    }
+
+    /**
+     * DEFAULT ADMIN FUNCTIONS
+     */
+
+    // @notice Later proposals use the new settings, proposals already made keep theirs
+    function setVotingPeriod(uint256 _votingPeriod) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setVotingPeriod(_votingPeriod);
+    }
+
+    function setQuorumPercentage(uint256 _quorumPercentage) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setQuorumPercentage(_quorumPercentage);
+    }
+
+    // @notice Applies to the tranches not proposed yet, also to the ones already due
+    function setProposalTimeout(uint256 _proposalTimeout) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setProposalTimeout(_proposalTimeout);
+    }
+
+    // @notice Set the NFT types holders vote with and the weight of one token of each, replacing the previous ones
+    // @dev Proposals already made and revoked releases keep the weights of their snapshot
+    function setTierWeights(uint8[] calldata tiers, uint256[] calldata weights) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setTierWeights(tiers, weights);
+    }
+
+    function _setVotingPeriod(uint256 _votingPeriod) private {
+        require(_votingPeriod > 0, "Invalid voting period");
+        votingPeriod = _votingPeriod;
+        emit VotingPeriodUpdated(_votingPeriod);
+    }
+
+    function _setQuorumPercentage(uint256 _quorumPercentage) private {
+        require(_quorumPercentage <= MAX_PERCENTAGE, "Invalid quorum");
+        quorumPercentage = _quorumPercentage;
+        emit QuorumPercentageUpdated(_quorumPercentage);
+    }
+
+    function _setProposalTimeout(uint256 _proposalTimeout) private {
+        require(_proposalTimeout > 0, "Invalid proposal timeout");
+        proposalTimeout = _proposalTimeout;
+        emit ProposalTimeoutUpdated(_proposalTimeout);
+    }
+
+    function _setTierWeights(uint8[] calldata tiers, uint256[] calldata weights) private {
+        require(tiers.length <= MAX_TIERS && tiers.length == weights.length, "Invalid tier count");
+        for (uint i; i < _tiers.length; i++) {
+            delete tierWeights[_tiers[i]];
+        }
+        uint256 seenTypes; // bitmap of the NFT types already listed
+        for (uint i; i < tiers.length; i++) {
+            require(tiers[i] != NONE && seenTypes & (uint256(1) << tiers[i]) == 0, "Invalid tier type");
+            seenTypes |= uint256(1) << tiers[i];
+            tierWeights[tiers[i]] = weights[i];
+        }
+        _tiers = tiers;
+        emit TierWeightsUpdated(tiers, weights);
+    }
+
+    /**
+     * GOVERNANCE FUNCTIONS
+     */
+
+    // @notice Moderator proposes to release the next tranche of the fund of a successful GOVERNED fundraising
+    function propose(uint256 fundraisingId) external returns (uint256 proposalId) {
+        require(fundraisingCenter.getFundraising(fundraisingId).moderator == msg.sender, "only moderator");
+        (Release storage release, FundraisingCenter.VestingSchedule memory schedule, uint256 dueTime) = _nextTranche(fundraisingId);
+        require(block.timestamp >= dueTime, "Tranche not due");
+        FundraisingCenter.Tranche memory tranche = schedule.tranches[release.nextTranche];
+
+        // the last tranche pays whatever the rounding of the previous ones left
+        (uint256 released, , uint256 remaining) = fundraisingCenter.getFundRelease(fundraisingId);
+        uint256 amount = release.nextTranche == schedule.tranches.length - 1
+            ? remaining
+            : (released + remaining) * tranche.percentage / MAX_PERCENTAGE;
+
+        release.pending = true;
+        uint256 snapshotId = _takeSnapshot(fundraisingId);
+        proposalId = _proposals.length;
+        _proposals.push(Proposal({
+            fundraisingId: fundraisingId,
+            tranche: release.nextTranche,
+            amount: amount,
+            deadline: block.timestamp + votingPeriod,
+            quorum: _snapshots[snapshotId].weight * quorumPercentage / MAX_PERCENTAGE,
+            forVotes: 0,
+            againstVotes: 0,
+            executed: false,
+            snapshotId: snapshotId
+        }));
+        emit ProposalCreated(proposalId, fundraisingId, release.nextTranche, amount, block.timestamp + votingPeriod, _proposals[proposalId].quorum);
+    }
+
+    // @notice Vote with tokens of the fundraising the sender held at the snapshot of the proposal, or claimed since,
+    // with the weights of the snapshot. Each token votes once per proposal: tokens bought since vote with their former holder.
+    function castVote(uint256 proposalId, uint256[] calldata tokenIds, bool support) external {
+        Proposal storage proposal = _proposal(proposalId);
+        require(block.timestamp < proposal.deadline, "Vote closed");
+
+        uint256 weight = _holderWeight(_snapshots[proposal.snapshotId], proposal.fundraisingId, tokenIds);
+        require(weight > 0, "No voting power");
+        for (uint i; i < tokenIds.length; i++) {
+            require(!hasVoted[proposalId][tokenIds[i]], "Already voted");
+            hasVoted[proposalId][tokenIds[i]] = true;
+        }
+
+        if (support) {
+            proposal.forVotes += weight;
+        } else {
+            proposal.againstVotes += weight;
+        }
+        emit VoteCast(proposalId, msg.sender, support, tokenIds, weight);
+    }
+
+    // @notice Once the vote is closed, pay the tranche to the moderator if the proposal passed, or let holders reclaim the fund
+    function execute(uint256 proposalId) external nonReentrant {
+        Proposal storage proposal = _proposal(proposalId);
+        ProposalState proposalState = state(proposalId);
+        require(proposalState != ProposalState.ACTIVE, "Vote not closed");
+        require(!proposal.executed, "Already executed");
+
+        proposal.executed = true;
+        Release storage release = _releases[proposal.fundraisingId];
+        release.pending = false;
+        release.executedAt = block.timestamp;
+        bool passed = proposalState == ProposalState.SUCCEEDED;
+        if (passed) {
+            release.nextTranche++;
+            address moderator = fundraisingCenter.getFundraising(proposal.fundraisingId).moderator;
+            fundraisingCenter.payGovernedFund(proposal.fundraisingId, moderator, proposal.amount);
+        } else {
+            _revoke(proposal.fundraisingId, release, proposal.snapshotId);
+        }
+        emit ProposalExecuted(proposalId, passed);
+    }
+
+    // @notice Anyone revokes the release of a fund whose moderator did not propose the next tranche within `proposalTimeout`
+    // of it being due, so that holders reclaim the rest of the fund
+    function revokeRelease(uint256 fundraisingId) external {
+        (Release storage release, , uint256 dueTime) = _nextTranche(fundraisingId);
+        require(block.timestamp >= dueTime + proposalTimeout, "Proposal not overdue");
+        _revoke(fundraisingId, release, _takeSnapshot(fundraisingId));
+    }
+
+    // @notice Holder reclaims the share of the fund left of tokens of the fundraising they held at the snapshot of the
+    // revoked release, or claimed since, by the weight of the tokens
+    function reclaim(uint256 fundraisingId, uint256[] calldata tokenIds) external nonReentrant {
+        Release storage release = _releases[fundraisingId];
+        require(release.revoked, "Release not revoked");
+        Snapshot storage snapshot = _snapshots[release.snapshotId];
+        uint256 weight = _holderWeight(snapshot, fundraisingId, tokenIds);
+        for (uint i; i < tokenIds.length; i++) {
+            require(!release.reclaimed[tokenIds[i]], "Already reclaimed");
+            release.reclaimed[tokenIds[i]] = true;
+        }
+        // a token with a weight makes the one of the snapshot non-zero
+        uint256 amount = weight > 0 ? release.reclaimable * weight / snapshot.weight : 0;
+        require(amount > 0, "Nothing to reclaim");
+
+        fundraisingCenter.payGovernedFund(fundraisingId, msg.sender, amount);
+
+        emit FundReclaimed(fundraisingId, msg.sender, tokenIds, amount);
+    }
+
+    // @dev Release of a successful GOVERNED fundraising with a tranche left to propose, its schedule and when that tranche is due
+    function _nextTranche(uint256 fundraisingId) private view returns (Release storage release, FundraisingCenter.VestingSchedule memory schedule, uint256 dueTime) {
+        require(fundraisingCenter.getFundraisingStatus(fundraisingId) == FundraisingCenter.Status.SUCCESS, "Fundraising not successful");
+        schedule = fundraisingCenter.getVesting(fundraisingId);
+        require(schedule.kind == FundraisingCenter.ReleaseKind.GOVERNED, "Fund not governed");
+        release = _releases[fundraisingId];
+        require(!release.revoked, "Release revoked");
+        require(!release.pending, "Proposal pending");
+        require(release.nextTranche < schedule.tranches.length, "No tranche left");
+        dueTime = fundraisingCenter.getFundraising(fundraisingId).targetTime + schedule.tranches[release.nextTranche].delay;
+        if (release.executedAt > dueTime) {
+            dueTime = release.executedAt;
+        }
+    }
+
+    function _revoke(uint256 fundraisingId, Release storage release, uint256 snapshotId) private {
+        release.revoked = true;
+        release.snapshotId = snapshotId;
+        (, , release.reclaimable) = fundraisingCenter.getFundRelease(fundraisingId);
+        emit ReleaseRevoked(fundraisingId, release.reclaimable);
+    }
+
+    // @dev Records the current weights and the block before this one, the weight being the one of the whole fundraising
+    function _takeSnapshot(uint256 fundraisingId) private returns (uint256 snapshotId) {
+        snapshotId = _snapshots.length;
+        Snapshot storage snapshot = _snapshots.push();
+        snapshot.blockNumber = block.number - 1;
+        for (uint i; i < _tiers.length; i++) {
+            uint8 nftType = _tiers[i];
+            snapshot.weights[nftType] = tierWeights[nftType];
+            snapshot.weight += tierWeights[nftType] * fundraisingCenter.getFundraisingBoughtAmount(fundraisingId, nftType);
+        }
+    }
+
+    // @dev Weight of tokens of the fundraising the sender held at the snapshot, reverts for any other token
+    function _holderWeight(Snapshot storage snapshot, uint256 fundraisingId, uint256[] calldata tokenIds) private view returns (uint256 weight) {
+        for (uint i; i < tokenIds.length; i++) {
+            require(_isOfFundraising(tokenIds[i], fundraisingId), "Token not of the fundraising");
+            require(nftContract.getPastOwner(tokenIds[i], snapshot.blockNumber) == msg.sender, "Not token owner");
+            weight += snapshot.weights[nftContract.idToType(tokenIds[i])];
+        }
+    }
+
+    // @dev Tokens `fundraisingCenter` minted for the backers of the fundraising, tagged with its ID
+    function _isOfFundraising(uint256 tokenId, uint256 fundraisingId) private view returns (bool) {
+        (address minter, uint256 tag) = nftContract.getMintTag(tokenId);
+        return minter == address(fundraisingCenter) && tag == fundraisingId;
+    }
+
+    function _proposal(uint256 proposalId) private view returns (Proposal storage) {
+        require(proposalId < _proposals.length, "Unknown proposal");
+        return _proposals[proposalId];
+    }
+
+    /**
+     * GETTER FUNCTIONS
+     */
+
+    function state(uint256 proposalId) public view returns (ProposalState) {
+        Proposal storage proposal = _proposal(proposalId);
+        if (block.timestamp < proposal.deadline) {
+            return ProposalState.ACTIVE;
+        }
+        bool passed = proposal.forVotes + proposal.againstVotes >= proposal.quorum && proposal.forVotes > proposal.againstVotes;
+        return passed ? ProposalState.SUCCEEDED : ProposalState.DEFEATED;
+    }
+
+    function getProposal(uint256 proposalId) external view returns (Proposal memory) {
+        return _proposal(proposalId);
+    }
+
+    // @notice Block at the end of which holders vote with their tokens on the proposal
+    function proposalSnapshot(uint256 proposalId) external view returns (uint256) {
+        return _snapshots[_proposal(proposalId).snapshotId].blockNumber;
+    }
+
+    function getProposalCount() external view returns (uint256) {
+        return _proposals.length;
+    }
+
+    // @notice `snapshot` is the block at the end of which holders reclaim with their tokens, zero until the release is revoked
+    function getRelease(uint256 fundraisingId) external view returns (uint256 nextTranche, bool pending, bool revoked, uint256 reclaimable, uint256 snapshot) {
+        Release storage release = _releases[fundraisingId];
+        snapshot = release.revoked ? _snapshots[release.snapshotId].blockNumber : 0;
+        return (release.nextTranche, release.pending, release.revoked, release.reclaimable, snapshot);
+    }
+
+    function getTiers() external view returns (uint8[] memory) {
+        return _tiers;
+    }
+
+    // @notice Weight of the NFTs the fundraising sold, claimed or not, the base of the quorum of its next proposal
+    function totalWeight(uint256 fundraisingId) public view returns (uint256 weight) {
+        for (uint i; i < _tiers.length; i++) {
+            weight += tierWeights[_tiers[i]] * fundraisingCenter.getFundraisingBoughtAmount(fundraisingId, _tiers[i]);
+        }
+    }
+
+    // @notice Weight the tokens would vote with on later proposals, whoever holds them
+    function getVotingWeight(uint256[] calldata tokenIds) external view returns (uint256 weight) {
+        for (uint i; i < tokenIds.length; i++) {
+            weight += tierWeights[nftContract.idToType(tokenIds[i])];
+        }
+    }
+
+    // @notice Weight the tokens vote with on a proposal whoever held them, zero for the ones of other fundraisings
+    function getProposalVotingWeight(uint256 proposalId, uint256[] calldata tokenIds) external view returns (uint256 weight) {
+        Proposal storage proposal = _proposal(proposalId);
+        Snapshot storage snapshot = _snapshots[proposal.snapshotId];
+        for (uint i; i < tokenIds.length; i++) {
+            if (_isOfFundraising(tokenIds[i], proposal.fundraisingId)) {
+                weight += snapshot.weights[nftContract.idToType(tokenIds[i])];
+            }
+        }
+    }
+
+    // @notice Share of the fund left the tokens reclaim once the release is revoked whoever held them,
+    // zero for the ones of other fundraisings and the ones already reclaimed
+    function reclaimableOf(uint256 fundraisingId, uint256[] calldata tokenIds) external view returns (uint256) {
+        Release storage release = _releases[fundraisingId];
+        if (!release.revoked) {
+            return 0;
+        }
+        Snapshot storage snapshot = _snapshots[release.snapshotId];
+        uint256 weight;
+        for (uint i; i < tokenIds.length; i++) {
+            if (!release.reclaimed[tokenIds[i]] && _isOfFundraising(tokenIds[i], fundraisingId)) {
+                weight += snapshot.weights[nftContract.idToType(tokenIds[i])];
+            }
+        }
+        return weight > 0 ? release.reclaimable * weight / snapshot.weight : 0;
+    }
+}
@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/Multicall.sol";
+
+import { FundraisingCenter } from "./Fundraising.sol";
+
+// Read-only views over the fundraisings of `FundraisingCenter`, out of it to keep it under the 24 KB contract size limit.
+// Holds no state of its own: it is redeployed rather than upgraded when its views change.
+// `multicall` batches any of its views into a single call.
+contract FundraisingLens is Multicall {
+    // @notice Window of the phase of a tier: from its start on, the tier and every tier after it are on sale
+    struct Phase {
+        uint8 nftType;
+        uint256 startTime;
+        uint256 endTime;
+    }
+
+    struct TierView {
+        FundraisingCenter.Tier tier;
+        uint256 price; // price of the next NFT of the tier at the time of the call, following its price curve
+        uint256 sold;
+        uint256 remaining; // zero once sold out, type(uint256).max for a tier without cap
+        Phase phase;
+    }
+
+    // @notice Everything about a fundraising at the time of the call
+    struct FundraisingView {
+        uint256 id;
+        FundraisingCenter.FundraisingInfo info;
+        FundraisingCenter.Status status;
+        uint256 currentPhase; // index of the tier whose phase is under way, the number of tiers unless the fundraising is OPEN
+        bytes32 whitelistRoot; // zero when whitelist-only tiers check the on-chain whitelist alone
+        TierView[] tiers;
+    }
+
+    FundraisingCenter public immutable fundraisingCenter;
+
+    constructor(FundraisingCenter _fundraisingCenter) {
+        fundraisingCenter = _fundraisingCenter;
+    }
+
+    // @notice Phase of every tier, in the order of the tiers. Phase durations are the ones of the tiers, fixed when the
+    // fundraising is created, so `FundraisingCenter.setNftDuration` does not move them. Phases past the end of the raise are empty.
+    function getPhaseTimeline(uint256 fundraisingId) public view returns (Phase[] memory) {
+        return _timeline(fundraisingCenter.getFundraising(fundraisingId), fundraisingCenter.getFundraisingTiers(fundraisingId));
+    }
+
+    function getFundraisingView(uint256 fundraisingId) public view returns (FundraisingView memory view_) {
+        FundraisingCenter center = fundraisingCenter;
+        FundraisingCenter.Tier[] memory tiers = center.getFundraisingTiers(fundraisingId);
+        view_.id = fundraisingId;
+        view_.info = center.getFundraising(fundraisingId);
+        view_.status = center.getFundraisingStatus(fundraisingId);
+        view_.currentPhase = tiers.length;
+        view_.whitelistRoot = center.getWhitelistRoot(fundraisingId);
+        view_.tiers = new TierView[](tiers.length);
+
+        Phase[] memory phases = _timeline(view_.info, tiers);
+        for (uint i; i < tiers.length; i++) {
+            uint256 sold = center.getFundraisingBoughtAmount(fundraisingId, tiers[i].nftType);
+            view_.tiers[i] = TierView(
+                tiers[i],
+                center.getUnitPrice(fundraisingId, tiers[i].nftType, block.timestamp),
+                sold,
+                tiers[i].maxBuyAmount == type(uint256).max ? type(uint256).max : tiers[i].maxBuyAmount - sold,
+                phases[i]
+            );
+            if (view_.status == FundraisingCenter.Status.OPEN && block.timestamp >= phases[i].startTime && block.timestamp < phases[i].endTime) {
+                view_.currentPhase = i;
+            }
+        }
+    }
+
+    // @notice Views of the fundraisings from ID `offset` on, at most `limit` of them, and the number of fundraisings
+    function getFundraisingViews(uint256 offset, uint256 limit) external view returns (FundraisingView[] memory views, uint256 total) {
+        total = fundraisingCenter.getFundraisingCount();
+        uint256 count = offset < total ? total - offset : 0;
+        views = new FundraisingView[](limit < count ? limit : count);
+        for (uint i; i < views.length; i++) {
+            views[i] = getFundraisingView(offset + i);
+        }
+    }
+
+    // @dev The phase of each tier follows the one of the previous tier, the phase of the last tier lasts until the end of the raise
+    function _timeline(FundraisingCenter.FundraisingInfo memory info, FundraisingCenter.Tier[] memory tiers) private pure returns (Phase[] memory phases) {
+        phases = new Phase[](tiers.length);
+        uint256 startTime = info.startTime;
+        for (uint i; i < tiers.length; i++) {
+            uint256 endTime = i == tiers.length - 1 ? info.targetTime : startTime + tiers[i].duration;
+            if (endTime > info.targetTime) {
+                endTime = info.targetTime;
+            }
+            phases[i] = Phase(tiers[i].nftType, startTime, endTime);
+            startTime = endTime;
+        }
+    }
+}
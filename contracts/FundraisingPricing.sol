@@ -0,0 +1,155 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import { FundraisingCenter } from "./Fundraising.sol";
+
+// Prices and quotes the purchases of a fundraising, out of `FundraisingCenter` to keep it under the 24 KB contract size limit.
+// Deployed once and linked into `FundraisingCenter`, which calls it with DELEGATECALL on its own storage.
+library FundraisingPricing {
+    // What kept a purchase from buying every NFT asked for in a tier, besides the tier running out
+    enum BuyLimit {
+        NONE,
+        WALLET_CAP,
+        HARD_CAP
+    }
+
+    // @dev Also returns whether a whitelist-only tier is part of the purchase.
+    // A purchase going over the hard cap is trimmed to the NFTs whose value fits under it.
+    function determineBuyAmounts(FundraisingCenter.Fundraising storage fundraising, FundraisingCenter.User storage user, uint256 number, uint256 timestamp) external view returns (FundraisingCenter.BuyAmount[] memory amounts, uint256 totalValue, bool whitelistOnly) {
+        require(number > 0, "Invalid number");        
+        
+        amounts = new FundraisingCenter.BuyAmount[](fundraising.tiers.length);
+
+        // loop through the tiers from the current phase onwards
+        // and buy as many NFTs as the tier has left before moving to the next one
+        uint256 counter = 0;
+        bool walletCapped; // whether a per-wallet cap, not the tier cap, limited a tier
+        for (uint i = _currentPhase(fundraising.tiers, timestamp - fundraising.startTime); i < amounts.length && number > 0; i++) {
+            (uint256 bought, uint256 cost, BuyLimit limit) = _buyFromTier(fundraising, user, timestamp, i, number, totalValue);
+            if (limit == BuyLimit.HARD_CAP) {
+                // trimmed: buy what fits under the hard cap and nothing after it
+                number = bought;
+            }
+            walletCapped = walletCapped || limit == BuyLimit.WALLET_CAP;
+            if (bought == 0) {
+                continue;
+            }
+            FundraisingCenter.Tier storage tier = fundraising.tiers[i];
+            amounts[counter++] = FundraisingCenter.BuyAmount(tier.nftType, bought);
+            totalValue += cost;
+            whitelistOnly = whitelistOnly || tier.whitelistOnly;
+            number -= bought;
+        }
+        require(number == 0, walletCapped ? "Wallet tier cap reached" : "Not enough NFTs left");
+        require(counter > 0, "Hard cap reached");
+        require(totalValue >= fundraising.minContribution, "Below minimum contribution");
+        require(fundraising.maxWalletValue == 0 || user.totalValue + totalValue <= fundraising.maxWalletValue, "Wallet value cap exceeded");
+
+        // set length of `amounts` to non-zero values
+        assembly {
+            mstore(amounts, counter)
+        }
+    }
+
+    // @dev Index of the tier whose phase `elapsed` seconds after the start are in, the phase of the last tier lasts until the end
+    function _currentPhase(FundraisingCenter.Tier[] memory tiers, uint256 elapsed) private pure returns (uint256) {
+        uint256 accum = 0;
+        for (uint i; i < tiers.length - 1; i++) {
+            accum += tiers[i].duration;
+            if (elapsed < accum) {
+                return i;
+            }
+        }
+        return tiers.length - 1;
+    }
+
+    // @dev Price of the next `amount` NFTs of the tier at index `i`, following its price curve
+    function tierCost(FundraisingCenter.Fundraising storage fundraising, uint256 i, uint256 amount, uint256 timestamp) public view returns (uint256) {
+        FundraisingCenter.Tier storage tier = fundraising.tiers[i];
+        FundraisingCenter.Pricing storage pricing = fundraising.pricing[tier.nftType];
+        uint256 basePrice = tier.basePrice;
+        if (amount == 0) {
+            return 0;
+        }
+        if (pricing.curve == FundraisingCenter.PriceCurve.LINEAR) {
+            // sum of basePrice + step * n for n from the number sold to the number sold + amount - 1
+            uint256 sold = fundraising.boughtAmounts[tier.nftType];
+            return amount * basePrice + pricing.step * (amount * sold + amount * (amount - 1) / 2);
+        }
+        if (pricing.curve == FundraisingCenter.PriceCurve.DUTCH_AUCTION) {
+            uint256 phaseStart = fundraising.startTime;
+            for (uint j; j < i; j++) {
+                phaseStart += fundraising.tiers[j].duration;
+            }
+            // no decay before the phase of the tier, when it is bought ahead of its phase
+            uint256 decay = timestamp > phaseStart ? pricing.step * ((timestamp - phaseStart) / pricing.interval) : 0;
+            return amount * (basePrice > decay && basePrice - decay > pricing.floorPrice ? basePrice - decay : pricing.floorPrice);
+        }
+        return amount * basePrice;
+    }
+
+    // @dev Largest number of NFTs up to `amount` of the tier at index `i` whose cost is within `budget`, and that cost
+    function _affordable(FundraisingCenter.Fundraising storage fundraising, uint256 i, uint256 amount, uint256 budget, uint256 timestamp) private view returns (uint256, uint256) {
+        uint256 cost = tierCost(fundraising, i, amount, timestamp);
+        if (cost <= budget) {
+            return (amount, cost);
+        }
+        // costs grow with the amount: binary search the largest affordable one
+        uint256 low = 0;
+        uint256 high = amount;
+        while (low < high) {
+            uint256 mid = (low + high + 1) / 2;
+            if (tierCost(fundraising, i, mid, timestamp) <= budget) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return (low, tierCost(fundraising, i, low, timestamp));
+    }
+
+    // @dev Number of NFTs of the tier at index `i` bought out of `number` and their cost, on top of `spent` in earlier tiers.
+    // Also returns what limited them: a per-wallet cap, or the hard cap they were trimmed to fit under.
+    function _buyFromTier(FundraisingCenter.Fundraising storage fundraising, FundraisingCenter.User storage user, uint256 timestamp, uint256 i, uint256 number, uint256 spent) private view returns (uint256 bought, uint256 cost, BuyLimit limit) {
+        uint256 budget = fundraising.hardCap == 0 ? type(uint256).max : fundraising.hardCap - fundraising.totalContribution - spent;
+        (uint256 toBuy, bool capped) = _remaining(fundraising, user, fundraising.tiers[i]);
+        if (toBuy > number) {
+            toBuy = number;
+        }
+        (bought, cost) = _affordable(fundraising, i, toBuy, budget, timestamp);
+        if (bought < toBuy) {
+            limit = BuyLimit.HARD_CAP;
+        } else if (capped) {
+            limit = BuyLimit.WALLET_CAP;
+        }
+    }
+
+    // @dev Number of NFTs of `tier` the user can still buy, and whether their per-wallet cap is what limits it
+    function _remaining(FundraisingCenter.Fundraising storage fundraising, FundraisingCenter.User storage user, FundraisingCenter.Tier memory tier) private view returns (uint256 remaining, bool walletCapped) {
+        remaining = tier.maxBuyAmount - fundraising.boughtAmounts[tier.nftType];
+        uint256 cap = fundraising.maxPerWallet[tier.nftType];
+        if (cap == 0) {
+            return (remaining, false);
+        }
+        uint256 bought = user.contributions[tier.nftType];
+        uint256 walletRemaining = cap > bought ? cap - bought : 0;
+        if (walletRemaining < remaining) {
+            return (walletRemaining, true);
+        }
+    }
+
+    // @dev Whether no NFT still on sale in the current phase or after it fits under the hard cap anymore
+    function isHardCapReached(FundraisingCenter.Fundraising storage fundraising) external view returns (bool) {
+        if (fundraising.hardCap == 0) {
+            return false;
+        }
+        uint256 headroom = fundraising.hardCap - fundraising.totalContribution;
+        FundraisingCenter.Tier[] memory tiers = fundraising.tiers;
+        for (uint i = _currentPhase(tiers, block.timestamp - fundraising.startTime); i < tiers.length; i++) {
+            if (fundraising.boughtAmounts[tiers[i].nftType] < tiers[i].maxBuyAmount && tierCost(fundraising, i, 1, block.timestamp) <= headroom) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
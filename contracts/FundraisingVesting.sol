@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import { FundraisingCenter } from "./Fundraising.sol";
+
+// Release schedules of the funds of `FundraisingCenter`, out of it to keep it under the 24 KB contract size limit.
+// Deployed once and linked into `FundraisingCenter`, which calls it with DELEGATECALL on its own storage.
+library FundraisingVesting {
+    uint256 private constant MAX_PERCENTAGE = 100_00; // `FundraisingCenter.MAX_PERCENTAGE`
+    uint256 private constant MAX_TRANCHES = 16; // `FundraisingCenter.MAX_TRANCHES`
+
+    function setSchedule(FundraisingCenter.VestingSchedule storage stored, FundraisingCenter.VestingSchedule calldata schedule) external {
+        require(_isValidSchedule(schedule), "Invalid vesting");
+        stored.kind = schedule.kind;
+        stored.cliff = schedule.cliff;
+        stored.duration = schedule.duration;
+        delete stored.tranches;
+        for (uint i; i < schedule.tranches.length; i++) {
+            stored.tranches.push(schedule.tranches[i]);
+        }
+    }
+
+    // @dev Part of `fund` the schedule releases by `timestamp`, a GOVERNED fund only vests as the governor pays it
+    function vested(FundraisingCenter.Fundraising storage fundraising, FundraisingCenter.Vesting storage vesting, uint256 fund, uint256 timestamp) external view returns (uint256) {
+        FundraisingCenter.VestingSchedule storage schedule = vesting.schedule;
+        if (schedule.kind == FundraisingCenter.ReleaseKind.IMMEDIATE) {
+            return fund;
+        }
+        if (schedule.kind == FundraisingCenter.ReleaseKind.GOVERNED) {
+            return vesting.released;
+        }
+        uint256 elapsed = timestamp > fundraising.targetTime ? timestamp - fundraising.targetTime : 0;
+        if (schedule.kind == FundraisingCenter.ReleaseKind.LINEAR) {
+            if (elapsed < schedule.cliff) {
+                return 0;
+            }
+            return elapsed >= schedule.duration ? fund : fund * elapsed / schedule.duration;
+        }
+        uint256 percentage;
+        for (uint i; i < schedule.tranches.length && schedule.tranches[i].delay <= elapsed; i++) {
+            percentage += schedule.tranches[i].percentage;
+        }
+        return fund * percentage / MAX_PERCENTAGE;
+    }
+
+    function _isValidSchedule(FundraisingCenter.VestingSchedule calldata schedule) private pure returns (bool) {
+        if (schedule.kind == FundraisingCenter.ReleaseKind.LINEAR) {
+            return schedule.duration > 0 && schedule.cliff <= schedule.duration && schedule.tranches.length == 0;
+        }
+        if (schedule.cliff != 0 || schedule.duration != 0) {
+            return false;
+        }
+        if (schedule.kind == FundraisingCenter.ReleaseKind.IMMEDIATE) {
+            return schedule.tranches.length == 0;
+        }
+        if (schedule.tranches.length == 0 || schedule.tranches.length > MAX_TRANCHES) {
+            return false;
+        }
+        uint256 total;
+        for (uint i; i < schedule.tranches.length; i++) {
+            if (i > 0 && schedule.tranches[i].delay <= schedule.tranches[i - 1].delay) {
+                return false;
+            }
+            total += schedule.tranches[i].percentage;
+        }
+        return total == MAX_PERCENTAGE;
+    }
+}
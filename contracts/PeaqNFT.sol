@@ -3,30 +3,63 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/interfaces/IERC2981Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/CountersUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/CheckpointsUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/structs/BitMapsUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/StringsUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/Base64Upgradeable.sol";
 
-// Abstract contract to share NftType
+// Abstract contract to share NFT types
+// An NFT type (tier) is the byte stored in the token ID, any non-zero value is a valid type.
+// The named ones are the tiers of a fundraising created with `FundraisingCenter.createFundraising`.
 abstract contract NftTypes {
-    enum NftType {
-        NONE, 
-        COMMON,
-        EPIC, 
-        LEGENDARY
-    }
+    uint8 internal constant NONE = 0;
+    uint8 internal constant COMMON = 1;
+    uint8 internal constant EPIC = 2;
+    uint8 internal constant LEGENDARY = 3;
 }
 
-contract PeaqNFT is ERC721Upgradeable, AccessControlUpgradeable, NftTypes {
+contract PeaqNFT is ERC721Upgradeable, AccessControlUpgradeable, IERC2981Upgradeable, NftTypes {
     using CountersUpgradeable for CountersUpgradeable.Counter;
+    using CheckpointsUpgradeable for CheckpointsUpgradeable.Trace160;
+    using CheckpointsUpgradeable for CheckpointsUpgradeable.Trace224;
+    using BitMapsUpgradeable for BitMapsUpgradeable.BitMap;
+    using StringsUpgradeable for uint256;
 
     // Define roles
     bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
     uint256 public constant MAX_PERCENTAGE = 100_00; // denotes 100.00%
 
     // Track the next index for each type
-    mapping(NftType => CountersUpgradeable.Counter) private _tokenTypeCounters;
-    mapping(NftType => uint256) private _shareRevenuePercentages;
+    mapping(uint8 => CountersUpgradeable.Counter) private _tokenTypeCounters;
+    mapping(uint8 => uint256) private _shareRevenuePercentages;
+    // Metadata of a token is hosted at `<base URI of its type><index>.json`
+    mapping(uint8 => string) private _baseURIs;
+    // Serve metadata and image from `tokenURI` itself instead of the base URIs
+    bool public onChainMetadata;
+    // ERC-2981 royalties of secondary sales are paid to `_royaltyReceiver` at the rate of the token type
+    address private _royaltyReceiver;
+    mapping(uint8 => uint256) private _royaltyRates;
+    // Owners of batch minted tokens, like ERC721A: per type, the last index of each batch => owner the batch was minted to.
+    // A token has an entry in `_owners` only once transferred, until then its owner is the one of its batch.
+    mapping(uint8 => CheckpointsUpgradeable.Trace160) private _batchOwners;
+    BitMapsUpgradeable.BitMap private _burnedTokens;
+    // Entry points stopped by the pausers, by selector, see `setFunctionPaused`
+    mapping(bytes4 => bool) public pausedFunctions;
+    // Owners of a transferred token by block number, its owner before the first transfer at block zero, see `getPastOwner`
+    mapping(uint256 => CheckpointsUpgradeable.Trace160) private _ownerHistory;
+    // Minters and tags of the batches minted with `mintTaggedBatch`, like `_batchOwners`: per type, the last index of each
+    // batch => minter address in the high bits and tag in the low 64 bits, zero for the batches minted without a tag
+    mapping(uint8 => CheckpointsUpgradeable.Trace224) private _batchTags;
 
-    event RevenueSharePercentageSet(NftType indexed nftType, uint256 percentage);
+    event RevenueSharePercentageSet(uint8 indexed nftType, uint256 percentage);
+    event BaseURISet(uint8 indexed nftType, string baseURI);
+    event OnChainMetadataSet(bool enabled);
+    event RoyaltyReceiverSet(address indexed receiver);
+    event RoyaltyRateSet(uint8 indexed nftType, uint256 rate);
+    event FunctionPauseUpdated(bytes4 indexed selector, bool paused);
 
     function initialize() public initializer {
         __ERC721_init("PeaqNFT", "PNFT");
@@ -36,41 +69,240 @@ contract PeaqNFT is ERC721Upgradeable, AccessControlUpgradeable, NftTypes {
 
     // Generate token ID based on type and index
     // Format: [ZeroLeading (216 bits)][Type (8 bits)][Index (32 bits)]
-    function _generateTokenId(NftType nftType, uint256 index) private pure returns (uint256) {
+    function _generateTokenId(uint8 nftType, uint256 index) private pure returns (uint256) {
         return (uint256(nftType) << 32) | index;
     }
 
-    // Mint function
-    function mint(address who, NftType nftType, uint16 amount) external onlyRole(MINTER_ROLE) {
-        for (uint16 i = 0; i < amount; i++) {
-            uint256 index = _tokenTypeCounters[nftType].current();
-            uint256 tokenId = _generateTokenId(nftType, index);
-            _mint(who, tokenId);
-            _tokenTypeCounters[nftType].increment();
+    // Mint function, kept for minters built against the `uint16` amount
+    function mint(address who, uint8 nftType, uint16 amount) external onlyRole(MINTER_ROLE) {
+        mintBatch(who, nftType, amount);
+    }
+
+    // @notice Mint `amount` tokens of `nftType` with consecutive indexes
+    // @dev Costs one owner checkpoint per call and one `Transfer` event per token, instead of one owner slot per token.
+    function mintBatch(address who, uint8 nftType, uint256 amount) public onlyRole(MINTER_ROLE) {
+        require(nftType != NONE, "PeaqNFT: Invalid type");
+        require(who != address(0), "ERC721: mint to the zero address");
+        if (amount == 0) {
+            return;
+        }
+        uint256 firstIndex = _tokenTypeCounters[nftType].current();
+        uint256 lastIndex = firstIndex + amount - 1;
+        require(lastIndex <= 0xFFFFFFFF, "PeaqNFT: Index overflow");
+        uint256 firstTokenId = _generateTokenId(nftType, firstIndex);
+
+        _beforeTokenTransfer(address(0), who, firstTokenId, amount);
+        _batchOwners[nftType].push(uint96(lastIndex), uint160(who));
+        __unsafe_increaseBalance(who, amount);
+        // Counters has no add: advance the counter past the batch in a single write
+        _tokenTypeCounters[nftType]._value = lastIndex + 1;
+        for (uint256 i = 0; i < amount; i++) {
+            emit Transfer(address(0), who, firstTokenId + i);
         }
+        _afterTokenTransfer(address(0), who, firstTokenId, amount);
     }
 
-    function setShareRevenuePercentage(NftType nftType, uint256 percentage) public onlyRole(DEFAULT_ADMIN_ROLE) {
+    // @notice Mint a batch like `mintBatch`, tagged with an ID of the minter, see `getMintTag`
+    function mintTaggedBatch(address who, uint8 nftType, uint256 amount, uint256 tag) external onlyRole(MINTER_ROLE) {
+        require(tag <= type(uint64).max, "PeaqNFT: Invalid tag");
+        uint256 firstIndex = _tokenTypeCounters[nftType].current();
+        mintBatch(who, nftType, amount);
+        if (amount == 0) {
+            return;
+        }
+        // the untagged batches minted since the last tagged one end where the batch starts
+        CheckpointsUpgradeable.Trace224 storage tags = _batchTags[nftType];
+        (bool exists, uint32 lastIndex, ) = tags.latestCheckpoint();
+        if (firstIndex > 0 && (!exists || lastIndex < firstIndex - 1)) {
+            tags.push(uint32(firstIndex - 1), 0);
+        }
+        tags.push(uint32(firstIndex + amount - 1), (uint224(uint160(msg.sender)) << 64) | uint224(tag));
+    }
+
+    // @notice Stop or resume an entry point moving tokens, like `mintBatch` or `transferFrom`.
+    // Pausers stop them, only the admin resumes them.
+    // @dev Every variant has a switch of its own, `safeTransferFrom` is not stopped with `transferFrom`.
+    // The `emergency:pause` task stops all the variants of `mint` by its name.
+    function setFunctionPaused(bytes4 selector, bool paused) external {
+        _checkRole(paused ? PAUSER_ROLE : DEFAULT_ADMIN_ROLE);
+        pausedFunctions[selector] = paused;
+        emit FunctionPauseUpdated(selector, paused);
+    }
+
+    function setShareRevenuePercentage(uint8 nftType, uint256 percentage) public onlyRole(DEFAULT_ADMIN_ROLE) {
         require(percentage <= MAX_PERCENTAGE, "PeaqNFT: Invalid percentage");
         _shareRevenuePercentages[nftType] = percentage;
         emit RevenueSharePercentageSet(nftType, percentage);
     }
 
-    function getShareRevenuePercentage(NftType nftType) public view returns (uint256) {
+    function setBaseURI(uint8 nftType, string calldata baseURI) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(nftType != NONE, "PeaqNFT: Invalid type");
+        _baseURIs[nftType] = baseURI;
+        emit BaseURISet(nftType, baseURI);
+    }
+
+    function setOnChainMetadata(bool enabled) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        onChainMetadata = enabled;
+        emit OnChainMetadataSet(enabled);
+    }
+
+    function setRoyaltyReceiver(address receiver) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(receiver != address(0), "PeaqNFT: Invalid receiver");
+        _royaltyReceiver = receiver;
+        emit RoyaltyReceiverSet(receiver);
+    }
+
+    // `rate` is in basis points of `MAX_PERCENTAGE`, like revenue shares
+    function setRoyaltyRate(uint8 nftType, uint256 rate) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(nftType != NONE, "PeaqNFT: Invalid type");
+        require(rate <= MAX_PERCENTAGE, "PeaqNFT: Invalid percentage");
+        _royaltyRates[nftType] = rate;
+        emit RoyaltyRateSet(nftType, rate);
+    }
+
+    function getShareRevenuePercentage(uint8 nftType) public view returns (uint256) {
         return _shareRevenuePercentages[nftType];
     }
 
     function getShareRevenuePercentageForToken(uint256 tokenId) public view returns (uint256) {
-        NftType nftType = idToType(tokenId);
+        uint8 nftType = idToType(tokenId);
         return getShareRevenuePercentage(nftType);
     }
 
-    function idToType(uint256 tokenId) public pure returns (NftType) {
-        uint8 typeInt8 = uint8((tokenId >> 32) & 0xFF);
-        return NftType(typeInt8);
+    // Number of tokens minted of a type, token indexes of the type range from 0 to this count excluded
+    function getMintedCount(uint8 nftType) public view returns (uint256) {
+        return _tokenTypeCounters[nftType].current();
+    }
+
+    function idToType(uint256 tokenId) public pure returns (uint8) {
+        return uint8((tokenId >> 32) & 0xFF);
+    }
+
+    function idToIndex(uint256 tokenId) public pure returns (uint256) {
+        return tokenId & 0xFFFFFFFF;
+    }
+
+    // @notice Owner of a token at the end of block `blockNumber`, for a token minted by then
+    function getPastOwner(uint256 tokenId, uint256 blockNumber) external view returns (address) {
+        require(blockNumber < block.number, "PeaqNFT: Future lookup");
+        CheckpointsUpgradeable.Trace160 storage history = _ownerHistory[tokenId];
+        if (history.length() == 0) {
+            return _ownerOf(tokenId);
+        }
+        return address(history.upperLookupRecent(uint96(blockNumber)));
+    }
+
+    // @notice Minter of a token minted with `mintTaggedBatch` and the tag it minted it with, the zero address otherwise
+    function getMintTag(uint256 tokenId) external view returns (address minter, uint256 tag) {
+        uint224 value = _batchTags[idToType(tokenId)].lowerLookup(uint32(idToIndex(tokenId)));
+        return (address(uint160(value >> 64)), uint64(value));
+    }
+
+    function getBaseURI(uint8 nftType) public view returns (string memory) {
+        return _baseURIs[nftType];
+    }
+
+    function getRoyaltyReceiver() public view returns (address) {
+        return _royaltyReceiver;
+    }
+
+    function getRoyaltyRate(uint8 nftType) public view returns (uint256) {
+        return _royaltyRates[nftType];
+    }
+
+    // @notice ERC-2981 royalty of a sale of `tokenId` at `salePrice`, nothing until a receiver is set
+    function royaltyInfo(uint256 tokenId, uint256 salePrice) public view override returns (address receiver, uint256 royaltyAmount) {
+        if (_royaltyReceiver == address(0)) {
+            return (address(0), 0);
+        }
+        return (_royaltyReceiver, salePrice * _royaltyRates[idToType(tokenId)] / MAX_PERCENTAGE);
+    }
+
+    /**
+     * METADATA
+     * Keep in sync with `sdk/metadata.ts`, which generates the same SVG and JSON, linking the hosted SVG, for hosting
+     */
+
+    // @notice Base64 JSON data URI in on-chain mode, hosted JSON of the token type otherwise, empty when the type has no base URI
+    function tokenURI(uint256 tokenId) public view virtual override returns (string memory) {
+        _requireMinted(tokenId);
+        uint8 nftType = idToType(tokenId);
+        uint256 index = idToIndex(tokenId);
+
+        if (onChainMetadata) {
+            string memory image = string.concat("data:image/svg+xml;base64,", Base64Upgradeable.encode(bytes(_svg(nftType, index))));
+            return string.concat("data:application/json;base64,", Base64Upgradeable.encode(bytes(_json(nftType, index, image))));
+        }
+        string memory baseURI = _baseURIs[nftType];
+        return bytes(baseURI).length > 0 ? string.concat(baseURI, index.toString(), ".json") : "";
+    }
+
+    function _json(uint8 nftType, uint256 index, string memory image) private pure returns (string memory) {
+        string memory tier = _tierName(nftType);
+        return string.concat(
+            '{"name":"PeaqNFT ', tier, " #", index.toString(),
+            '","description":"', tier, ' tier PeaqNFT","image":"', image,
+            '","attributes":[{"trait_type":"Tier","value":"', tier,
+            '"},{"trait_type":"Index","display_type":"number","value":', index.toString(), "}]}"
+        );
+    }
+
+    function _svg(uint8 nftType, uint256 index) private pure returns (string memory) {
+        return string.concat(
+            '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 350 350"><rect width="100%" height="100%" fill="', _tierColor(nftType),
+            '"/><text x="50%" y="45%" text-anchor="middle" font-family="sans-serif" font-size="32" fill="#ffffff">', _tierName(nftType),
+            '</text><text x="50%" y="60%" text-anchor="middle" font-family="sans-serif" font-size="24" fill="#ffffff">#', index.toString(),
+            "</text></svg>"
+        );
+    }
+
+    function _tierName(uint8 nftType) private pure returns (string memory) {
+        if (nftType == LEGENDARY) return "Legendary";
+        if (nftType == EPIC) return "Epic";
+        if (nftType == COMMON) return "Common";
+        return string.concat("Type ", uint256(nftType).toString());
+    }
+
+    function _tierColor(uint8 nftType) private pure returns (string memory) {
+        if (nftType == LEGENDARY) return "#d4a017";
+        if (nftType == EPIC) return "#7b3fb5";
+        if (nftType == COMMON) return "#6b7280";
+        return "#1f2937";
+    }
+
+    // Owner of a token never transferred is the owner of its batch: the first batch ending at or after its index
+    function _ownerOf(uint256 tokenId) internal view virtual override returns (address) {
+        address owner = super._ownerOf(tokenId);
+        if (owner != address(0) || _burnedTokens.get(tokenId)) {
+            return owner;
+        }
+        return address(_batchOwners[idToType(tokenId)].lowerLookup(uint96(idToIndex(tokenId))));
+    }
+
+    // Mints and transfers all go through here, which makes it the one place to stop them
+    function _beforeTokenTransfer(address from, address to, uint256 firstTokenId, uint256 batchSize) internal virtual override {
+        require(!pausedFunctions[msg.sig], "PeaqNFT: Function paused");
+        super._beforeTokenTransfer(from, to, firstTokenId, batchSize);
+    }
+
+    function _afterTokenTransfer(address from, address to, uint256 firstTokenId, uint256 batchSize) internal virtual override {
+        if (to == address(0)) {
+            _burnedTokens.set(firstTokenId);
+        }
+        // only mints move several tokens at once, and their owner is the one of their batch until transferred
+        if (from != address(0)) {
+            CheckpointsUpgradeable.Trace160 storage history = _ownerHistory[firstTokenId];
+            if (history.length() == 0) {
+                history.push(0, uint160(from));
+            }
+            history.push(uint96(block.number), uint160(to));
+        }
+        super._afterTokenTransfer(from, to, firstTokenId, batchSize);
     }
 
-    function supportsInterface(bytes4 interfaceId) public view virtual override(AccessControlUpgradeable, ERC721Upgradeable) returns (bool) {
-        return AccessControlUpgradeable.supportsInterface(interfaceId) || ERC721Upgradeable.supportsInterface(interfaceId);
+    function supportsInterface(bytes4 interfaceId) public view virtual override(AccessControlUpgradeable, ERC721Upgradeable, IERC165Upgradeable) returns (bool) {
+        return interfaceId == type(IERC2981Upgradeable).interfaceId
+            || AccessControlUpgradeable.supportsInterface(interfaceId)
+            || ERC721Upgradeable.supportsInterface(interfaceId);
     }
 }
@@ -0,0 +1,187 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+import { PeaqNFT, NftTypes } from "./PeaqNFT.sol";
+
+// Pays revenue to PeaqNFT holders: every deposit is split across the tiers by `PeaqNFT.getShareRevenuePercentage`,
+// then evenly across the tokens of each tier minted at the time of the deposit.
+// Revenue accrues to token IDs, not to holders: whoever holds a token when claiming receives what it was not paid yet.
+contract RevenueVault is AccessControlUpgradeable, ReentrancyGuardUpgradeable, NftTypes {
+    using SafeERC20 for IERC20;
+
+    uint256 private constant ACC_PRECISION = 1e18;
+    uint256 public constant MAX_TIERS = 16;
+
+    // One deposit as seen by one tier
+    struct Epoch {
+        uint256 supply; // number of tokens of the tier minted at the time of the deposit
+        uint256 accPerToken; // revenue per token of this and all previous deposits, scaled by ACC_PRECISION
+    }
+
+    PeaqNFT public nftContract;
+    // NFT types deposits are split across
+    uint8[] private _tiers;
+    // currency (zero address for native) => NFT type => epochs
+    mapping(address => mapping(uint8 => Epoch[])) private _epochs;
+    // currency => token ID => amount already claimed for the token
+    mapping(address => mapping(uint256 => uint256)) public claimed;
+    // currency => share of deposits not paid to any token: tiers without tokens and percentages summing to less than 100%
+    mapping(address => uint256) public undistributed;
+
+    // Reserved slots for state variables added by upgrades
+    uint256[50] private __gap;
+
+    event TiersUpdated(uint8[] tiers);
+    event RevenueDeposited(address indexed currency, address indexed from, uint256 amount, uint256 undistributed);
+    event RevenueClaimed(address indexed currency, address indexed holder, uint256[] tokenIds, uint256 amount);
+    event UndistributedWithdrawn(address indexed currency, address indexed to, uint256 amount);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address nftContractAddress, uint8[] calldata tiers) public initializer {
+        __AccessControl_init();
+        __ReentrancyGuard_init();
+        _setupRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        nftContract = PeaqNFT(nftContractAddress);
+        _setTiers(tiers);
+    }
+
+    /**
+     * DEFAULT ADMIN FUNCTIONS
+     */
+
+    // @notice Set the NFT types later deposits are split across, past deposits keep their split
+    function setTiers(uint8[] calldata tiers) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setTiers(tiers);
+    }
+
+    function withdrawUndistributed(address currency, address to) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        uint256 amount = undistributed[currency];
+        require(amount > 0, "Nothing to withdraw");
+
+        undistributed[currency] = 0;
+        _pay(currency, to, amount);
+
+        emit UndistributedWithdrawn(currency, to, amount);
+    }
+
+    function _setTiers(uint8[] calldata tiers) private {
+        require(tiers.length <= MAX_TIERS, "Invalid tier count");
+        uint256 seenTypes; // bitmap of the NFT types already listed
+        for (uint i; i < tiers.length; i++) {
+            require(tiers[i] != NONE && seenTypes & (uint256(1) << tiers[i]) == 0, "Invalid tier type");
+            seenTypes |= uint256(1) << tiers[i];
+        }
+        _tiers = tiers;
+        emit TiersUpdated(tiers);
+    }
+
+    /**
+     * REVENUE FUNCTIONS
+     */
+
+    // @notice Deposit `amount` of `currency`, the zero address for native currency sent as value
+    // @dev The per-token division rounds down, the remainder (less than one wei per token) stays in the vault.
+    function deposit(address currency, uint256 amount) external payable nonReentrant {
+        require(amount > 0, "Invalid amount");
+        if (currency == address(0)) {
+            require(msg.value == amount, "Invalid value");
+        } else {
+            require(msg.value == 0, "Invalid value");
+            IERC20(currency).safeTransferFrom(msg.sender, address(this), amount);
+        }
+
+        uint256 totalPercentage;
+        uint256 distributed;
+        for (uint i; i < _tiers.length; i++) {
+            uint8 nftType = _tiers[i];
+            uint256 percentage = nftContract.getShareRevenuePercentage(nftType);
+            uint256 supply = nftContract.getMintedCount(nftType);
+            totalPercentage += percentage;
+            if (percentage == 0 || supply == 0) {
+                continue;
+            }
+
+            uint256 share = amount * percentage / nftContract.MAX_PERCENTAGE();
+            Epoch[] storage epochs = _epochs[currency][nftType];
+            uint256 accPerToken = epochs.length == 0 ? 0 : epochs[epochs.length - 1].accPerToken;
+            epochs.push(Epoch(supply, accPerToken + share * ACC_PRECISION / supply));
+            distributed += share;
+        }
+        require(totalPercentage <= nftContract.MAX_PERCENTAGE(), "Shares exceed 100%");
+
+        undistributed[currency] += amount - distributed;
+        emit RevenueDeposited(currency, msg.sender, amount, amount - distributed);
+    }
+
+    // @notice Claim the revenue of tokens held by the sender, listed tokens with nothing left to claim are skipped
+    function claim(uint256[] calldata tokenIds, address currency) external nonReentrant {
+        require(tokenIds.length > 0, "Empty claim");
+
+        uint256 amount;
+        for (uint i; i < tokenIds.length; i++) {
+            require(nftContract.ownerOf(tokenIds[i]) == msg.sender, "Not token owner");
+            uint256 tokenAmount = claimable(tokenIds[i], currency);
+            claimed[currency][tokenIds[i]] += tokenAmount;
+            amount += tokenAmount;
+        }
+        require(amount > 0, "Nothing to claim");
+
+        _pay(currency, msg.sender, amount);
+        emit RevenueClaimed(currency, msg.sender, tokenIds, amount);
+    }
+
+    function _pay(address currency, address to, uint256 amount) private {
+        if (currency == address(0)) {
+            payable(to).transfer(amount);
+        } else {
+            IERC20(currency).safeTransfer(to, amount);
+        }
+    }
+
+    /**
+     * GETTER FUNCTIONS
+     */
+
+    // @notice Revenue of `currency` the holder of `tokenId` can claim
+    function claimable(uint256 tokenId, address currency) public view returns (uint256) {
+        Epoch[] storage epochs = _epochs[currency][nftContract.idToType(tokenId)];
+        // Token IDs are laid out like `PeaqNFT._generateTokenId`: [type (8 bits)][index (32 bits)]
+        uint256 index = tokenId & 0xFFFFFFFF;
+
+        // supplies only grow: binary search the first deposit the token was minted before
+        uint256 low = 0;
+        uint256 high = epochs.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (epochs[mid].supply > index) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        if (low == epochs.length) {
+            return 0;
+        }
+
+        uint256 accBefore = low == 0 ? 0 : epochs[low - 1].accPerToken;
+        uint256 earned = (epochs[epochs.length - 1].accPerToken - accBefore) / ACC_PRECISION;
+        return earned - claimed[currency][tokenId];
+    }
+
+    function getTiers() external view returns (uint8[] memory) {
+        return _tiers;
+    }
+
+    function getEpochs(address currency, uint8 nftType) external view returns (Epoch[] memory) {
+        return _epochs[currency][nftType];
+    }
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import { FundraisingCenter } from "../Fundraising.sol";
+
+// Upgrade target for the upgrade tests, appends a state variable after the storage of `FundraisingCenter`
+contract MockFundraisingCenterV2 is FundraisingCenter {
+    uint256 public upgradedAt;
+
+    function initializeV2() external reinitializer(2) {
+        upgradedAt = block.timestamp;
+    }
+
+    function version() external pure returns (string memory) {
+        return "2";
+    }
+}
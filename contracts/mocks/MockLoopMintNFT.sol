@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/CountersUpgradeable.sol";
+
+// PeaqNFT minting as it was before batch mints, one `_mint` per token, to benchmark claims against
+contract MockLoopMintNFT is ERC721Upgradeable, AccessControlUpgradeable {
+    using CountersUpgradeable for CountersUpgradeable.Counter;
+
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+
+    mapping(uint8 => CountersUpgradeable.Counter) private _tokenTypeCounters;
+
+    function initialize() public initializer {
+        __ERC721_init("MockLoopMintNFT", "LOOP");
+        __AccessControl_init();
+        _setupRole(DEFAULT_ADMIN_ROLE, msg.sender);
+    }
+
+    // Tags are not recorded, like before
+    function mintTaggedBatch(address who, uint8 nftType, uint256 amount, uint256) external onlyRole(MINTER_ROLE) {
+        mintBatch(who, nftType, amount);
+    }
+
+    function mintBatch(address who, uint8 nftType, uint256 amount) public onlyRole(MINTER_ROLE) {
+        for (uint256 i = 0; i < amount; i++) {
+            uint256 index = _tokenTypeCounters[nftType].current();
+            _mint(who, (uint256(nftType) << 32) | index);
+            _tokenTypeCounters[nftType].increment();
+        }
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view virtual override(AccessControlUpgradeable, ERC721Upgradeable) returns (bool) {
+        return AccessControlUpgradeable.supportsInterface(interfaceId) || ERC721Upgradeable.supportsInterface(interfaceId);
+    }
+}
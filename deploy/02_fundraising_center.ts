@@ -16,17 +16,40 @@ module.exports = async ({ deployments, getNamedAccounts }) => {
     const legendaryDuration = 10 * 60; // 10 minutes in seconds
     const epicDuration = 30 * 60; // 30 minutes in seconds
 
+    // Prices the purchases of FundraisingCenter, linked into it to keep it under the size limit
+    const fundraisingPricing = await deploy("FundraisingPricing", {
+        from: deployer,
+        log: true,
+    });
+
+    // Validates and vests the release schedules of the fund, linked for the same reason
+    const fundraisingVesting = await deploy("FundraisingVesting", {
+        from: deployer,
+        log: true,
+    });
 
     await deploy("FundraisingCenter", {
         from: deployer,
-        args: [
-            peaqNFT.address,
-            maxStartTime,
-            maxDuration,
-            legendaryDuration,
-            epicDuration,
-        ],
         log: true,
+        libraries: {
+            FundraisingPricing: fundraisingPricing.address,
+            FundraisingVesting: fundraisingVesting.address,
+        },
+        proxy: {
+            proxyContract: "OpenZeppelinTransparentProxy",
+            execute: {
+                init: {
+                    methodName: "initialize",
+                    args: [
+                        peaqNFT.address,
+                        maxStartTime,
+                        maxDuration,
+                        legendaryDuration,
+                        epicDuration,
+                    ],
+                }
+            }
+        },
     });
 
     console.log("FundraisingCenter deployed!");
@@ -0,0 +1,34 @@
+// deployments/05_revenue_vault.js
+const { ethers } = require("hardhat");
+
+module.exports = async ({ deployments, getNamedAccounts }) => {
+    const { deploy } = deployments;
+    const { deployer } = await getNamedAccounts();
+
+    console.log("Deploying RevenueVault with deployer:", deployer);
+
+    const peaqNFT = await deployments.get("PeaqNFT");
+    console.log("PeaqNFT address:", peaqNFT.address);
+
+    // Deposits are split across these NFT types: LEGENDARY, EPIC and COMMON
+    const tiers = [3, 2, 1];
+
+    await deploy("RevenueVault", {
+        from: deployer,
+        log: true,
+        proxy: {
+            proxyContract: "OpenZeppelinTransparentProxy",
+            execute: {
+                init: {
+                    methodName: "initialize",
+                    args: [peaqNFT.address, tiers],
+                }
+            }
+        },
+    });
+
+    console.log("RevenueVault deployed!");
+};
+
+module.exports.tags = ["RevenueVault"];
+module.exports.dependencies = ["PeaqNFT"];
@@ -0,0 +1,47 @@
+// deployments/06_fundraising_governor.js
+const { ethers } = require("hardhat");
+
+module.exports = async ({ deployments, getNamedAccounts }) => {
+    const { deploy, execute, read, log } = deployments;
+    const { deployer } = await getNamedAccounts();
+
+    console.log("Deploying FundraisingGovernor with deployer:", deployer);
+
+    const fundraisingCenter = await deployments.get("FundraisingCenter");
+    console.log("FundraisingCenter address:", fundraisingCenter.address);
+
+    const votingPeriod = 3 * 24 * 60 * 60; // 3 days
+    const quorumPercentage = 10_00; // 10.00% of the total voting weight
+    const proposalTimeout = 30 * 24 * 60 * 60; // 30 days for the moderator to propose a due tranche
+    // Voting weight of one token of these NFT types: LEGENDARY, EPIC and COMMON
+    const tiers = [3, 2, 1];
+    const weights = [4, 3, 1];
+
+    const governor = await deploy("FundraisingGovernor", {
+        from: deployer,
+        log: true,
+        proxy: {
+            proxyContract: "OpenZeppelinTransparentProxy",
+            execute: {
+                init: {
+                    methodName: "initialize",
+                    args: [fundraisingCenter.address, votingPeriod, quorumPercentage, proposalTimeout, tiers, weights],
+                }
+            }
+        },
+    });
+
+    // FundraisingCenter only pays the fund of GOVERNED fundraisings out on calls from its governor
+    const current = await read("FundraisingCenter", { from: deployer }, "governor");
+    if (current === governor.address) {
+        log(`FundraisingCenter already governed by ${governor.address}`);
+    } else {
+        await execute("FundraisingCenter", { from: deployer, log: true }, "setGovernor", governor.address);
+        log(`FundraisingCenter governor set to ${governor.address}`);
+    }
+
+    console.log("FundraisingGovernor deployed!");
+};
+
+module.exports.tags = ["FundraisingGovernor"];
+module.exports.dependencies = ["FundraisingCenter"];
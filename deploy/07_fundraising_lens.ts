@@ -0,0 +1,24 @@
+// deployments/07_fundraising_lens.js
+const { ethers } = require("hardhat");
+
+module.exports = async ({ deployments, getNamedAccounts }) => {
+    const { deploy } = deployments;
+    const { deployer } = await getNamedAccounts();
+
+    console.log("Deploying FundraisingLens with deployer:", deployer);
+
+    const fundraisingCenter = await deployments.get("FundraisingCenter");
+    console.log("FundraisingCenter address:", fundraisingCenter.address);
+
+    // Stateless views, redeployed rather than upgraded
+    await deploy("FundraisingLens", {
+        from: deployer,
+        log: true,
+        args: [fundraisingCenter.address],
+    });
+
+    console.log("FundraisingLens deployed!");
+};
+
+module.exports.tags = ["FundraisingLens"];
+module.exports.dependencies = ["FundraisingCenter"];
@@ -0,0 +1,32 @@
+const { ethers } = require("hardhat");
+
+module.exports = async ({ deployments, getNamedAccounts }) => {
+    const { execute, read, log } = deployments;
+    const { deployer } = await getNamedAccounts();
+
+    log("Granting PAUSER_ROLE to the admin...");
+
+    // Define the PAUSER_ROLE hash, the same in both contracts
+    const PAUSER_ROLE = "0x65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a";
+
+    // The deployer is the admin of both contracts: let it pause them without granting the role first,
+    // guardians get it with `emergency:grant-pauser`
+    for (const contractName of ["PeaqNFT", "FundraisingCenter"]) {
+        try {
+            const hasRole = await read(contractName, { from: deployer }, "hasRole", PAUSER_ROLE, deployer);
+
+            if (hasRole) {
+                log(`${deployer} already has PAUSER_ROLE in ${contractName}`);
+            } else {
+                await execute(contractName, { from: deployer, log: true }, "grantRole", PAUSER_ROLE, deployer);
+                log(`PAUSER_ROLE granted to ${deployer} in ${contractName}`);
+            }
+        } catch (error) {
+            log(`Error granting PAUSER_ROLE: ${error.message}`);
+            throw error; // Rethrow to ensure Hardhat properly detects the failure
+        }
+    }
+};
+
+module.exports.tags = ["GrantPauserRole"];
+module.exports.dependencies = ["PeaqNFT", "FundraisingCenter"];
@@ -4,6 +4,7 @@ import '@openzeppelin/hardhat-upgrades';
 import * as dotenv from "dotenv";
 import "hardhat-contract-sizer";
 import 'hardhat-deploy';
+import "./tasks";
 
 dotenv.config();
 
@@ -12,6 +13,20 @@ const accounts = {
   count: 30,
 };
 
+const fundraisingCenterCompiler = {
+  version: "0.8.28",
+  settings: {
+    viaIR: true,
+    optimizer: {
+      enabled: true,
+      runs: 200,
+      details: {
+        yul: true
+      }
+    }
+  }
+};
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   solidity: {
@@ -37,7 +52,11 @@ const config: HardhatUserConfig = {
           }
         }
       }
-    ]
+    ],
+    overrides: {
+      "contracts/Fundraising.sol": fundraisingCenterCompiler,
+      "contracts/mocks/MockFundraisingCenterV2.sol": fundraisingCenterCompiler,
+    }
   },
   networks: {
     hardhat: {
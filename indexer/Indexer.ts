@@ -0,0 +1,154 @@
+import { Interface, Log, Provider } from "ethers";
+import { PeaqNFT__factory } from "../typechain-types";
+import { decodeFundraisingEvents, fundraisingInterface } from "../sdk/events";
+import { IndexerStore, NftTransferWithMeta } from "./IndexerStore";
+
+export const peaqNFTInterface: Interface = PeaqNFT__factory.createInterface();
+
+// Events the store rebuilds state from; any other log of the two contracts is not fetched
+const FUNDRAISING_EVENTS = [
+    "FundraisingCreated",
+    "TiersConfigured",
+    "StartTimeUpdated",
+    "DurationUpdated",
+    "TargetAmountUpdated",
+    "MaxBuyAmountUpdated",
+    "PaymentTokenSet",
+    "FundraisingCancelled",
+    "ContributionMade",
+    "WhitelistUpdated",
+    "NftClaimed",
+    "RefundClaimed",
+    "FundClaimed",
+];
+const TOPICS = [
+    ...FUNDRAISING_EVENTS.map((name) => fundraisingInterface.getEvent(name)!.topicHash),
+    peaqNFTInterface.getEvent("Transfer")!.topicHash,
+];
+
+export interface IndexerOptions {
+    provider: Provider;
+    fundraisingCenter: string;
+    peaqNFT: string;
+    store: IndexerStore;
+    // First block to scan, usually the block `FundraisingCenter` was deployed in
+    startBlock?: number;
+    // Number of recent blocks that may still be reorged, they are re-scanned on every sync
+    confirmations?: number;
+    // Maximum number of blocks per `eth_getLogs` request
+    batchSize?: number;
+}
+
+export interface SyncResult {
+    fromBlock: number;
+    toBlock: number;
+    events: number;
+}
+
+export class ReorgError extends Error {
+    constructor(blockNumber: number, confirmations: number) {
+        super(`Block ${blockNumber} changed since it was indexed: reorg deeper than ${confirmations} confirmations, reindex from scratch`);
+        this.name = "ReorgError";
+    }
+}
+
+// Replays `FundraisingCenter` and `PeaqNFT` events into an `IndexerStore`, resuming from its checkpoint
+export class Indexer {
+    readonly provider: Provider;
+    readonly store: IndexerStore;
+    readonly fundraisingCenter: string;
+    readonly peaqNFT: string;
+    readonly startBlock: number;
+    readonly confirmations: number;
+    readonly batchSize: number;
+
+    constructor(options: IndexerOptions) {
+        this.provider = options.provider;
+        this.store = options.store;
+        this.fundraisingCenter = options.fundraisingCenter;
+        this.peaqNFT = options.peaqNFT;
+        this.startBlock = options.startBlock ?? 0;
+        this.confirmations = options.confirmations ?? 12;
+        this.batchSize = options.batchSize ?? 2000;
+    }
+
+    // Indexes every block up to `toBlock` (the latest block by default).
+    // Blocks after the last safe block are dropped and scanned again, so events of reorged blocks do not survive.
+    async sync(toBlock?: number): Promise<SyncResult> {
+        const head = toBlock ?? (await this.provider.getBlockNumber());
+        const fromBlock = await this._resumeBlock();
+        const safeHead = head - this.confirmations;
+
+        let events = 0;
+        let batchStart = fromBlock;
+        this.store.transaction(() => this.store.rollback(fromBlock));
+        do {
+            const batchEnd = Math.min(batchStart + this.batchSize - 1, head);
+            const logs =
+                batchStart <= batchEnd
+                    ? await this.provider.getLogs({
+                          address: [this.fundraisingCenter, this.peaqNFT],
+                          topics: [TOPICS],
+                          fromBlock: batchStart,
+                          toBlock: batchEnd,
+                      })
+                    : [];
+            const safeBlockNumber = Math.max(fromBlock - 1, Math.min(batchEnd, safeHead));
+            const safeBlockHash = await this._blockHash(safeBlockNumber);
+
+            this.store.transaction(() => {
+                events += this._insert(logs);
+                this.store.setCheckpoint({ blockNumber: Math.max(batchEnd, fromBlock - 1), safeBlockNumber, safeBlockHash });
+            });
+            this.store.save();
+            batchStart = batchEnd + 1;
+        } while (batchStart <= head);
+
+        return { fromBlock, toBlock: head, events };
+    }
+
+    // First block to scan: right after the last safe block, once it is checked to still be on chain
+    private async _resumeBlock(): Promise<number> {
+        const checkpoint = this.store.getCheckpoint();
+        if (checkpoint === undefined) {
+            return this.startBlock;
+        }
+        if (checkpoint.safeBlockNumber >= 0 && (await this._blockHash(checkpoint.safeBlockNumber)) !== checkpoint.safeBlockHash) {
+            throw new ReorgError(checkpoint.safeBlockNumber, this.confirmations);
+        }
+        return checkpoint.safeBlockNumber + 1;
+    }
+
+    private async _blockHash(blockNumber: number): Promise<string> {
+        if (blockNumber < 0) {
+            return "";
+        }
+        const block = await this.provider.getBlock(blockNumber);
+        return block?.hash ?? "";
+    }
+
+    private _insert(logs: readonly Log[]): number {
+        const nftAddress = this.peaqNFT.toLowerCase();
+        for (const event of decodeFundraisingEvents(logs, this.fundraisingCenter)) {
+            this.store.insertEvent(event);
+        }
+        for (const log of logs) {
+            if (log.address.toLowerCase() === nftAddress) {
+                this.store.insertTransfer(this._decodeTransfer(log));
+            }
+        }
+        return logs.length;
+    }
+
+    private _decodeTransfer(log: Log): NftTransferWithMeta {
+        const parsed = peaqNFTInterface.parseLog({ topics: [...log.topics], data: log.data })!;
+        return {
+            tokenId: parsed.args.tokenId,
+            from: parsed.args.from,
+            to: parsed.args.to,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+            logIndex: log.index,
+        };
+    }
+}
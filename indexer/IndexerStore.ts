@@ -0,0 +1,396 @@
+import fs from "fs";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+import { ZeroAddress, getAddress } from "ethers";
+import { EventMeta, FundraisingEventWithMeta, NftType } from "../sdk/types";
+import { EVENT_TABLES, SCHEMA } from "./schema";
+
+export interface Checkpoint {
+    // Last block whose logs are in the store
+    blockNumber: number;
+    // Newest block assumed final; the next sync re-scans everything after it
+    safeBlockNumber: number;
+    safeBlockHash: string;
+}
+
+export interface NftTransfer {
+    tokenId: bigint;
+    from: string;
+    to: string;
+}
+
+export type NftTransferWithMeta = NftTransfer & EventMeta;
+
+export interface IndexedFundraising {
+    id: bigint;
+    moderator: string;
+    startTime: bigint;
+    duration: bigint;
+    targetAmount: bigint;
+    // NFT types sold, in the order of their phases
+    tiers: NftType[];
+    // Maximum number of NFTs sold of each tier, \`UNCAPPED\` for a tier without cap
+    maxBuyAmounts: Record<NftType, bigint>;
+    // ERC-20 token the fundraising is paid in, unset for native currency
+    paymentToken?: string;
+    cancelled: boolean;
+    // Amount released to the moderator so far, once part of the fund is claimed
+    claimedFund?: bigint;
+    blockNumber: number;
+}
+
+export interface IndexedContributor {
+    user: string;
+    // Number of NFTs bought of each tier of the fundraising
+    byType: Record<NftType, bigint>;
+    totalAmount: bigint;
+    nftClaimed: boolean;
+    // Amount refunded, once the user claimed a refund
+    refund?: bigint;
+}
+
+export interface IndexedPosition extends IndexedContributor {
+    fundraisingId: bigint;
+}
+
+type Row = Record<string, SqlValue>;
+
+const emptyByType = (tiers: readonly NftType[]): Record<NftType, bigint> =>
+    Object.fromEntries(tiers.map((nftType) => [nftType, 0n])) as Record<NftType, bigint>;
+
+// SQLite store of the events replayed by `Indexer`, kept in memory and written to `file` on `save`
+export class IndexerStore {
+    readonly db: Database;
+    readonly file?: string;
+
+    private constructor(db: Database, file?: string) {
+        this.db = db;
+        this.file = file;
+        this.db.exec(SCHEMA);
+    }
+
+    // Opens the database at `file`, creating it on the first save. Without a file the store only lives in memory.
+    static async open(file?: string): Promise<IndexerStore> {
+        const SQL = await initSqlJs();
+        const data = file !== undefined && fs.existsSync(file) ? fs.readFileSync(file) : undefined;
+        return new IndexerStore(new SQL.Database(data), file);
+    }
+
+    save() {
+        if (this.file === undefined) {
+            return;
+        }
+        // Write then rename, so a crash never leaves a half written database behind
+        const tmp = `${this.file}.tmp`;
+        fs.writeFileSync(tmp, this.db.export());
+        fs.renameSync(tmp, this.file);
+    }
+
+    close() {
+        this.db.close();
+    }
+
+    transaction<T>(fn: () => T): T {
+        this.db.exec("BEGIN");
+        try {
+            const result = fn();
+            this.db.exec("COMMIT");
+            return result;
+        } catch (e) {
+            this.db.exec("ROLLBACK");
+            throw e;
+        }
+    }
+
+    /**
+     * WRITES
+     */
+
+    insertEvent(event: FundraisingEventWithMeta) {
+        const meta = [event.blockNumber, event.transactionHash, event.logIndex];
+        const id = event.fundraisingId.toString();
+        switch (event.name) {
+            case "FundraisingCreated":
+                this._run(
+                    "INSERT INTO fundraisings VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+                    [id, event.moderator, Number(event.startTime), Number(event.duration), event.targetAmount.toString(), ...meta]
+                );
+                break;
+            case "TiersConfigured":
+                event.tiers.forEach((tier, position) => {
+                    this._run("INSERT INTO tiers VALUES (?, ?, ?, ?, ?, ?, ?)", [id, position, tier.nftType, tier.maxBuyAmount.toString(), ...meta]);
+                });
+                break;
+            case "StartTimeUpdated":
+                this._updateParameter(id, "start_time", null, event.newStartTime, meta);
+                break;
+            case "DurationUpdated":
+                this._updateParameter(id, "duration", null, event.newDuration, meta);
+                break;
+            case "TargetAmountUpdated":
+                this._updateParameter(id, "target_amount", null, event.newTargetAmount, meta);
+                break;
+            case "MaxBuyAmountUpdated":
+                this._updateParameter(id, "max_buy_amount", event.nftType, event.newMaxBuyAmount, meta);
+                break;
+            case "PaymentTokenSet":
+                this._run("INSERT INTO payment_tokens VALUES (?, ?, ?, ?, ?)", [id, event.paymentToken, ...meta]);
+                break;
+            case "FundraisingCancelled":
+                this._run("INSERT INTO cancellations VALUES (?, ?, ?, ?)", [id, ...meta]);
+                break;
+            case "ContributionMade":
+                for (const item of event.amounts) {
+                    this._run("INSERT INTO contributions VALUES (?, ?, ?, ?, ?, ?, ?)", [id, event.user, item.nftType, item.amount.toString(), ...meta]);
+                }
+                break;
+            case "WhitelistUpdated":
+                this._run("INSERT INTO whitelist_updates VALUES (?, ?, ?, ?, ?, ?)", [id, event.user, event.isAdded ? 1 : 0, ...meta]);
+                break;
+            case "NftClaimed":
+                this._run("INSERT INTO nft_claims VALUES (?, ?, ?, ?, ?)", [id, event.user, ...meta]);
+                break;
+            case "RefundClaimed":
+                this._run("INSERT INTO refunds VALUES (?, ?, ?, ?, ?, ?)", [id, event.user, event.amount.toString(), ...meta]);
+                break;
+            case "FundClaimed":
+                this._run("INSERT INTO fund_claims VALUES (?, ?, ?, ?, ?, ?)", [id, event.moderator, event.amount.toString(), ...meta]);
+                break;
+            default:
+                // Price and Merkle root updates are read from the contract, not rebuilt
+                break;
+        }
+    }
+
+    insertTransfer(transfer: NftTransferWithMeta) {
+        this._run("INSERT INTO nft_transfers VALUES (?, ?, ?, ?, ?, ?)", [
+            transfer.tokenId.toString(),
+            transfer.from,
+            transfer.to,
+            transfer.blockNumber,
+            transfer.transactionHash,
+            transfer.logIndex,
+        ]);
+    }
+
+    // Forgets every event from `blockNumber` onwards, e.g. before re-scanning blocks that may have been reorged
+    rollback(blockNumber: number) {
+        for (const table of EVENT_TABLES) {
+            this._run(`DELETE FROM ${table} WHERE block_number >= ?`, [blockNumber]);
+        }
+    }
+
+    getCheckpoint(): Checkpoint | undefined {
+        const [row] = this._all("SELECT * FROM checkpoint WHERE id = 0");
+        if (row === undefined) {
+            return undefined;
+        }
+        return {
+            blockNumber: Number(row.block_number),
+            safeBlockNumber: Number(row.safe_block_number),
+            safeBlockHash: String(row.safe_block_hash),
+        };
+    }
+
+    setCheckpoint(checkpoint: Checkpoint) {
+        this._run("INSERT OR REPLACE INTO checkpoint VALUES (0, ?, ?, ?)", [
+            checkpoint.blockNumber,
+            checkpoint.safeBlockNumber,
+            checkpoint.safeBlockHash,
+        ]);
+    }
+
+    /**
+     * READS
+     */
+
+    getFundraisings(): IndexedFundraising[] {
+        return this._fundraisings();
+    }
+
+    getFundraising(fundraisingId: bigint): IndexedFundraising | undefined {
+        return this._fundraisings("WHERE f.fundraising_id = ?", [fundraisingId.toString()])[0];
+    }
+
+    getTiers(fundraisingId: bigint): NftType[] {
+        return this._all("SELECT nft_type FROM tiers WHERE fundraising_id = ? ORDER BY position", [fundraisingId.toString()]).map(
+            (row) => Number(row.nft_type) as NftType
+        );
+    }
+
+    // Number of NFTs of each tier sold by a fundraising
+    getBoughtAmounts(fundraisingId: bigint): Record<NftType, bigint> {
+        const bought = emptyByType(this.getTiers(fundraisingId));
+        for (const row of this._all("SELECT nft_type, amount FROM contributions WHERE fundraising_id = ?", [fundraisingId.toString()])) {
+            bought[Number(row.nft_type) as NftType] += BigInt(row.amount as string);
+        }
+        return bought;
+    }
+
+    // Contributors of a fundraising in the order they first contributed
+    getContributors(fundraisingId: bigint): IndexedContributor[] {
+        return this._positions("fundraising_id", fundraisingId.toString()).map(({ fundraisingId: _, ...contributor }) => contributor);
+    }
+
+    // Fundraisings a user contributed to, in the order they first contributed
+    getPositions(user: string): IndexedPosition[] {
+        return this._positions("user", getAddress(user));
+    }
+
+    // Addresses whitelisted in storage, i.e. whose latest `WhitelistUpdated` added them
+    getWhitelist(fundraisingId: bigint): string[] {
+        const whitelist = new Map<string, boolean>();
+        const rows = this._all("SELECT user, is_added FROM whitelist_updates WHERE fundraising_id = ? ORDER BY block_number, log_index", [
+            fundraisingId.toString(),
+        ]);
+        for (const row of rows) {
+            whitelist.set(String(row.user), row.is_added === 1);
+        }
+        return [...whitelist].filter(([, isAdded]) => isAdded).map(([user]) => user);
+    }
+
+    // Current owner of a token, `undefined` if it was never minted or has been burned
+    getOwner(tokenId: bigint): string | undefined {
+        const [row] = this._all(
+            "SELECT recipient FROM nft_transfers WHERE token_id = ? ORDER BY block_number DESC, log_index DESC LIMIT 1",
+            [tokenId.toString()]
+        );
+        if (row === undefined || row.recipient === ZeroAddress) {
+            return undefined;
+        }
+        return String(row.recipient);
+    }
+
+    getTokensOf(owner: string): bigint[] {
+        return this._all(`
+            SELECT t.token_id FROM nft_transfers t
+            WHERE t.recipient = ? AND NOT EXISTS (
+                SELECT 1 FROM nft_transfers later
+                WHERE later.token_id = t.token_id
+                AND (later.block_number > t.block_number OR (later.block_number = t.block_number AND later.log_index > t.log_index))
+            )
+            ORDER BY t.block_number, t.log_index
+        `, [getAddress(owner)]).map((row) => BigInt(row.token_id as string));
+    }
+
+    private _fundraisings(where = "", params: SqlValue[] = []): IndexedFundraising[] {
+        return this._all(`
+            SELECT f.*, pt.payment_token, c.fundraising_id IS NOT NULL AS cancelled,
+                (SELECT GROUP_CONCAT(fc.amount) FROM fund_claims fc WHERE fc.fundraising_id = f.fundraising_id) AS claimed_funds
+            FROM fundraisings f
+            LEFT JOIN payment_tokens pt ON pt.fundraising_id = f.fundraising_id
+            LEFT JOIN cancellations c ON c.fundraising_id = f.fundraising_id
+            ${where}
+            ORDER BY f.block_number, f.log_index
+        `, params).map((row) => this._applyParameterUpdates({
+            id: BigInt(row.fundraising_id as string),
+            moderator: String(row.moderator),
+            startTime: BigInt(row.start_time as number),
+            duration: BigInt(row.duration as number),
+            targetAmount: BigInt(row.target_amount as string),
+            tiers: this.getTiers(BigInt(row.fundraising_id as string)),
+            maxBuyAmounts: Object.fromEntries(
+                this._all("SELECT nft_type, max_buy_amount FROM tiers WHERE fundraising_id = ?", [row.fundraising_id]).map((tier) => [
+                    Number(tier.nft_type),
+                    BigInt(tier.max_buy_amount as string),
+                ])
+            ) as Record<NftType, bigint>,
+            paymentToken: row.payment_token === null ? undefined : String(row.payment_token),
+            cancelled: row.cancelled === 1,
+            // amounts are summed as bigints, SQLite sums would overflow or lose precision
+            claimedFund: row.claimed_funds === null ? undefined : String(row.claimed_funds).split(",").reduce((sum, amount) => sum + BigInt(amount), 0n),
+            blockNumber: Number(row.block_number),
+        }));
+    }
+
+    // Replays the edits of the creation parameters over the values the fundraising was created with
+    private _applyParameterUpdates(fundraising: IndexedFundraising): IndexedFundraising {
+        const rows = this._all("SELECT * FROM parameter_updates WHERE fundraising_id = ? ORDER BY block_number, log_index", [
+            fundraising.id.toString(),
+        ]);
+        for (const row of rows) {
+            const value = BigInt(row.value as string);
+            switch (row.parameter) {
+                case "start_time":
+                    // the contract keeps the duration when the start moves
+                    fundraising.startTime = value;
+                    break;
+                case "duration":
+                    fundraising.duration = value;
+                    break;
+                case "target_amount":
+                    fundraising.targetAmount = value;
+                    break;
+                case "max_buy_amount":
+                    fundraising.maxBuyAmounts[Number(row.nft_type) as NftType] = value;
+                    break;
+            }
+        }
+        return fundraising;
+    }
+
+    // Aggregates contributions, NFT claims and refunds per (fundraising, user), filtered on one of the two
+    private _positions(column: "fundraising_id" | "user", value: string): IndexedPosition[] {
+        const positions = new Map<string, IndexedPosition>();
+        const tiers = new Map<string, NftType[]>();
+        const key = (row: Row) => `${row.fundraising_id}:${row.user}`;
+        const tiersOf = (fundraisingId: string) => {
+            if (!tiers.has(fundraisingId)) {
+                tiers.set(fundraisingId, this.getTiers(BigInt(fundraisingId)));
+            }
+            return tiers.get(fundraisingId)!;
+        };
+
+        const rows = this._all(`SELECT * FROM contributions WHERE ${column} = ? ORDER BY block_number, log_index`, [value]);
+        for (const row of rows) {
+            let position = positions.get(key(row));
+            if (position === undefined) {
+                position = {
+                    fundraisingId: BigInt(row.fundraising_id as string),
+                    user: String(row.user),
+                    byType: emptyByType(tiersOf(row.fundraising_id as string)),
+                    totalAmount: 0n,
+                    nftClaimed: false,
+                };
+                positions.set(key(row), position);
+            }
+            const amount = BigInt(row.amount as string);
+            position.byType[Number(row.nft_type) as NftType] += amount;
+            position.totalAmount += amount;
+        }
+        for (const row of this._all(`SELECT fundraising_id, user FROM nft_claims WHERE ${column} = ?`, [value])) {
+            const position = positions.get(key(row));
+            if (position !== undefined) {
+                position.nftClaimed = true;
+            }
+        }
+        for (const row of this._all(`SELECT fundraising_id, user, amount FROM refunds WHERE ${column} = ?`, [value])) {
+            const position = positions.get(key(row));
+            if (position !== undefined) {
+                position.refund = BigInt(row.amount as string);
+            }
+        }
+        return [...positions.values()];
+    }
+
+    private _updateParameter(id: string, parameter: string, nftType: NftType | null, value: bigint, meta: SqlValue[]) {
+        this._run("INSERT INTO parameter_updates VALUES (?, ?, ?, ?, ?, ?, ?)", [id, parameter, nftType, value.toString(), ...meta]);
+    }
+
+    private _run(sql: string, params: SqlValue[]) {
+        this.db.run(sql, params);
+    }
+
+    private _all(sql: string, params: SqlValue[] = []): Row[] {
+        const statement = this.db.prepare(sql);
+        try {
+            statement.bind(params);
+            const rows: Row[] = [];
+            while (statement.step()) {
+                rows.push(statement.getAsObject());
+            }
+            return rows;
+        } finally {
+            statement.free();
+        }
+    }
+}
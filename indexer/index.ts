@@ -0,0 +1,3 @@
+export * from "./schema";
+export * from "./IndexerStore";
+export * from "./Indexer";
@@ -0,0 +1,113 @@
+// Every row records the log it was built from, so a reorg can be undone by deleting rows from a block onwards.
+// uint256 values (wei, token ids) are stored as decimal TEXT since SQLite integers are only 64 bits.
+export const EVENT_TABLES = [
+    "fundraisings",
+    "tiers",
+    "parameter_updates",
+    "payment_tokens",
+    "cancellations",
+    "contributions",
+    "whitelist_updates",
+    "nft_claims",
+    "refunds",
+    "fund_claims",
+    "nft_transfers",
+] as const;
+
+export type EventTable = (typeof EVENT_TABLES)[number];
+
+const LOG_COLUMNS = `
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL`;
+
+export const SCHEMA = `
+CREATE TABLE IF NOT EXISTS fundraisings (
+    fundraising_id TEXT NOT NULL PRIMARY KEY,
+    moderator TEXT NOT NULL,
+    start_time INTEGER NOT NULL,
+    duration INTEGER NOT NULL,
+    target_amount TEXT NOT NULL,${LOG_COLUMNS}
+);
+
+-- NFT types sold by a fundraising, \`position\` being the order of their phases
+CREATE TABLE IF NOT EXISTS tiers (
+    fundraising_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    nft_type INTEGER NOT NULL,
+    max_buy_amount TEXT NOT NULL,${LOG_COLUMNS}
+);
+CREATE INDEX IF NOT EXISTS tiers_fundraising ON tiers (fundraising_id);
+
+-- Creation parameters edited before the start, one row per edit: the latest edit of a parameter wins.
+-- \`nft_type\` is the tier of a max buy amount, NULL for the parameters of the whole fundraising.
+CREATE TABLE IF NOT EXISTS parameter_updates (
+    fundraising_id TEXT NOT NULL,
+    parameter TEXT NOT NULL,
+    nft_type INTEGER,
+    value TEXT NOT NULL,${LOG_COLUMNS}
+);
+CREATE INDEX IF NOT EXISTS parameter_updates_fundraising ON parameter_updates (fundraising_id);
+
+-- Only fundraisings paid in an ERC-20 token have a row, the others are paid in native currency
+CREATE TABLE IF NOT EXISTS payment_tokens (
+    fundraising_id TEXT NOT NULL PRIMARY KEY,
+    payment_token TEXT NOT NULL,${LOG_COLUMNS}
+);
+
+CREATE TABLE IF NOT EXISTS cancellations (
+    fundraising_id TEXT NOT NULL PRIMARY KEY,${LOG_COLUMNS}
+);
+
+-- One row per NFT type bought in a contribution
+CREATE TABLE IF NOT EXISTS contributions (
+    fundraising_id TEXT NOT NULL,
+    user TEXT NOT NULL,
+    nft_type INTEGER NOT NULL,
+    amount TEXT NOT NULL,${LOG_COLUMNS}
+);
+CREATE INDEX IF NOT EXISTS contributions_fundraising ON contributions (fundraising_id, user);
+CREATE INDEX IF NOT EXISTS contributions_user ON contributions (user);
+
+CREATE TABLE IF NOT EXISTS whitelist_updates (
+    fundraising_id TEXT NOT NULL,
+    user TEXT NOT NULL,
+    is_added INTEGER NOT NULL,${LOG_COLUMNS}
+);
+CREATE INDEX IF NOT EXISTS whitelist_updates_fundraising ON whitelist_updates (fundraising_id, user);
+
+CREATE TABLE IF NOT EXISTS nft_claims (
+    fundraising_id TEXT NOT NULL,
+    user TEXT NOT NULL,${LOG_COLUMNS}
+);
+
+CREATE TABLE IF NOT EXISTS refunds (
+    fundraising_id TEXT NOT NULL,
+    user TEXT NOT NULL,
+    amount TEXT NOT NULL,${LOG_COLUMNS}
+);
+
+-- A vested fund is released in several claims, one row each
+CREATE TABLE IF NOT EXISTS fund_claims (
+    fundraising_id TEXT NOT NULL,
+    moderator TEXT NOT NULL,
+    amount TEXT NOT NULL,${LOG_COLUMNS}
+);
+CREATE INDEX IF NOT EXISTS fund_claims_fundraising ON fund_claims (fundraising_id);
+
+CREATE TABLE IF NOT EXISTS nft_transfers (
+    token_id TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    recipient TEXT NOT NULL,${LOG_COLUMNS}
+);
+CREATE INDEX IF NOT EXISTS nft_transfers_token ON nft_transfers (token_id);
+CREATE INDEX IF NOT EXISTS nft_transfers_recipient ON nft_transfers (recipient);
+
+-- Single row: the last indexed block and the newest block considered final
+CREATE TABLE IF NOT EXISTS checkpoint (
+    id INTEGER NOT NULL PRIMARY KEY CHECK (id = 0),
+    block_number INTEGER NOT NULL,
+    safe_block_number INTEGER NOT NULL,
+    safe_block_hash TEXT NOT NULL
+);
+`;
@@ -0,0 +1,640 @@
+import {
+    AddressLike,
+    BigNumberish,
+    ContractRunner,
+    ContractTransactionResponse,
+    Interface,
+    Signature,
+    Signer,
+    TransactionReceipt,
+    ZeroAddress,
+} from "ethers";
+import { ERC20Permit__factory, FundraisingCenter, FundraisingCenter__factory } from "../typechain-types";
+import { toFundraisingError } from "./errors";
+import { decodeFundraisingEvents, toPricing, toTiers, toVestingSchedule } from "./events";
+import { buildReferralLeaderboard } from "./referrals";
+import {
+    BuyAmount,
+    CreateFundraisingParams,
+    CreateFundraisingWithTiersParams,
+    FundRelease,
+    FundraisingEventWithMeta,
+    FundraisingInfo,
+    FundraisingStatus,
+    NftType,
+    PermitSignature,
+    PriceCurve,
+    Pricing,
+    Quote,
+    ReferralInfo,
+    ReferrerStats,
+    SetHardCapParams,
+    SetPricingParams,
+    SetVestingParams,
+    SetWalletLimitsParams,
+    Tier,
+    TierPrice,
+    UpdateFundraisingParams,
+    UserContribution,
+    VestingSchedule,
+    WalletLimits,
+    nftTypeName,
+} from "./types";
+
+export interface TxResult {
+    receipt: TransactionReceipt;
+    events: FundraisingEventWithMeta[];
+}
+
+// Result of several transactions, with the events of all of them in order
+export interface MultiTxResult {
+    receipts: TransactionReceipt[];
+    events: FundraisingEventWithMeta[];
+}
+
+export interface QuoteOptions {
+    // Timestamp to quote at, defaults to the timestamp of the latest block
+    timestamp?: BigNumberish;
+    // Wallet whose limits to check, as if it had not contributed yet when omitted
+    user?: AddressLike;
+}
+
+export interface ContributeOptions extends QuoteOptions {
+    // Merkle proof that the sender is whitelisted, see `buildWhitelistTree`
+    proof?: readonly string[];
+    // Deadline of the permit signed for ERC-20 fundraisings, 10 minutes after the quote by default
+    permitDeadline?: BigNumberish;
+    // Promoter who brought the sender, only the first referrer of a contributor counts
+    referrer?: AddressLike;
+}
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+export class FundraisingClient {
+    readonly contract: FundraisingCenter;
+
+    constructor(contract: FundraisingCenter) {
+        this.contract = contract;
+    }
+
+    static connect(address: string, runner: ContractRunner): FundraisingClient {
+        return new FundraisingClient(FundraisingCenter__factory.connect(address, runner));
+    }
+
+    // Returns a client bound to another signer, e.g. `client.connect(moderator)`
+    connect(runner: ContractRunner): FundraisingClient {
+        return new FundraisingClient(this.contract.connect(runner));
+    }
+
+    async getAddress(): Promise<string> {
+        return this.contract.getAddress();
+    }
+
+    /**
+     * MODERATOR FUNCTIONS
+     */
+
+    // Creates a legendary/epic/common fundraising, or one with its own tiers when `params.tiers` is given
+    async createFundraising(
+        params: CreateFundraisingParams | CreateFundraisingWithTiersParams
+    ): Promise<TxResult & { fundraisingId: bigint }> {
+        const result = await this._send(
+            "tiers" in params
+                ? this.contract.createFundraisingWithTiers(
+                      params.startTime,
+                      params.duration,
+                      params.targetAmount,
+                      params.tiers,
+                      params.paymentToken ?? ZeroAddress
+                  )
+                : this.contract.createFundraising(
+                      params.startTime,
+                      params.duration,
+                      params.targetAmount,
+                      params.basePrices[NftType.LEGENDARY],
+                      params.basePrices[NftType.EPIC],
+                      params.basePrices[NftType.COMMON],
+                      params.maxBuyAmounts[NftType.LEGENDARY],
+                      params.maxBuyAmounts[NftType.EPIC]
+                  )
+        );
+        const created = result.events.find((event) => event.name === "FundraisingCreated");
+        if (created === undefined) {
+            throw new Error("FundraisingCreated event not found");
+        }
+        return { ...result, fundraisingId: created.fundraisingId };
+    }
+
+    async setBasePrice(fundraisingId: BigNumberish, nftType: NftType, price: bigint): Promise<TxResult> {
+        return this._send(this.contract.setBasePrice(fundraisingId, nftType, price));
+    }
+
+    // Keeps the duration, the end of the raise moves along
+    async setStartTime(fundraisingId: BigNumberish, startTime: BigNumberish): Promise<TxResult> {
+        return this._send(this.contract.setStartTime(fundraisingId, startTime));
+    }
+
+    async setDuration(fundraisingId: BigNumberish, duration: BigNumberish): Promise<TxResult> {
+        return this._send(this.contract.setDuration(fundraisingId, duration));
+    }
+
+    async setTargetAmount(fundraisingId: BigNumberish, targetAmount: bigint): Promise<TxResult> {
+        return this._send(this.contract.setTargetAmount(fundraisingId, targetAmount));
+    }
+
+    async setMaxBuyAmount(fundraisingId: BigNumberish, nftType: NftType, maxBuyAmount: BigNumberish): Promise<TxResult> {
+        return this._send(this.contract.setMaxBuyAmount(fundraisingId, nftType, maxBuyAmount));
+    }
+
+    // Sends one transaction per parameter that differs from the fundraising, none when nothing changed.
+    // The start time goes first, so that a new duration counts from the new start time.
+    async updateFundraising(fundraisingId: BigNumberish, params: UpdateFundraisingParams): Promise<MultiTxResult> {
+        const [info, tiers] = await Promise.all([this.contract.getFundraising(fundraisingId), this.getTiers(fundraisingId)]);
+        for (const nftType of [...Object.keys(params.basePrices ?? {}), ...Object.keys(params.maxBuyAmounts ?? {})].map(Number)) {
+            if (!tiers.some((tier) => tier.nftType === nftType)) {
+                throw new Error(`Fundraising #${fundraisingId} has no ${nftTypeName(nftType)} tier`);
+            }
+        }
+        const pending: (() => Promise<TxResult>)[] = [];
+        if (params.startTime !== undefined && BigInt(params.startTime) !== info.startTime) {
+            pending.push(() => this.setStartTime(fundraisingId, params.startTime!));
+        }
+        if (params.duration !== undefined && BigInt(params.duration) !== info.targetTime - info.startTime) {
+            pending.push(() => this.setDuration(fundraisingId, params.duration!));
+        }
+        if (params.targetAmount !== undefined && params.targetAmount !== info.targetAmount) {
+            pending.push(() => this.setTargetAmount(fundraisingId, params.targetAmount!));
+        }
+        for (const tier of tiers) {
+            const basePrice = params.basePrices?.[tier.nftType];
+            if (basePrice !== undefined && basePrice !== tier.basePrice) {
+                pending.push(() => this.setBasePrice(fundraisingId, tier.nftType, basePrice));
+            }
+            const maxBuyAmount = params.maxBuyAmounts?.[tier.nftType];
+            if (maxBuyAmount !== undefined && BigInt(maxBuyAmount) !== tier.maxBuyAmount) {
+                pending.push(() => this.setMaxBuyAmount(fundraisingId, tier.nftType, maxBuyAmount));
+            }
+        }
+        const result: MultiTxResult = { receipts: [], events: [] };
+        for (const send of pending) {
+            const { receipt, events } = await send();
+            result.receipts.push(receipt);
+            result.events.push(...events);
+        }
+        return result;
+    }
+
+    async setWalletLimits(fundraisingId: BigNumberish, limits: SetWalletLimitsParams): Promise<TxResult> {
+        const tiers = await this.getTiers(fundraisingId);
+        return this._send(
+            this.contract.setWalletLimits(fundraisingId, {
+                minContribution: limits.minContribution ?? 0n,
+                maxWalletValue: limits.maxWalletValue ?? 0n,
+                maxPerWallet: tiers.map((tier) => limits.maxPerWallet?.[tier.nftType] ?? 0n),
+            })
+        );
+    }
+
+    async setHardCap(fundraisingId: BigNumberish, params: SetHardCapParams): Promise<TxResult> {
+        return this._send(this.contract.setHardCap(fundraisingId, params.hardCap, params.closeOnHardCap ?? false));
+    }
+
+    async setPricing(fundraisingId: BigNumberish, params: SetPricingParams): Promise<TxResult> {
+        const tiers = await this.getTiers(fundraisingId);
+        return this._send(
+            this.contract.setPricing(
+                fundraisingId,
+                tiers.map((tier) => ({
+                    curve: params[tier.nftType]?.curve ?? PriceCurve.FIXED,
+                    step: params[tier.nftType]?.step ?? 0n,
+                    interval: params[tier.nftType]?.interval ?? 0n,
+                    floorPrice: params[tier.nftType]?.floorPrice ?? 0n,
+                }))
+            )
+        );
+    }
+
+    async setVesting(fundraisingId: BigNumberish, params: SetVestingParams): Promise<TxResult> {
+        return this._send(
+            this.contract.setVesting(fundraisingId, {
+                kind: params.kind,
+                cliff: params.cliff ?? 0n,
+                duration: params.duration ?? 0n,
+                tranches: params.tranches ?? [],
+            })
+        );
+    }
+
+    async cancelFundraising(fundraisingId: BigNumberish): Promise<TxResult> {
+        return this._send(this.contract.cancelFundraising(fundraisingId));
+    }
+
+    async addToWhitelist(fundraisingId: BigNumberish, user: AddressLike): Promise<TxResult> {
+        return this._send(this.contract.addToWhitelist(fundraisingId, user));
+    }
+
+    async removeFromWhitelist(fundraisingId: BigNumberish, user: AddressLike): Promise<TxResult> {
+        return this._send(this.contract.removeFromWhitelist(fundraisingId, user));
+    }
+
+    async addToWhitelistBatch(fundraisingId: BigNumberish, users: AddressLike[]): Promise<TxResult> {
+        return this._send(this.contract.addToWhitelistBatch(fundraisingId, users));
+    }
+
+    async removeFromWhitelistBatch(fundraisingId: BigNumberish, users: AddressLike[]): Promise<TxResult> {
+        return this._send(this.contract.removeFromWhitelistBatch(fundraisingId, users));
+    }
+
+    async setWhitelistRoot(fundraisingId: BigNumberish, root: string): Promise<TxResult> {
+        return this._send(this.contract.setWhitelistRoot(fundraisingId, root));
+    }
+
+    // Releases the part of the fund vested so far, see `getFundRelease`
+    async claimFund(fundraisingId: BigNumberish): Promise<TxResult> {
+        return this._send(this.contract.claimFund(fundraisingId));
+    }
+
+    // `percentage` is out of `MAX_PERCENTAGE`, like `2_50n` for 2.5%
+    async setReferralPercentage(fundraisingId: BigNumberish, percentage: bigint): Promise<TxResult> {
+        return this._send(this.contract.setReferralPercentage(fundraisingId, percentage));
+    }
+
+    async claimReferralReward(fundraisingId: BigNumberish): Promise<TxResult> {
+        return this._send(this.contract.claimReferralReward(fundraisingId));
+    }
+
+    /**
+     * EMERGENCY FUNCTIONS
+     */
+
+    // Stops or resumes an entry point given by name, like `contribute`, or by signature. Pausers stop them, only the admin resumes them.
+    async setFunctionPaused(functionName: string, paused: boolean): Promise<TxResult> {
+        return this._send(this.contract.setFunctionPaused(this._selector(functionName), paused));
+    }
+
+    // Stops every call acting on a fundraising that has not ended yet, as the admin
+    async setFrozen(fundraisingId: BigNumberish, frozen: boolean): Promise<TxResult> {
+        return this._send(this.contract.setFrozen(fundraisingId, frozen));
+    }
+
+    // Starts the timelock after which the moderator may `forceFail` their open fundraising, see `getForceFailTime`
+    async requestForceFail(fundraisingId: BigNumberish, reason: string): Promise<TxResult> {
+        return this._send(this.contract.requestForceFail(fundraisingId, reason));
+    }
+
+    // Ends an open fundraising as failed so that its backers can `refund`, as the admin or the moderator after their timelock
+    async forceFail(fundraisingId: BigNumberish, reason: string): Promise<TxResult> {
+        return this._send(this.contract.forceFail(fundraisingId, reason));
+    }
+
+    // Fails a frozen fundraising so that its backers can `refund`, as the admin
+    async enableEmergencyRefund(fundraisingId: BigNumberish): Promise<TxResult> {
+        return this._send(this.contract.enableEmergencyRefund(fundraisingId));
+    }
+
+    /**
+     * CONTRIBUTOR FUNCTIONS
+     */
+
+    // Asks the contract which NFT types `number` NFTs resolve to and what they cost.
+    // Throws a `FundraisingError` when the contribution would revert, e.g. on a wallet limit.
+    async quote(fundraisingId: BigNumberish, number: BigNumberish, options: QuoteOptions = {}): Promise<Quote> {
+        const timestamp = options.timestamp !== undefined ? BigInt(options.timestamp) : await this._latestTimestamp();
+        const [amounts, totalValue] = await this.contract
+            .determineBuyAmountsFor(fundraisingId, options.user ?? ZeroAddress, number, timestamp)
+            .catch((e) => {
+                throw toFundraisingError(e);
+            });
+        return {
+            fundraisingId: BigInt(fundraisingId),
+            number: BigInt(number),
+            timestamp,
+            amounts: amounts.map((item): BuyAmount => ({ nftType: Number(item.nftType) as NftType, amount: item.amount })),
+            totalValue,
+        };
+    }
+
+    // `value` is the native currency to send, zero for ERC-20 fundraisings which transfer the approved token instead
+    async contribute(
+        fundraisingId: BigNumberish,
+        number: BigNumberish,
+        value: bigint,
+        proof?: readonly string[],
+        referrer?: AddressLike
+    ): Promise<TxResult> {
+        if (referrer !== undefined) {
+            return this._send(this.contract.contributeWithReferrer(fundraisingId, number, [...(proof ?? [])], referrer, { value }));
+        }
+        if (proof !== undefined) {
+            return this._send(this.contract.contributeWithProof(fundraisingId, number, [...proof], { value }));
+        }
+        return this._send(this.contract.contribute(fundraisingId, number, { value }));
+    }
+
+    async contributeWithPermit(
+        fundraisingId: BigNumberish,
+        number: BigNumberish,
+        permit: PermitSignature,
+        proof: readonly string[] = []
+    ): Promise<TxResult> {
+        return this._send(this.contract.contributeWithPermit(fundraisingId, number, [...proof], permit));
+    }
+
+    // Signs an EIP-2612 permit letting the fundraising contract spend `value` of its payment token
+    async signPermit(fundraisingId: BigNumberish, value: bigint, deadline: BigNumberish): Promise<PermitSignature> {
+        const signer = this._signer();
+        const { paymentToken } = await this.contract.getFundraising(fundraisingId);
+        if (paymentToken === ZeroAddress) {
+            throw new Error(`Fundraising #${fundraisingId} is paid in native currency`);
+        }
+        const token = ERC20Permit__factory.connect(paymentToken, signer);
+        const owner = await signer.getAddress();
+        const [[, name, version, chainId, verifyingContract], nonce] = await Promise.all([token.eip712Domain(), token.nonces(owner)]);
+        const message = { owner, spender: await this.getAddress(), value, nonce, deadline: BigInt(deadline) };
+        const signature = Signature.from(await signer.signTypedData({ name, version, chainId, verifyingContract }, PERMIT_TYPES, message));
+        return { value, deadline: message.deadline, v: signature.v, r: signature.r, s: signature.s };
+    }
+
+    // Quotes `number` NFTs and contributes with exactly the quoted value, so nothing is sent back as change.
+    // ERC-20 fundraisings are approved with a permit in the same transaction unless the allowance already covers the quote.
+    async quoteAndContribute(
+        fundraisingId: BigNumberish,
+        number: BigNumberish,
+        options: ContributeOptions = {}
+    ): Promise<TxResult & { quote: Quote }> {
+        const [quote, { paymentToken }] = await Promise.all([
+            this.quote(fundraisingId, number, { user: await this._signer().getAddress(), ...options }),
+            this.contract.getFundraising(fundraisingId),
+        ]);
+        if (paymentToken === ZeroAddress) {
+            return { ...(await this.contribute(fundraisingId, number, quote.totalValue, options.proof, options.referrer)), quote };
+        }
+
+        const token = ERC20Permit__factory.connect(paymentToken, this._signer());
+        const allowance = await token.allowance(await this._signer().getAddress(), await this.getAddress());
+        if (allowance < quote.totalValue && options.referrer !== undefined) {
+            // `contributeWithPermit` takes no referrer: approve in a transaction of its own
+            await (await token.approve(await this.getAddress(), quote.totalValue)).wait();
+        }
+        if (allowance >= quote.totalValue || options.referrer !== undefined) {
+            return { ...(await this.contribute(fundraisingId, number, 0n, options.proof, options.referrer)), quote };
+        }
+        const deadline = options.permitDeadline ?? quote.timestamp + 10n * 60n;
+        const permit = await this.signPermit(fundraisingId, quote.totalValue, deadline);
+        return { ...(await this.contributeWithPermit(fundraisingId, number, permit, options.proof)), quote };
+    }
+
+    async claimNft(fundraisingId: BigNumberish, amount?: BigNumberish): Promise<TxResult> {
+        if (amount === undefined) {
+            return this._send(this.contract.claimAllNft(fundraisingId));
+        }
+        return this._send(this.contract.claimNft(fundraisingId, amount));
+    }
+
+    async refund(fundraisingId: BigNumberish): Promise<TxResult> {
+        return this._send(this.contract.refund(fundraisingId));
+    }
+
+    /**
+     * GETTERS
+     */
+
+    async getStatus(fundraisingId: BigNumberish): Promise<FundraisingStatus> {
+        return Number(await this.contract.getFundraisingStatus(fundraisingId)) as FundraisingStatus;
+    }
+
+    // When the moderator may `forceFail` the fundraising, zero if they did not request it
+    async getForceFailTime(fundraisingId: BigNumberish): Promise<bigint> {
+        return this.contract.getForceFailTime(fundraisingId);
+    }
+
+    async isFrozen(fundraisingId: BigNumberish): Promise<boolean> {
+        return this.contract.isFrozen(fundraisingId);
+    }
+
+    async isFunctionPaused(functionName: string): Promise<boolean> {
+        return this.contract.pausedFunctions(this._selector(functionName));
+    }
+
+    // Names of the paused entry points, out of every function of the contract that is not a view
+    async getPausedFunctions(): Promise<string[]> {
+        const names: string[] = [];
+        this.contract.interface.forEachFunction((fragment) => {
+            if (!fragment.constant) {
+                names.push(fragment.name);
+            }
+        });
+        const paused = await Promise.all(names.map((name) => this.isFunctionPaused(name)));
+        return names.filter((_, i) => paused[i]);
+    }
+
+    async getFundraising(fundraisingId: BigNumberish): Promise<FundraisingInfo> {
+        const [info, status] = await Promise.all([
+            this.contract.getFundraising(fundraisingId),
+            this.getStatus(fundraisingId),
+        ]);
+        return {
+            id: BigInt(fundraisingId),
+            moderator: info.moderator,
+            startTime: info.startTime,
+            targetTime: info.targetTime,
+            targetAmount: info.targetAmount,
+            totalContribution: info.totalContribution,
+            fundClaimed: info.fundClaimed,
+            paymentToken: info.paymentToken,
+            hardCap: info.hardCap,
+            closeOnHardCap: info.closeOnHardCap,
+            status,
+        };
+    }
+
+    // Tiers of the fundraising in the order they are sold
+    async getTiers(fundraisingId: BigNumberish): Promise<Tier[]> {
+        return toTiers(await this.contract.getFundraisingTiers(fundraisingId));
+    }
+
+    async getBasePrices(fundraisingId: BigNumberish): Promise<Record<NftType, bigint>> {
+        const tiers = await this.getTiers(fundraisingId);
+        return Object.fromEntries(tiers.map((tier) => [tier.nftType, tier.basePrice])) as Record<NftType, bigint>;
+    }
+
+    async getPricing(fundraisingId: BigNumberish): Promise<Record<NftType, Pricing>> {
+        const [pricing, tiers] = await Promise.all([this.contract.getPricing(fundraisingId).then(toPricing), this.getTiers(fundraisingId)]);
+        return Object.fromEntries(tiers.map((tier, i) => [tier.nftType, pricing[i]])) as Record<NftType, Pricing>;
+    }
+
+    // What the price of the next NFTs of each tier depends on, to price purchases with `totalValueOf`
+    async getTierPrices(fundraisingId: BigNumberish): Promise<Record<NftType, TierPrice>> {
+        const [info, tiers, pricing, sold] = await Promise.all([
+            this.contract.getFundraising(fundraisingId),
+            this.getTiers(fundraisingId),
+            this.getPricing(fundraisingId),
+            this.getBoughtAmounts(fundraisingId),
+        ]);
+        let phaseStart = info.startTime;
+        return Object.fromEntries(
+            tiers.map((tier) => {
+                const price = { basePrice: tier.basePrice, pricing: pricing[tier.nftType], sold: sold[tier.nftType], phaseStart };
+                phaseStart += tier.duration;
+                return [tier.nftType, price];
+            })
+        ) as Record<NftType, TierPrice>;
+    }
+
+    // Price of the next NFT of a tier, at the timestamp of the latest block by default
+    async getUnitPrice(fundraisingId: BigNumberish, nftType: NftType, timestamp?: BigNumberish): Promise<bigint> {
+        return this.contract.getUnitPrice(fundraisingId, nftType, timestamp ?? (await this._latestTimestamp()));
+    }
+
+    async getMaxBuyAmounts(fundraisingId: BigNumberish): Promise<Record<NftType, bigint>> {
+        const tiers = await this.getTiers(fundraisingId);
+        return Object.fromEntries(tiers.map((tier) => [tier.nftType, tier.maxBuyAmount])) as Record<NftType, bigint>;
+    }
+
+    async getBoughtAmounts(fundraisingId: BigNumberish): Promise<Record<NftType, bigint>> {
+        return this._perTier(fundraisingId, (nftType) => this.contract.getFundraisingBoughtAmount(fundraisingId, nftType));
+    }
+
+    async getUserContribution(fundraisingId: BigNumberish, user: AddressLike): Promise<UserContribution> {
+        const [contribution, byType, paidByType, payments] = await Promise.all([
+            this.contract.getUserContribution(fundraisingId, user),
+            this._perTier(fundraisingId, (nftType) => this.contract.getUserContributionByType(fundraisingId, user, nftType)),
+            this._perTier(fundraisingId, (nftType) => this.contract.getUserPaidByType(fundraisingId, user, nftType)),
+            this.contract.getUserPayments(fundraisingId, user),
+        ]);
+        return {
+            totalValue: contribution.totalValue,
+            totalContribution: contribution.totalContribution,
+            claimedCount: contribution.claimedCount,
+            refunded: contribution.refunded,
+            fullClaimed: contribution.fullClaimed,
+            whitelisted: contribution.whitelisted,
+            byType,
+            paidByType,
+            payments: [...payments],
+        };
+    }
+
+    async getVesting(fundraisingId: BigNumberish): Promise<VestingSchedule> {
+        return toVestingSchedule(await this.contract.getVesting(fundraisingId));
+    }
+
+    async getFundRelease(fundraisingId: BigNumberish): Promise<FundRelease> {
+        const [released, releasable, remaining] = await this.contract.getFundRelease(fundraisingId);
+        return { released, releasable, remaining };
+    }
+
+    // Part of the current fund vested at `timestamp`, the timestamp of the latest block by default
+    async getVestedFund(fundraisingId: BigNumberish, timestamp?: BigNumberish): Promise<bigint> {
+        return this.contract.getVestedFund(fundraisingId, timestamp ?? (await this._latestTimestamp()));
+    }
+
+    async getReferralInfo(fundraisingId: BigNumberish): Promise<ReferralInfo> {
+        const [percentage, totalRewards] = await this.contract.getReferralInfo(fundraisingId);
+        return { percentage, totalRewards };
+    }
+
+    // Referrer `user` is attributed to, `ZeroAddress` for none
+    async getReferrer(fundraisingId: BigNumberish, user: AddressLike): Promise<string> {
+        return this.contract.getReferrer(fundraisingId, user);
+    }
+
+    // Reward accrued to `referrer` and not claimed yet, paid only if the raise succeeds
+    async getReferralReward(fundraisingId: BigNumberish, referrer: AddressLike): Promise<bigint> {
+        return this.contract.getReferralReward(fundraisingId, referrer);
+    }
+
+    // Per-referrer totals from the referral events of the fundraising, the referrers who brought the most value first
+    async getReferralLeaderboard(fundraisingId: BigNumberish, fromBlock: number = 0): Promise<ReferrerStats[]> {
+        const [recorded, claimed] = await Promise.all([
+            this.contract.queryFilter(this.contract.filters.ReferralRecorded(fundraisingId), fromBlock),
+            this.contract.queryFilter(this.contract.filters.ReferralRewardClaimed(fundraisingId), fromBlock),
+        ]);
+        return buildReferralLeaderboard(decodeFundraisingEvents([...recorded, ...claimed]));
+    }
+
+    // Amount `refund` pays `user` if the fundraising fails, zero once refunded
+    async getRefundAmount(fundraisingId: BigNumberish, user: AddressLike): Promise<bigint> {
+        return this.contract.getRefundAmount(fundraisingId, user);
+    }
+
+    async getWalletLimits(fundraisingId: BigNumberish): Promise<WalletLimits> {
+        const [limits, tiers] = await Promise.all([this.contract.getWalletLimits(fundraisingId), this.getTiers(fundraisingId)]);
+        return {
+            minContribution: limits.minContribution,
+            maxWalletValue: limits.maxWalletValue,
+            maxPerWallet: Object.fromEntries(tiers.map((tier, i) => [tier.nftType, limits.maxPerWallet[i]])) as Record<NftType, bigint>,
+        };
+    }
+
+    // Whether `user` is whitelisted in storage, or through `proof` when one is given
+    async isWhitelisted(fundraisingId: BigNumberish, user: AddressLike, proof?: readonly string[]): Promise<boolean> {
+        if (proof !== undefined) {
+            return this.contract.isWhitelisted(fundraisingId, user, [...proof]);
+        }
+        return this.contract.getUserWhitelisted(fundraisingId, user);
+    }
+
+    async getWhitelistRoot(fundraisingId: BigNumberish): Promise<string> {
+        return this.contract.getWhitelistRoot(fundraisingId);
+    }
+
+    // Reads a value for every tier of a fundraising, keyed by NFT type
+    private async _perTier(fundraisingId: BigNumberish, read: (nftType: NftType) => Promise<bigint>): Promise<Record<NftType, bigint>> {
+        const tiers = await this.getTiers(fundraisingId);
+        const values = await Promise.all(tiers.map((tier) => read(tier.nftType)));
+        return Object.fromEntries(tiers.map((tier, i) => [tier.nftType, values[i]])) as Record<NftType, bigint>;
+    }
+
+    private _selector(functionName: string): string {
+        const fragment = (this.contract.interface as Interface).getFunction(functionName);
+        if (fragment === null) {
+            throw new Error(`Unknown function: ${functionName}`);
+        }
+        return fragment.selector;
+    }
+
+    private _signer(): Signer {
+        const runner = this.contract.runner;
+        if (runner === null || !("signTypedData" in runner)) {
+            throw new Error("FundraisingClient: runner is not a signer");
+        }
+        return runner as Signer;
+    }
+
+    private async _latestTimestamp(): Promise<bigint> {
+        const provider = this.contract.runner?.provider;
+        if (!provider) {
+            throw new Error("FundraisingClient: runner has no provider");
+        }
+        const block = await provider.getBlock("latest");
+        if (block === null) {
+            throw new Error("FundraisingClient: latest block not found");
+        }
+        return BigInt(block.timestamp);
+    }
+
+    // Reverts are rethrown as `FundraisingError`
+    private async _send(pending: Promise<ContractTransactionResponse>): Promise<TxResult> {
+        let tx: ContractTransactionResponse;
+        let receipt: TransactionReceipt | null;
+        try {
+            tx = await pending;
+            receipt = await tx.wait();
+        } catch (e) {
+            throw toFundraisingError(e);
+        }
+        if (receipt === null) {
+            throw new Error(`Transaction ${tx.hash} was not mined`);
+        }
+        return { receipt, events: decodeFundraisingEvents(receipt.logs, await this.getAddress()) };
+    }
+}
@@ -0,0 +1,173 @@
+import { BigNumberish, ContractRunner, ContractTransactionResponse, Signer, TransactionReceipt } from "ethers";
+import { FundraisingGovernor, FundraisingGovernor__factory, PeaqNFT, PeaqNFT__factory } from "../typechain-types";
+import { toFundraisingError } from "./errors";
+import { getTokensOf } from "./tokens";
+import { GovernedRelease, Proposal, ProposalState } from "./types";
+
+export interface ProposeResult {
+    receipt: TransactionReceipt;
+    proposalId: bigint;
+}
+
+export interface VoteResult {
+    receipt: TransactionReceipt;
+    tokenIds: bigint[];
+    weight: bigint;
+}
+
+export interface ReclaimResult {
+    receipt: TransactionReceipt;
+    tokenIds: bigint[];
+    amount: bigint;
+}
+
+// Votes of PeaqNFT holders on the release of the fund of GOVERNED fundraisings, see `FundraisingGovernor`
+export class FundraisingGovernorClient {
+    readonly contract: FundraisingGovernor;
+
+    constructor(contract: FundraisingGovernor) {
+        this.contract = contract;
+    }
+
+    static connect(address: string, runner: ContractRunner): FundraisingGovernorClient {
+        return new FundraisingGovernorClient(FundraisingGovernor__factory.connect(address, runner));
+    }
+
+    connect(runner: ContractRunner): FundraisingGovernorClient {
+        return new FundraisingGovernorClient(this.contract.connect(runner));
+    }
+
+    async getAddress(): Promise<string> {
+        return this.contract.getAddress();
+    }
+
+    // Proposes the next tranche of the fund, as the moderator of the fundraising
+    async propose(fundraisingId: BigNumberish): Promise<ProposeResult> {
+        const receipt = await this._send(this.contract.propose(fundraisingId));
+        const created = this._parseLogs(receipt).find((parsed) => parsed.name === "ProposalCreated");
+        if (created === undefined) {
+            throw new Error("ProposalCreated event not found");
+        }
+        return { receipt, proposalId: created.args.proposalId };
+    }
+
+    // Votes with the signer's tokens, by default all the ones of the fundraising it held at the snapshot, or claimed since,
+    // that have a weight and did not vote yet
+    async castVote(proposalId: BigNumberish, support: boolean, tokenIds?: readonly bigint[]): Promise<VoteResult> {
+        const signer = this._signer();
+        let ids = tokenIds ? [...tokenIds] : [];
+        if (tokenIds === undefined) {
+            ids = await getTokensOf(await this._nft(), signer, await this.contract.proposalSnapshot(proposalId));
+            const [voted, weights] = await Promise.all([
+                Promise.all(ids.map((tokenId) => this.contract.hasVoted(proposalId, tokenId))),
+                Promise.all(ids.map((tokenId) => this.contract.getProposalVotingWeight(proposalId, [tokenId]))),
+            ]);
+            ids = ids.filter((_, i) => !voted[i] && weights[i] > 0n);
+        }
+        const receipt = await this._send(this.contract.castVote(proposalId, ids, support));
+        const cast = this._parseLogs(receipt).find((parsed) => parsed.name === "VoteCast");
+        return { receipt, tokenIds: ids, weight: cast?.args.weight ?? 0n };
+    }
+
+    // Pays the tranche if the closed proposal passed, revokes the release otherwise
+    async execute(proposalId: BigNumberish): Promise<TransactionReceipt> {
+        return this._send(this.contract.execute(proposalId));
+    }
+
+    // Revokes the release of a fund whose moderator did not propose a due tranche within the proposal timeout
+    async revokeRelease(fundraisingId: BigNumberish): Promise<TransactionReceipt> {
+        return this._send(this.contract.revokeRelease(fundraisingId));
+    }
+
+    // Reclaims the share of the fund of a revoked release of the signer's tokens, by default all the ones of the fundraising
+    // it held at the snapshot of the release, or claimed since, that were not reclaimed yet
+    async reclaim(fundraisingId: BigNumberish, tokenIds?: readonly bigint[]): Promise<ReclaimResult> {
+        let ids = tokenIds ? [...tokenIds] : [];
+        if (tokenIds === undefined) {
+            const { snapshot } = await this.getRelease(fundraisingId);
+            ids = await getTokensOf(await this._nft(), this._signer(), snapshot);
+            const amounts = await Promise.all(ids.map((tokenId) => this.contract.reclaimableOf(fundraisingId, [tokenId])));
+            ids = ids.filter((_, i) => amounts[i] > 0n);
+        }
+        const receipt = await this._send(this.contract.reclaim(fundraisingId, ids));
+        const reclaimed = this._parseLogs(receipt).find((parsed) => parsed.name === "FundReclaimed");
+        return { receipt, tokenIds: ids, amount: reclaimed?.args.amount ?? 0n };
+    }
+
+    async getProposal(proposalId: BigNumberish): Promise<Proposal> {
+        const [proposal, state, snapshot] = await Promise.all([
+            this.contract.getProposal(proposalId),
+            this.contract.state(proposalId),
+            this.contract.proposalSnapshot(proposalId),
+        ]);
+        return {
+            id: BigInt(proposalId),
+            fundraisingId: proposal.fundraisingId,
+            tranche: proposal.tranche,
+            amount: proposal.amount,
+            deadline: proposal.deadline,
+            quorum: proposal.quorum,
+            snapshot,
+            forVotes: proposal.forVotes,
+            againstVotes: proposal.againstVotes,
+            executed: proposal.executed,
+            state: Number(state) as ProposalState,
+        };
+    }
+
+    // Every proposal, or only the ones of a fundraising, oldest first
+    async getProposals(fundraisingId?: BigNumberish): Promise<Proposal[]> {
+        const count = await this.contract.getProposalCount();
+        const proposals = await Promise.all(Array.from({ length: Number(count) }, (_, id) => this.getProposal(id)));
+        return fundraisingId === undefined ? proposals : proposals.filter((proposal) => proposal.fundraisingId === BigInt(fundraisingId));
+    }
+
+    async getRelease(fundraisingId: BigNumberish): Promise<GovernedRelease> {
+        const [nextTranche, pending, revoked, reclaimable, snapshot] = await this.contract.getRelease(fundraisingId);
+        return { nextTranche, pending, revoked, reclaimable, snapshot };
+    }
+
+    // Share of a revoked release the tokens reclaim, zero for the ones already reclaimed
+    async getReclaimable(fundraisingId: BigNumberish, tokenIds: readonly BigNumberish[]): Promise<bigint> {
+        return this.contract.reclaimableOf(fundraisingId, [...tokenIds]);
+    }
+
+    // Weight of the tokens on the next proposals, or on `proposalId` as of its snapshot
+    async getVotingWeight(tokenIds: readonly BigNumberish[], proposalId?: BigNumberish): Promise<bigint> {
+        return proposalId === undefined
+            ? this.contract.getVotingWeight([...tokenIds])
+            : this.contract.getProposalVotingWeight(proposalId, [...tokenIds]);
+    }
+
+    private _parseLogs(receipt: TransactionReceipt) {
+        return receipt.logs.map((log) => this.contract.interface.parseLog(log)).filter((parsed) => parsed !== null);
+    }
+
+    private async _nft(): Promise<PeaqNFT> {
+        return PeaqNFT__factory.connect(await this.contract.nftContract(), this.contract.runner);
+    }
+
+    private _signer(): Signer {
+        const runner = this.contract.runner;
+        if (runner === null || !("signTypedData" in runner)) {
+            throw new Error("FundraisingGovernorClient: runner is not a signer");
+        }
+        return runner as Signer;
+    }
+
+    // Reverts are rethrown as `FundraisingError`
+    private async _send(pending: Promise<ContractTransactionResponse>): Promise<TransactionReceipt> {
+        let tx: ContractTransactionResponse;
+        let receipt: TransactionReceipt | null;
+        try {
+            tx = await pending;
+            receipt = await tx.wait();
+        } catch (e) {
+            throw toFundraisingError(e, "FundraisingGovernor");
+        }
+        if (receipt === null) {
+            throw new Error(`Transaction ${tx.hash} was not mined`);
+        }
+        return receipt;
+    }
+}
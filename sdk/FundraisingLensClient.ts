@@ -0,0 +1,112 @@
+import { BigNumberish, ContractRunner, ZeroHash } from "ethers";
+import { FundraisingCenter, FundraisingCenter__factory, FundraisingLens, FundraisingLens__factory } from "../typechain-types";
+import { toTiers } from "./events";
+import { findPhase } from "./phases";
+import { FundraisingStatus, FundraisingView, FundraisingViewPage, NftType, Phase, PhaseStatus } from "./types";
+
+const toPhase = (phase: FundraisingLens.PhaseStructOutput): Phase => ({ nftType: Number(phase.nftType) as NftType, startTime: phase.startTime, endTime: phase.endTime });
+
+// Decodes a `FundraisingLens.FundraisingView` as returned by ethers
+const toFundraisingView = (view: FundraisingLens.FundraisingViewStructOutput): FundraisingView => {
+    const tiers = toTiers(view.tiers.map((tier) => tier.tier));
+    const currentPhase = Number(view.currentPhase);
+    return {
+        info: {
+            id: view.id,
+            moderator: view.info.moderator,
+            startTime: view.info.startTime,
+            targetTime: view.info.targetTime,
+            targetAmount: view.info.targetAmount,
+            totalContribution: view.info.totalContribution,
+            fundClaimed: view.info.fundClaimed,
+            paymentToken: view.info.paymentToken,
+            hardCap: view.info.hardCap,
+            closeOnHardCap: view.info.closeOnHardCap,
+            status: Number(view.status) as FundraisingStatus,
+        },
+        currentPhase: currentPhase < tiers.length ? currentPhase : undefined,
+        whitelistRoot: view.whitelistRoot,
+        whitelistMode: !tiers.some((tier) => tier.whitelistOnly) ? "none" : view.whitelistRoot === ZeroHash ? "list" : "merkle",
+        tiers: tiers.map((tier, i) => ({
+            ...tier,
+            price: view.tiers[i].price,
+            sold: view.tiers[i].sold,
+            remaining: view.tiers[i].remaining,
+            phase: toPhase(view.tiers[i].phase),
+        })),
+    };
+};
+
+// Read-only views over the fundraisings of `FundraisingCenter`, see `FundraisingLens`
+export class FundraisingLensClient {
+    readonly contract: FundraisingLens;
+
+    constructor(contract: FundraisingLens) {
+        this.contract = contract;
+    }
+
+    static connect(address: string, runner: ContractRunner): FundraisingLensClient {
+        return new FundraisingLensClient(FundraisingLens__factory.connect(address, runner));
+    }
+
+    connect(runner: ContractRunner): FundraisingLensClient {
+        return new FundraisingLensClient(this.contract.connect(runner));
+    }
+
+    async getAddress(): Promise<string> {
+        return this.contract.getAddress();
+    }
+
+    // Phase of every tier, in the order of the tiers
+    async getPhaseTimeline(fundraisingId: BigNumberish): Promise<Phase[]> {
+        return (await this.contract.getPhaseTimeline(fundraisingId)).map(toPhase);
+    }
+
+    // Current phase of a fundraising and the time left in it, at the timestamp of the latest block by default.
+    // A fundraising that is cancelled, failed or succeeded has ended whatever its timeline says.
+    async getPhaseStatus(fundraisingId: BigNumberish, timestamp?: BigNumberish): Promise<PhaseStatus> {
+        const [timeline, status, now] = await Promise.all([
+            this.getPhaseTimeline(fundraisingId),
+            this._center().then((center) => center.getFundraisingStatus(fundraisingId)),
+            timestamp !== undefined ? BigInt(timestamp) : this._latestTimestamp(),
+        ]);
+        if (Number(status) !== FundraisingStatus.CREATION && Number(status) !== FundraisingStatus.OPEN) {
+            return { stage: "ended" };
+        }
+        return findPhase(timeline, now);
+    }
+
+    async getFundraisingView(fundraisingId: BigNumberish): Promise<FundraisingView> {
+        return toFundraisingView(await this.contract.getFundraisingView(fundraisingId));
+    }
+
+    // Views of the fundraisings from ID `offset` on, at most `limit` of them
+    async getFundraisingViews(offset: BigNumberish = 0, limit: BigNumberish = 50): Promise<FundraisingViewPage> {
+        const [views, total] = await this.contract.getFundraisingViews(offset, limit);
+        return { views: views.map(toFundraisingView), total };
+    }
+
+    // Views of the given fundraisings, fetched with a single `multicall`
+    async getDashboard(fundraisingIds: readonly BigNumberish[]): Promise<FundraisingView[]> {
+        if (fundraisingIds.length === 0) {
+            return [];
+        }
+        const { interface: lensInterface } = this.contract;
+        const results = await this.contract.multicall.staticCall(
+            fundraisingIds.map((fundraisingId) => lensInterface.encodeFunctionData("getFundraisingView", [fundraisingId]))
+        );
+        return results.map((data) => toFundraisingView(lensInterface.decodeFunctionResult("getFundraisingView", data)[0]));
+    }
+
+    private async _center(): Promise<FundraisingCenter> {
+        return FundraisingCenter__factory.connect(await this.contract.fundraisingCenter(), this.contract.runner);
+    }
+
+    private async _latestTimestamp(): Promise<bigint> {
+        const block = await this.contract.runner?.provider?.getBlock("latest");
+        if (!block) {
+            throw new Error("FundraisingLensClient: latest block not found");
+        }
+        return BigInt(block.timestamp);
+    }
+}
@@ -0,0 +1,123 @@
+import {
+    AddressLike,
+    BigNumberish,
+    ContractRunner,
+    ContractTransactionResponse,
+    Signer,
+    TransactionReceipt,
+    ZeroAddress,
+} from "ethers";
+import { IERC20__factory, PeaqNFT, PeaqNFT__factory, RevenueVault, RevenueVault__factory } from "../typechain-types";
+import { toFundraisingError } from "./errors";
+import { getTokensOf } from "./tokens";
+
+// Revenue claimable by a wallet for one currency, the zero address for native currency
+export interface ClaimablePreview {
+    currency: string;
+    // Only tokens with something to claim
+    byToken: Map<bigint, bigint>;
+    total: bigint;
+}
+
+export interface ClaimResult {
+    receipts: TransactionReceipt[];
+    claimed: bigint;
+}
+
+export class RevenueVaultClient {
+    readonly contract: RevenueVault;
+
+    constructor(contract: RevenueVault) {
+        this.contract = contract;
+    }
+
+    static connect(address: string, runner: ContractRunner): RevenueVaultClient {
+        return new RevenueVaultClient(RevenueVault__factory.connect(address, runner));
+    }
+
+    connect(runner: ContractRunner): RevenueVaultClient {
+        return new RevenueVaultClient(this.contract.connect(runner));
+    }
+
+    async getAddress(): Promise<string> {
+        return this.contract.getAddress();
+    }
+
+    // Deposits `amount` of `currency`, the zero address for native currency.
+    // ERC-20 deposits approve the vault first when the allowance does not cover `amount`.
+    async deposit(currency: string, amount: bigint): Promise<TransactionReceipt> {
+        if (currency === ZeroAddress) {
+            return this._send(this.contract.deposit(currency, amount, { value: amount }));
+        }
+        const signer = this._signer();
+        const token = IERC20__factory.connect(currency, signer);
+        if ((await token.allowance(await signer.getAddress(), await this.getAddress())) < amount) {
+            await this._send(token.approve(await this.getAddress(), amount));
+        }
+        return this._send(this.contract.deposit(currency, amount));
+    }
+
+    async getClaimable(tokenIds: readonly BigNumberish[], currency: string = ZeroAddress): Promise<bigint[]> {
+        return Promise.all(tokenIds.map((tokenId) => this.contract.claimable(tokenId, currency)));
+    }
+
+    // Tokens `owner` holds now, found from the `Transfer` events of PeaqNFT
+    async getTokensOf(owner: AddressLike): Promise<bigint[]> {
+        return getTokensOf(await this._nft(), owner);
+    }
+
+    // What `owner` can claim for its tokens, all the tokens it holds when `tokenIds` is omitted
+    async previewClaimable(owner: AddressLike, currency: string = ZeroAddress, tokenIds?: readonly bigint[]): Promise<ClaimablePreview> {
+        const ids = tokenIds ?? (await this.getTokensOf(owner));
+        const amounts = await this.getClaimable(ids, currency);
+        const byToken = new Map<bigint, bigint>();
+        let total = 0n;
+        ids.forEach((tokenId, i) => {
+            if (amounts[i] > 0n) {
+                byToken.set(tokenId, amounts[i]);
+                total += amounts[i];
+            }
+        });
+        return { currency, byToken, total };
+    }
+
+    // Claims the revenue of the signer's tokens, all the tokens it holds when `tokenIds` is omitted.
+    // Tokens with nothing to claim are left out and the rest is claimed in transactions of at most `batchSize` tokens.
+    async claim(tokenIds?: readonly bigint[], currency: string = ZeroAddress, batchSize = 50): Promise<ClaimResult> {
+        const preview = await this.previewClaimable(this._signer(), currency, tokenIds);
+        const ids = [...preview.byToken.keys()];
+        const receipts: TransactionReceipt[] = [];
+        for (let i = 0; i < ids.length; i += batchSize) {
+            receipts.push(await this._send(this.contract.claim(ids.slice(i, i + batchSize), currency)));
+        }
+        return { receipts, claimed: preview.total };
+    }
+
+    private async _nft(): Promise<PeaqNFT> {
+        return PeaqNFT__factory.connect(await this.contract.nftContract(), this.contract.runner);
+    }
+
+    private _signer(): Signer {
+        const runner = this.contract.runner;
+        if (runner === null || !("signTypedData" in runner)) {
+            throw new Error("RevenueVaultClient: runner is not a signer");
+        }
+        return runner as Signer;
+    }
+
+    // Reverts are rethrown as `FundraisingError`
+    private async _send(pending: Promise<ContractTransactionResponse>): Promise<TransactionReceipt> {
+        let tx: ContractTransactionResponse;
+        let receipt: TransactionReceipt | null;
+        try {
+            tx = await pending;
+            receipt = await tx.wait();
+        } catch (e) {
+            throw toFundraisingError(e, "RevenueVault");
+        }
+        if (receipt === null) {
+            throw new Error(`Transaction ${tx.hash} was not mined`);
+        }
+        return receipt;
+    }
+}
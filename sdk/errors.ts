@@ -0,0 +1,38 @@
+import { isCallException } from "ethers";
+
+// Reasons `contribute` and the quotes revert with when a wallet limit of the fundraising is hit
+export const WALLET_LIMIT_REASONS = ["Below minimum contribution", "Wallet value cap exceeded", "Wallet tier cap reached"] as const;
+
+// Revert of a `FundraisingCenter`, `FundraisingGovernor` or `RevenueVault` call, `reason` being the
+// `require` message like "Not whitelisted"
+export class FundraisingError extends Error {
+    readonly reason: string;
+    readonly cause: unknown;
+
+    constructor(reason: string, cause?: unknown, contract = "FundraisingCenter") {
+        super(`${contract} reverted: ${reason}`);
+        this.name = "FundraisingError";
+        this.reason = reason;
+        this.cause = cause;
+    }
+
+    get isWalletLimit(): boolean {
+        return (WALLET_LIMIT_REASONS as readonly string[]).includes(this.reason);
+    }
+}
+
+// Hardhat network errors only carry the reason in their message
+const HARDHAT_REASON = /reverted with reason string '(.*)'$/;
+
+export const revertReason = (error: unknown): string | undefined => {
+    if (isCallException(error) && error.reason !== null) {
+        return error.reason;
+    }
+    return HARDHAT_REASON.exec(error instanceof Error ? error.message : "")?.[1];
+};
+
+// Wraps contract reverts into a `FundraisingError`, other errors are returned as is
+export const toFundraisingError = (error: unknown, contract?: string): unknown => {
+    const reason = revertReason(error);
+    return reason === undefined ? error : new FundraisingError(reason, error, contract);
+};
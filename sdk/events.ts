@@ -0,0 +1,159 @@
+import { Interface, Log, LogDescription } from "ethers";
+import { FundraisingCenter, FundraisingCenter__factory } from "../typechain-types";
+import { BuyAmount, FundraisingEvent, FundraisingEventWithMeta, NftType, PriceCurve, Pricing, ReleaseKind, Tier, VestingSchedule } from "./types";
+
+export const fundraisingInterface: Interface = FundraisingCenter__factory.createInterface();
+
+const toBuyAmounts = (amounts: FundraisingCenter.BuyAmountStructOutput[]): BuyAmount[] =>
+    amounts.map((item) => ({ nftType: Number(item.nftType) as NftType, amount: item.amount }));
+
+export const toTiers = (tiers: FundraisingCenter.TierStructOutput[]): Tier[] =>
+    tiers.map((tier) => ({
+        nftType: Number(tier.nftType) as NftType,
+        whitelistOnly: tier.whitelistOnly,
+        basePrice: tier.basePrice,
+        maxBuyAmount: tier.maxBuyAmount,
+        duration: tier.duration,
+    }));
+
+export const toPricing = (pricing: FundraisingCenter.PricingStructOutput[]): Pricing[] =>
+    pricing.map((item) => ({
+        curve: Number(item.curve) as PriceCurve,
+        step: item.step,
+        interval: item.interval,
+        floorPrice: item.floorPrice,
+    }));
+
+export const toVestingSchedule = (schedule: FundraisingCenter.VestingScheduleStructOutput): VestingSchedule => ({
+    kind: Number(schedule.kind) as ReleaseKind,
+    cliff: schedule.cliff,
+    duration: schedule.duration,
+    tranches: schedule.tranches.map((tranche) => ({ delay: tranche.delay, percentage: tranche.percentage })),
+});
+
+// Converts a parsed `FundraisingCenter` log into a plain typed object.
+// Returns `undefined` for events the SDK does not model (role and config updates).
+export const toFundraisingEvent = (parsed: LogDescription): FundraisingEvent | undefined => {
+    const args = parsed.args;
+    switch (parsed.name) {
+        case "FundraisingCreated":
+            return {
+                name: "FundraisingCreated",
+                fundraisingId: args.fundraisingId,
+                moderator: args.moderator,
+                startTime: args.startTime,
+                duration: args.duration,
+                targetAmount: args.targetAmount,
+            };
+        case "FundraisingCancelled":
+            return { name: "FundraisingCancelled", fundraisingId: args.fundraisingId };
+        case "ContributionMade":
+            return {
+                name: "ContributionMade",
+                fundraisingId: args.fundraisingId,
+                user: args.user,
+                amounts: toBuyAmounts(args.amounts),
+            };
+        case "RefundClaimed":
+            return { name: "RefundClaimed", fundraisingId: args.fundraisingId, user: args.user, amount: args.amount };
+        case "FundClaimed":
+            return { name: "FundClaimed", fundraisingId: args.fundraisingId, moderator: args.moderator, amount: args.amount };
+        case "NftClaimed":
+            return { name: "NftClaimed", fundraisingId: args.fundraisingId, user: args.user };
+        case "WhitelistUpdated":
+            return { name: "WhitelistUpdated", fundraisingId: args.fundraisingId, user: args.user, isAdded: args.isAdded };
+        case "WhitelistRootUpdated":
+            return { name: "WhitelistRootUpdated", fundraisingId: args.fundraisingId, root: args.root };
+        case "TiersConfigured":
+            return { name: "TiersConfigured", fundraisingId: args.fundraisingId, tiers: toTiers(args.tiers) };
+        case "PaymentTokenSet":
+            return { name: "PaymentTokenSet", fundraisingId: args.fundraisingId, paymentToken: args.paymentToken };
+        case "WalletLimitsUpdated":
+            return {
+                name: "WalletLimitsUpdated",
+                fundraisingId: args.fundraisingId,
+                minContribution: args.limits.minContribution,
+                maxWalletValue: args.limits.maxWalletValue,
+                maxPerWallet: args.limits.maxPerWallet.map(BigInt),
+            };
+        case "HardCapUpdated":
+            return {
+                name: "HardCapUpdated",
+                fundraisingId: args.fundraisingId,
+                hardCap: args.hardCap,
+                closeOnHardCap: args.closeOnHardCap,
+            };
+        case "PricingUpdated":
+            return { name: "PricingUpdated", fundraisingId: args.fundraisingId, pricing: toPricing(args.pricing) };
+        case "ReferralPercentageUpdated":
+            return { name: "ReferralPercentageUpdated", fundraisingId: args.fundraisingId, percentage: args.percentage };
+        case "ReferralRecorded":
+            return {
+                name: "ReferralRecorded",
+                fundraisingId: args.fundraisingId,
+                user: args.user,
+                referrer: args.referrer,
+                value: args.value,
+                reward: args.reward,
+            };
+        case "ReferralRewardClaimed":
+            return { name: "ReferralRewardClaimed", fundraisingId: args.fundraisingId, referrer: args.referrer, amount: args.amount };
+        case "VestingUpdated":
+            return { name: "VestingUpdated", fundraisingId: args.fundraisingId, schedule: toVestingSchedule(args.schedule) };
+        case "FundraisingFrozen":
+            return { name: "FundraisingFrozen", fundraisingId: args.fundraisingId, frozen: args.frozen };
+        case "EmergencyRefundEnabled":
+            return { name: "EmergencyRefundEnabled", fundraisingId: args.fundraisingId };
+        case "ForceFailRequested":
+            return { name: "ForceFailRequested", fundraisingId: args.fundraisingId, forceFailTime: args.forceFailTime, reason: args.reason };
+        case "FundraisingForceFailed":
+            return { name: "FundraisingForceFailed", fundraisingId: args.fundraisingId, by: args.by, reason: args.reason };
+        case "BasePriceUpdated":
+            return {
+                name: "BasePriceUpdated",
+                fundraisingId: args.fundraisingId,
+                nftType: Number(args.nftType) as NftType,
+                newBasePrice: args.newBasePrice,
+            };
+        case "StartTimeUpdated":
+            return { name: "StartTimeUpdated", fundraisingId: args.fundraisingId, newStartTime: args.newStartTime };
+        case "DurationUpdated":
+            return { name: "DurationUpdated", fundraisingId: args.fundraisingId, newDuration: args.newDuration };
+        case "TargetAmountUpdated":
+            return { name: "TargetAmountUpdated", fundraisingId: args.fundraisingId, newTargetAmount: args.newTargetAmount };
+        case "MaxBuyAmountUpdated":
+            return {
+                name: "MaxBuyAmountUpdated",
+                fundraisingId: args.fundraisingId,
+                nftType: Number(args.nftType) as NftType,
+                newMaxBuyAmount: args.newMaxBuyAmount,
+            };
+        default:
+            return undefined;
+    }
+};
+
+// Decodes every `FundraisingCenter` event found in `logs`.
+// Logs emitted by other contracts (e.g. PeaqNFT transfers during a claim) are skipped.
+export const decodeFundraisingEvents = (logs: readonly Log[], address?: string): FundraisingEventWithMeta[] => {
+    const events: FundraisingEventWithMeta[] = [];
+    for (const log of logs) {
+        if (address !== undefined && log.address.toLowerCase() !== address.toLowerCase()) {
+            continue;
+        }
+        let parsed: LogDescription | null;
+        try {
+            parsed = fundraisingInterface.parseLog({ topics: [...log.topics], data: log.data });
+        } catch {
+            continue;
+        }
+        if (parsed === null) {
+            continue;
+        }
+        const event = toFundraisingEvent(parsed);
+        if (event !== undefined) {
+            events.push({ ...event, blockNumber: log.blockNumber, transactionHash: log.transactionHash, logIndex: log.index });
+        }
+    }
+    return events;
+};
@@ -0,0 +1,13 @@
+export * from "./types";
+export * from "./math";
+export * from "./events";
+export * from "./errors";
+export * from "./merkle";
+export * from "./metadata";
+export * from "./referrals";
+export * from "./tokens";
+export * from "./phases";
+export * from "./FundraisingClient";
+export * from "./RevenueVaultClient";
+export * from "./FundraisingGovernorClient";
+export * from "./FundraisingLensClient";
@@ -0,0 +1,59 @@
+import { BigNumberish, getBigInt } from "ethers";
+import { BuyAmount, NftType, PriceCurve, TierPrice } from "./types";
+
+export const MAX_PERCENTAGE = 100_00n; // denotes 100.00%, same scale as `PeaqNFT.MAX_PERCENTAGE`
+
+export const toBigInt = (value: BigNumberish): bigint => getBigInt(value);
+
+// (a * b) / denominator on bigints, rounding down unless `roundUp` is set
+export const mulDiv = (a: bigint, b: bigint, denominator: bigint, roundUp = false): bigint => {
+    if (denominator === 0n) {
+        throw new RangeError("mulDiv: division by zero");
+    }
+    const product = a * b;
+    const quotient = product / denominator;
+    return roundUp && product % denominator !== 0n ? quotient + 1n : quotient;
+};
+
+// Applies a percentage expressed in basis points of `MAX_PERCENTAGE`
+export const percentOf = (value: bigint, percentage: bigint, roundUp = false): bigint =>
+    mulDiv(value, percentage, MAX_PERCENTAGE, roundUp);
+
+// Number of NFTs contained in a list of buy amounts
+export const totalAmountOf = (amounts: readonly BuyAmount[]): bigint =>
+    amounts.reduce((sum, item) => sum + item.amount, 0n);
+
+// Price of the next `amount` NFTs of a tier at `timestamp`, following its price curve like `FundraisingPricing.tierCost`
+export const tierCost = (tier: TierPrice, amount: bigint, timestamp: bigint): bigint => {
+    const { basePrice, pricing } = tier;
+    if (amount === 0n) {
+        return 0n;
+    }
+    if (pricing.curve === PriceCurve.LINEAR) {
+        return amount * basePrice + pricing.step * (amount * tier.sold + (amount * (amount - 1n)) / 2n);
+    }
+    if (pricing.curve === PriceCurve.DUTCH_AUCTION) {
+        const decay = timestamp > tier.phaseStart ? pricing.step * ((timestamp - tier.phaseStart) / pricing.interval) : 0n;
+        return amount * (basePrice > decay && basePrice - decay > pricing.floorPrice ? basePrice - decay : pricing.floorPrice);
+    }
+    return amount * basePrice;
+};
+
+// Value to pay for a list of buy amounts, given the price of every NFT of each type
+export function totalValueOf(amounts: readonly BuyAmount[], prices: Partial<Record<NftType, bigint>>): bigint;
+// Value to pay at `timestamp` for a list of buy amounts, given the price of each type: a plain price for every NFT of
+// the type, or the tier price its curve starts from, as read with `FundraisingClient.getTierPrices`.
+// The timestamp is required along tier prices, Dutch auctions decaying with it.
+export function totalValueOf(amounts: readonly BuyAmount[], prices: Partial<Record<NftType, bigint | TierPrice>>, timestamp: bigint): bigint;
+export function totalValueOf(amounts: readonly BuyAmount[], prices: Partial<Record<NftType, bigint | TierPrice>>, timestamp = 0n): bigint {
+    return amounts.reduce((sum, item) => {
+        const price = prices[item.nftType];
+        if (price === undefined) {
+            throw new Error(`Missing price for NFT type ${item.nftType}`);
+        }
+        return sum + (typeof price === "bigint" ? item.amount * price : tierCost(price, item.amount, timestamp));
+    }, 0n);
+}
+
+// Number of NFTs of a single type that `budget` can pay for
+export const affordableAmount = (budget: bigint, price: bigint): bigint => (price === 0n ? 0n : budget / price);
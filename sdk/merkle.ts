@@ -0,0 +1,38 @@
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import { getAddress } from "ethers";
+
+// Leaves are single addresses, hashed the way `FundraisingCenter._verifyWhitelistProof` expects
+export type WhitelistTree = StandardMerkleTree<[string]>;
+
+export interface WhitelistProof {
+    root: string;
+    address: string;
+    proof: string[];
+}
+
+export const buildWhitelistTree = (addresses: readonly string[]): WhitelistTree => {
+    const unique = [...new Set(addresses.map((address) => getAddress(address)))];
+    if (unique.length === 0) {
+        throw new Error("Whitelist is empty");
+    }
+    return StandardMerkleTree.of(unique.map((address): [string] => [address]), ["address"]);
+};
+
+// Proof of every whitelisted address, keyed by checksummed address
+export const getWhitelistProofs = (tree: WhitelistTree): Map<string, WhitelistProof> => {
+    const proofs = new Map<string, WhitelistProof>();
+    for (const [i, [address]] of tree.entries()) {
+        proofs.set(address, { root: tree.root, address, proof: tree.getProof(i) });
+    }
+    return proofs;
+};
+
+export const getWhitelistProof = (tree: WhitelistTree, address: string): WhitelistProof => {
+    const checksummed = getAddress(address);
+    for (const [i, [leaf]] of tree.entries()) {
+        if (leaf === checksummed) {
+            return { root: tree.root, address: checksummed, proof: tree.getProof(i) };
+        }
+    }
+    throw new Error(`${checksummed} is not in the whitelist`);
+};
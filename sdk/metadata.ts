@@ -0,0 +1,83 @@
+import { NftType, nftTypeName, tokenIdToIndex, tokenIdToType } from "./types";
+
+// Mirrors the on-chain metadata of `PeaqNFT.tokenURI`. The SVG is byte for byte the one the contract serves in on-chain mode,
+// and so is the JSON of `tokenMetadataJson` given the data URI of the SVG as image. Hosted JSON files link the hosted SVG instead.
+
+export interface TokenMetadata {
+    name: string;
+    description: string;
+    image: string;
+    attributes: ({ trait_type: string; value: string } | { trait_type: string; display_type: "number"; value: number })[];
+}
+
+export interface MetadataFile {
+    // Relative to the hosting root, e.g. `legendary/0.json`: set the base URI of a type to `<root URL>/<type name>/`
+    path: string;
+    content: string;
+}
+
+const TIER_COLORS: Partial<Record<NftType, string>> = {
+    [NftType.LEGENDARY]: "#d4a017",
+    [NftType.EPIC]: "#7b3fb5",
+    [NftType.COMMON]: "#6b7280",
+};
+
+// Display name of a tier, like `PeaqNFT._tierName`
+export const tierLabel = (nftType: NftType): string => {
+    const name = NftType[nftType];
+    return name === undefined ? `Type ${nftType}` : name.charAt(0) + name.slice(1).toLowerCase();
+};
+
+export const tokenSvg = (tokenId: bigint): string => {
+    const nftType = tokenIdToType(tokenId);
+    return (
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 350 350"><rect width="100%" height="100%" fill="${TIER_COLORS[nftType] ?? "#1f2937"}"/>` +
+        `<text x="50%" y="45%" text-anchor="middle" font-family="sans-serif" font-size="32" fill="#ffffff">${tierLabel(nftType)}</text>` +
+        `<text x="50%" y="60%" text-anchor="middle" font-family="sans-serif" font-size="24" fill="#ffffff">#${tokenIdToIndex(tokenId)}</text></svg>`
+    );
+};
+
+// `image` is the URL of the hosted SVG, or its data URI as on-chain
+export const tokenMetadata = (tokenId: bigint, image: string): TokenMetadata => {
+    const tier = tierLabel(tokenIdToType(tokenId));
+    const index = tokenIdToIndex(tokenId);
+    return {
+        name: `PeaqNFT ${tier} #${index}`,
+        description: `${tier} tier PeaqNFT`,
+        image,
+        attributes: [
+            { trait_type: "Tier", value: tier },
+            { trait_type: "Index", display_type: "number", value: Number(index) },
+        ],
+    };
+};
+
+// Compact JSON, in the order of the fields the contract writes
+export const tokenMetadataJson = (tokenId: bigint, image: string): string => JSON.stringify(tokenMetadata(tokenId, image));
+
+export const svgDataUri = (svg: string): string => `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+
+// Decodes a `data:application/json;base64,` token URI as served in on-chain mode
+export const decodeTokenUri = (uri: string): TokenMetadata => {
+    const prefix = "data:application/json;base64,";
+    if (!uri.startsWith(prefix)) {
+        throw new Error(`Not an on-chain token URI: ${uri.slice(0, 40)}`);
+    }
+    return JSON.parse(Buffer.from(uri.slice(prefix.length), "base64").toString("utf8"));
+};
+
+// Metadata JSON and SVG image files of the first `counts[type]` tokens of each type.
+// Images are linked as `<imageBaseUri><type name>/<index>.svg`, so `imageBaseUri` is the URL the files are hosted at.
+export const buildMetadataFiles = (counts: Partial<Record<NftType, bigint>>, imageBaseUri: string): MetadataFile[] => {
+    const files: MetadataFile[] = [];
+    for (const [type, count] of Object.entries(counts)) {
+        const nftType = Number(type) as NftType;
+        for (let index = 0n; index < count!; index++) {
+            const tokenId = (BigInt(nftType) << 32n) | index;
+            const dir = nftTypeName(nftType);
+            files.push({ path: `${dir}/${index}.svg`, content: tokenSvg(tokenId) });
+            files.push({ path: `${dir}/${index}.json`, content: tokenMetadataJson(tokenId, `${imageBaseUri}${dir}/${index}.svg`) });
+        }
+    }
+    return files;
+};
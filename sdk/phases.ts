@@ -0,0 +1,48 @@
+import { Phase, PhaseStatus, nftTypeName } from "./types";
+
+const COUNTDOWN_UNITS: [string, bigint][] = [
+    ["d", 24n * 60n * 60n],
+    ["h", 60n * 60n],
+    ["m", 60n],
+    ["s", 1n],
+];
+
+// Formats seconds like `1d 2h 3m 4s`, leaving out the units that are zero
+export const formatCountdown = (seconds: bigint): string => {
+    const parts: string[] = [];
+    let rest = seconds > 0n ? seconds : 0n;
+    for (const [unit, size] of COUNTDOWN_UNITS) {
+        if (rest >= size) {
+            parts.push(`${rest / size}${unit}`);
+            rest %= size;
+        }
+    }
+    return parts.length === 0 ? "0s" : parts.join(" ");
+};
+
+// Finds the phase of the timeline `timestamp` is in. Empty phases, the ones past the end of the raise, are never current.
+export const findPhase = (timeline: readonly Phase[], timestamp: bigint): PhaseStatus => {
+    if (timeline.length === 0) {
+        throw new Error("Empty phase timeline");
+    }
+    if (timestamp < timeline[0].startTime) {
+        return { stage: "upcoming", next: timeline[0], startsIn: timeline[0].startTime - timestamp };
+    }
+    const index = timeline.findIndex((phase) => timestamp >= phase.startTime && timestamp < phase.endTime);
+    if (index === -1) {
+        return { stage: "ended" };
+    }
+    return { stage: "phase", phase: timeline[index], index, endsIn: timeline[index].endTime - timestamp };
+};
+
+// Renders a phase status like `epic phase, ends in 25m` or `starts in 1h 10m with the legendary phase`
+export const describePhase = (status: PhaseStatus): string => {
+    switch (status.stage) {
+        case "upcoming":
+            return `starts in ${formatCountdown(status.startsIn)} with the ${nftTypeName(status.next.nftType)} phase`;
+        case "phase":
+            return `${nftTypeName(status.phase.nftType)} phase, ends in ${formatCountdown(status.endsIn)}`;
+        case "ended":
+            return "ended";
+    }
+};
@@ -0,0 +1,29 @@
+import { FundraisingEvent, ReferrerStats } from "./types";
+
+// Aggregates the referral events of one fundraising per referrer, the referrers who brought the most value first
+export const buildReferralLeaderboard = (events: readonly FundraisingEvent[]): ReferrerStats[] => {
+    const stats = new Map<string, ReferrerStats & { users: Set<string> }>();
+    const statsOf = (referrer: string) => {
+        let entry = stats.get(referrer);
+        if (entry === undefined) {
+            entry = { referrer, referrals: 0, contributions: 0, value: 0n, reward: 0n, claimed: 0n, users: new Set() };
+            stats.set(referrer, entry);
+        }
+        return entry;
+    };
+
+    for (const event of events) {
+        if (event.name === "ReferralRecorded") {
+            const entry = statsOf(event.referrer);
+            entry.users.add(event.user);
+            entry.contributions++;
+            entry.value += event.value;
+            entry.reward += event.reward;
+        } else if (event.name === "ReferralRewardClaimed") {
+            statsOf(event.referrer).claimed += event.amount;
+        }
+    }
+    return [...stats.values()]
+        .map(({ users, ...entry }) => ({ ...entry, referrals: users.size }))
+        .sort((a, b) => (a.value === b.value ? 0 : a.value > b.value ? -1 : 1));
+};
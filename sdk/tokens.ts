@@ -0,0 +1,14 @@
+import { AddressLike, resolveAddress } from "ethers";
+import { PeaqNFT } from "../typechain-types";
+
+// Tokens `owner` holds now, or held at the end of block `blockNumber` along with the ones minted to it since like
+// `PeaqNFT.getPastOwner`, found from the `Transfer` events of PeaqNFT
+export const getTokensOf = async (nft: PeaqNFT, owner: AddressLike, blockNumber?: bigint): Promise<bigint[]> => {
+    const address = await resolveAddress(owner);
+    const received = await nft.queryFilter(nft.filters.Transfer(undefined, address));
+    const tokenIds = [...new Set(received.map((event) => event.args.tokenId))];
+    const owners = await Promise.all(
+        tokenIds.map((tokenId) => (blockNumber === undefined ? nft.ownerOf(tokenId) : nft.getPastOwner(tokenId, blockNumber)))
+    );
+    return tokenIds.filter((_, i) => owners[i] === address);
+};
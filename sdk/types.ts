@@ -0,0 +1,578 @@
+// Mirrors `FundraisingCenter.Status`
+export enum FundraisingStatus {
+    CREATION = 0,
+    CANCELLED = 1,
+    OPEN = 2,
+    FAILED = 3,
+    SUCCESS = 4,
+}
+
+// Named NFT types of `NftTypes`. A fundraising can sell any type from 1 to 255, see `Tier`.
+export enum NftType {
+    NONE = 0,
+    COMMON = 1,
+    EPIC = 2,
+    LEGENDARY = 3,
+}
+
+// NFT types sold by a fundraising created with `createFundraising`, in the order of their phases
+export const SALE_TYPES: readonly NftType[] = [NftType.LEGENDARY, NftType.EPIC, NftType.COMMON];
+
+// `maxBuyAmount` of a tier without cap
+export const UNCAPPED = 2n ** 256n - 1n;
+
+const NFT_TYPES_BY_NAME: ReadonlyMap<string, NftType> = new Map([
+    ["none", NftType.NONE],
+    ["common", NftType.COMMON],
+    ["epic", NftType.EPIC],
+    ["legendary", NftType.LEGENDARY],
+]);
+
+// Parses a type name, a number or a `type<N>` name as printed by `nftTypeName`
+export const parseNftType = (name: string | number): NftType => {
+    if (typeof name === "number" || /^(type)?\d+$/i.test(name)) {
+        const value = Number(typeof name === "number" ? name : name.replace(/^type/i, ""));
+        if (!Number.isInteger(value) || value < 0 || value > 255) {
+            throw new Error(`Unknown NFT type: ${name}`);
+        }
+        return value as NftType;
+    }
+    const value = NFT_TYPES_BY_NAME.get(name.toLowerCase());
+    if (value === undefined) {
+        throw new Error(`Unknown NFT type: ${name}`);
+    }
+    return value;
+};
+
+// Token IDs are laid out like `PeaqNFT._generateTokenId`: [type (8 bits)][index (32 bits)]
+export const tokenIdToType = (tokenId: bigint): NftType => {
+    const nftType = Number((tokenId >> 32n) & 0xffn);
+    if (nftType === NftType.NONE) {
+        throw new Error(`Invalid token ID: ${tokenId}`);
+    }
+    return nftType as NftType;
+};
+
+export const tokenIdToIndex = (tokenId: bigint): bigint => tokenId & 0xffffffffn;
+
+// Lowercase name of a named type, `type<N>` for the others
+export const nftTypeName = (nftType: NftType): string => NftType[nftType]?.toLowerCase() ?? `type${nftType}`;
+
+export const statusName = (status: FundraisingStatus): string => FundraisingStatus[status].toLowerCase();
+
+export interface BuyAmount {
+    nftType: NftType;
+    amount: bigint;
+}
+
+export interface Quote {
+    fundraisingId: bigint;
+    number: bigint;
+    timestamp: bigint;
+    amounts: BuyAmount[];
+    totalValue: bigint;
+}
+
+// Mirrors `FundraisingCenter.Tier`
+export interface Tier {
+    nftType: NftType;
+    whitelistOnly: boolean;
+    basePrice: bigint;
+    maxBuyAmount: bigint;
+    duration: bigint;
+}
+
+export interface FundraisingInfo {
+    id: bigint;
+    moderator: string;
+    startTime: bigint;
+    targetTime: bigint;
+    // Soft cap: the raise succeeds once contributions reach it
+    targetAmount: bigint;
+    totalContribution: bigint;
+    fundClaimed: boolean;
+    // ERC-20 token the fundraising is paid in, `ZeroAddress` for native currency
+    paymentToken: string;
+    // Ceiling of the total contribution, zero for no cap
+    hardCap: bigint;
+    // Whether the raise ends as SUCCESS as soon as the hard cap is reached
+    closeOnHardCap: boolean;
+    status: FundraisingStatus;
+}
+
+export interface CreateFundraisingParams {
+    startTime: bigint | number;
+    duration: bigint | number;
+    targetAmount: bigint;
+    basePrices: Record<NftType.LEGENDARY | NftType.EPIC | NftType.COMMON, bigint>;
+    maxBuyAmounts: Record<NftType.LEGENDARY | NftType.EPIC, bigint | number>;
+}
+
+export interface CreateFundraisingWithTiersParams {
+    startTime: bigint | number;
+    duration: bigint | number;
+    targetAmount: bigint;
+    // Sold in this order, the phase of each tier following the phase of the previous one
+    tiers: Tier[];
+    // ERC-20 token to raise in, native currency when omitted
+    paymentToken?: string;
+}
+
+// Mirrors `FundraisingCenter.PermitSignature`, an EIP-2612 approval of the payment token
+export interface PermitSignature {
+    value: bigint;
+    deadline: bigint;
+    v: number;
+    r: string;
+    s: string;
+}
+
+// Per-wallet limits of a fundraising, zero meaning no limit
+export interface WalletLimits {
+    // Minimum value of one contribution
+    minContribution: bigint;
+    // Maximum value one wallet contributes in total
+    maxWalletValue: bigint;
+    // Maximum number of NFTs one wallet buys of each tier
+    maxPerWallet: Record<NftType, bigint>;
+}
+
+// Omitted limits and NFT types missing from `maxPerWallet` are not limited
+export interface SetWalletLimitsParams {
+    minContribution?: bigint;
+    maxWalletValue?: bigint;
+    maxPerWallet?: Partial<Record<NftType, bigint>>;
+}
+
+// Creation parameters a moderator can change while the fundraising is in CREATION, omitted ones are left as they are
+export interface UpdateFundraisingParams {
+    // The duration is kept when only the start time changes
+    startTime?: bigint | number;
+    duration?: bigint | number;
+    targetAmount?: bigint;
+    basePrices?: Partial<Record<NftType, bigint>>;
+    maxBuyAmounts?: Partial<Record<NftType, bigint | number>>;
+}
+
+export interface SetHardCapParams {
+    // Zero removes the cap
+    hardCap: bigint;
+    closeOnHardCap?: boolean;
+}
+
+// Mirrors `FundraisingCenter.PriceCurve`
+export enum PriceCurve {
+    // Every NFT of the tier costs its base price
+    FIXED = 0,
+    // The price goes up by `step` with every NFT of the tier sold
+    LINEAR = 1,
+    // The price goes down by `step` every `interval` seconds of the tier phase, down to `floorPrice`
+    DUTCH_AUCTION = 2,
+}
+
+// Mirrors `FundraisingCenter.Pricing`, the price curve of a tier on top of its base price
+export interface Pricing {
+    curve: PriceCurve;
+    step: bigint;
+    // DUTCH_AUCTION only
+    interval: bigint;
+    // DUTCH_AUCTION only
+    floorPrice: bigint;
+}
+
+// What the price of the next NFTs of a tier depends on, as `FundraisingPricing.tierCost` reads it
+export interface TierPrice {
+    basePrice: bigint;
+    pricing: Pricing;
+    // NFTs of the tier sold so far, LINEAR only
+    sold: bigint;
+    // Start of the phase of the tier, DUTCH_AUCTION only
+    phaseStart: bigint;
+}
+
+// NFT types missing from the params keep a FIXED price
+export type SetPricingParams = Partial<Record<NftType, Partial<Pricing> & Pick<Pricing, "curve">>>;
+
+// Mirrors `FundraisingCenter.ReleaseKind`
+export enum ReleaseKind {
+    // The whole fund is released once the raise succeeds
+    IMMEDIATE = 0,
+    // Nothing is released before `cliff`, then the fund is released linearly until `duration`
+    LINEAR = 1,
+    // Each tranche releases its percentage of the fund once its delay has passed
+    MILESTONES = 2,
+    // The fund stays in escrow, `FundraisingGovernor` pays each tranche once PeaqNFT holders voted for it
+    GOVERNED = 3,
+}
+
+export interface Tranche {
+    // Seconds after the end of the raise
+    delay: bigint;
+    // Share of the fund, out of `MAX_PERCENTAGE`
+    percentage: bigint;
+}
+
+// Mirrors `FundraisingCenter.VestingSchedule`, how the fund is released to the moderator.
+// Times count from the end of the raise, also when it closes early on its hard cap.
+export interface VestingSchedule {
+    kind: ReleaseKind;
+    // LINEAR only
+    cliff: bigint;
+    // LINEAR only, at least `cliff`
+    duration: bigint;
+    // MILESTONES and GOVERNED only, by increasing delay, their percentages adding up to `MAX_PERCENTAGE`
+    tranches: Tranche[];
+}
+
+// Omitted fields are zero or empty
+export type SetVestingParams = Partial<VestingSchedule> & Pick<VestingSchedule, "kind">;
+
+// Fund of a fundraising, the raised value net of referral rewards, and how much of it reached the moderator
+export interface FundRelease {
+    released: bigint;
+    // What `claimFund` releases now, zero unless the raise succeeded
+    releasable: bigint;
+    // Not released yet
+    remaining: bigint;
+}
+
+// Mirrors `FundraisingGovernor.ProposalState`, a closed proposal stays SUCCEEDED or DEFEATED once executed
+export enum ProposalState {
+    ACTIVE = 0,
+    SUCCEEDED = 1,
+    DEFEATED = 2,
+}
+
+// Proposal to release a tranche of the fund of a GOVERNED fundraising
+export interface Proposal {
+    id: bigint;
+    fundraisingId: bigint;
+    // Index of the tranche in the release schedule
+    tranche: bigint;
+    amount: bigint;
+    // Votes are cast until then
+    deadline: bigint;
+    // Voting weight to reach, votes for and against both count
+    quorum: bigint;
+    // Holders vote with the tokens they held at the end of this block
+    snapshot: bigint;
+    forVotes: bigint;
+    againstVotes: bigint;
+    executed: boolean;
+    state: ProposalState;
+}
+
+// Progress of the governed release of the fund of a fundraising
+export interface GovernedRelease {
+    // Next tranche to propose
+    nextTranche: bigint;
+    // A proposal awaits its execution
+    pending: boolean;
+    // A proposal failed or a tranche went unproposed, holders reclaim the rest of the fund
+    revoked: boolean;
+    // Rest of the fund when the release was revoked
+    reclaimable: bigint;
+    // Holders reclaim with the tokens they held at the end of this block, zero until the release is revoked
+    snapshot: bigint;
+}
+
+// Mirrors `FundraisingLens.Phase`: from `startTime` to `endTime` the tier and every tier after it are on sale
+export interface Phase {
+    nftType: NftType;
+    startTime: bigint;
+    endTime: bigint;
+}
+
+// Where a fundraising stands in its phase timeline at some point in time
+export type PhaseStatus =
+    // Before the raise starts, `next` being the phase it starts with
+    | { stage: "upcoming"; next: Phase; startsIn: bigint }
+    // During the raise, `index` being the position of `phase` in the timeline
+    | { stage: "phase"; phase: Phase; index: number; endsIn: bigint }
+    // Once the raise ended, also when it ended early or was cancelled
+    | { stage: "ended" };
+
+// How whitelist-only tiers check buyers: not at all without such tiers, against the on-chain list,
+// or against it and a Merkle root of whitelisted addresses
+export type WhitelistMode = "none" | "list" | "merkle";
+
+// Mirrors `FundraisingLens.TierView`, a tier with its sales at the time of the view
+export interface TierView extends Tier {
+    // Price of the next NFT, following the price curve of the tier
+    price: bigint;
+    sold: bigint;
+    // Zero once sold out, `UNCAPPED` for a tier without cap
+    remaining: bigint;
+    phase: Phase;
+}
+
+// Mirrors `FundraisingLens.FundraisingView`, everything about a fundraising at the time of the view
+export interface FundraisingView {
+    info: FundraisingInfo;
+    // Index of the tier whose phase is under way, undefined unless the fundraising is OPEN
+    currentPhase?: number;
+    whitelistRoot: string;
+    whitelistMode: WhitelistMode;
+    tiers: TierView[];
+}
+
+// A page of fundraising views, `total` being the number of fundraisings
+export interface FundraisingViewPage {
+    views: FundraisingView[];
+    total: bigint;
+}
+
+// Referral program of a fundraising
+export interface ReferralInfo {
+    // Share of referred contributions paid to their referrer if the raise succeeds, out of `MAX_PERCENTAGE`
+    percentage: bigint;
+    // Rewards accrued to all referrers so far, held back from the fund
+    totalRewards: bigint;
+}
+
+// One row of a referral leaderboard, built from `ReferralRecorded` and `ReferralRewardClaimed` events
+export interface ReferrerStats {
+    referrer: string;
+    // Distinct contributors attributed to the referrer
+    referrals: number;
+    contributions: number;
+    value: bigint;
+    reward: bigint;
+    claimed: bigint;
+}
+
+export interface UserContribution {
+    totalValue: bigint;
+    totalContribution: bigint;
+    claimedCount: bigint;
+    refunded: boolean;
+    fullClaimed: boolean;
+    whitelisted: boolean;
+    // Number of NFTs bought of each tier of the fundraising
+    byType: Record<NftType, bigint>;
+    // Value paid for the NFTs of each tier, what a refund pays back
+    paidByType: Record<NftType, bigint>;
+    // Value of each contribution, in order
+    payments: bigint[];
+}
+
+/**
+ * DECODED EVENTS
+ */
+
+export interface FundraisingCreated {
+    name: "FundraisingCreated";
+    fundraisingId: bigint;
+    moderator: string;
+    startTime: bigint;
+    duration: bigint;
+    targetAmount: bigint;
+}
+
+export interface FundraisingCancelled {
+    name: "FundraisingCancelled";
+    fundraisingId: bigint;
+}
+
+export interface ContributionMade {
+    name: "ContributionMade";
+    fundraisingId: bigint;
+    user: string;
+    amounts: BuyAmount[];
+}
+
+export interface RefundClaimed {
+    name: "RefundClaimed";
+    fundraisingId: bigint;
+    user: string;
+    amount: bigint;
+}
+
+export interface FundClaimed {
+    name: "FundClaimed";
+    fundraisingId: bigint;
+    moderator: string;
+    amount: bigint;
+}
+
+export interface NftClaimed {
+    name: "NftClaimed";
+    fundraisingId: bigint;
+    user: string;
+}
+
+export interface WhitelistUpdated {
+    name: "WhitelistUpdated";
+    fundraisingId: bigint;
+    user: string;
+    isAdded: boolean;
+}
+
+export interface WhitelistRootUpdated {
+    name: "WhitelistRootUpdated";
+    fundraisingId: bigint;
+    root: string;
+}
+
+export interface TiersConfigured {
+    name: "TiersConfigured";
+    fundraisingId: bigint;
+    tiers: Tier[];
+}
+
+export interface PaymentTokenSet {
+    name: "PaymentTokenSet";
+    fundraisingId: bigint;
+    paymentToken: string;
+}
+
+export interface WalletLimitsUpdated {
+    name: "WalletLimitsUpdated";
+    fundraisingId: bigint;
+    minContribution: bigint;
+    maxWalletValue: bigint;
+    // One entry per tier, in the order of the tiers
+    maxPerWallet: bigint[];
+}
+
+export interface HardCapUpdated {
+    name: "HardCapUpdated";
+    fundraisingId: bigint;
+    hardCap: bigint;
+    closeOnHardCap: boolean;
+}
+
+export interface PricingUpdated {
+    name: "PricingUpdated";
+    fundraisingId: bigint;
+    // One entry per tier, in the order of the tiers
+    pricing: Pricing[];
+}
+
+export interface ReferralPercentageUpdated {
+    name: "ReferralPercentageUpdated";
+    fundraisingId: bigint;
+    percentage: bigint;
+}
+
+export interface ReferralRecorded {
+    name: "ReferralRecorded";
+    fundraisingId: bigint;
+    user: string;
+    referrer: string;
+    // Value of the contribution and the reward it accrued to the referrer
+    value: bigint;
+    reward: bigint;
+}
+
+export interface ReferralRewardClaimed {
+    name: "ReferralRewardClaimed";
+    fundraisingId: bigint;
+    referrer: string;
+    amount: bigint;
+}
+
+export interface VestingUpdated {
+    name: "VestingUpdated";
+    fundraisingId: bigint;
+    schedule: VestingSchedule;
+}
+
+export interface FundraisingFrozen {
+    name: "FundraisingFrozen";
+    fundraisingId: bigint;
+    frozen: boolean;
+}
+
+// The admin failed a frozen fundraising, its backers are refunded
+export interface EmergencyRefundEnabled {
+    name: "EmergencyRefundEnabled";
+    fundraisingId: bigint;
+}
+
+// The moderator may fail the fundraising from `forceFailTime` on
+export interface ForceFailRequested {
+    name: "ForceFailRequested";
+    fundraisingId: bigint;
+    forceFailTime: bigint;
+    reason: string;
+}
+
+// The admin or the moderator ended an open fundraising as failed, its backers are refunded
+export interface FundraisingForceFailed {
+    name: "FundraisingForceFailed";
+    fundraisingId: bigint;
+    by: string;
+    reason: string;
+}
+
+export interface BasePriceUpdated {
+    name: "BasePriceUpdated";
+    fundraisingId: bigint;
+    nftType: NftType;
+    newBasePrice: bigint;
+}
+
+export interface StartTimeUpdated {
+    name: "StartTimeUpdated";
+    fundraisingId: bigint;
+    newStartTime: bigint;
+}
+
+export interface DurationUpdated {
+    name: "DurationUpdated";
+    fundraisingId: bigint;
+    newDuration: bigint;
+}
+
+export interface TargetAmountUpdated {
+    name: "TargetAmountUpdated";
+    fundraisingId: bigint;
+    newTargetAmount: bigint;
+}
+
+export interface MaxBuyAmountUpdated {
+    name: "MaxBuyAmountUpdated";
+    fundraisingId: bigint;
+    nftType: NftType;
+    newMaxBuyAmount: bigint;
+}
+
+export type FundraisingEvent =
+    | FundraisingCreated
+    | FundraisingCancelled
+    | ContributionMade
+    | RefundClaimed
+    | FundClaimed
+    | NftClaimed
+    | WhitelistUpdated
+    | WhitelistRootUpdated
+    | TiersConfigured
+    | PaymentTokenSet
+    | WalletLimitsUpdated
+    | HardCapUpdated
+    | PricingUpdated
+    | ReferralPercentageUpdated
+    | ReferralRecorded
+    | ReferralRewardClaimed
+    | VestingUpdated
+    | FundraisingFrozen
+    | EmergencyRefundEnabled
+    | ForceFailRequested
+    | FundraisingForceFailed
+    | BasePriceUpdated
+    | StartTimeUpdated
+    | DurationUpdated
+    | TargetAmountUpdated
+    | MaxBuyAmountUpdated;
+
+export type FundraisingEventName = FundraisingEvent["name"];
+
+// Location of the log an event was decoded from
+export interface EventMeta {
+    blockNumber: number;
+    transactionHash: string;
+    logIndex: number;
+}
+
+export type FundraisingEventWithMeta = FundraisingEvent & EventMeta;
@@ -0,0 +1,47 @@
+import { task, types } from "hardhat/config";
+import { getFundraisingClient, parseDuration } from "./utils";
+
+task("api:serve", "Serves indexed fundraising data over HTTP, syncing the indexer in the background")
+    .addOptionalParam("db", "SQLite file written by the indexer", "indexer.sqlite")
+    .addOptionalParam("port", "Port to listen on", 8080, types.int)
+    .addOptionalParam("confirmations", "Recent blocks re-scanned on every sync in case of a reorg", 12, types.int)
+    .addOptionalParam("syncInterval", "Time between two syncs like `15s` or `1m`", "15s")
+    .setAction(async (args, hre) => {
+        const { Indexer, IndexerStore } = await import("../indexer");
+        const { createApiServer } = await import("../api");
+        const fundraisingCenter = await hre.deployments.get("FundraisingCenter");
+        const peaqNFT = await hre.deployments.get("PeaqNFT");
+
+        const store = await IndexerStore.open(args.db);
+        const indexer = new Indexer({
+            provider: hre.ethers.provider,
+            fundraisingCenter: fundraisingCenter.address,
+            peaqNFT: peaqNFT.address,
+            store,
+            startBlock: fundraisingCenter.receipt?.blockNumber ?? 0,
+            confirmations: args.confirmations,
+        });
+        await indexer.sync();
+
+        const server = createApiServer({ store, client: await getFundraisingClient(hre) });
+        // Waits for a sync to finish before scheduling the next one, so two syncs never write the store at once
+        let timer: NodeJS.Timeout;
+        const schedule = () => {
+            timer = setTimeout(() => {
+                indexer
+                    .sync()
+                    .catch((e: Error) => console.error(`Sync failed: ${e.message}`))
+                    .finally(schedule);
+            }, parseDuration(args.syncInterval) * 1000);
+        };
+        schedule();
+
+        await new Promise<void>((resolve) => {
+            server.listen(args.port, () => console.log(`Serving ${args.db} on http://localhost:${args.port}`));
+            server.on("close", () => {
+                clearTimeout(timer);
+                store.close();
+                resolve();
+            });
+        });
+    });
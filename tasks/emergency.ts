@@ -0,0 +1,133 @@
+import { Interface } from "ethers";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { statusName } from "../sdk/types";
+import { getPeaqNFT } from "./nft";
+import { formatTimestamp, getFundraisingClient, printEvents } from "./utils";
+
+// Every variant of an entry point has a switch of its own, the name of the entry point alone stops all of them
+const FUNDRAISING_VARIANTS = new Map([
+    ["contribute", ["contribute", "contributeWithProof", "contributeWithReferrer", "contributeWithPermit"]],
+    ["claimNft", ["claimNft", "claimAllNft"]],
+]);
+const NFT_VARIANTS = new Map([["mint", ["mint", "mintBatch", "mintTaggedBatch"]]]);
+
+// Parses comma separated function names or signatures, like `contribute,claimNft` or `safeTransferFrom(address,address,uint256)`,
+// each name of `variants` standing for all of its variants
+export const parseFunctions = (value: string, variants = new Map<string, string[]>()): string[] => {
+    const names = value.split(/,(?![^(]*\))/).map((name) => name.trim()).filter((name) => name !== "");
+    if (names.length === 0) {
+        throw new Error(`Invalid functions: ${value}`);
+    }
+    return names.flatMap((name) => variants.get(name) ?? [name]);
+};
+
+const selectorOf = (contractInterface: Interface, name: string): string => {
+    const fragment = contractInterface.getFunction(name);
+    if (fragment === null) {
+        throw new Error(`Unknown function: ${name}`);
+    }
+    return fragment.selector;
+};
+
+// Arguments of `emergency:pause` and `emergency:unpause`
+interface PauseArgs {
+    functions: string;
+    nft: boolean;
+    from?: string;
+}
+
+const setPaused = async (hre: HardhatRuntimeEnvironment, args: PauseArgs, paused: boolean) => {
+    if (args.nft) {
+        const peaqNFT = await getPeaqNFT(hre, args.from);
+        for (const name of parseFunctions(args.functions, NFT_VARIANTS)) {
+            await (await peaqNFT.setFunctionPaused(selectorOf(peaqNFT.interface, name), paused)).wait();
+            console.log(`PeaqNFT ${name} ${paused ? "paused" : "resumed"}`);
+        }
+        return;
+    }
+    const client = await getFundraisingClient(hre, args.from);
+    for (const name of parseFunctions(args.functions, FUNDRAISING_VARIANTS)) {
+        await client.setFunctionPaused(name, paused);
+        console.log(`FundraisingCenter ${name} ${paused ? "paused" : "resumed"}`);
+    }
+};
+
+task("emergency:pause", "Stops entry points of FundraisingCenter, or of PeaqNFT with --nft, as a pauser")
+    .addParam("functions", "Comma separated function names, `contribute`, `claimNft` and `mint` stand for each of their variants")
+    .addFlag("nft", "Pause functions of PeaqNFT, like `mint` or `transferFrom`")
+    .addOptionalParam("from", "Pauser address to send from")
+    .setAction(async (args, hre) => setPaused(hre, args, true));
+
+task("emergency:unpause", "Resumes paused entry points of FundraisingCenter, or of PeaqNFT with --nft, as the admin")
+    .addParam("functions", "Comma separated function names, `contribute`, `claimNft` and `mint` stand for each of their variants")
+    .addFlag("nft", "Resume functions of PeaqNFT")
+    .addOptionalParam("from", "Admin address to send from")
+    .setAction(async (args, hre) => setPaused(hre, args, false));
+
+task("emergency:grant-pauser", "Grants the pauser role of both FundraisingCenter and PeaqNFT, as the admin")
+    .addParam("account", "Guardian address")
+    .addOptionalParam("from", "Admin address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const peaqNFT = await getPeaqNFT(hre, args.from);
+        await (await client.contract.grantRole(await client.contract.PAUSER_ROLE(), args.account)).wait();
+        await (await peaqNFT.grantRole(await peaqNFT.PAUSER_ROLE(), args.account)).wait();
+        console.log(`Pauser role granted to ${args.account}`);
+    });
+
+task("emergency:freeze", "Stops every call acting on a fundraising that has not ended, or resumes them, as the admin")
+    .addParam("id", "Fundraising ID")
+    .addFlag("unfreeze", "Lift the freeze instead")
+    .addOptionalParam("from", "Admin address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const { events } = await client.setFrozen(args.id, !args.unfreeze);
+        printEvents(events);
+    });
+
+task("emergency:refund", "Fails a frozen fundraising so that its backers can get refunded, as the admin")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("from", "Admin address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const { events } = await client.enableEmergencyRefund(args.id);
+        printEvents(events);
+    });
+
+task("emergency:force-fail", "Ends an open fundraising as failed so that its backers get refunded, as the admin or the moderator after --request")
+    .addParam("id", "Fundraising ID")
+    .addParam("reason", "Why the fundraising is failed, recorded in the event")
+    .addFlag("request", "Start the timelock of the moderator instead")
+    .addOptionalParam("from", "Admin or moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const { events } = args.request ? await client.requestForceFail(args.id, args.reason) : await client.forceFail(args.id, args.reason);
+        printEvents(events);
+    });
+
+task("emergency:status", "Prints the paused functions of both contracts, and whether a fundraising is frozen if given")
+    .addOptionalParam("id", "Fundraising ID")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre);
+        const peaqNFT = await getPeaqNFT(hre);
+        const nftFunctions: string[] = [];
+        peaqNFT.interface.forEachFunction((fragment) => {
+            if (!fragment.constant) {
+                nftFunctions.push(fragment.format());
+            }
+        });
+        const nftPaused = await Promise.all(nftFunctions.map((name) => peaqNFT.pausedFunctions(selectorOf(peaqNFT.interface, name))));
+        const paused = await client.getPausedFunctions();
+
+        console.log(`FundraisingCenter paused: ${paused.length === 0 ? "none" : paused.join(", ")}`);
+        const nftPausedNames = nftFunctions.filter((_, i) => nftPaused[i]);
+        console.log(`PeaqNFT paused: ${nftPausedNames.length === 0 ? "none" : nftPausedNames.join(", ")}`);
+        if (args.id !== undefined) {
+            const [status, frozen, forceFailTime] = await Promise.all([client.getStatus(args.id), client.isFrozen(args.id), client.getForceFailTime(args.id)]);
+            console.log(`Fundraising #${args.id}: ${statusName(status)}${frozen ? " (frozen)" : ""}`);
+            if (forceFailTime !== 0n) {
+                console.log(`Force fail by the moderator from ${formatTimestamp(forceFailTime)}`);
+            }
+        }
+    });
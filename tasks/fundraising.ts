@@ -0,0 +1,406 @@
+import fs from "fs";
+import { ZeroAddress, formatUnits } from "ethers";
+import { task, types } from "hardhat/config";
+import {
+    FundraisingStatus,
+    NftType,
+    PriceCurve,
+    Pricing,
+    ReleaseKind,
+    SetVestingParams,
+    Tier,
+    UNCAPPED,
+    nftTypeName,
+    parseNftType,
+    statusName,
+} from "../sdk/types";
+import {
+    describePricing,
+    describeVesting,
+    formatTimestamp,
+    getFundraisingClient,
+    getLensClient,
+    getPaymentDecimals,
+    latestTimestamp,
+    parseAmount,
+    parseDuration,
+    parsePercentage,
+    parseTimestamp,
+    printEvents,
+} from "./utils";
+
+task("fundraising:create", "Creates a fundraising on FundraisingCenter")
+    .addParam("start", "Start time: unix seconds, ISO date, `now` or relative like `+10m`")
+    .addParam("duration", "Duration like `30m`, `2h` or `7d`")
+    .addParam("target", "Target amount in ether")
+    .addParam("priceLegendary", "Legendary base price in ether")
+    .addParam("priceEpic", "Epic base price in ether")
+    .addParam("priceCommon", "Common base price in ether")
+    .addParam("maxLegendary", "Maximum number of legendary NFTs", undefined, types.int)
+    .addParam("maxEpic", "Maximum number of epic NFTs", undefined, types.int)
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const { fundraisingId, events } = await client.createFundraising({
+            startTime: parseTimestamp(args.start, await latestTimestamp(hre)),
+            duration: parseDuration(args.duration),
+            targetAmount: parseAmount(args.target),
+            basePrices: {
+                [NftType.LEGENDARY]: parseAmount(args.priceLegendary),
+                [NftType.EPIC]: parseAmount(args.priceEpic),
+                [NftType.COMMON]: parseAmount(args.priceCommon),
+            },
+            maxBuyAmounts: {
+                [NftType.LEGENDARY]: args.maxLegendary,
+                [NftType.EPIC]: args.maxEpic,
+            },
+        });
+        printEvents(events);
+        return fundraisingId;
+    });
+
+// Reads tiers from a JSON array like `[{ "type": "legendary", "price": "4", "max": 3, "phase": "10m", "whitelistOnly": true }]`.
+// `max` defaults to no cap and `phase` to 0, which only makes sense for the last tier. Prices have `decimals` decimals.
+export const readTiers = (file: string, decimals = 18): Tier[] => {
+    const entries = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (!Array.isArray(entries) || entries.length === 0) {
+        throw new Error(`${file} should hold a non-empty array of tiers`);
+    }
+    return entries.map((entry, i) => {
+        if (entry.type === undefined || entry.price === undefined) {
+            throw new Error(`Tier ${i} of ${file} needs a type and a price`);
+        }
+        return {
+            nftType: parseNftType(entry.type),
+            whitelistOnly: entry.whitelistOnly === true,
+            basePrice: parseAmount(String(entry.price), decimals),
+            maxBuyAmount: entry.max === undefined ? UNCAPPED : BigInt(entry.max),
+            duration: BigInt(parseDuration(String(entry.phase ?? 0))),
+        };
+    });
+};
+
+task("fundraising:create-tiers", "Creates a fundraising selling the tiers listed in a JSON file")
+    .addParam("start", "Start time: unix seconds, ISO date, `now` or relative like `+10m`")
+    .addParam("duration", "Duration like `30m`, `2h` or `7d`")
+    .addParam("target", "Target amount in ether, or in units of the payment token")
+    .addParam("tiers", "JSON file listing the tiers in the order they are sold")
+    .addOptionalParam("token", "ERC-20 token to raise in instead of native currency", ZeroAddress)
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const decimals = await getPaymentDecimals(hre, args.token);
+        const { fundraisingId, events } = await client.createFundraising({
+            startTime: parseTimestamp(args.start, await latestTimestamp(hre)),
+            duration: parseDuration(args.duration),
+            targetAmount: parseAmount(args.target, decimals),
+            tiers: readTiers(args.tiers, decimals),
+            paymentToken: args.token,
+        });
+        printEvents(events, decimals);
+        return fundraisingId;
+    });
+
+task("fundraising:set-price", "Updates the base price of an NFT type while the fundraising is in CREATION")
+    .addParam("id", "Fundraising ID")
+    .addParam("type", "NFT type of one of the tiers, by name or number")
+    .addParam("price", "New base price in ether, or in units of the payment token")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const decimals = await getPaymentDecimals(hre, (await client.getFundraising(args.id)).paymentToken);
+        const { events } = await client.setBasePrice(args.id, parseNftType(args.type), parseAmount(args.price, decimals));
+        printEvents(events, decimals);
+    });
+
+// Parses per-tier counts like `legendary=1,epic=2` into a record keyed by NFT type
+export const parseTierCounts = (value: string): Partial<Record<NftType, bigint>> =>
+    Object.fromEntries(
+        value.split(",").map((entry) => {
+            const match = /^\s*([^=\s]+)\s*=\s*(\d+)\s*$/.exec(entry);
+            if (!match) {
+                throw new Error(`Invalid tier count: ${entry}`);
+            }
+            return [parseNftType(match[1]), BigInt(match[2])];
+        })
+    );
+
+// Parses per-tier amounts like `legendary=2.5,epic=1` into a record keyed by NFT type, in units with `decimals` decimals
+export const parseTierAmounts = (value: string, decimals = 18): Partial<Record<NftType, bigint>> =>
+    Object.fromEntries(
+        value.split(",").map((entry) => {
+            const match = /^\s*([^=\s]+)\s*=\s*(\S+)\s*$/.exec(entry);
+            if (!match) {
+                throw new Error(`Invalid tier amount: ${entry}`);
+            }
+            return [parseNftType(match[1]), parseAmount(match[2], decimals)];
+        })
+    );
+
+task("fundraising:update", "Changes creation parameters of a fundraising while it is in CREATION, sending only the ones that differ")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("start", "Start time: unix seconds, ISO date, `now` or relative like `+10m`, keeping the duration")
+    .addOptionalParam("duration", "Duration like `30m`, `2h` or `7d`")
+    .addOptionalParam("target", "Target amount in ether, or in units of the payment token")
+    .addOptionalParam("prices", "Base price of each tier, like `legendary=2.5,epic=1`")
+    .addOptionalParam("maxBuy", "Maximum number of NFTs of each tier, like `legendary=3,epic=5`")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const decimals = await getPaymentDecimals(hre, (await client.getFundraising(args.id)).paymentToken);
+        const { events } = await client.updateFundraising(args.id, {
+            startTime: args.start === undefined ? undefined : parseTimestamp(args.start, await latestTimestamp(hre)),
+            duration: args.duration === undefined ? undefined : parseDuration(args.duration),
+            targetAmount: args.target === undefined ? undefined : parseAmount(args.target, decimals),
+            basePrices: args.prices === undefined ? undefined : parseTierAmounts(args.prices, decimals),
+            maxBuyAmounts: args.maxBuy === undefined ? undefined : parseTierCounts(args.maxBuy),
+        });
+        printEvents(events, decimals);
+    });
+
+task("fundraising:set-wallet-limits", "Sets the per-wallet limits of a fundraising while it is in CREATION, omitted ones are removed")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("min", "Minimum value of one contribution in ether, or in units of the payment token")
+    .addOptionalParam("maxValue", "Maximum value one wallet contributes in total")
+    .addOptionalParam("maxPerWallet", "Maximum number of NFTs per wallet of each tier, like `legendary=1,epic=2`")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const decimals = await getPaymentDecimals(hre, (await client.getFundraising(args.id)).paymentToken);
+        const { events } = await client.setWalletLimits(args.id, {
+            minContribution: args.min === undefined ? undefined : parseAmount(args.min, decimals),
+            maxWalletValue: args.maxValue === undefined ? undefined : parseAmount(args.maxValue, decimals),
+            maxPerWallet: args.maxPerWallet === undefined ? undefined : parseTierCounts(args.maxPerWallet),
+        });
+        printEvents(events, decimals);
+    });
+
+task("fundraising:set-hard-cap", "Sets the hard cap of a fundraising while it is in CREATION, the target amount being its soft cap")
+    .addParam("id", "Fundraising ID")
+    .addParam("cap", "Hard cap in ether, or in units of the payment token, `0` to remove it")
+    .addFlag("closeEarly", "End the raise as successful as soon as the hard cap is reached")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const decimals = await getPaymentDecimals(hre, (await client.getFundraising(args.id)).paymentToken);
+        const { events } = await client.setHardCap(args.id, { hardCap: parseAmount(args.cap, decimals), closeOnHardCap: args.closeEarly });
+        printEvents(events, decimals);
+    });
+
+// Number of `/`-separated values each curve takes in `parseTierPricing`: the step, then the interval and floor price
+const CURVE_VALUES: Record<string, [PriceCurve, number]> = {
+    fixed: [PriceCurve.FIXED, 0],
+    linear: [PriceCurve.LINEAR, 1],
+    dutch: [PriceCurve.DUTCH_AUCTION, 3],
+};
+
+// Parses price curves like `epic=linear:0.1,common=dutch:0.05/1h/0.5` into a record keyed by NFT type
+export const parseTierPricing = (value: string, decimals: number): Partial<Record<NftType, Pricing>> =>
+    Object.fromEntries(
+        value.split(",").map((entry) => {
+            const match = /^\s*([^=\s]+)\s*=\s*([a-z]+)(?::(\S+))?\s*$/.exec(entry);
+            const values = match?.[3]?.split("/") ?? [];
+            if (!match || CURVE_VALUES[match[2]]?.[1] !== values.length) {
+                throw new Error(`Invalid tier pricing: ${entry}`);
+            }
+            const pricing: Pricing = {
+                curve: CURVE_VALUES[match[2]][0],
+                step: values.length > 0 ? parseAmount(values[0], decimals) : 0n,
+                interval: values.length > 1 ? BigInt(parseDuration(values[1])) : 0n,
+                floorPrice: values.length > 2 ? parseAmount(values[2], decimals) : 0n,
+            };
+            return [parseNftType(match[1]), pricing];
+        })
+    );
+
+task("fundraising:set-pricing", "Sets the price curves of a fundraising while it is in CREATION, omitted tiers keep a fixed price")
+    .addParam("id", "Fundraising ID")
+    .addParam("pricing", "Curve of each tier like `epic=linear:0.1,common=dutch:0.05/1h/0.5`, the dutch auction going down by 0.05 every hour to 0.5")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const decimals = await getPaymentDecimals(hre, (await client.getFundraising(args.id)).paymentToken);
+        const { events } = await client.setPricing(args.id, parseTierPricing(args.pricing, decimals));
+        printEvents(events, decimals);
+    });
+
+const RELEASE_KINDS: Record<string, ReleaseKind> = {
+    immediate: ReleaseKind.IMMEDIATE,
+    linear: ReleaseKind.LINEAR,
+    milestones: ReleaseKind.MILESTONES,
+    governed: ReleaseKind.GOVERNED,
+};
+
+// Parses a release schedule: its kind, the cliff and duration of a linear one, the tranches of milestones or governed ones like `0=25,30d=25,90d=50`
+export const parseVesting = (kind: string, options: { cliff?: string; duration?: string; tranches?: string }): SetVestingParams => {
+    if (!(kind.trim() in RELEASE_KINDS)) {
+        throw new Error(`Invalid release kind: ${kind}`);
+    }
+    return {
+        kind: RELEASE_KINDS[kind.trim()],
+        cliff: options.cliff === undefined ? 0n : BigInt(parseDuration(options.cliff)),
+        duration: options.duration === undefined ? 0n : BigInt(parseDuration(options.duration)),
+        tranches:
+            options.tranches === undefined
+                ? []
+                : options.tranches.split(",").map((entry) => {
+                      const match = /^\s*([^=\s]+)\s*=\s*(\S+)\s*$/.exec(entry);
+                      if (!match) {
+                          throw new Error(`Invalid tranche: ${entry}`);
+                      }
+                      return { delay: BigInt(parseDuration(match[1])), percentage: parsePercentage(match[2]) };
+                  }),
+    };
+};
+
+task("fundraising:set-vesting", "Sets how the fund of a fundraising in CREATION is released to its moderator after the raise")
+    .addParam("id", "Fundraising ID")
+    .addParam("kind", "`immediate`, `linear`, `milestones` or `governed`, whose tranches are voted by the NFT holders")
+    .addOptionalParam("cliff", "Linear only: time after the end of the raise before anything is released, like `30d`")
+    .addOptionalParam("duration", "Linear only: time after the end of the raise when everything is released, like `180d`")
+    .addOptionalParam("tranches", "Milestones and governed only: percentage released after each delay, like `0=25,30d=25,90d=50`")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const { events } = await client.setVesting(args.id, parseVesting(args.kind, args));
+        printEvents(events);
+    });
+
+task("fundraising:cancel", "Cancels a fundraising that is still in CREATION")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const { events } = await client.cancelFundraising(args.id);
+        printEvents(events);
+    });
+
+task("fundraising:whitelist", "Adds an address to, or removes it from, the whitelist of a fundraising")
+    .addParam("id", "Fundraising ID")
+    .addParam("address", "User address")
+    .addFlag("remove", "Remove the address instead of adding it")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const { events } = args.remove
+            ? await client.removeFromWhitelist(args.id, args.address)
+            : await client.addToWhitelist(args.id, args.address);
+        printEvents(events);
+    });
+
+task("fundraising:claim-fund", "Transfers the part of the funds of a successful fundraising vested so far to its moderator")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const decimals = await getPaymentDecimals(hre, (await client.getFundraising(args.id)).paymentToken);
+        const { events } = await client.claimFund(args.id);
+        printEvents(events, decimals);
+    });
+
+task("fundraising:phases", "Prints the phase timeline of a fundraising and the phase it is in")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("at", "Point in time to print the phase at: unix seconds, ISO date or relative like `+10m`, now by default")
+    .setAction(async (args, hre) => {
+        const { describePhase } = await import("../sdk/phases");
+        const lens = await getLensClient(hre);
+        const timestamp = args.at === undefined ? undefined : parseTimestamp(args.at, await latestTimestamp(hre));
+        const [timeline, status] = await Promise.all([lens.getPhaseTimeline(args.id), lens.getPhaseStatus(args.id, timestamp)]);
+
+        console.log(`Fundraising #${args.id}: ${describePhase(status)}`);
+        for (const phase of timeline) {
+            const empty = phase.startTime === phase.endTime ? " (empty)" : "";
+            console.log(`  ${nftTypeName(phase.nftType).padEnd(10)} ${formatTimestamp(phase.startTime)} -> ${formatTimestamp(phase.endTime)}${empty}`);
+        }
+        return status;
+    });
+
+task("fundraising:dashboard", "Prints one line per fundraising, from ID --offset on or the ones of --ids")
+    .addOptionalParam("offset", "First fundraising ID", 0, types.int)
+    .addOptionalParam("limit", "Maximum number of fundraisings", 50, types.int)
+    .addOptionalParam("ids", "Comma separated fundraising IDs, fetched at once instead of a page")
+    .setAction(async (args, hre) => {
+        const lens = await getLensClient(hre);
+        let views;
+        if (args.ids !== undefined) {
+            views = await lens.getDashboard(args.ids.split(",").map((id: string) => BigInt(id.trim())));
+        } else {
+            const page = await lens.getFundraisingViews(args.offset, args.limit);
+            views = page.views;
+            console.log(
+                views.length === 0
+                    ? `No fundraising from #${args.offset}, ${page.total} in total`
+                    : `Fundraisings #${args.offset} to #${args.offset + views.length - 1} of ${page.total}`
+            );
+        }
+        for (const view of views) {
+            const decimals = await getPaymentDecimals(hre, view.info.paymentToken);
+            const format = (amount: bigint) => formatUnits(amount, decimals);
+            const phase = view.currentPhase === undefined ? "" : ` ${nftTypeName(view.tiers[view.currentPhase].nftType)} phase`;
+            const tiers = view.tiers.map(
+                (tier) => `${nftTypeName(tier.nftType)} ${tier.sold}/${tier.maxBuyAmount === UNCAPPED ? "unlimited" : tier.maxBuyAmount} @${format(tier.price)}`
+            );
+            console.log(
+                `#${view.info.id} ${statusName(view.info.status)}${phase} raised=${format(view.info.totalContribution)}/${format(view.info.targetAmount)} whitelist=${view.whitelistMode} ${tiers.join(", ")}`
+            );
+        }
+        return views;
+    });
+
+task("fundraising:status", "Prints the state of a fundraising, and of a user in it if given")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("user", "User address to print the contribution of")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre);
+        const info = await client.getFundraising(args.id);
+        const [tiers, boughtAmounts, limits, pricing, vesting, release] = await Promise.all([
+            client.getTiers(args.id),
+            client.getBoughtAmounts(args.id),
+            client.getWalletLimits(args.id),
+            client.getPricing(args.id),
+            client.getVesting(args.id),
+            client.getFundRelease(args.id),
+        ]);
+        const decimals = await getPaymentDecimals(hre, info.paymentToken);
+        const format = (amount: bigint) => formatUnits(amount, decimals);
+
+        console.log(`Fundraising #${info.id}: ${statusName(info.status)}`);
+        console.log(`  moderator:    ${info.moderator}`);
+        console.log(`  start:        ${formatTimestamp(info.startTime)}`);
+        console.log(`  end:          ${formatTimestamp(info.targetTime)}`);
+        console.log(`  currency:     ${info.paymentToken === ZeroAddress ? "native" : info.paymentToken}`);
+        console.log(`  target:       ${format(info.targetAmount)}`);
+        console.log(`  hard cap:     ${info.hardCap === 0n ? "none" : format(info.hardCap)}${info.closeOnHardCap ? " (closes when reached)" : ""}`);
+        console.log(`  contributed:  ${format(info.totalContribution)}`);
+        console.log(`  fund claimed: ${info.fundClaimed}`);
+        console.log(`  vesting:      ${describeVesting(vesting)}`);
+        console.log(`  released:     ${format(release.released)} (releasable ${format(release.releasable)}, remaining ${format(release.remaining)})`);
+        console.log(`  min per tx:   ${limits.minContribution === 0n ? "none" : format(limits.minContribution)}`);
+        console.log(`  max per user: ${limits.maxWalletValue === 0n ? "none" : format(limits.maxWalletValue)}`);
+        for (const tier of tiers) {
+            const cap = tier.maxBuyAmount === UNCAPPED ? "unlimited" : tier.maxBuyAmount.toString();
+            const walletCap = limits.maxPerWallet[tier.nftType] === 0n ? "" : ` per-wallet=${limits.maxPerWallet[tier.nftType]}`;
+            const curve = pricing[tier.nftType].curve === PriceCurve.FIXED ? "" : ` curve=${describePricing(pricing[tier.nftType], decimals)}`;
+            const flags = tier.whitelistOnly ? " whitelist-only" : "";
+            console.log(
+                `  ${nftTypeName(tier.nftType).padEnd(10)} price=${format(tier.basePrice)} sold=${boughtAmounts[tier.nftType]}/${cap} phase=${tier.duration}s${curve}${walletCap}${flags}`
+            );
+        }
+
+        if (args.user) {
+            const [contribution, refundAmount] = await Promise.all([
+                client.getUserContribution(args.id, args.user),
+                client.getRefundAmount(args.id, args.user),
+            ]);
+            console.log(`User ${args.user}:`);
+            console.log(`  whitelisted:  ${contribution.whitelisted}`);
+            console.log(`  paid:         ${format(contribution.totalValue)} in ${contribution.payments.length} contribution(s)`);
+            console.log(
+                `  NFTs:         ${tiers.map(({ nftType }) => `${nftTypeName(nftType)} x${contribution.byType[nftType]} (${format(contribution.paidByType[nftType])})`).join(", ")}`
+            );
+            console.log(`  claimed:      ${contribution.claimedCount}/${contribution.totalContribution}`);
+            console.log(`  refunded:     ${contribution.refunded}`);
+            console.log(`  refundable:   ${format(refundAmount)}${info.status === FundraisingStatus.FAILED ? "" : " if the raise fails"}`);
+        }
+        return info.status;
+    });
@@ -0,0 +1,101 @@
+import { formatUnits } from "ethers";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { FundraisingGovernorClient } from "../sdk";
+import { ProposalState } from "../sdk/types";
+import { parseTokenIds } from "./revenue";
+import { formatTimestamp, getFundraisingClient, getPaymentDecimals, getSigner } from "./utils";
+
+// Connects the SDK to the `FundraisingGovernor` recorded by hardhat-deploy on the current network
+export const getGovernorClient = async (hre: HardhatRuntimeEnvironment, from?: string): Promise<FundraisingGovernorClient> => {
+    const { FundraisingGovernorClient } = await import("../sdk");
+    const deployment = await hre.deployments.get("FundraisingGovernor");
+    return FundraisingGovernorClient.connect(deployment.address, await getSigner(hre, from));
+};
+
+// Decimals of the payment token of a fundraising, the fund is paid in
+const getFundDecimals = async (hre: HardhatRuntimeEnvironment, fundraisingId: bigint | string): Promise<number> => {
+    const client = await getFundraisingClient(hre);
+    return getPaymentDecimals(hre, (await client.getFundraising(fundraisingId)).paymentToken);
+};
+
+const PROPOSAL_STATES: Record<ProposalState, string> = {
+    [ProposalState.ACTIVE]: "active",
+    [ProposalState.SUCCEEDED]: "succeeded",
+    [ProposalState.DEFEATED]: "defeated",
+};
+
+task("governance:propose", "Proposes to release the next tranche of the fund of a successful governed fundraising")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getGovernorClient(hre, args.from);
+        const { proposalId } = await client.propose(args.id);
+        const proposal = await client.getProposal(proposalId);
+        const decimals = await getFundDecimals(hre, args.id);
+        console.log(
+            `ProposalCreated #${proposalId} fundraising=#${proposal.fundraisingId} tranche=${proposal.tranche} amount=${formatUnits(proposal.amount, decimals)} deadline=${formatTimestamp(proposal.deadline)}`
+        );
+    });
+
+task("governance:vote", "Votes on a release proposal with the sender's NFTs")
+    .addParam("proposal", "Proposal ID")
+    .addFlag("against", "Vote against the release instead of for it")
+    .addOptionalParam("tokens", "Comma separated token IDs, all the tokens of the sender that did not vote yet by default")
+    .addOptionalParam("from", "Holder address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getGovernorClient(hre, args.from);
+        const { tokenIds, weight } = await client.castVote(args.proposal, !args.against, args.tokens ? parseTokenIds(args.tokens) : undefined);
+        console.log(`VoteCast #${args.proposal} ${args.against ? "against" : "for"} tokens=${tokenIds.length} weight=${weight}`);
+    });
+
+task("governance:execute", "Executes a proposal once its vote is closed: pays the tranche or revokes the release")
+    .addParam("proposal", "Proposal ID")
+    .addOptionalParam("from", "Address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getGovernorClient(hre, args.from);
+        await client.execute(args.proposal);
+        const proposal = await client.getProposal(args.proposal);
+        if (proposal.state === ProposalState.SUCCEEDED) {
+            const decimals = await getFundDecimals(hre, proposal.fundraisingId);
+            console.log(`Proposal #${args.proposal} passed: released ${formatUnits(proposal.amount, decimals)}`);
+        } else {
+            console.log(`Proposal #${args.proposal} defeated: release of fundraising #${proposal.fundraisingId} revoked`);
+        }
+    });
+
+task("governance:status", "Prints a release proposal and its votes")
+    .addParam("proposal", "Proposal ID")
+    .setAction(async (args, hre) => {
+        const client = await getGovernorClient(hre);
+        const proposal = await client.getProposal(args.proposal);
+        const decimals = await getFundDecimals(hre, proposal.fundraisingId);
+
+        console.log(`proposal:     #${proposal.id} (${PROPOSAL_STATES[proposal.state]}${proposal.executed ? ", executed" : ""})`);
+        console.log(`fundraising:  #${proposal.fundraisingId} tranche ${proposal.tranche}`);
+        console.log(`amount:       ${formatUnits(proposal.amount, decimals)}`);
+        console.log(`deadline:     ${formatTimestamp(proposal.deadline)}`);
+        console.log(`snapshot:     block ${proposal.snapshot}`);
+        console.log(`votes:        for=${proposal.forVotes} against=${proposal.againstVotes} quorum=${proposal.quorum}`);
+        return proposal;
+    });
+
+task("governance:revoke", "Revokes the release of a fund whose moderator did not propose a due tranche in time, for holders to reclaim it")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("from", "Address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getGovernorClient(hre, args.from);
+        await client.revokeRelease(args.id);
+        const { reclaimable } = await client.getRelease(args.id);
+        console.log(`Release of fundraising #${args.id} revoked: ${formatUnits(reclaimable, await getFundDecimals(hre, args.id))} to reclaim`);
+    });
+
+task("governance:reclaim", "Reclaims the share of the fund of a fundraising whose release was revoked of the sender's NFTs")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("tokens", "Comma separated token IDs, all the tokens of the sender that did not reclaim yet by default")
+    .addOptionalParam("from", "Holder address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getGovernorClient(hre, args.from);
+        const { tokenIds, amount } = await client.reclaim(args.id, args.tokens ? parseTokenIds(args.tokens) : undefined);
+        console.log(`Reclaimed ${formatUnits(amount, await getFundDecimals(hre, args.id))} with ${tokenIds.length} tokens`);
+    });
@@ -0,0 +1,9 @@
+import "./api";
+import "./emergency";
+import "./fundraising";
+import "./governance";
+import "./indexer";
+import "./nft";
+import "./referral";
+import "./revenue";
+import "./whitelist";
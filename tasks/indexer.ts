@@ -0,0 +1,31 @@
+import { task, types } from "hardhat/config";
+
+task("indexer:sync", "Replays FundraisingCenter and PeaqNFT events into a SQLite database")
+    .addOptionalParam("db", "SQLite file to write, resumed from if it exists", "indexer.sqlite")
+    .addOptionalParam("confirmations", "Recent blocks re-scanned on every sync in case of a reorg", 12, types.int)
+    .addOptionalParam("batchSize", "Maximum number of blocks per eth_getLogs request", 2000, types.int)
+    .addOptionalParam("startBlock", "First block to scan, defaults to the FundraisingCenter deployment block", undefined, types.int)
+    .setAction(async (args, hre) => {
+        const { Indexer, IndexerStore } = await import("../indexer");
+        const fundraisingCenter = await hre.deployments.get("FundraisingCenter");
+        const peaqNFT = await hre.deployments.get("PeaqNFT");
+
+        const store = await IndexerStore.open(args.db);
+        try {
+            const indexer = new Indexer({
+                provider: hre.ethers.provider,
+                fundraisingCenter: fundraisingCenter.address,
+                peaqNFT: peaqNFT.address,
+                store,
+                startBlock: args.startBlock ?? fundraisingCenter.receipt?.blockNumber ?? 0,
+                confirmations: args.confirmations,
+                batchSize: args.batchSize,
+            });
+            const result = await indexer.sync();
+            console.log(`Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.events} events`);
+            console.log(`${store.getFundraisings().length} fundraisings in ${args.db}`);
+            return result;
+        } finally {
+            store.close();
+        }
+    });
@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import { formatEther } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { NftType, SALE_TYPES, nftTypeName, parseNftType } from "../sdk/types";
+import { parseTierCounts } from "./fundraising";
+import { formatPercentage, getSigner, parseAmount, parsePercentage } from "./utils";
+
+// Connects to the `PeaqNFT` proxy recorded by hardhat-deploy on the current network
+export const getPeaqNFT = async (hre: HardhatRuntimeEnvironment, from?: string) => {
+    const deployment = await hre.deployments.get("PeaqNFT");
+    return hre.ethers.getContractAt("PeaqNFT", deployment.address, await getSigner(hre, from));
+};
+
+task("nft:set-revenue-share", "Sets the revenue share percentage of an NFT type on PeaqNFT")
+    .addParam("type", "NFT type: legendary, epic or common")
+    .addParam("percentage", "Revenue share like `25`, `12.5` or `12.5%`")
+    .addOptionalParam("from", "Admin address to send from")
+    .setAction(async (args, hre) => {
+        const peaqNFT = await getPeaqNFT(hre, args.from);
+        const tx = await peaqNFT.setShareRevenuePercentage(parseNftType(args.type), parsePercentage(args.percentage));
+        const receipt = await tx.wait();
+
+        for (const log of receipt!.logs) {
+            const parsed = peaqNFT.interface.parseLog(log);
+            if (parsed?.name === "RevenueSharePercentageSet") {
+                console.log(`RevenueSharePercentageSet ${nftTypeName(Number(parsed.args.nftType))}=${formatPercentage(parsed.args.percentage)}`);
+            }
+        }
+    });
+
+task("nft:royalty", "Prints the ERC-2981 royalty receiver and the royalty rate of each NFT type")
+    .addOptionalParam("types", "Comma separated NFT types, legendary, epic and common by default")
+    .addOptionalParam("salePrice", "Sale price in ether to print the royalty amount of")
+    .setAction(async (args, hre) => {
+        const peaqNFT = await getPeaqNFT(hre);
+        const nftTypes: NftType[] = args.types === undefined ? [...SALE_TYPES] : args.types.split(",").map((name: string) => parseNftType(name.trim()));
+
+        console.log(`receiver: ${await peaqNFT.getRoyaltyReceiver()}`);
+        for (const nftType of nftTypes) {
+            const rate = await peaqNFT.getRoyaltyRate(nftType);
+            let line = `${nftTypeName(nftType).padEnd(10)} rate=${formatPercentage(rate)}`;
+            if (args.salePrice !== undefined) {
+                const [, amount] = await peaqNFT.royaltyInfo(BigInt(nftType) << 32n, parseAmount(args.salePrice));
+                line += ` royalty=${formatEther(amount)}`;
+            }
+            console.log(line);
+        }
+    });
+
+task("nft:set-royalty-receiver", "Sets the address ERC-2981 royalties of every NFT type are paid to")
+    .addParam("receiver", "Royalty receiver address, e.g. the DAO treasury")
+    .addOptionalParam("from", "Admin address to send from")
+    .setAction(async (args, hre) => {
+        const peaqNFT = await getPeaqNFT(hre, args.from);
+        await (await peaqNFT.setRoyaltyReceiver(args.receiver)).wait();
+        console.log(`RoyaltyReceiverSet ${await peaqNFT.getRoyaltyReceiver()}`);
+    });
+
+task("nft:set-royalty-rate", "Sets the ERC-2981 royalty rate of an NFT type")
+    .addParam("type", "NFT type: legendary, epic or common")
+    .addParam("rate", "Royalty rate like `5`, `2.5` or `2.5%`")
+    .addOptionalParam("from", "Admin address to send from")
+    .setAction(async (args, hre) => {
+        const peaqNFT = await getPeaqNFT(hre, args.from);
+        const nftType = parseNftType(args.type);
+        await (await peaqNFT.setRoyaltyRate(nftType, parsePercentage(args.rate))).wait();
+        console.log(`RoyaltyRateSet ${nftTypeName(nftType)}=${formatPercentage(await peaqNFT.getRoyaltyRate(nftType))}`);
+    });
+
+task("nft:set-base-uri", "Sets the base URI the metadata of an NFT type is hosted at, `<uri><index>.json`")
+    .addParam("type", "NFT type: legendary, epic or common")
+    .addParam("uri", "Base URI ending with a slash, like `ipfs://<cid>/legendary/`")
+    .addOptionalParam("from", "Admin address to send from")
+    .setAction(async (args, hre) => {
+        const peaqNFT = await getPeaqNFT(hre, args.from);
+        await (await peaqNFT.setBaseURI(parseNftType(args.type), args.uri)).wait();
+        console.log(`BaseURISet ${args.type}=${args.uri}`);
+    });
+
+task("nft:set-onchain-metadata", "Serves the metadata and image of every token from tokenURI itself, or from the base URIs again")
+    .addParam("enabled", "true or false", undefined, types.boolean)
+    .addOptionalParam("from", "Admin address to send from")
+    .setAction(async (args, hre) => {
+        const peaqNFT = await getPeaqNFT(hre, args.from);
+        await (await peaqNFT.setOnChainMetadata(args.enabled)).wait();
+        console.log(`OnChainMetadataSet ${args.enabled}`);
+    });
+
+task("nft:metadata", "Writes the metadata JSON and SVG image files of the tokens to host, `<out>/<type>/<index>.json`")
+    .addParam("out", "Output directory")
+    .addParam("imageBaseUri", "URL the output directory is hosted at, ending with a slash")
+    .addOptionalParam("counts", "Tokens per type like `legendary=10,epic=50`, the minted ones by default")
+    .setAction(async (args, hre) => {
+        const { buildMetadataFiles } = await import("../sdk/metadata");
+        let counts: Partial<Record<NftType, bigint>>;
+        if (args.counts === undefined) {
+            const peaqNFT = await getPeaqNFT(hre);
+            counts = Object.fromEntries(await Promise.all(SALE_TYPES.map(async (nftType) => [nftType, await peaqNFT.getMintedCount(nftType)])));
+        } else {
+            counts = parseTierCounts(args.counts);
+        }
+
+        const files = buildMetadataFiles(counts, args.imageBaseUri);
+        for (const file of files) {
+            const target = path.join(args.out, file.path);
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.writeFileSync(target, file.content);
+        }
+        for (const [nftType, count] of Object.entries(counts)) {
+            console.log(`${nftTypeName(Number(nftType))}: ${count} tokens`);
+        }
+        console.log(`Wrote ${files.length} files to ${args.out}`);
+    });
@@ -0,0 +1,89 @@
+import fs from "fs";
+import { formatUnits } from "ethers";
+import { task, types } from "hardhat/config";
+import { FundraisingStatus, ReferrerStats } from "../sdk/types";
+import { getFundraisingClient, getPaymentDecimals, parsePercentage, printEvents } from "./utils";
+
+// What happens to the unclaimed reward of a referrer given the status of the fundraising
+export const payoutStatus = (status: FundraisingStatus, outstanding: bigint): string => {
+    switch (status) {
+        case FundraisingStatus.SUCCESS:
+            return outstanding > 0n ? "payable" : "paid";
+        case FundraisingStatus.FAILED:
+        case FundraisingStatus.CANCELLED:
+            return "forfeited";
+        default:
+            return "pending";
+    }
+};
+
+task("referral:set-percentage", "Sets the share of referred contributions paid to referrers if the fundraising succeeds")
+    .addParam("id", "Fundraising ID")
+    .addParam("percentage", "Percentage like `2.5`, at most 2 decimals")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const { events } = await client.setReferralPercentage(args.id, parsePercentage(args.percentage));
+        printEvents(events);
+    });
+
+task("referral:claim", "Claims the referral reward of the sender in a successful fundraising")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("from", "Referrer address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const decimals = await getPaymentDecimals(hre, (await client.getFundraising(args.id)).paymentToken);
+        const { events } = await client.claimReferralReward(args.id);
+        printEvents(events, decimals);
+    });
+
+task("referral:leaderboard", "Ranks the referrers of a fundraising by the value they brought")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("fromBlock", "First block to read referral events from", 0, types.int)
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre);
+        const decimals = await getPaymentDecimals(hre, (await client.getFundraising(args.id)).paymentToken);
+        const leaderboard = await client.getReferralLeaderboard(args.id, args.fromBlock);
+        const format = (amount: bigint) => formatUnits(amount, decimals);
+
+        if (leaderboard.length === 0) {
+            console.log("No referrals");
+        }
+        leaderboard.forEach((entry, i) => {
+            console.log(
+                `#${i + 1} ${entry.referrer} referrals=${entry.referrals} contributions=${entry.contributions} value=${format(entry.value)} reward=${format(entry.reward)}`
+            );
+        });
+        return leaderboard;
+    });
+
+task("referral:report", "Prints the payout of every referrer of a fundraising, and writes it as CSV if asked")
+    .addParam("id", "Fundraising ID")
+    .addOptionalParam("out", "CSV file to write the report to")
+    .addOptionalParam("fromBlock", "First block to read referral events from", 0, types.int)
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre);
+        const info = await client.getFundraising(args.id);
+        const decimals = await getPaymentDecimals(hre, info.paymentToken);
+        const leaderboard: ReferrerStats[] = await client.getReferralLeaderboard(args.id, args.fromBlock);
+        const format = (amount: bigint) => formatUnits(amount, decimals);
+
+        const rows = leaderboard.map((entry) => {
+            const outstanding = entry.reward - entry.claimed;
+            return { ...entry, outstanding, status: payoutStatus(info.status, outstanding) };
+        });
+        for (const row of rows) {
+            console.log(`${row.referrer} reward=${format(row.reward)} claimed=${format(row.claimed)} outstanding=${format(row.outstanding)} ${row.status}`);
+        }
+        const payable = rows.filter((row) => row.status === "payable").reduce((sum, row) => sum + row.outstanding, 0n);
+        console.log(`payable: ${format(payable)}`);
+
+        if (args.out) {
+            const lines = rows.map((row) =>
+                [row.referrer, row.referrals, row.contributions, format(row.value), format(row.reward), format(row.claimed), format(row.outstanding), row.status].join(",")
+            );
+            fs.writeFileSync(args.out, ["referrer,referrals,contributions,value,reward,claimed,outstanding,status", ...lines].join("\n") + "\n");
+            console.log(`Report written to ${args.out}`);
+        }
+        return rows;
+    });
@@ -0,0 +1,74 @@
+import { ZeroAddress, formatUnits } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { RevenueVaultClient } from "../sdk";
+import { nftTypeName, tokenIdToType } from "../sdk/types";
+import { getPaymentDecimals, getSigner, parseAmount } from "./utils";
+
+// Connects the SDK to the `RevenueVault` recorded by hardhat-deploy on the current network
+export const getRevenueVaultClient = async (hre: HardhatRuntimeEnvironment, from?: string): Promise<RevenueVaultClient> => {
+    const { RevenueVaultClient } = await import("../sdk");
+    const deployment = await hre.deployments.get("RevenueVault");
+    return RevenueVaultClient.connect(deployment.address, await getSigner(hre, from));
+};
+
+// Parses a comma separated list of token IDs like `12884901888,8589934593`
+export const parseTokenIds = (value: string): bigint[] =>
+    value.split(",").map((item) => {
+        if (!/^\d+$/.test(item.trim())) {
+            throw new Error(`Invalid token ID: ${item}`);
+        }
+        return BigInt(item.trim());
+    });
+
+task("revenue:deposit", "Deposits revenue into RevenueVault, split across the NFT tiers")
+    .addParam("amount", "Amount in ether, or in units of `--token`")
+    .addOptionalParam("token", "ERC-20 token to deposit instead of native currency", ZeroAddress)
+    .addOptionalParam("from", "Address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getRevenueVaultClient(hre, args.from);
+        const decimals = await getPaymentDecimals(hre, args.token);
+        const receipt = await client.deposit(args.token, parseAmount(args.amount, decimals));
+
+        for (const log of receipt.logs) {
+            const parsed = client.contract.interface.parseLog(log);
+            if (parsed?.name === "RevenueDeposited") {
+                console.log(
+                    `RevenueDeposited amount=${formatUnits(parsed.args.amount, decimals)} undistributed=${formatUnits(parsed.args.undistributed, decimals)}`
+                );
+            }
+        }
+    });
+
+task("revenue:claimable", "Prints the revenue a wallet can claim from RevenueVault, per token")
+    .addParam("owner", "Wallet address")
+    .addOptionalParam("token", "ERC-20 token of the revenue instead of native currency", ZeroAddress)
+    .addOptionalParam("tokens", "Comma separated token IDs, all the tokens of the wallet by default")
+    .setAction(async (args, hre) => {
+        const client = await getRevenueVaultClient(hre);
+        const decimals = await getPaymentDecimals(hre, args.token);
+        const preview = await client.previewClaimable(args.owner, args.token, args.tokens ? parseTokenIds(args.tokens) : undefined);
+
+        for (const [tokenId, amount] of preview.byToken) {
+            console.log(`token ${tokenId} (${nftTypeName(tokenIdToType(tokenId))}): ${formatUnits(amount, decimals)}`);
+        }
+        console.log(`total: ${formatUnits(preview.total, decimals)}`);
+        return preview;
+    });
+
+task("revenue:claim", "Claims the revenue of the sender's tokens from RevenueVault")
+    .addOptionalParam("token", "ERC-20 token of the revenue instead of native currency", ZeroAddress)
+    .addOptionalParam("tokens", "Comma separated token IDs, all the tokens of the sender by default")
+    .addOptionalParam("batchSize", "Maximum number of tokens per transaction", 50, types.int)
+    .addOptionalParam("from", "Holder address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getRevenueVaultClient(hre, args.from);
+        const decimals = await getPaymentDecimals(hre, args.token);
+        const { receipts, claimed } = await client.claim(args.tokens ? parseTokenIds(args.tokens) : undefined, args.token, args.batchSize);
+
+        if (receipts.length === 0) {
+            console.log("Nothing to claim");
+        } else {
+            console.log(`Claimed ${formatUnits(claimed, decimals)} in ${receipts.length} transaction(s)`);
+        }
+    });
@@ -0,0 +1,198 @@
+import { ZeroAddress, formatUnits, parseUnits } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { FundraisingClient, FundraisingEvent, FundraisingLensClient } from "../sdk";
+import { MAX_PERCENTAGE } from "../sdk/math";
+import { PriceCurve, Pricing, ReleaseKind, UNCAPPED, VestingSchedule, nftTypeName } from "../sdk/types";
+
+const DURATION_UNITS: Record<string, number> = {
+    s: 1,
+    m: 60,
+    h: 60 * 60,
+    d: 24 * 60 * 60,
+    w: 7 * 24 * 60 * 60,
+};
+
+// Parses durations like `90`, `90s`, `30m`, `2h`, `7d` or `1w` into seconds
+export const parseDuration = (value: string): number => {
+    const match = /^(\d+)\s*([smhdw]?)$/.exec(value.trim());
+    if (!match) {
+        throw new Error(`Invalid duration: ${value}`);
+    }
+    return Number(match[1]) * DURATION_UNITS[match[2] || "s"];
+};
+
+// Parses a point in time given as unix seconds, an ISO date, `now` or a duration relative to now (`+10m`)
+export const parseTimestamp = (value: string, now: number): number => {
+    const trimmed = value.trim();
+    if (trimmed === "now") {
+        return now;
+    }
+    if (trimmed.startsWith("+")) {
+        return now + parseDuration(trimmed.slice(1));
+    }
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed);
+    }
+    const date = Date.parse(trimmed);
+    if (Number.isNaN(date)) {
+        throw new Error(`Invalid timestamp: ${value}`);
+    }
+    return Math.floor(date / 1000);
+};
+
+// Parses an amount in ether units, e.g. `0.5`, or in units of a token with `decimals` decimals
+export const parseAmount = (value: string, decimals = 18): bigint => {
+    try {
+        return parseUnits(value.trim(), decimals);
+    } catch {
+        throw new Error(`Invalid amount: ${value}`);
+    }
+};
+
+// Parses a percentage like `25`, `12.5` or `12.5%` into `MAX_PERCENTAGE` basis points
+export const parsePercentage = (value: string): bigint => {
+    const match = /^(\d+)(?:\.(\d{1,2}))?%?$/.exec(value.trim());
+    if (!match) {
+        throw new Error(`Invalid percentage: ${value}`);
+    }
+    const percentage = BigInt(match[1]) * 100n + BigInt((match[2] ?? "").padEnd(2, "0"));
+    if (percentage > MAX_PERCENTAGE) {
+        throw new Error(`Percentage above 100%: ${value}`);
+    }
+    return percentage;
+};
+
+export const formatPercentage = (percentage: bigint): string => `${Number(percentage) / 100}%`;
+
+export const formatTimestamp = (timestamp: bigint | number): string =>
+    `${new Date(Number(timestamp) * 1000).toISOString()} (${timestamp})`;
+
+export const latestTimestamp = async (hre: HardhatRuntimeEnvironment): Promise<number> => {
+    const block = await hre.ethers.provider.getBlock("latest");
+    return block!.timestamp;
+};
+
+// Resolves the signer to send transactions from: `--from` if given, the named deployer otherwise
+export const getSigner = async (hre: HardhatRuntimeEnvironment, from?: string) => {
+    if (from) {
+        return hre.ethers.getSigner(from);
+    }
+    const { deployer } = await hre.getNamedAccounts();
+    return hre.ethers.getSigner(deployer);
+};
+
+// Decimals amounts of a fundraising paid in `paymentToken` are in, 18 for native currency
+export const getPaymentDecimals = async (hre: HardhatRuntimeEnvironment, paymentToken: string): Promise<number> => {
+    if (paymentToken === ZeroAddress) {
+        return 18;
+    }
+    const token = await hre.ethers.getContractAt("IERC20Metadata", paymentToken);
+    return Number(await token.decimals());
+};
+
+// Connects the SDK to the `FundraisingCenter` recorded by hardhat-deploy on the current network
+export const getFundraisingClient = async (hre: HardhatRuntimeEnvironment, from?: string): Promise<FundraisingClient> => {
+    const { FundraisingClient } = await import("../sdk");
+    const deployment = await hre.deployments.get("FundraisingCenter");
+    return FundraisingClient.connect(deployment.address, await getSigner(hre, from));
+};
+
+// Connects the SDK to the `FundraisingLens` recorded by hardhat-deploy on the current network
+export const getLensClient = async (hre: HardhatRuntimeEnvironment): Promise<FundraisingLensClient> => {
+    const { FundraisingLensClient } = await import("../sdk");
+    const deployment = await hre.deployments.get("FundraisingLens");
+    return FundraisingLensClient.connect(deployment.address, await getSigner(hre));
+};
+
+// Describes a price curve like `linear +0.1`, `dutch -0.05/3600s floor=0.5` or `fixed`
+export const describePricing = (pricing: Pricing, decimals = 18): string => {
+    const format = (amount: bigint) => formatUnits(amount, decimals);
+    switch (pricing.curve) {
+        case PriceCurve.LINEAR:
+            return `linear +${format(pricing.step)}`;
+        case PriceCurve.DUTCH_AUCTION:
+            return `dutch -${format(pricing.step)}/${pricing.interval}s floor=${format(pricing.floorPrice)}`;
+        default:
+            return "fixed";
+    }
+};
+
+export const describeVesting = (schedule: VestingSchedule): string => {
+    switch (schedule.kind) {
+        case ReleaseKind.LINEAR:
+            return `linear cliff=${schedule.cliff}s duration=${schedule.duration}s`;
+        case ReleaseKind.MILESTONES:
+        case ReleaseKind.GOVERNED:
+            return `${schedule.kind === ReleaseKind.GOVERNED ? "governed" : "milestones"} ${schedule.tranches.map((tranche) => `${formatPercentage(tranche.percentage)}@${tranche.delay}s`).join(", ")}`;
+        default:
+            return "immediate";
+    }
+};
+
+// Amounts are formatted with `decimals` decimals, the ones of the payment token of the fundraising
+export const describeEvent = (event: FundraisingEvent, decimals = 18): string => {
+    const format = (amount: bigint) => formatUnits(amount, decimals);
+    switch (event.name) {
+        case "FundraisingCreated":
+            return `FundraisingCreated #${event.fundraisingId} moderator=${event.moderator} start=${formatTimestamp(event.startTime)} duration=${event.duration}s target=${format(event.targetAmount)}`;
+        case "FundraisingCancelled":
+            return `FundraisingCancelled #${event.fundraisingId}`;
+        case "ContributionMade":
+            return `ContributionMade #${event.fundraisingId} user=${event.user} ${event.amounts.map((item) => `${nftTypeName(item.nftType)} x${item.amount}`).join(", ")}`;
+        case "RefundClaimed":
+            return `RefundClaimed #${event.fundraisingId} user=${event.user} amount=${format(event.amount)}`;
+        case "FundClaimed":
+            return `FundClaimed #${event.fundraisingId} moderator=${event.moderator} amount=${format(event.amount)}`;
+        case "NftClaimed":
+            return `NftClaimed #${event.fundraisingId} user=${event.user}`;
+        case "WhitelistUpdated":
+            return `WhitelistUpdated #${event.fundraisingId} user=${event.user} ${event.isAdded ? "added" : "removed"}`;
+        case "WhitelistRootUpdated":
+            return `WhitelistRootUpdated #${event.fundraisingId} root=${event.root}`;
+        case "TiersConfigured":
+            return `TiersConfigured #${event.fundraisingId} ${event.tiers.map((tier) => `${nftTypeName(tier.nftType)}=${format(tier.basePrice)}`).join(", ")}`;
+        case "PaymentTokenSet":
+            return `PaymentTokenSet #${event.fundraisingId} token=${event.paymentToken}`;
+        case "WalletLimitsUpdated":
+            return `WalletLimitsUpdated #${event.fundraisingId} min=${format(event.minContribution)} maxValue=${format(event.maxWalletValue)} maxPerWallet=${event.maxPerWallet.join(",")}`;
+        case "HardCapUpdated":
+            return `HardCapUpdated #${event.fundraisingId} hardCap=${event.hardCap === 0n ? "none" : format(event.hardCap)}${event.closeOnHardCap ? " closeOnHardCap" : ""}`;
+        case "PricingUpdated":
+            return `PricingUpdated #${event.fundraisingId} ${event.pricing.map((pricing) => describePricing(pricing, decimals)).join(", ")}`;
+        case "ReferralPercentageUpdated":
+            return `ReferralPercentageUpdated #${event.fundraisingId} percentage=${formatPercentage(event.percentage)}`;
+        case "ReferralRecorded":
+            return `ReferralRecorded #${event.fundraisingId} user=${event.user} referrer=${event.referrer} value=${format(event.value)} reward=${format(event.reward)}`;
+        case "ReferralRewardClaimed":
+            return `ReferralRewardClaimed #${event.fundraisingId} referrer=${event.referrer} amount=${format(event.amount)}`;
+        case "VestingUpdated":
+            return `VestingUpdated #${event.fundraisingId} ${describeVesting(event.schedule)}`;
+        case "FundraisingFrozen":
+            return `FundraisingFrozen #${event.fundraisingId} ${event.frozen ? "frozen" : "unfrozen"}`;
+        case "EmergencyRefundEnabled":
+            return `EmergencyRefundEnabled #${event.fundraisingId}`;
+        case "ForceFailRequested":
+            return `ForceFailRequested #${event.fundraisingId} from=${formatTimestamp(event.forceFailTime)} reason=${JSON.stringify(event.reason)}`;
+        case "FundraisingForceFailed":
+            return `FundraisingForceFailed #${event.fundraisingId} by=${event.by} reason=${JSON.stringify(event.reason)}`;
+        case "BasePriceUpdated":
+            return `BasePriceUpdated #${event.fundraisingId} ${nftTypeName(event.nftType)}=${format(event.newBasePrice)}`;
+        case "StartTimeUpdated":
+            return `StartTimeUpdated #${event.fundraisingId} start=${formatTimestamp(event.newStartTime)}`;
+        case "DurationUpdated":
+            return `DurationUpdated #${event.fundraisingId} duration=${event.newDuration}s`;
+        case "TargetAmountUpdated":
+            return `TargetAmountUpdated #${event.fundraisingId} target=${format(event.newTargetAmount)}`;
+        case "MaxBuyAmountUpdated":
+            return `MaxBuyAmountUpdated #${event.fundraisingId} ${nftTypeName(event.nftType)}=${event.newMaxBuyAmount === UNCAPPED ? "uncapped" : event.newMaxBuyAmount}`;
+    }
+};
+
+export const printEvents = (events: readonly FundraisingEvent[], decimals = 18) => {
+    if (events.length === 0) {
+        console.log("No events emitted");
+    }
+    for (const event of events) {
+        console.log(describeEvent(event, decimals));
+    }
+};
@@ -0,0 +1,182 @@
+import fs from "fs";
+import path from "path";
+import { parse } from "csv/sync";
+import { getAddress, isAddress } from "ethers";
+import { task, types } from "hardhat/config";
+import { getFundraisingClient, printEvents } from "./utils";
+
+export interface InvalidRow {
+    row: number;
+    value: string;
+    reason: string;
+}
+
+export interface WhitelistCsv {
+    addresses: string[]; // checksummed, in file order, without duplicates
+    invalid: InvalidRow[];
+    duplicates: string[];
+}
+
+// Reads the addresses in `column` of a CSV file with a header row.
+// Rows with a missing or malformed address are reported as invalid instead of aborting the import.
+export const readWhitelistCsv = (file: string, column = "address"): WhitelistCsv => {
+    const records: Record<string, string>[] = parse(fs.readFileSync(file), {
+        columns: (header: string[]) => header.map((name) => name.trim().toLowerCase()),
+        skip_empty_lines: true,
+        trim: true,
+    });
+
+    const result: WhitelistCsv = { addresses: [], invalid: [], duplicates: [] };
+    const seen = new Set<string>();
+    records.forEach((record, i) => {
+        const row = i + 2; // 1-based, after the header
+        const value = record[column.toLowerCase()];
+        if (!value) {
+            result.invalid.push({ row, value: "", reason: `missing "${column}" column` });
+            return;
+        }
+        // `isAddress` also rejects mixed-case addresses with a wrong checksum
+        if (!isAddress(value)) {
+            result.invalid.push({ row, value, reason: "invalid address" });
+            return;
+        }
+        const address = getAddress(value);
+        if (seen.has(address)) {
+            result.duplicates.push(address);
+            return;
+        }
+        seen.add(address);
+        result.addresses.push(address);
+    });
+    return result;
+};
+
+// Splits `addresses` into chunks whose whitelisting transaction fits in `maxGas`.
+// The cost of one transaction is extrapolated from estimates for batches of one and two addresses.
+export const chunkByGas = async (
+    addresses: string[],
+    maxGas: bigint,
+    estimate: (batch: string[]) => Promise<bigint>
+): Promise<string[][]> => {
+    if (addresses.length <= 1) {
+        return addresses.length === 0 ? [] : [addresses];
+    }
+    const one = await estimate(addresses.slice(0, 1));
+    const two = await estimate(addresses.slice(0, 2));
+    const perAddress = two > one ? two - one : 1n;
+    const base = one - perAddress;
+    if (one > maxGas) {
+        throw new Error(`A single address needs ${one} gas, above the ${maxGas} limit`);
+    }
+    const size = Math.max(1, Number((maxGas - base) / perAddress));
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < addresses.length; i += size) {
+        chunks.push(addresses.slice(i, i + size));
+    }
+    return chunks;
+};
+
+export interface WhitelistReport {
+    fundraisingId: string;
+    file: string;
+    action: "add" | "remove";
+    rows: number;
+    invalid: InvalidRow[];
+    duplicates: string[];
+    skipped: string[]; // already in the requested whitelist state
+    applied: {
+        transactionHash: string;
+        gasUsed: string;
+        addresses: string[];
+    }[];
+}
+
+task("fundraising:whitelist-import", "Whitelists every address of a CSV file in gas-bounded batches")
+    .addParam("id", "Fundraising ID")
+    .addParam("file", "CSV file with a header row")
+    .addOptionalParam("column", "Name of the address column", "address")
+    .addOptionalParam("maxGas", "Gas limit per batch transaction", 10_000_000, types.int)
+    .addOptionalParam("report", "Where to write the JSON report", "whitelist-report.json")
+    .addFlag("remove", "Remove the addresses from the whitelist instead")
+    .addFlag("dryRun", "Only validate and plan the batches")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const client = await getFundraisingClient(hre, args.from);
+        const csv = readWhitelistCsv(args.file, args.column);
+        const isAdded = !args.remove;
+
+        // Only send addresses whose whitelist state actually changes
+        const states = await Promise.all(csv.addresses.map((address) => client.isWhitelisted(args.id, address)));
+        const pending = csv.addresses.filter((_, i) => states[i] !== isAdded);
+        const skipped = csv.addresses.filter((_, i) => states[i] === isAdded);
+
+        const method = isAdded ? client.contract.addToWhitelistBatch : client.contract.removeFromWhitelistBatch;
+        const chunks = await chunkByGas(pending, BigInt(args.maxGas), (batch) => method.estimateGas(args.id, batch));
+
+        const report: WhitelistReport = {
+            fundraisingId: args.id.toString(),
+            file: args.file,
+            action: isAdded ? "add" : "remove",
+            rows: csv.addresses.length + csv.invalid.length + csv.duplicates.length,
+            invalid: csv.invalid,
+            duplicates: csv.duplicates,
+            skipped,
+            applied: [],
+        };
+
+        console.log(`${pending.length} addresses to ${report.action} in ${chunks.length} batches`);
+        console.log(`${csv.invalid.length} invalid rows, ${csv.duplicates.length} duplicates, ${skipped.length} unchanged`);
+
+        if (!args.dryRun) {
+            for (const chunk of chunks) {
+                const { receipt, events } = isAdded
+                    ? await client.addToWhitelistBatch(args.id, chunk)
+                    : await client.removeFromWhitelistBatch(args.id, chunk);
+                report.applied.push({
+                    transactionHash: receipt.hash,
+                    gasUsed: receipt.gasUsed.toString(),
+                    addresses: chunk,
+                });
+                console.log(`${receipt.hash}: ${events.length} WhitelistUpdated events, ${receipt.gasUsed} gas`);
+            }
+        }
+
+        fs.writeFileSync(args.report, JSON.stringify(report, null, 2));
+        console.log(`Report written to ${args.report}`);
+        return report;
+    });
+
+task("fundraising:whitelist-merkle", "Builds a Merkle whitelist from a CSV file and writes the root and per-address proofs")
+    .addParam("file", "CSV file with a header row")
+    .addParam("out", "Directory to write `root.json` and `proofs/<address>.json` to")
+    .addOptionalParam("column", "Name of the address column", "address")
+    .addOptionalParam("id", "Fundraising ID to set the root on; the root is only written to disk if omitted")
+    .addOptionalParam("from", "Moderator address to send from")
+    .setAction(async (args, hre) => {
+        const { buildWhitelistTree, getWhitelistProofs } = await import("../sdk/merkle");
+        const csv = readWhitelistCsv(args.file, args.column);
+        for (const row of csv.invalid) {
+            console.log(`Skipping row ${row.row} (${row.value}): ${row.reason}`);
+        }
+
+        const tree = buildWhitelistTree(csv.addresses);
+        const proofs = getWhitelistProofs(tree);
+
+        fs.mkdirSync(path.join(args.out, "proofs"), { recursive: true });
+        fs.writeFileSync(
+            path.join(args.out, "root.json"),
+            JSON.stringify({ root: tree.root, count: proofs.size, tree: tree.dump() }, null, 2)
+        );
+        for (const [address, proof] of proofs) {
+            fs.writeFileSync(path.join(args.out, "proofs", `${address}.json`), JSON.stringify(proof, null, 2));
+        }
+        console.log(`Merkle root ${tree.root} for ${proofs.size} addresses written to ${args.out}`);
+
+        if (args.id !== undefined) {
+            const client = await getFundraisingClient(hre, args.from);
+            const { events } = await client.setWhitelistRoot(args.id, tree.root);
+            printEvents(events);
+        }
+        return tree.root;
+    });
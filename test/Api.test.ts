@@ -0,0 +1,230 @@
+import { AddressInfo } from "net";
+import http from "http";
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PeaqNFT } from "../typechain-types";
+import { FundraisingClient, NftType } from "../sdk";
+import { Indexer, IndexerStore } from "../indexer";
+import { createApiServer } from "../api";
+import { deployFundraisingCenter } from "./fixtures";
+
+const legendaryDuration = 10 * 60; // 10 minutes
+const duration = 2 * 60 * 60; // 2 hours
+
+describe("HTTP API", function () {
+    let moderator: Signer;
+    let user1: Signer;
+    let user2: Signer;
+
+    let peaqNFT: PeaqNFT;
+    let client: FundraisingClient;
+    let store: IndexerStore;
+    let indexer: Indexer;
+    let server: http.Server;
+    let baseUrl: string;
+    let startTime: number;
+    let fixtureId: string;
+    let snapshotId: string;
+
+    const get = async (route: string) => {
+        const response = await fetch(`${baseUrl}${route}`);
+        return { status: response.status, body: await response.json() };
+    };
+
+    before(async function () {
+        // The scenario moves time forward, restore it for the suites relying on the wall clock
+        fixtureId = await ethers.provider.send("evm_snapshot", []);
+        const [admin] = await ethers.getSigners();
+        [, moderator, user1, user2] = await ethers.getSigners();
+
+        const PeaqNFT = await ethers.getContractFactory("PeaqNFT");
+        peaqNFT = (await upgrades.deployProxy(PeaqNFT, { initializer: "initialize" })) as unknown as PeaqNFT;
+
+        const fundraisingCenter = await deployFundraisingCenter(admin, [
+            await peaqNFT.getAddress(),
+            3 * 24 * 60 * 60,
+            3 * 24 * 60 * 60,
+            legendaryDuration,
+            30 * 60,
+        ]);
+        const deployBlock = (await fundraisingCenter.deploymentTransaction()!.wait())!.blockNumber;
+
+        await peaqNFT.connect(admin).grantRole(await peaqNFT.MINTER_ROLE(), await fundraisingCenter.getAddress());
+        await fundraisingCenter.connect(admin).grantRole(await fundraisingCenter.MODERATOR_ROLE(), await moderator.getAddress());
+        client = FundraisingClient.connect(await fundraisingCenter.getAddress(), ethers.provider);
+
+        startTime = (await time.latest()) + 60;
+        await client.connect(moderator).createFundraising({
+            startTime,
+            duration,
+            targetAmount: ethers.parseEther("10"),
+            basePrices: {
+                [NftType.LEGENDARY]: ethers.parseEther("4"),
+                [NftType.EPIC]: ethers.parseEther("3"),
+                [NftType.COMMON]: ethers.parseEther("1"),
+            },
+            maxBuyAmounts: { [NftType.LEGENDARY]: 3n, [NftType.EPIC]: 5n },
+        });
+        await client.connect(moderator).addToWhitelist(0, await user1.getAddress());
+        await time.increaseTo(startTime);
+        await client.connect(user1).quoteAndContribute(0, 3);
+        await time.increaseTo(startTime + legendaryDuration);
+        await client.connect(user2).quoteAndContribute(0, 1);
+
+        store = await IndexerStore.open();
+        indexer = new Indexer({
+            provider: ethers.provider,
+            fundraisingCenter: await fundraisingCenter.getAddress(),
+            peaqNFT: await peaqNFT.getAddress(),
+            store,
+            startBlock: deployBlock,
+            confirmations: 0,
+        });
+        await indexer.sync();
+
+        server = createApiServer({ store, client });
+        await new Promise<void>((resolve) => server.listen(0, resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async function () {
+        await new Promise((resolve) => server.close(resolve));
+        store.close();
+        await ethers.provider.send("evm_revert", [fixtureId]);
+    });
+
+    beforeEach(async function () {
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+    });
+
+    afterEach(async function () {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    it("should list fundraisings with their live status", async function () {
+        const { status, body } = await get("/fundraisings");
+
+        expect(status).to.equal(200);
+        expect(body).to.deep.equal([
+            {
+                id: "0",
+                moderator: await moderator.getAddress(),
+                startTime: startTime.toString(),
+                targetTime: (startTime + duration).toString(),
+                targetAmount: ethers.parseEther("10").toString(),
+                tiers: ["legendary", "epic", "common"],
+                paymentToken: null,
+                cancelled: false,
+                claimedFund: null,
+                status: "open",
+            },
+        ]);
+
+        // The store is not synced again, only the time moves on
+        await time.increaseTo(startTime + duration);
+        expect((await get("/fundraisings")).body[0].status).to.equal("success");
+    });
+
+    it("should serve a fundraising with its bought amounts and contributors", async function () {
+        const { body } = await get("/fundraisings/0");
+        expect(body.boughtAmounts).to.deep.equal({ legendary: "3", epic: "1", common: "0" });
+        expect(body.contributors).to.equal(2);
+
+        const contributors = await get("/fundraisings/0/contributors");
+        expect(contributors.body).to.deep.equal([
+            {
+                user: await user1.getAddress(),
+                amounts: { legendary: "3", epic: "0", common: "0" },
+                totalAmount: "3",
+                nftClaimed: false,
+                refund: null,
+            },
+            {
+                user: await user2.getAddress(),
+                amounts: { legendary: "0", epic: "1", common: "0" },
+                totalAmount: "1",
+                nftClaimed: false,
+                refund: null,
+            },
+        ]);
+    });
+
+    it("should serve the creation parameters edited before the start", async function () {
+        const editedStart = BigInt((await time.latest()) + 600);
+        const { fundraisingId } = await client.connect(moderator).createFundraising({
+            startTime: editedStart,
+            duration,
+            targetAmount: ethers.parseEther("10"),
+            basePrices: { [NftType.LEGENDARY]: 1n, [NftType.EPIC]: 1n, [NftType.COMMON]: 1n },
+            maxBuyAmounts: { [NftType.LEGENDARY]: 3n, [NftType.EPIC]: 5n },
+        });
+        await client.connect(moderator).updateFundraising(fundraisingId, {
+            startTime: editedStart + 60n,
+            targetAmount: ethers.parseEther("20"),
+            maxBuyAmounts: { [NftType.EPIC]: 2n },
+        });
+
+        // Indexed into a store of its own: the shared one must not hold blocks the snapshot reverts
+        const editedStore = await IndexerStore.open();
+        await new Indexer({
+            provider: ethers.provider,
+            fundraisingCenter: indexer.fundraisingCenter,
+            peaqNFT: indexer.peaqNFT,
+            store: editedStore,
+            startBlock: indexer.startBlock,
+            confirmations: 0,
+        }).sync();
+        const editedServer = createApiServer({ store: editedStore, client });
+        await new Promise<void>((resolve) => editedServer.listen(0, resolve));
+        try {
+            const response = await fetch(`http://127.0.0.1:${(editedServer.address() as AddressInfo).port}/fundraisings/${fundraisingId}`);
+            expect(await response.json()).to.deep.include({
+                startTime: (editedStart + 60n).toString(),
+                targetTime: (editedStart + 60n + BigInt(duration)).toString(),
+                targetAmount: ethers.parseEther("20").toString(),
+                maxBuyAmounts: { legendary: "3", epic: "2", common: null },
+            });
+        } finally {
+            await new Promise((resolve) => editedServer.close(resolve));
+            editedStore.close();
+        }
+    });
+
+    it("should serve the positions of a user", async function () {
+        const { body } = await get(`/users/${(await user1.getAddress()).toLowerCase()}/positions`);
+
+        expect(body).to.have.length(1);
+        expect(body[0]).to.deep.include({ fundraisingId: "0", status: "open", whitelisted: true, totalAmount: "3" });
+        expect((await get(`/users/${await moderator.getAddress()}/positions`)).body).to.deep.equal([]);
+        expect((await get(`/users/${await user2.getAddress()}/positions`)).body[0]).to.deep.include({ whitelisted: false });
+
+        // addresses admitted by a proof are not indexed, so raises with a root only report the listed ones
+        await client.connect(moderator).setWhitelistRoot(0, ethers.id("root"));
+        expect((await get(`/users/${await user2.getAddress()}/positions`)).body[0]).to.not.have.property("whitelisted");
+        expect((await get(`/users/${await user1.getAddress()}/positions`)).body[0]).to.deep.include({ whitelisted: true });
+    });
+
+    it("should reply with errors as JSON", async function () {
+        expect(await get("/fundraisings/1")).to.deep.equal({ status: 404, body: { error: "Fundraising #1 not found" } });
+        expect(await get("/fundraisings/abc")).to.deep.equal({ status: 400, body: { error: "Invalid ID: abc" } });
+        expect(await get("/users/0x1234/positions")).to.deep.equal({ status: 400, body: { error: "Invalid address: 0x1234" } });
+        expect((await get("/unknown")).status).to.equal(404);
+    });
+
+    it("should serve the owner and decoded type of an NFT", async function () {
+        await time.increaseTo(startTime + duration);
+        await client.connect(user1).claimNft(0);
+        const [mint] = await peaqNFT.queryFilter(peaqNFT.filters.Transfer(ethers.ZeroAddress, await user1.getAddress()));
+        expect((await get(`/nfts/${mint.args.tokenId}`)).status).to.equal(404);
+
+        await indexer.sync();
+        expect((await get(`/nfts/${mint.args.tokenId}`)).body).to.deep.equal({
+            tokenId: mint.args.tokenId.toString(),
+            type: "legendary",
+            index: "0",
+            owner: await user1.getAddress(),
+        });
+    });
+});
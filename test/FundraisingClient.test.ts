@@ -0,0 +1,397 @@
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FundraisingCenter, PeaqNFT } from "../typechain-types";
+import {
+    CreateFundraisingParams,
+    FundraisingClient,
+    FundraisingError,
+    FundraisingStatus,
+    NftType,
+    PriceCurve,
+    ReleaseKind,
+    UNCAPPED,
+    mulDiv,
+    parseNftType,
+    percentOf,
+    totalAmountOf,
+    totalValueOf,
+} from "../sdk";
+import { deployFundraisingCenter } from "./fixtures";
+
+const legendaryDuration = 10 * 60; // 10 minutes
+const epicDuration = 30 * 60; // 30 minutes
+const duration = 2 * 60 * 60; // 2 hours
+
+const basePrices = {
+    [NftType.LEGENDARY]: ethers.parseEther("4"),
+    [NftType.EPIC]: ethers.parseEther("3"),
+    [NftType.COMMON]: ethers.parseEther("1"),
+};
+
+const maxBuyAmounts = {
+    [NftType.LEGENDARY]: 3n,
+    [NftType.EPIC]: 5n,
+};
+
+describe("FundraisingClient", function () {
+    let admin: Signer;
+    let moderator: Signer;
+    let user1: Signer;
+    let user2: Signer;
+
+    let fundraisingCenter: FundraisingCenter;
+    let client: FundraisingClient;
+    let startTime: number;
+    let snapshotId: string;
+
+    const createParams = (targetAmount: bigint): CreateFundraisingParams => ({
+        startTime,
+        duration,
+        targetAmount,
+        basePrices,
+        maxBuyAmounts,
+    });
+
+    before(async function () {
+        [admin, moderator, user1, user2] = await ethers.getSigners();
+
+        const PeaqNFT = await ethers.getContractFactory("PeaqNFT");
+        const peaqNFT = (await upgrades.deployProxy(PeaqNFT, { initializer: "initialize" })) as unknown as PeaqNFT;
+
+        fundraisingCenter = await deployFundraisingCenter(admin, [
+            await peaqNFT.getAddress(),
+            3 * 24 * 60 * 60,
+            3 * 24 * 60 * 60,
+            legendaryDuration,
+            epicDuration,
+        ]);
+
+        await peaqNFT.connect(admin).grantRole(await peaqNFT.MINTER_ROLE(), await fundraisingCenter.getAddress());
+        await fundraisingCenter.connect(admin).grantRole(await fundraisingCenter.MODERATOR_ROLE(), await moderator.getAddress());
+
+        client = FundraisingClient.connect(await fundraisingCenter.getAddress(), ethers.provider);
+    });
+
+    beforeEach(async function () {
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+        startTime = (await time.latest()) + 60;
+    });
+
+    afterEach(async function () {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    it("should create a fundraising and decode the FundraisingCreated event", async function () {
+        const result = await client.connect(moderator).createFundraising(createParams(ethers.parseEther("10")));
+
+        expect(result.fundraisingId).to.equal(0n);
+        expect(result.events.map((event) => event.name)).to.deep.equal(["FundraisingCreated", "TiersConfigured"]);
+        expect(result.events[0]).to.deep.include({
+            name: "FundraisingCreated",
+            fundraisingId: 0n,
+            moderator: await moderator.getAddress(),
+            startTime: BigInt(startTime),
+            duration: BigInt(duration),
+            targetAmount: ethers.parseEther("10"),
+        });
+
+        const info = await client.getFundraising(result.fundraisingId);
+        expect(info.status).to.equal(FundraisingStatus.CREATION);
+        expect(info.targetTime).to.equal(BigInt(startTime + duration));
+        expect(await client.getBasePrices(0)).to.deep.equal(basePrices);
+    });
+
+    it("should create a fundraising with its own tiers", async function () {
+        const tiers = [
+            { nftType: 4, whitelistOnly: true, basePrice: ethers.parseEther("10"), maxBuyAmount: 1n, duration: 300n },
+            { nftType: NftType.COMMON, whitelistOnly: false, basePrice: ethers.parseEther("1"), maxBuyAmount: UNCAPPED, duration: 0n },
+        ];
+        const result = await client.connect(moderator).createFundraising({ startTime, duration, targetAmount: ethers.parseEther("10"), tiers });
+
+        expect(result.events.map((event) => event.name)).to.deep.equal(["FundraisingCreated", "TiersConfigured"]);
+        expect(result.events[1]).to.deep.include({ fundraisingId: 0n, tiers });
+        expect(await client.getTiers(0)).to.deep.equal(tiers);
+        expect(await client.getBasePrices(0)).to.deep.equal({ 4: ethers.parseEther("10"), [NftType.COMMON]: ethers.parseEther("1") });
+    });
+
+    it("should only send the creation parameters that changed", async function () {
+        const { fundraisingId } = await client.connect(moderator).createFundraising(createParams(ethers.parseEther("10")));
+
+        const { receipts, events } = await client.connect(moderator).updateFundraising(fundraisingId, {
+            startTime: startTime + 600,
+            duration,
+            targetAmount: ethers.parseEther("12"),
+            basePrices: { [NftType.LEGENDARY]: basePrices[NftType.LEGENDARY], [NftType.EPIC]: ethers.parseEther("2.5") },
+            maxBuyAmounts: { [NftType.EPIC]: 8 },
+        });
+        expect(receipts).to.have.length(4);
+        expect(events.map((event) => event.name)).to.deep.equal([
+            "StartTimeUpdated",
+            "TargetAmountUpdated",
+            "BasePriceUpdated",
+            "MaxBuyAmountUpdated",
+        ]);
+        expect(events[3]).to.deep.include({ name: "MaxBuyAmountUpdated", fundraisingId, nftType: NftType.EPIC, newMaxBuyAmount: 8n });
+
+        const info = await client.getFundraising(fundraisingId);
+        expect(info).to.deep.include({ startTime: BigInt(startTime + 600), targetTime: BigInt(startTime + 600 + duration), targetAmount: ethers.parseEther("12") });
+        expect((await client.getTiers(fundraisingId))[1]).to.deep.include({ basePrice: ethers.parseEther("2.5"), maxBuyAmount: 8n });
+
+        expect((await client.connect(moderator).updateFundraising(fundraisingId, { duration, targetAmount: ethers.parseEther("12") })).receipts).to.deep.equal([]);
+        const error = await client.connect(moderator).updateFundraising(fundraisingId, { maxBuyAmounts: { [4 as NftType]: 1n } }).catch((e) => e);
+        expect(error.message).to.equal("Fundraising #0 has no type4 tier");
+    });
+
+    it("should quote and contribute with the exact value across NFT types", async function () {
+        const { fundraisingId } = await client.connect(moderator).createFundraising(createParams(ethers.parseEther("10")));
+        await client.connect(moderator).addToWhitelist(fundraisingId, await user1.getAddress());
+        await time.increaseTo(startTime);
+
+        expect(await client.getStatus(fundraisingId)).to.equal(FundraisingStatus.OPEN);
+
+        const balanceBefore = await ethers.provider.getBalance(await user1.getAddress());
+        const { quote, receipt, events } = await client.connect(user1).quoteAndContribute(fundraisingId, 10);
+
+        expect(quote.amounts).to.deep.equal([
+            { nftType: NftType.LEGENDARY, amount: 3n },
+            { nftType: NftType.EPIC, amount: 5n },
+            { nftType: NftType.COMMON, amount: 2n },
+        ]);
+        expect(totalAmountOf(quote.amounts)).to.equal(10n);
+        expect(quote.totalValue).to.equal(totalValueOf(quote.amounts, basePrices));
+
+        const balanceAfter = await ethers.provider.getBalance(await user1.getAddress());
+        expect(balanceBefore - balanceAfter).to.equal(quote.totalValue + receipt.fee);
+
+        expect(events).to.have.length(1);
+        expect(events[0]).to.deep.include({
+            name: "ContributionMade",
+            fundraisingId,
+            user: await user1.getAddress(),
+            amounts: quote.amounts,
+        });
+
+        const contribution = await client.getUserContribution(fundraisingId, await user1.getAddress());
+        expect(contribution.totalValue).to.equal(quote.totalValue);
+        expect(contribution.byType[NftType.LEGENDARY]).to.equal(3n);
+        expect(contribution.byType[NftType.EPIC]).to.equal(5n);
+        expect(contribution.byType[NftType.COMMON]).to.equal(2n);
+    });
+
+    it("should claim NFTs and funds after a successful fundraising", async function () {
+        const { fundraisingId } = await client.connect(moderator).createFundraising(createParams(ethers.parseEther("3")));
+        await time.increaseTo(startTime + legendaryDuration);
+        await client.connect(user2).quoteAndContribute(fundraisingId, 1);
+        await time.increaseTo(startTime + duration);
+
+        expect(await client.getStatus(fundraisingId)).to.equal(FundraisingStatus.SUCCESS);
+
+        const claim = await client.connect(user2).claimNft(fundraisingId);
+        expect(claim.events.map((event) => event.name)).to.deep.equal(["NftClaimed"]);
+
+        const fund = await client.connect(moderator).claimFund(fundraisingId);
+        expect(fund.events[0]).to.deep.include({ name: "FundClaimed", amount: basePrices[NftType.EPIC] });
+    });
+
+    it("should refund contributors of a failed fundraising", async function () {
+        const { fundraisingId } = await client.connect(moderator).createFundraising(createParams(ethers.parseEther("100")));
+        await time.increaseTo(startTime + legendaryDuration + epicDuration);
+        const { quote } = await client.connect(user2).quoteAndContribute(fundraisingId, 4);
+        await time.increaseTo(startTime + duration);
+
+        expect(await client.getStatus(fundraisingId)).to.equal(FundraisingStatus.FAILED);
+
+        const { events } = await client.connect(user2).refund(fundraisingId);
+        expect(events[0]).to.deep.include({
+            name: "RefundClaimed",
+            user: await user2.getAddress(),
+            amount: quote.totalValue,
+        });
+    });
+
+    it("should approve ERC-20 contributions with a permit unless the allowance covers them", async function () {
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const token = await MockERC20.deploy("USD Coin", "USDC", 6);
+        await token.mint(await user1.getAddress(), ethers.parseUnits("1000", 6));
+        const tiers = [
+            { nftType: NftType.COMMON, whitelistOnly: false, basePrice: ethers.parseUnits("10", 6), maxBuyAmount: UNCAPPED, duration: 0n },
+        ];
+        const { fundraisingId } = await client
+            .connect(moderator)
+            .createFundraising({ startTime, duration, targetAmount: ethers.parseUnits("100", 6), tiers, paymentToken: await token.getAddress() });
+        expect((await client.getFundraising(fundraisingId)).paymentToken).to.equal(await token.getAddress());
+        await time.increaseTo(startTime);
+
+        const permitted = await client.connect(user1).quoteAndContribute(fundraisingId, 3);
+        expect(permitted.receipt.to).to.equal(await client.getAddress());
+        expect(fundraisingCenter.interface.parseTransaction(await permitted.receipt.getTransaction())!.name).to.equal("contributeWithPermit");
+        expect(await token.balanceOf(await client.getAddress())).to.equal(ethers.parseUnits("30", 6));
+
+        await token.connect(user1).approve(await client.getAddress(), ethers.parseUnits("10", 6));
+        const approved = await client.connect(user1).quoteAndContribute(fundraisingId, 1);
+        expect(fundraisingCenter.interface.parseTransaction(await approved.receipt.getTransaction())!.name).to.equal("contribute");
+        expect((await client.getUserContribution(fundraisingId, await user1.getAddress())).totalValue).to.equal(ethers.parseUnits("40", 6));
+    });
+
+    it("should quote against the wallet limits and surface their revert reasons", async function () {
+        const { fundraisingId } = await client.connect(moderator).createFundraising(createParams(ethers.parseEther("10")));
+        await client.connect(moderator).setWalletLimits(fundraisingId, {
+            minContribution: ethers.parseEther("2"),
+            maxPerWallet: { [NftType.EPIC]: 1n },
+        });
+        expect(await client.getWalletLimits(fundraisingId)).to.deep.equal({
+            minContribution: ethers.parseEther("2"),
+            maxWalletValue: 0n,
+            maxPerWallet: { [NftType.LEGENDARY]: 0n, [NftType.EPIC]: 1n, [NftType.COMMON]: 0n },
+        });
+        await time.increaseTo(startTime + legendaryDuration);
+
+        await client.connect(user2).quoteAndContribute(fundraisingId, 1);
+        const quote = await client.quote(fundraisingId, 2, { user: await user2.getAddress() });
+        expect(quote.amounts).to.deep.equal([{ nftType: NftType.COMMON, amount: 2n }]);
+
+        const error = await client.connect(user2).quoteAndContribute(fundraisingId, 1).catch((e) => e);
+        expect(error).to.be.instanceOf(FundraisingError);
+        expect(error.reason).to.equal("Below minimum contribution");
+        expect(error.isWalletLimit).to.be.true;
+
+        const sent = await client.connect(user2).contribute(fundraisingId, 1, ethers.parseEther("3")).catch((e) => e);
+        expect(sent).to.be.instanceOf(FundraisingError);
+        expect(sent.reason).to.equal("Below minimum contribution");
+    });
+
+    it("should trim quotes at the hard cap and close the raise early", async function () {
+        const { fundraisingId } = await client.connect(moderator).createFundraising(createParams(ethers.parseEther("10")));
+        const { events } = await client.connect(moderator).setHardCap(fundraisingId, { hardCap: ethers.parseEther("12"), closeOnHardCap: true });
+        expect(events[0]).to.deep.include({ name: "HardCapUpdated", fundraisingId, hardCap: ethers.parseEther("12"), closeOnHardCap: true });
+        await time.increaseTo(startTime + legendaryDuration + epicDuration);
+
+        const { quote } = await client.connect(user2).quoteAndContribute(fundraisingId, 20);
+        expect(quote.amounts).to.deep.equal([{ nftType: NftType.COMMON, amount: 12n }]);
+        expect(quote.totalValue).to.equal(ethers.parseEther("12"));
+
+        const info = await client.getFundraising(fundraisingId);
+        expect(info).to.deep.include({ hardCap: ethers.parseEther("12"), closeOnHardCap: true, status: FundraisingStatus.SUCCESS });
+        const error = await client.connect(user1).quoteAndContribute(fundraisingId, 1).catch((e) => e);
+        expect(error).to.be.instanceOf(FundraisingError);
+        expect(error.reason).to.equal("Hard cap reached");
+    });
+
+    it("should quote and price tiers along their price curves", async function () {
+        const { fundraisingId } = await client.connect(moderator).createFundraising(createParams(ethers.parseEther("10")));
+        const step = ethers.parseEther("0.5");
+        const { events } = await client.connect(moderator).setPricing(fundraisingId, { [NftType.COMMON]: { curve: PriceCurve.LINEAR, step } });
+        expect(events[0]).to.deep.include({ name: "PricingUpdated", fundraisingId });
+
+        const pricing = await client.getPricing(fundraisingId);
+        expect(pricing[NftType.LEGENDARY].curve).to.equal(PriceCurve.FIXED);
+        expect(pricing[NftType.COMMON]).to.deep.equal({ curve: PriceCurve.LINEAR, step, interval: 0n, floorPrice: 0n });
+
+        await time.increaseTo(startTime + legendaryDuration + epicDuration);
+        const { quote } = await client.connect(user1).quoteAndContribute(fundraisingId, 2);
+        expect(quote.totalValue).to.equal(basePrices[NftType.COMMON] * 2n + step);
+        expect(await client.getUnitPrice(fundraisingId, NftType.COMMON)).to.equal(basePrices[NftType.COMMON] + step * 2n);
+    });
+
+    it("should price buy amounts off-chain along a LINEAR curve like the quote", async function () {
+        const { fundraisingId } = await client.connect(moderator).createFundraising(createParams(ethers.parseEther("10")));
+        const step = ethers.parseEther("0.5");
+        await client.connect(moderator).setPricing(fundraisingId, { [NftType.COMMON]: { curve: PriceCurve.LINEAR, step } });
+        await time.increaseTo(startTime + legendaryDuration + epicDuration);
+        await client.connect(user1).quoteAndContribute(fundraisingId, 3);
+
+        // commons 3 to 6 of the curve: base price plus 3, 4, 5 and 6 steps
+        const quote = await client.quote(fundraisingId, 4);
+        const prices = await client.getTierPrices(fundraisingId);
+        expect(prices[NftType.COMMON]).to.deep.include({ basePrice: basePrices[NftType.COMMON], sold: 3n });
+        expect(totalValueOf(quote.amounts, prices, BigInt(await time.latest()))).to.equal(quote.totalValue);
+        // @ts-expect-error tier prices are only priced at a timestamp, which Dutch auctions decay with
+        totalValueOf(quote.amounts, prices);
+        expect(quote.totalValue).to.equal(basePrices[NftType.COMMON] * 4n + step * 18n);
+        expect(totalValueOf(quote.amounts, basePrices)).to.be.lessThan(quote.totalValue);
+    });
+
+    it("should contribute with a referrer and rank referrers by the value they brought", async function () {
+        const [, , , , referrer1, referrer2] = await ethers.getSigners();
+        const { fundraisingId } = await client.connect(moderator).createFundraising(createParams(ethers.parseEther("5")));
+        const { events } = await client.connect(moderator).setReferralPercentage(fundraisingId, 10_00n);
+        expect(events[0]).to.deep.include({ name: "ReferralPercentageUpdated", fundraisingId, percentage: 10_00n });
+        await time.increaseTo(startTime + legendaryDuration + epicDuration);
+
+        const { events: contribution } = await client.connect(user1).quoteAndContribute(fundraisingId, 2, { referrer: referrer1.address });
+        expect(contribution.find((event) => event.name === "ReferralRecorded")).to.deep.include({
+            user: await user1.getAddress(),
+            referrer: referrer1.address,
+            value: ethers.parseEther("2"),
+            reward: ethers.parseEther("0.2"),
+        });
+        await client.connect(user2).quoteAndContribute(fundraisingId, 1, { referrer: referrer2.address });
+        await client.connect(user2).quoteAndContribute(fundraisingId, 2, { referrer: referrer1.address });
+        expect(await client.getReferrer(fundraisingId, await user2.getAddress())).to.equal(referrer2.address);
+
+        await time.increaseTo(startTime + duration);
+        await client.connect(referrer2).claimReferralReward(fundraisingId);
+        expect(await client.getReferralInfo(fundraisingId)).to.deep.equal({ percentage: 10_00n, totalRewards: ethers.parseEther("0.5") });
+        expect(await client.getReferralLeaderboard(fundraisingId)).to.deep.equal([
+            {
+                referrer: referrer2.address,
+                referrals: 1,
+                contributions: 2,
+                value: ethers.parseEther("3"),
+                reward: ethers.parseEther("0.3"),
+                claimed: ethers.parseEther("0.3"),
+            },
+            {
+                referrer: referrer1.address,
+                referrals: 1,
+                contributions: 1,
+                value: ethers.parseEther("2"),
+                reward: ethers.parseEther("0.2"),
+                claimed: 0n,
+            },
+        ]);
+        const error = await client.connect(referrer2).claimReferralReward(fundraisingId).catch((e) => e);
+        expect(error.reason).to.equal("No referral reward");
+    });
+
+    it("should release the fund of a raise along its milestones", async function () {
+        const { fundraisingId } = await client.connect(moderator).createFundraising(createParams(ethers.parseEther("4")));
+        const tranches = [
+            { delay: 0n, percentage: 40_00n },
+            { delay: 7n * 24n * 60n * 60n, percentage: 60_00n },
+        ];
+        const { events } = await client.connect(moderator).setVesting(fundraisingId, { kind: ReleaseKind.MILESTONES, tranches });
+        expect(events[0]).to.deep.include({ name: "VestingUpdated", fundraisingId });
+        expect(await client.getVesting(fundraisingId)).to.deep.equal({ kind: ReleaseKind.MILESTONES, cliff: 0n, duration: 0n, tranches });
+
+        await time.increaseTo(startTime + legendaryDuration + epicDuration);
+        await client.connect(user1).quoteAndContribute(fundraisingId, 5);
+        await time.increaseTo(startTime + duration);
+        const { events: claimed } = await client.connect(moderator).claimFund(fundraisingId);
+        expect(claimed[0]).to.deep.include({ name: "FundClaimed", amount: ethers.parseEther("2") });
+        expect(await client.getFundRelease(fundraisingId)).to.deep.equal({ released: ethers.parseEther("2"), releasable: 0n, remaining: ethers.parseEther("3") });
+        expect(await client.getVestedFund(fundraisingId, startTime + duration + 7 * 24 * 60 * 60)).to.equal(ethers.parseEther("5"));
+
+        const error = await client.connect(moderator).claimFund(fundraisingId).catch((e) => e);
+        expect(error.reason).to.equal("Nothing vested");
+    });
+
+    describe("Helpers", function () {
+        it("should parse NFT type names and numbers", async function () {
+            expect(parseNftType("legendary")).to.equal(NftType.LEGENDARY);
+            expect(parseNftType("Epic")).to.equal(NftType.EPIC);
+            expect(parseNftType("1")).to.equal(NftType.COMMON);
+            expect(() => parseNftType("rare")).to.throw("Unknown NFT type: rare");
+        });
+
+        it("should do price math on bigints without precision loss", async function () {
+            const huge = 2n ** 200n;
+            expect(mulDiv(huge, 3n, 2n)).to.equal(huge + huge / 2n);
+            expect(mulDiv(10n, 1n, 3n)).to.equal(3n);
+            expect(mulDiv(10n, 1n, 3n, true)).to.equal(4n);
+            expect(percentOf(ethers.parseEther("1"), 25_00n)).to.equal(ethers.parseEther("0.25"));
+        });
+    });
+});
@@ -0,0 +1,295 @@
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FundraisingCenter, FundraisingGovernor, PeaqNFT } from "../typechain-types";
+import { FundraisingClient, FundraisingError, FundraisingGovernorClient, NftType, ProposalState, ReleaseKind, getTokensOf } from "../sdk";
+import { deployFundraisingCenter } from "./fixtures";
+
+const legendaryDuration = 10 * 60; // 10 minutes
+const epicDuration = 30 * 60; // 30 minutes
+const duration = 2 * 60 * 60; // 2 hours
+const day = 24 * 60 * 60;
+const votingPeriod = 3 * day;
+const proposalTimeout = 10 * day;
+
+describe("FundraisingGovernor", function () {
+    let admin: Signer;
+    let moderator: Signer;
+    let user1: Signer;
+    let user2: Signer;
+    let user3: Signer;
+
+    let peaqNFT: PeaqNFT;
+    let fundraisingCenter: FundraisingCenter;
+    let governor: FundraisingGovernor;
+    let client: FundraisingClient;
+    let governorClient: FundraisingGovernorClient;
+    let endTime: number;
+    let snapshotId: string;
+
+    before(async function () {
+        [admin, moderator, user1, user2, user3] = await ethers.getSigners();
+
+        const PeaqNFT = await ethers.getContractFactory("PeaqNFT");
+        peaqNFT = (await upgrades.deployProxy(PeaqNFT, { initializer: "initialize" })) as unknown as PeaqNFT;
+
+        fundraisingCenter = await deployFundraisingCenter(admin, [
+            await peaqNFT.getAddress(),
+            3 * day,
+            3 * day,
+            legendaryDuration,
+            epicDuration,
+        ]);
+
+        // legendary tokens weigh 4, epic ones 3, commons do not vote; the quorum is half of the total weight
+        const FundraisingGovernor = await ethers.getContractFactory("FundraisingGovernor");
+        governor = (await upgrades.deployProxy(
+            FundraisingGovernor.connect(admin),
+            [await fundraisingCenter.getAddress(), votingPeriod, 50_00, proposalTimeout, [NftType.LEGENDARY, NftType.EPIC], [4, 3]],
+            { initializer: "initialize" }
+        )) as unknown as FundraisingGovernor;
+        await expect(fundraisingCenter.connect(user1).setGovernor(await governor.getAddress())).to.be.reverted;
+        await expect(fundraisingCenter.setGovernor(await governor.getAddress()))
+            .to.emit(fundraisingCenter, "GovernorUpdated")
+            .withArgs(await governor.getAddress());
+
+        await peaqNFT.grantRole(await peaqNFT.MINTER_ROLE(), await fundraisingCenter.getAddress());
+        await fundraisingCenter.grantRole(await fundraisingCenter.MODERATOR_ROLE(), await moderator.getAddress());
+        client = FundraisingClient.connect(await fundraisingCenter.getAddress(), ethers.provider);
+        governorClient = FundraisingGovernorClient.connect(await governor.getAddress(), ethers.provider);
+    });
+
+    beforeEach(async function () {
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+
+        // user1 pays 8 for 2 legendaries, user2 3 for an epic: 11 raised, 40% released at the end, 60% 30 days later
+        const startTime = (await time.latest()) + 60;
+        endTime = startTime + duration;
+        await client.connect(moderator).createFundraising({
+            startTime,
+            duration,
+            targetAmount: ethers.parseEther("10"),
+            basePrices: {
+                [NftType.LEGENDARY]: ethers.parseEther("4"),
+                [NftType.EPIC]: ethers.parseEther("3"),
+                [NftType.COMMON]: ethers.parseEther("1"),
+            },
+            maxBuyAmounts: { [NftType.LEGENDARY]: 3n, [NftType.EPIC]: 5n },
+        });
+        await client.connect(moderator).setVesting(0, {
+            kind: ReleaseKind.GOVERNED,
+            cliff: 0n,
+            duration: 0n,
+            tranches: [
+                { delay: 0n, percentage: 40_00n },
+                { delay: BigInt(30 * day), percentage: 60_00n },
+            ],
+        });
+        await client.connect(moderator).addToWhitelist(0, await user1.getAddress());
+        await time.increaseTo(startTime);
+        await client.connect(user1).quoteAndContribute(0, 2);
+        await time.increaseTo(startTime + legendaryDuration);
+        await client.connect(user2).quoteAndContribute(0, 1);
+    });
+
+    afterEach(async function () {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    // ends the raise and mints the tokens of the backers, weighing 2 * 4 + 3 = 11
+    const endRaise = async () => {
+        await time.increaseTo(endTime);
+        await client.connect(user1).claimNft(0);
+        await client.connect(user2).claimNft(0);
+    };
+
+    it("should only let the moderator propose the due tranches of a successful governed fundraising", async function () {
+        await expect(governor.connect(moderator).propose(0)).to.be.revertedWith("Fundraising not successful");
+        await endRaise();
+
+        await expect(governor.connect(user1).propose(0)).to.be.revertedWith("only moderator");
+        await expect(fundraisingCenter.connect(moderator).payGovernedFund(0, await moderator.getAddress(), 1)).to.be.revertedWith("only governor");
+        // the fund of a governed fundraising is only paid out through votes
+        await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.be.revertedWith("Nothing vested");
+
+        await expect(governor.connect(moderator).propose(0))
+            .to.emit(governor, "ProposalCreated")
+            .withArgs(0, 0, 0, ethers.parseEther("4.4"), (await time.latest()) + 1 + votingPeriod, 5);
+        await expect(governor.connect(moderator).propose(0)).to.be.revertedWith("Proposal pending");
+        expect(await governorClient.getRelease(0)).to.deep.equal({ nextTranche: 0n, pending: true, revoked: false, reclaimable: 0n, snapshot: 0n });
+    });
+
+    it("should pay a passed tranche to the moderator, each token voting once", async function () {
+        await endRaise();
+        const { proposalId } = await governorClient.connect(moderator).propose(0);
+
+        const vote = await governorClient.connect(user1).castVote(proposalId, true);
+        expect(vote.weight).to.equal(8n);
+        expect(vote.tokenIds).to.deep.equal(await getTokensOf(peaqNFT, user1));
+        // a token does not vote again once transferred, it votes for its holder at the time of the proposal
+        await peaqNFT.connect(user1).transferFrom(await user1.getAddress(), await user3.getAddress(), vote.tokenIds[0]);
+        await expect(governor.connect(user3).castVote(proposalId, [vote.tokenIds[0]], false)).to.be.revertedWith("Not token owner");
+        await expect(governor.connect(user1).castVote(proposalId, [vote.tokenIds[0]], false)).to.be.revertedWith("Already voted");
+        await expect(governor.connect(user3).castVote(proposalId, [vote.tokenIds[1]], false)).to.be.revertedWith("Not token owner");
+        const error = await governorClient.connect(user3).castVote(proposalId, false).catch((e) => e);
+        expect(error).to.be.instanceOf(FundraisingError);
+        expect(error.reason).to.equal("No voting power");
+        await governorClient.connect(user2).castVote(proposalId, false);
+
+        await expect(governor.execute(proposalId)).to.be.revertedWith("Vote not closed");
+        await time.increase(votingPeriod);
+        expect(await governorClient.getProposal(proposalId)).to.deep.include({ forVotes: 8n, againstVotes: 3n, state: ProposalState.SUCCEEDED });
+        await expect(governor.execute(proposalId)).to.changeEtherBalances(
+            [moderator, fundraisingCenter],
+            [ethers.parseEther("4.4"), -ethers.parseEther("4.4")]
+        );
+        await expect(governor.execute(proposalId)).to.be.revertedWith("Already executed");
+        expect(await client.getFundRelease(0)).to.deep.equal({
+            released: ethers.parseEther("4.4"),
+            releasable: 0n,
+            remaining: ethers.parseEther("6.6"),
+        });
+
+        // the last tranche pays the rest of the fund
+        await expect(governor.connect(moderator).propose(0)).to.be.revertedWith("Tranche not due");
+        await time.increaseTo(endTime + 30 * day);
+        const last = await governorClient.connect(moderator).propose(0);
+        await governorClient.connect(user1).castVote(last.proposalId, true);
+        await governorClient.connect(user2).castVote(last.proposalId, true);
+        await time.increase(votingPeriod);
+        await expect(governor.execute(last.proposalId)).to.changeEtherBalance(moderator, ethers.parseEther("6.6"));
+        expect((await client.getFundraising(0)).fundClaimed).to.equal(true);
+        await expect(governor.connect(moderator).propose(0)).to.be.revertedWith("No tranche left");
+        expect((await governorClient.getProposals(0)).map((proposal) => proposal.tranche)).to.deep.equal([0n, 1n]);
+    });
+
+    it("should let the holders at the snapshot reclaim the fund by the weight of their tokens once a vote fails", async function () {
+        await endRaise();
+        // user3 bought a legendary before the proposal, user1 sells the other one after it
+        const [legendary1, legendary2] = await getTokensOf(peaqNFT, user1);
+        const [epic] = await getTokensOf(peaqNFT, user2);
+        await peaqNFT.connect(user1).transferFrom(await user1.getAddress(), await user3.getAddress(), legendary1);
+        const { proposalId } = await governorClient.connect(moderator).propose(0);
+        await peaqNFT.connect(user1).transferFrom(await user1.getAddress(), await user3.getAddress(), legendary2);
+        await governorClient.connect(user2).castVote(proposalId, false);
+        await governorClient.connect(user3).castVote(proposalId, false);
+        await time.increase(votingPeriod);
+        expect((await governorClient.getProposal(proposalId)).state).to.equal(ProposalState.DEFEATED);
+
+        await expect(governor.reclaim(0, [epic])).to.be.revertedWith("Release not revoked");
+        await expect(governor.execute(proposalId))
+            .to.emit(governor, "ReleaseRevoked")
+            .withArgs(0, ethers.parseEther("11"))
+            .and.to.emit(governor, "ProposalExecuted")
+            .withArgs(proposalId, false);
+        await expect(governor.connect(moderator).propose(0)).to.be.revertedWith("Release revoked");
+        const { snapshot } = await governorClient.getProposal(proposalId);
+        expect((await governorClient.getRelease(0)).snapshot).to.equal(snapshot);
+
+        // the shares follow the tokens held at the snapshot of the proposal, not the payments of the backers
+        expect(await governorClient.getReclaimable(0, [legendary1, legendary2])).to.equal(ethers.parseEther("8"));
+        await expect(governor.connect(user3).reclaim(0, [legendary2])).to.be.revertedWith("Not token owner");
+        const reclaimed = await governorClient.connect(user3).reclaim(0);
+        expect(reclaimed.tokenIds).to.deep.equal([legendary1]);
+        expect(reclaimed.amount).to.equal(ethers.parseEther("4"));
+        await expect(governor.connect(user1).reclaim(0, [legendary2])).to.changeEtherBalance(user1, ethers.parseEther("4"));
+        expect(await governorClient.getReclaimable(0, [legendary1, legendary2])).to.equal(0n);
+        await expect(governor.connect(user1).reclaim(0, [legendary2])).to.be.revertedWith("Already reclaimed");
+        await expect(governor.connect(moderator).reclaim(0, [])).to.be.revertedWith("Nothing to reclaim");
+        await expect(governor.connect(user2).reclaim(0, [epic]))
+            .to.emit(governor, "FundReclaimed")
+            .withArgs(0, await user2.getAddress(), [epic], ethers.parseEther("3"));
+        expect(await ethers.provider.getBalance(await fundraisingCenter.getAddress())).to.equal(0n);
+    });
+
+    it("should only count the votes of the tokens of the fundraising, against a quorum of its own", async function () {
+        // a second raise sells an epic to user3 and outweighs the first one
+        const startTime = (await time.latest()) + 60;
+        await client.connect(moderator).createFundraising({
+            startTime,
+            duration,
+            targetAmount: 1n,
+            basePrices: { [NftType.LEGENDARY]: 1n, [NftType.EPIC]: 1n, [NftType.COMMON]: 1n },
+            maxBuyAmounts: { [NftType.LEGENDARY]: 1n, [NftType.EPIC]: 20n },
+        });
+        await time.increaseTo(startTime + legendaryDuration);
+        await client.connect(user3).quoteAndContribute(1, 20);
+        await time.increaseTo(startTime + duration);
+        await client.connect(user3).claimNft(1);
+        const outsider = await getTokensOf(peaqNFT, user3);
+        expect(await governor.totalWeight(1)).to.equal(60n);
+
+        // user2 has not claimed their epic yet, it still counts towards the quorum of half of 11
+        await client.connect(user1).claimNft(0);
+        const { proposalId, receipt } = await governorClient.connect(moderator).propose(0);
+        const [legendary1, legendary2] = await getTokensOf(peaqNFT, user1);
+
+        await expect(governor.connect(user3).castVote(proposalId, [outsider[0]], true)).to.be.revertedWith("Token not of the fundraising");
+        expect((await governorClient.connect(user3).castVote(proposalId, true).catch((e) => e)).reason).to.equal("No voting power");
+        expect(await governorClient.getVotingWeight([legendary1, ...outsider], proposalId)).to.equal(4n);
+
+        // neither a token bought after the proposal nor new weights bring votes to it
+        await peaqNFT.connect(user1).transferFrom(await user1.getAddress(), await user3.getAddress(), legendary1);
+        await governor.setTierWeights([NftType.LEGENDARY, NftType.EPIC, NftType.COMMON], [40, 30, 1]);
+        await expect(governor.connect(user3).castVote(proposalId, [legendary1], true)).to.be.revertedWith("Not token owner");
+
+        // the former holder votes with the tokens they held, at the weights of the proposal, and the backer who claimed since with theirs
+        const vote = await governorClient.connect(user1).castVote(proposalId, false);
+        expect(vote.tokenIds).to.deep.equal([legendary1, legendary2]);
+        expect(vote.weight).to.equal(8n);
+        await client.connect(user2).claimNft(0);
+        expect((await governorClient.connect(user2).castVote(proposalId, true)).weight).to.equal(3n);
+        expect(await governorClient.getProposal(proposalId)).to.deep.include({
+            quorum: 5n,
+            snapshot: BigInt(receipt.blockNumber - 1),
+            forVotes: 3n,
+            againstVotes: 8n,
+        });
+    });
+
+    it("should let anyone revoke the release once the moderator let a due tranche go unproposed", async function () {
+        await endRaise();
+        await expect(governor.revokeRelease(0)).to.be.revertedWith("Proposal not overdue");
+
+        // the next tranche is due 30 days after the end, and overdue 10 days later
+        const { proposalId } = await governorClient.connect(moderator).propose(0);
+        await expect(governor.revokeRelease(0)).to.be.revertedWith("Proposal pending");
+        await governorClient.connect(user1).castVote(proposalId, true);
+        await time.increaseTo(endTime + 30 * day + proposalTimeout - 60);
+        await governor.execute(proposalId);
+        await expect(governor.connect(user3).revokeRelease(0)).to.be.revertedWith("Proposal not overdue");
+
+        // a tranche is never overdue before the previous one was executed
+        await time.increaseTo(endTime + 30 * day + proposalTimeout);
+        await expect(governor.connect(user3).revokeRelease(0)).to.be.revertedWith("Proposal not overdue");
+        await time.increase(proposalTimeout);
+        await expect(governor.connect(user3).revokeRelease(0))
+            .to.emit(governor, "ReleaseRevoked")
+            .withArgs(0, ethers.parseEther("6.6"));
+        await expect(governor.connect(moderator).propose(0)).to.be.revertedWith("Release revoked");
+        await expect(governor.connect(user2).reclaim(0, await getTokensOf(peaqNFT, user2))).to.changeEtherBalance(user2, ethers.parseEther("1.8"));
+    });
+
+    it("should let the admin set valid voting settings", async function () {
+        await expect(governor.connect(user1).setVotingPeriod(day)).to.be.reverted;
+        await expect(governor.setVotingPeriod(0)).to.be.revertedWith("Invalid voting period");
+        await expect(governor.connect(user1).setProposalTimeout(day)).to.be.reverted;
+        await expect(governor.setProposalTimeout(0)).to.be.revertedWith("Invalid proposal timeout");
+        await expect(governor.setProposalTimeout(day)).to.emit(governor, "ProposalTimeoutUpdated").withArgs(day);
+        await expect(governor.setQuorumPercentage(100_01)).to.be.revertedWith("Invalid quorum");
+        await expect(governor.setTierWeights([NftType.EPIC], [1, 2])).to.be.revertedWith("Invalid tier count");
+        await expect(governor.setTierWeights([NftType.EPIC, NftType.EPIC], [1, 2])).to.be.revertedWith("Invalid tier type");
+        await expect(governor.setTierWeights([NftType.NONE], [1])).to.be.revertedWith("Invalid tier type");
+
+        await endRaise();
+        expect(await governor.totalWeight(0)).to.equal(11n);
+        await expect(governor.setTierWeights([NftType.COMMON, NftType.EPIC], [1, 5]))
+            .to.emit(governor, "TierWeightsUpdated")
+            .withArgs([NftType.COMMON, NftType.EPIC], [1, 5]);
+        expect(await governor.getTiers()).to.deep.equal([BigInt(NftType.COMMON), BigInt(NftType.EPIC)]);
+        expect(await governor.tierWeights(NftType.LEGENDARY)).to.equal(0n);
+        expect(await governor.totalWeight(0)).to.equal(5n);
+        expect(await governorClient.getVotingWeight(await getTokensOf(peaqNFT, user2))).to.equal(5n);
+    });
+});
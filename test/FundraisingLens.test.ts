@@ -0,0 +1,218 @@
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FundraisingCenter, PeaqNFT } from "../typechain-types";
+import {
+    FundraisingClient,
+    FundraisingLensClient,
+    FundraisingStatus,
+    NftType,
+    PriceCurve,
+    UNCAPPED,
+    describePhase,
+    findPhase,
+    formatCountdown,
+} from "../sdk";
+import { deployFundraisingCenter } from "./fixtures";
+
+const legendaryDuration = 10 * 60; // 10 minutes
+const epicDuration = 30 * 60; // 30 minutes
+const duration = 2 * 60 * 60; // 2 hours
+
+describe("FundraisingLens", function () {
+    let admin: Signer;
+    let moderator: Signer;
+    let user1: Signer;
+
+    let fundraisingCenter: FundraisingCenter;
+    let client: FundraisingClient;
+    let lens: FundraisingLensClient;
+    let startTime: number;
+    let snapshotId: string;
+
+    before(async function () {
+        [admin, moderator, user1] = await ethers.getSigners();
+
+        const PeaqNFT = await ethers.getContractFactory("PeaqNFT");
+        const peaqNFT = (await upgrades.deployProxy(PeaqNFT, { initializer: "initialize" })) as unknown as PeaqNFT;
+
+        fundraisingCenter = await deployFundraisingCenter(admin, [
+            await peaqNFT.getAddress(),
+            3 * 24 * 60 * 60,
+            3 * 24 * 60 * 60,
+            legendaryDuration,
+            epicDuration,
+        ]);
+
+        const FundraisingLens = await ethers.getContractFactory("FundraisingLens");
+        const fundraisingLens = await FundraisingLens.deploy(await fundraisingCenter.getAddress());
+
+        await peaqNFT.connect(admin).grantRole(await peaqNFT.MINTER_ROLE(), await fundraisingCenter.getAddress());
+        await fundraisingCenter.connect(admin).grantRole(await fundraisingCenter.MODERATOR_ROLE(), await moderator.getAddress());
+        client = FundraisingClient.connect(await fundraisingCenter.getAddress(), ethers.provider);
+        lens = FundraisingLensClient.connect(await fundraisingLens.getAddress(), ethers.provider);
+    });
+
+    beforeEach(async function () {
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+        startTime = (await time.latest()) + 60;
+        await client.connect(moderator).createFundraising({
+            startTime,
+            duration,
+            targetAmount: ethers.parseEther("10"),
+            basePrices: {
+                [NftType.LEGENDARY]: ethers.parseEther("4"),
+                [NftType.EPIC]: ethers.parseEther("3"),
+                [NftType.COMMON]: ethers.parseEther("1"),
+            },
+            maxBuyAmounts: { [NftType.LEGENDARY]: 3n, [NftType.EPIC]: 5n },
+        });
+    });
+
+    afterEach(async function () {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    it("should lay out the phases of a fundraising one after the other until its end", async function () {
+        const epicStart = BigInt(startTime + legendaryDuration);
+        const commonStart = epicStart + BigInt(epicDuration);
+        expect(await lens.getPhaseTimeline(0)).to.deep.equal([
+            { nftType: NftType.LEGENDARY, startTime: BigInt(startTime), endTime: epicStart },
+            { nftType: NftType.EPIC, startTime: epicStart, endTime: commonStart },
+            { nftType: NftType.COMMON, startTime: commonStart, endTime: BigInt(startTime + duration) },
+        ]);
+    });
+
+    it("should keep the phases of an existing fundraising when the default durations change", async function () {
+        await fundraisingCenter.connect(admin).setNftDuration(NftType.LEGENDARY, 60 * 60);
+        await time.increaseTo(startTime + legendaryDuration);
+
+        // the epic phase started with the durations of the fundraising, not the new default one
+        expect((await lens.getPhaseTimeline(0))[0].endTime).to.equal(BigInt(startTime + legendaryDuration));
+        const quote = await client.quote(0, 1);
+        expect(quote.amounts).to.deep.equal([{ nftType: NftType.EPIC, amount: 1n }]);
+        await client.connect(user1).contribute(0, 1, quote.totalValue);
+
+        // fundraisings created afterwards take the new default
+        await client.connect(moderator).createFundraising({
+            startTime: (await time.latest()) + 60,
+            duration,
+            targetAmount: ethers.parseEther("10"),
+            basePrices: { [NftType.LEGENDARY]: 1n, [NftType.EPIC]: 1n, [NftType.COMMON]: 1n },
+            maxBuyAmounts: { [NftType.LEGENDARY]: 1n, [NftType.EPIC]: 1n },
+        });
+        const [legendary] = await lens.getPhaseTimeline(1);
+        expect(legendary.endTime - legendary.startTime).to.equal(60n * 60n);
+    });
+
+    it("should leave the phases past the end of the raise empty", async function () {
+        const tiers = [
+            { nftType: 4, whitelistOnly: false, basePrice: 1n, maxBuyAmount: 1n, duration: 90n },
+            { nftType: 5, whitelistOnly: false, basePrice: 1n, maxBuyAmount: 1n, duration: 30n },
+            { nftType: NftType.COMMON, whitelistOnly: false, basePrice: 1n, maxBuyAmount: UNCAPPED, duration: 0n },
+        ];
+        await client.connect(moderator).createFundraising({ startTime, duration: 100, targetAmount: 1n, tiers });
+
+        const end = BigInt(startTime + 100);
+        expect((await lens.getPhaseTimeline(1)).map((phase) => [phase.startTime, phase.endTime])).to.deep.equal([
+            [BigInt(startTime), BigInt(startTime + 90)],
+            [BigInt(startTime + 90), end],
+            [end, end],
+        ]);
+    });
+
+    it("should render the current phase and the time left in it", async function () {
+        expect(describePhase(await lens.getPhaseStatus(0, startTime - 3600))).to.equal("starts in 1h with the legendary phase");
+        expect(await lens.getPhaseStatus(0, startTime + legendaryDuration + 5)).to.deep.include({ stage: "phase", index: 1 });
+        expect(describePhase(await lens.getPhaseStatus(0, startTime + legendaryDuration + 5))).to.equal("epic phase, ends in 29m 55s");
+        expect(describePhase(await lens.getPhaseStatus(0, startTime + duration))).to.equal("ended");
+
+        // a cancelled fundraising has ended whatever its timeline says
+        await client.connect(moderator).cancelFundraising(0);
+        expect(await lens.getPhaseStatus(0, startTime)).to.deep.equal({ stage: "ended" });
+    });
+
+    it("should aggregate the status, tiers and phases of a fundraising in one view", async function () {
+        await client.connect(moderator).setPricing(0, { [NftType.EPIC]: { curve: PriceCurve.LINEAR, step: ethers.parseEther("0.5") } });
+        await client.connect(moderator).addToWhitelist(0, await user1.getAddress());
+        let view = await lens.getFundraisingView(0);
+        expect(view.info).to.deep.include({ id: 0n, status: FundraisingStatus.CREATION, totalContribution: 0n });
+        expect(view.currentPhase).to.be.undefined;
+        expect(view.whitelistMode).to.equal("list");
+
+        await time.increaseTo(startTime + legendaryDuration);
+        await client.connect(user1).quoteAndContribute(0, 2);
+        view = await lens.getFundraisingView(0);
+        expect(view.info).to.deep.include({ status: FundraisingStatus.OPEN, totalContribution: ethers.parseEther("6.5") });
+        expect(view.currentPhase).to.equal(1);
+        expect(view.tiers.map(({ nftType, price, sold, remaining }) => ({ nftType, price, sold, remaining }))).to.deep.equal([
+            { nftType: NftType.LEGENDARY, price: ethers.parseEther("4"), sold: 0n, remaining: 3n },
+            { nftType: NftType.EPIC, price: ethers.parseEther("4"), sold: 2n, remaining: 3n },
+            { nftType: NftType.COMMON, price: ethers.parseEther("1"), sold: 0n, remaining: UNCAPPED },
+        ]);
+        expect(view.tiers.map((tier) => tier.phase)).to.deep.equal(await lens.getPhaseTimeline(0));
+
+        await client.connect(moderator).createFundraising({
+            startTime: (await time.latest()) + 60,
+            duration,
+            targetAmount: 1n,
+            tiers: [{ nftType: NftType.COMMON, whitelistOnly: false, basePrice: 1n, maxBuyAmount: UNCAPPED, duration: 0n }],
+        });
+        expect((await lens.getFundraisingView(1)).whitelistMode).to.equal("none");
+        await client.connect(moderator).setWhitelistRoot(0, ethers.id("root"));
+        expect((await lens.getFundraisingView(0)).whitelistMode).to.equal("merkle");
+    });
+
+    it("should have no current phase once the fundraising ended before its timeline", async function () {
+        await time.increaseTo(startTime + legendaryDuration);
+        expect((await lens.getFundraisingView(0)).currentPhase).to.equal(1);
+
+        await client.connect(admin).forceFail(0, "compromised");
+        const view = await lens.getFundraisingView(0);
+        expect(view.info.status).to.equal(FundraisingStatus.FAILED);
+        expect(view.currentPhase).to.be.undefined;
+        expect((await lens.contract.getFundraisingView(0)).currentPhase).to.equal(3n);
+    });
+
+    it("should page through the fundraisings and fetch a dashboard in one call", async function () {
+        for (let i = 0; i < 2; i++) {
+            await client.connect(moderator).createFundraising({
+                startTime: (await time.latest()) + 60,
+                duration,
+                targetAmount: BigInt(i + 1),
+                tiers: [{ nftType: NftType.COMMON, whitelistOnly: false, basePrice: 1n, maxBuyAmount: UNCAPPED, duration: 0n }],
+            });
+        }
+        expect(await fundraisingCenter.getFundraisingCount()).to.equal(3n);
+
+        const page = await lens.getFundraisingViews(1, 5);
+        expect(page.total).to.equal(3n);
+        expect(page.views.map((view) => view.info.targetAmount)).to.deep.equal([1n, 2n]);
+        expect((await lens.getFundraisingViews(3, 5)).views).to.deep.equal([]);
+        expect((await lens.getFundraisingViews(0, 1)).views.map((view) => view.info.id)).to.deep.equal([0n]);
+        expect((await lens.getFundraisingViews(1, ethers.MaxUint256)).views).to.have.length(2);
+
+        const dashboard = await lens.getDashboard([2, 0]);
+        expect(dashboard.map((view) => view.info.id)).to.deep.equal([2n, 0n]);
+        expect(dashboard[1]).to.deep.equal(await lens.getFundraisingView(0));
+        expect(await lens.getDashboard([])).to.deep.equal([]);
+    });
+
+    describe("Helpers", function () {
+        it("should format countdowns and find the phase of a timestamp", async function () {
+            expect(formatCountdown(0n)).to.equal("0s");
+            expect(formatCountdown(-5n)).to.equal("0s");
+            expect(formatCountdown(90061n)).to.equal("1d 1h 1m 1s");
+            expect(formatCountdown(7200n)).to.equal("2h");
+
+            const timeline = [
+                { nftType: NftType.EPIC, startTime: 100n, endTime: 200n },
+                { nftType: NftType.COMMON, startTime: 200n, endTime: 200n },
+            ];
+            expect(findPhase(timeline, 150n)).to.deep.equal({ stage: "phase", phase: timeline[0], index: 0, endsIn: 50n });
+            expect(findPhase(timeline, 200n)).to.deep.equal({ stage: "ended" });
+            expect(() => findPhase([], 0n)).to.throw("Empty phase timeline");
+        });
+    });
+});
@@ -1,8 +1,11 @@
 import { ethers, upgrades } from "hardhat";
 import { expect } from "chai";
-import { Contract, Signer } from "ethers";
-import { FundraisingCenter, PeaqNFT } from "../typechain-types";
+import { Contract, Interface, Signer } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FundraisingCenter, MockERC20, PeaqNFT } from "../typechain-types";
 import { parse } from "dotenv";
+import { WhitelistTree, buildWhitelistTree, getWhitelistProof } from "../sdk";
+import { deployFundraisingCenter } from "./fixtures";
 
 const peaqType = {
     t0_none: 0,
@@ -32,6 +35,18 @@ const peaqMaxBuyAmount = {
 
 const targetAmount = peaqPrice.t1_common * BigInt(10) + peaqPrice.t3_epic * peaqMaxBuyAmount.t3_epic + peaqPrice.t4_legendary * peaqMaxBuyAmount.t4_legendary;
 
+const priceCurve = {
+    fixed: 0,
+    linear: 1,
+    dutchAuction: 2,
+}
+
+const releaseKind = {
+    immediate: 0,
+    linear: 1,
+    milestones: 2,
+}
+
 const fundrationStatus = {
     creation: 0,
     cancelled: 1,
@@ -65,16 +80,13 @@ describe("FundraisingCenter", function () {
         expect(await peaqNFT.name()).to.equal("PeaqNFT");
 
         // Deploy FundraisingCenter contract
-        const FundraisingCenter = await ethers.getContractFactory("FundraisingCenter");
-        fundraisingCenter = await FundraisingCenter.connect(admin).deploy(
+        fundraisingCenter = await deployFundraisingCenter(admin, [
             await peaqNFT.getAddress(),
             maxStartTime,
             maxDuration,
             peaqDuration.t4_legendary,
-            peaqDuration.t3_epic
-        );
-        // // await fundraisingCenter.deployed();
-        await fundraisingCenter.waitForDeployment();
+            peaqDuration.t3_epic,
+        ]);
 
         // Grant MINTER_ROLE to the fundraisingCenter contract in PeaqNFT
         const MINTER_ROLE = await peaqNFT.MINTER_ROLE();
@@ -148,6 +160,26 @@ describe("FundraisingCenter", function () {
                 expect(fundraising.targetTime).to.equal(startTime + duration);
             });
 
+            it("should still serve the fields of the former public fundraisings mapping", async function () {
+                const startTime = Math.floor(Date.now() / 1000) + 60; // Start in 1 minute
+                const duration = 3600; // 1 hour
+
+                await createFundraising(moderator, startTime, duration, targetAmount);
+
+                // moderator, startTime, targetTime, targetAmount, status, totalContribution, fundClaimed
+                const fundraising = await fundraisingCenter.fundraisings(0);
+                expect([...fundraising]).to.deep.equal([
+                    await moderator.getAddress(),
+                    BigInt(startTime),
+                    BigInt(startTime + duration),
+                    targetAmount,
+                    0n, // CREATION
+                    0n,
+                    false,
+                ]);
+                expect(fundraising.targetTime).to.equal(startTime + duration);
+            });
+
             it("should reject fundraising with invalid timestamps", async function () {
                 const startTime = Math.floor(Date.now() / 1000) + 4 * 24 * 60 * 60; // Start in 4 days
                 const duration = 3600; // 1 hour
@@ -1146,6 +1178,1137 @@ describe("FundraisingCenter", function () {
             });
         });
     });
+
+    describe("3. Whitelist batches", function () {
+        let snapshotId: string;
+        let users: string[];
+
+        beforeEach(async function () {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            users = await Promise.all(addresses.slice(0, 3).map((signer) => signer.getAddress()));
+
+            const startTime = Math.floor(Date.now() / 1000) + 60; // Start in 1 minute
+            await createFundraising(moderator, startTime, 3600, targetAmount);
+        });
+
+        afterEach(async function () {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("should whitelist every address of a batch and emit an event per address", async function () {
+            const tx = fundraisingCenter.connect(moderator).addToWhitelistBatch(0, users);
+            for (const user of users) {
+                await expect(tx).to.emit(fundraisingCenter, "WhitelistUpdated").withArgs(0, user, true);
+            }
+            for (const user of users) {
+                expect(await fundraisingCenter.getUserWhitelisted(0, user)).to.be.true;
+            }
+        });
+
+        it("should remove every address of a batch from the whitelist", async function () {
+            await fundraisingCenter.connect(moderator).addToWhitelistBatch(0, users);
+
+            await expect(fundraisingCenter.connect(moderator).removeFromWhitelistBatch(0, users.slice(1)))
+                .to.emit(fundraisingCenter, "WhitelistUpdated")
+                .withArgs(0, users[2], false);
+
+            expect(await fundraisingCenter.getUserWhitelisted(0, users[0])).to.be.true;
+            expect(await fundraisingCenter.getUserWhitelisted(0, users[1])).to.be.false;
+            expect(await fundraisingCenter.getUserWhitelisted(0, users[2])).to.be.false;
+        });
+
+        it("should reject empty batches and non-moderators", async function () {
+            await expect(fundraisingCenter.connect(moderator).addToWhitelistBatch(0, []))
+                .to.be.revertedWith("Empty whitelist batch");
+            await expect(fundraisingCenter.connect(user1).addToWhitelistBatch(0, users))
+                .to.be.revertedWith("only moderator");
+            await expect(fundraisingCenter.connect(user1).removeFromWhitelistBatch(0, users))
+                .to.be.revertedWith("only moderator");
+        });
+    });
+
+    describe("4. Merkle whitelist", function () {
+        let snapshotId: string;
+        let tree: WhitelistTree;
+        let startTime: number;
+
+        beforeEach(async function () {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            tree = buildWhitelistTree([
+                await user1.getAddress(),
+                ...(await Promise.all(addresses.slice(0, 4).map((signer) => signer.getAddress()))),
+            ]);
+
+            startTime = await lastBlockTimestamp() + 60; // Start in 1 minute
+            await createFundraising(moderator, startTime, 3600, targetAmount);
+        });
+
+        afterEach(async function () {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("should allow the moderator to set the whitelist root", async function () {
+            await expect(fundraisingCenter.connect(moderator).setWhitelistRoot(0, tree.root))
+                .to.emit(fundraisingCenter, "WhitelistRootUpdated")
+                .withArgs(0, tree.root);
+            expect(await fundraisingCenter.getWhitelistRoot(0)).to.equal(tree.root);
+
+            await expect(fundraisingCenter.connect(user1).setWhitelistRoot(0, tree.root))
+                .to.be.revertedWith("only moderator");
+        });
+
+        it("should verify whitelist proofs", async function () {
+            const { proof } = getWhitelistProof(tree, await user1.getAddress());
+
+            // no root set yet
+            expect(await fundraisingCenter.isWhitelisted(0, await user1.getAddress(), proof)).to.be.false;
+
+            await fundraisingCenter.connect(moderator).setWhitelistRoot(0, tree.root);
+            expect(await fundraisingCenter.isWhitelisted(0, await user1.getAddress(), proof)).to.be.true;
+            expect(await fundraisingCenter.isWhitelisted(0, await user2.getAddress(), proof)).to.be.false;
+            expect(await fundraisingCenter.isWhitelisted(0, await user1.getAddress(), [])).to.be.false;
+
+            // addresses whitelisted in storage do not need a proof
+            await fundraisingCenter.connect(moderator).addToWhitelist(0, await user2.getAddress());
+            expect(await fundraisingCenter.isWhitelisted(0, await user2.getAddress(), [])).to.be.true;
+        });
+
+        it("should let proven addresses buy legendary NFTs", async function () {
+            await fundraisingCenter.connect(moderator).setWhitelistRoot(0, tree.root);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+
+            const { proof } = getWhitelistProof(tree, await user1.getAddress());
+            await expect(fundraisingCenter.connect(user1).contributeWithProof(0, 1, proof, { value: peaqPrice.t4_legendary }))
+                .to.emit(fundraisingCenter, "ContributionMade")
+                .withArgs(0, await user1.getAddress(), [[BigInt(peaqType.t4_legendary), 1n]]);
+            expect(await fundraisingCenter.getUserContributionByType(0, await user1.getAddress(), peaqType.t4_legendary)).to.equal(1);
+        });
+
+        it("should reject contributions with a proof of another address", async function () {
+            await fundraisingCenter.connect(moderator).setWhitelistRoot(0, tree.root);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+
+            const { proof } = getWhitelistProof(tree, await user1.getAddress());
+            await expect(fundraisingCenter.connect(user2).contributeWithProof(0, 1, proof, { value: peaqPrice.t4_legendary }))
+                .to.be.revertedWith("Not whitelisted");
+            await expect(fundraisingCenter.connect(user1).contribute(0, 1, { value: peaqPrice.t4_legendary }))
+                .to.be.revertedWith("Not whitelisted");
+        });
+    });
+
+    describe("5. Configurable tiers", function () {
+        const MYTHIC = 4;
+        const UNCAPPED = ethers.MaxUint256;
+        let snapshotId: string;
+        let startTime: number;
+
+        // Mythic is whitelist-only and sold before legendary, common is capped
+        const tiers = [
+            { nftType: MYTHIC, whitelistOnly: true, basePrice: ethers.parseEther("10"), maxBuyAmount: 1n, duration: 5 * 60 },
+            { nftType: peaqType.t4_legendary, whitelistOnly: false, basePrice: peaqPrice.t4_legendary, maxBuyAmount: 3n, duration: 10 * 60 },
+            { nftType: peaqType.t3_epic, whitelistOnly: false, basePrice: peaqPrice.t3_epic, maxBuyAmount: 5n, duration: 30 * 60 },
+            { nftType: peaqType.t1_common, whitelistOnly: false, basePrice: peaqPrice.t1_common, maxBuyAmount: 20n, duration: 0 },
+        ];
+
+        const createWithTiers = (tierSet: typeof tiers, target = ethers.parseEther("20")) =>
+            fundraisingCenter.connect(moderator).createFundraisingWithTiers(startTime, 3600, target, tierSet, ZERO_ADDRESS);
+
+        const buyAmounts = async (number: number, timestamp: number) => {
+            const [amounts] = await fundraisingCenter.determineBuyAmounts(0, number, timestamp);
+            return amounts.map((item) => [Number(item.nftType), item.amount]);
+        };
+
+        beforeEach(async function () {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            startTime = await lastBlockTimestamp() + 60; // Start in 1 minute
+        });
+
+        afterEach(async function () {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("should create a fundraising with its own tiers", async function () {
+            await expect(createWithTiers(tiers))
+                .to.emit(fundraisingCenter, "FundraisingCreated")
+                .and.to.emit(fundraisingCenter, "TiersConfigured");
+
+            const stored = await fundraisingCenter.getFundraisingTiers(0);
+            expect(stored.map((tier) => Number(tier.nftType))).to.deep.equal([MYTHIC, 3, 2, 1]);
+            expect(stored[0].whitelistOnly).to.be.true;
+            expect(await fundraisingCenter.getFundraisingBasePrice(0, MYTHIC)).to.equal(ethers.parseEther("10"));
+            expect(await fundraisingCenter.getFundraisingMaxBuyAmount(0, peaqType.t1_common)).to.equal(20);
+            expect(await fundraisingCenter.getFundraisingMaxBuyAmount(0, 5)).to.equal(0);
+        });
+
+        it("should copy the default phase durations into legacy fundraisings", async function () {
+            await createFundraising(moderator, startTime, 3600, targetAmount);
+
+            const stored = await fundraisingCenter.getFundraisingTiers(0);
+            expect(stored.map((tier) => [Number(tier.nftType), tier.whitelistOnly, tier.duration])).to.deep.equal([
+                [peaqType.t4_legendary, true, BigInt(peaqDuration.t4_legendary)],
+                [peaqType.t3_epic, false, BigInt(peaqDuration.t3_epic)],
+                [peaqType.t1_common, false, 0n],
+            ]);
+            expect(stored[2].maxBuyAmount).to.equal(UNCAPPED);
+        });
+
+        it("should reject invalid tier sets", async function () {
+            await expect(createWithTiers([])).to.be.revertedWith("Invalid tier count");
+            await expect(createWithTiers(Array.from({ length: 17 }, (_, i) => ({ ...tiers[3], nftType: i + 1 }))))
+                .to.be.revertedWith("Invalid tier count");
+            await expect(createWithTiers([tiers[0], { ...tiers[1], nftType: MYTHIC }])).to.be.revertedWith("Invalid tier type");
+            await expect(createWithTiers([{ ...tiers[0], nftType: peaqType.t0_none }])).to.be.revertedWith("Invalid tier type");
+            await expect(createWithTiers([{ ...tiers[0], maxBuyAmount: 0n }])).to.be.revertedWith("invalid max buy amount");
+            await expect(fundraisingCenter.connect(user1).createFundraisingWithTiers(startTime, 3600, 0, tiers, ZERO_ADDRESS))
+                .to.be.revertedWith(`AccessControl: account ${(await user1.getAddress()).toLowerCase()} is missing role ${await fundraisingCenter.MODERATOR_ROLE()}`);
+        });
+
+        it("should sell the tiers in the order of their phases", async function () {
+            await createWithTiers(tiers);
+
+            expect(await buyAmounts(3, startTime)).to.deep.equal([[MYTHIC, 1n], [3, 2n]]);
+            expect(await buyAmounts(2, startTime + 5 * 60)).to.deep.equal([[3, 2n]]);
+            expect(await buyAmounts(6, startTime + 15 * 60)).to.deep.equal([[2, 5n], [1, 1n]]);
+            expect(await buyAmounts(2, startTime + 45 * 60)).to.deep.equal([[1, 2n]]);
+        });
+
+        it("should only let whitelisted users buy whitelist-only tiers", async function () {
+            await createWithTiers(tiers);
+            await fundraisingCenter.connect(moderator).addToWhitelist(0, await user1.getAddress());
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+
+            const value = ethers.parseEther("10") + peaqPrice.t4_legendary;
+            await expect(fundraisingCenter.connect(user2).contribute(0, 2, { value })).to.be.revertedWith("Not whitelisted");
+            await expect(fundraisingCenter.connect(user1).contribute(0, 2, { value }))
+                .to.emit(fundraisingCenter, "ContributionMade")
+                .withArgs(0, await user1.getAddress(), [[BigInt(MYTHIC), 1n], [BigInt(peaqType.t4_legendary), 1n]]);
+
+            // mythic is sold out, so the rest of the phase sells legendary to anyone
+            await expect(fundraisingCenter.connect(user2).contribute(0, 1, { value: peaqPrice.t4_legendary }))
+                .to.emit(fundraisingCenter, "ContributionMade")
+                .withArgs(0, await user2.getAddress(), [[BigInt(peaqType.t4_legendary), 1n]]);
+        });
+
+        it("should revert when the remaining tiers are sold out", async function () {
+            await createWithTiers(tiers);
+
+            await expect(fundraisingCenter.determineBuyAmounts(0, 21, startTime + 45 * 60)).to.be.revertedWith("Not enough NFTs left");
+            await expect(fundraisingCenter.determineBuyAmounts(0, 30, startTime)).to.be.revertedWith("Not enough NFTs left");
+        });
+
+        it("should mint the NFT type of each tier on claim", async function () {
+            await createWithTiers(tiers, ethers.parseEther("10"));
+            await fundraisingCenter.connect(moderator).addToWhitelist(0, await user1.getAddress());
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+            await fundraisingCenter.connect(user1).contribute(0, 2, { value: ethers.parseEther("10") + peaqPrice.t4_legendary });
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime + 3600]);
+
+            await fundraisingCenter.connect(user1).claimAllNft(0);
+            expect(await peaqNFT.ownerOf(generateTokenId(MYTHIC, 0))).to.equal(await user1.getAddress());
+            expect(await peaqNFT.idToType(generateTokenId(MYTHIC, 0))).to.equal(MYTHIC);
+            expect(await peaqNFT.ownerOf(generateTokenId(peaqType.t4_legendary, 0))).to.equal(await user1.getAddress());
+        });
+
+        it("should refund every tier of a failed fundraising", async function () {
+            await createWithTiers(tiers, ethers.parseEther("100"));
+            await fundraisingCenter.connect(moderator).addToWhitelist(0, await user1.getAddress());
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+            const value = ethers.parseEther("10") + peaqPrice.t4_legendary * 3n + peaqPrice.t3_epic;
+            await fundraisingCenter.connect(user1).contribute(0, 5, { value });
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime + 3600]);
+
+            await expect(fundraisingCenter.connect(user1).refund(0))
+                .to.emit(fundraisingCenter, "RefundClaimed")
+                .withArgs(0, await user1.getAddress(), value);
+        });
+
+        it("should only let the moderator set the price of a tier of the fundraising", async function () {
+            await createWithTiers(tiers);
+
+            await expect(fundraisingCenter.connect(moderator).setBasePrice(0, MYTHIC, ethers.parseEther("12")))
+                .to.emit(fundraisingCenter, "BasePriceUpdated")
+                .withArgs(0, MYTHIC, ethers.parseEther("12"));
+            expect((await fundraisingCenter.getFundraisingTiers(0))[0].basePrice).to.equal(ethers.parseEther("12"));
+            await expect(fundraisingCenter.connect(moderator).setBasePrice(0, 5, 1)).to.be.revertedWith("Unknown tier");
+        });
+    });
+
+    describe("6. ERC-20 payments", function () {
+        const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+        const tiers = [
+            { nftType: peaqType.t4_legendary, whitelistOnly: false, basePrice: usdc("40"), maxBuyAmount: 3n, duration: 10 * 60 },
+            { nftType: peaqType.t1_common, whitelistOnly: false, basePrice: usdc("10"), maxBuyAmount: ethers.MaxUint256, duration: 0 },
+        ];
+        let token: MockERC20;
+        let snapshotId: string;
+        let startTime: number;
+
+        const createTokenFundraising = (target: bigint) =>
+            fundraisingCenter.connect(moderator).createFundraisingWithTiers(startTime, 3600, target, tiers, token.getAddress());
+
+        // EIP-2612 permit of `owner` letting the fundraising center spend `value`
+        const signPermit = async (owner: Signer, value: bigint, deadline: number) => {
+            const { chainId } = await ethers.provider.getNetwork();
+            const signature = ethers.Signature.from(await owner.signTypedData(
+                { name: await token.name(), version: "1", chainId, verifyingContract: await token.getAddress() },
+                {
+                    Permit: [
+                        { name: "owner", type: "address" },
+                        { name: "spender", type: "address" },
+                        { name: "value", type: "uint256" },
+                        { name: "nonce", type: "uint256" },
+                        { name: "deadline", type: "uint256" },
+                    ],
+                },
+                {
+                    owner: await owner.getAddress(),
+                    spender: await fundraisingCenter.getAddress(),
+                    value,
+                    nonce: await token.nonces(await owner.getAddress()),
+                    deadline,
+                }
+            ));
+            return { value, deadline, v: signature.v, r: signature.r, s: signature.s };
+        };
+
+        beforeEach(async function () {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            const MockERC20 = await ethers.getContractFactory("MockERC20");
+            token = await MockERC20.deploy("USD Coin", "USDC", 6);
+            await token.mint(await user1.getAddress(), usdc("1000"));
+            await token.mint(await user2.getAddress(), usdc("1000"));
+            startTime = await lastBlockTimestamp() + 60; // Start in 1 minute
+        });
+
+        afterEach(async function () {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("should create a fundraising paid in an ERC-20 token", async function () {
+            await expect(createTokenFundraising(usdc("100")))
+                .to.emit(fundraisingCenter, "PaymentTokenSet")
+                .withArgs(0, await token.getAddress());
+            expect((await fundraisingCenter.getFundraising(0)).paymentToken).to.equal(await token.getAddress());
+
+            await createFundraising(moderator, startTime, 3600, targetAmount);
+            expect((await fundraisingCenter.getFundraising(1)).paymentToken).to.equal(ZERO_ADDRESS);
+
+            await expect(fundraisingCenter.connect(moderator).createFundraisingWithTiers(startTime, 3600, 0, tiers, await user1.getAddress()))
+                .to.be.revertedWith("Invalid payment token");
+        });
+
+        it("should transfer the approved token on contribution", async function () {
+            await createTokenFundraising(usdc("100"));
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+            await token.connect(user1).approve(await fundraisingCenter.getAddress(), usdc("90"));
+
+            await expect(fundraisingCenter.connect(user1).contribute(0, 2, { value: 1 })).to.be.revertedWith("Invalid value");
+            await expect(fundraisingCenter.connect(user1).contribute(0, 3)).to.be.revertedWith("ERC20: insufficient allowance");
+            await expect(fundraisingCenter.connect(user1).contribute(0, 2)).to.changeTokenBalances(
+                token,
+                [user1, fundraisingCenter],
+                [-usdc("80"), usdc("80")]
+            );
+            expect((await fundraisingCenter.getUserContribution(0, await user1.getAddress())).totalValue).to.equal(usdc("80"));
+            expect(await token.allowance(await user1.getAddress(), await fundraisingCenter.getAddress())).to.equal(usdc("10"));
+        });
+
+        it("should contribute with a permit in a single transaction", async function () {
+            await createTokenFundraising(usdc("100"));
+            const permit = await signPermit(user1, usdc("80"), startTime + 600);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+
+            await expect(fundraisingCenter.connect(user1).contributeWithPermit(0, 2, [], permit))
+                .to.emit(fundraisingCenter, "ContributionMade")
+                .withArgs(0, await user1.getAddress(), [[BigInt(peaqType.t4_legendary), 2n]]);
+            expect(await token.balanceOf(await fundraisingCenter.getAddress())).to.equal(usdc("80"));
+
+            // a front-run permit is already used, the transfer goes through with the allowance it set
+            const frontRun = await signPermit(user2, usdc("40"), startTime + 600);
+            await token.permit(await user2.getAddress(), await fundraisingCenter.getAddress(), frontRun.value, frontRun.deadline, frontRun.v, frontRun.r, frontRun.s);
+            await expect(fundraisingCenter.connect(user2).contributeWithPermit(0, 1, [], frontRun)).to.emit(fundraisingCenter, "ContributionMade");
+
+            await createFundraising(moderator, startTime + 60, 3600, targetAmount);
+            await expect(fundraisingCenter.connect(user1).contributeWithPermit(1, 1, [], permit)).to.be.revertedWith("Not a token fundraising");
+        });
+
+        it("should pay out the token to the moderator of a successful fundraising", async function () {
+            await createTokenFundraising(usdc("100"));
+            await token.connect(user1).approve(await fundraisingCenter.getAddress(), usdc("120"));
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+            await fundraisingCenter.connect(user1).contribute(0, 3);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime + 3600]);
+
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.changeTokenBalances(
+                token,
+                [moderator, fundraisingCenter],
+                [usdc("120"), -usdc("120")]
+            );
+        });
+
+        it("should refund the token of a failed fundraising", async function () {
+            await createTokenFundraising(usdc("500"));
+            await token.connect(user1).approve(await fundraisingCenter.getAddress(), usdc("130"));
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+            await fundraisingCenter.connect(user1).contribute(0, 4);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime + 3600]);
+
+            await expect(fundraisingCenter.connect(user1).refund(0)).to.changeTokenBalances(
+                token,
+                [user1, fundraisingCenter],
+                [usdc("130"), -usdc("130")]
+            );
+        });
+    });
+
+    describe("7. Wallet limits", function () {
+        let snapshotId: string;
+        let startTime: number;
+
+        // at most 1 legendary and 2 epic NFTs per wallet, worth 3 to 20 ether
+        const limits = {
+            minContribution: peaqPrice.t3_epic,
+            maxWalletValue: ethers.parseEther("20"),
+            maxPerWallet: [1n, 2n, 0n],
+        };
+
+        beforeEach(async function () {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            startTime = await lastBlockTimestamp() + 60; // Start in 1 minute
+            await createFundraising(moderator, startTime, 3600, targetAmount);
+            await fundraisingCenter.connect(moderator).addToWhitelist(0, await user1.getAddress());
+        });
+
+        afterEach(async function () {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("should only let the moderator set the wallet limits while in creation", async function () {
+            await expect(fundraisingCenter.connect(user1).setWalletLimits(0, limits)).to.be.revertedWith("only moderator");
+            await expect(fundraisingCenter.connect(moderator).setWalletLimits(0, { ...limits, maxPerWallet: [1n] }))
+                .to.be.revertedWith("Invalid wallet limits");
+            await expect(fundraisingCenter.connect(moderator).setWalletLimits(0, limits))
+                .to.emit(fundraisingCenter, "WalletLimitsUpdated")
+                .withArgs(0, [limits.minContribution, limits.maxWalletValue, limits.maxPerWallet]);
+
+            const stored = await fundraisingCenter.getWalletLimits(0);
+            expect(stored.minContribution).to.equal(limits.minContribution);
+            expect(stored.maxWalletValue).to.equal(limits.maxWalletValue);
+            expect(stored.maxPerWallet).to.deep.equal(limits.maxPerWallet);
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+            await expect(fundraisingCenter.connect(moderator).setWalletLimits(0, limits)).to.be.revertedWith("Fundraising not in creation");
+        });
+
+        it("should move on to the next tier once the wallet cap of a tier is reached", async function () {
+            await fundraisingCenter.connect(moderator).setWalletLimits(0, limits);
+
+            const [amounts] = await fundraisingCenter.determineBuyAmounts(0, 4, startTime);
+            expect(amounts.map((item) => [Number(item.nftType), item.amount])).to.deep.equal([
+                [peaqType.t4_legendary, 1n],
+                [peaqType.t3_epic, 2n],
+                [peaqType.t1_common, 1n],
+            ]);
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+            await fundraisingCenter.connect(user1).contribute(0, 3, { value: peaqPrice.t4_legendary + peaqPrice.t3_epic * 2n });
+            const [next] = await fundraisingCenter.determineBuyAmountsFor(0, await user1.getAddress(), 3, startTime + 1);
+            expect(next.map((item) => [Number(item.nftType), item.amount])).to.deep.equal([[peaqType.t1_common, 3n]]);
+        });
+
+        it("should revert below the minimum and above the maximum value of a wallet", async function () {
+            await fundraisingCenter.connect(moderator).setWalletLimits(0, limits);
+            const commonPhase = startTime + peaqDuration.t4_legendary + peaqDuration.t3_epic;
+            const user = await user1.getAddress();
+
+            await expect(fundraisingCenter.determineBuyAmounts(0, 2, commonPhase)).to.be.revertedWith("Below minimum contribution");
+            await expect(fundraisingCenter.determineBuyAmounts(0, 21, commonPhase)).to.be.revertedWith("Wallet value cap exceeded");
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [commonPhase]);
+            await expect(fundraisingCenter.connect(user1).contribute(0, 2, { value: peaqPrice.t1_common * 2n }))
+                .to.be.revertedWith("Below minimum contribution");
+            await fundraisingCenter.connect(user1).contribute(0, 15, { value: peaqPrice.t1_common * 15n });
+
+            await expect(fundraisingCenter.determineBuyAmountsFor(0, user, 6, commonPhase + 1)).to.be.revertedWith("Wallet value cap exceeded");
+            await expect(fundraisingCenter.connect(user1).contribute(0, 6, { value: peaqPrice.t1_common * 6n }))
+                .to.be.revertedWith("Wallet value cap exceeded");
+            await fundraisingCenter.connect(user1).contribute(0, 5, { value: peaqPrice.t1_common * 5n });
+        });
+
+        it("should revert when the wallet caps leave too few NFTs", async function () {
+            const tiers = [
+                { nftType: peaqType.t4_legendary, whitelistOnly: false, basePrice: peaqPrice.t4_legendary, maxBuyAmount: 3n, duration: 60 },
+                { nftType: peaqType.t1_common, whitelistOnly: false, basePrice: peaqPrice.t1_common, maxBuyAmount: 10n, duration: 0 },
+            ];
+            await fundraisingCenter.connect(moderator).createFundraisingWithTiers(startTime, 3600, targetAmount, tiers, ZERO_ADDRESS);
+            await fundraisingCenter.connect(moderator).setWalletLimits(1, { minContribution: 0, maxWalletValue: 0, maxPerWallet: [1n, 2n] });
+
+            await expect(fundraisingCenter.determineBuyAmounts(1, 4, startTime)).to.be.revertedWith("Wallet tier cap reached");
+            await expect(fundraisingCenter.determineBuyAmounts(1, 11, startTime + 60)).to.be.revertedWith("Wallet tier cap reached");
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+            await expect(fundraisingCenter.connect(user2).contribute(1, 4, { value: ethers.parseEther("10") }))
+                .to.be.revertedWith("Wallet tier cap reached");
+        });
+    });
+
+    describe("8. Soft and hard caps", function () {
+        let snapshotId: string;
+        let startTime: number;
+        let commonPhase: number;
+
+        // the target amount of 37 ether is the soft cap
+        const hardCap = ethers.parseEther("40");
+
+        beforeEach(async function () {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            startTime = await lastBlockTimestamp() + 60; // Start in 1 minute
+            commonPhase = startTime + peaqDuration.t4_legendary + peaqDuration.t3_epic;
+            await createFundraising(moderator, startTime, 3600, targetAmount);
+        });
+
+        afterEach(async function () {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("should only let the moderator set a hard cap above the soft cap while in creation", async function () {
+            await expect(fundraisingCenter.connect(user1).setHardCap(0, hardCap, false)).to.be.revertedWith("only moderator");
+            await expect(fundraisingCenter.connect(moderator).setHardCap(0, targetAmount - 1n, false)).to.be.revertedWith("Invalid hard cap");
+            await expect(fundraisingCenter.connect(moderator).setHardCap(0, 0, true)).to.be.revertedWith("Invalid hard cap");
+            await expect(fundraisingCenter.connect(moderator).setHardCap(0, hardCap, true))
+                .to.emit(fundraisingCenter, "HardCapUpdated")
+                .withArgs(0, hardCap, true);
+
+            const info = await fundraisingCenter.getFundraising(0);
+            expect(info.hardCap).to.equal(hardCap);
+            expect(info.closeOnHardCap).to.be.true;
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+            await expect(fundraisingCenter.connect(moderator).setHardCap(0, 0, false)).to.be.revertedWith("Fundraising not in creation");
+        });
+
+        it("should trim the purchase reaching the hard cap and refund the change", async function () {
+            await fundraisingCenter.connect(moderator).setHardCap(0, hardCap, false);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [commonPhase]);
+            await fundraisingCenter.connect(user1).contribute(0, 38, { value: peaqPrice.t1_common * 38n });
+
+            const [amounts, totalValue] = await fundraisingCenter.determineBuyAmounts(0, 5, commonPhase + 1);
+            expect(amounts.map((item) => [Number(item.nftType), item.amount])).to.deep.equal([[peaqType.t1_common, 2n]]);
+            expect(totalValue).to.equal(peaqPrice.t1_common * 2n);
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [commonPhase + 1]);
+            await expect(fundraisingCenter.connect(user2).contribute(0, 5, { value: peaqPrice.t1_common * 5n })).to.changeEtherBalances(
+                [user2, fundraisingCenter],
+                [-peaqPrice.t1_common * 2n, peaqPrice.t1_common * 2n]
+            );
+            expect(await fundraisingCenter.getUserContributionByType(0, await user2.getAddress(), peaqType.t1_common)).to.equal(2n);
+            expect((await fundraisingCenter.getFundraising(0)).totalContribution).to.equal(hardCap);
+
+            // without early close the raise stays open until its end
+            await expect(fundraisingCenter.connect(user2).contribute(0, 1, { value: peaqPrice.t1_common })).to.be.revertedWith("Hard cap reached");
+            expect(await fundraisingCenter.getFundraisingStatus(0)).to.equal(fundrationStatus.open);
+        });
+
+        it("should end the raise as success once no NFT fits under the hard cap", async function () {
+            await fundraisingCenter.connect(moderator).setHardCap(0, hardCap + ethers.parseEther("0.5"), true);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [commonPhase]);
+            await fundraisingCenter.connect(user1).contribute(0, 39, { value: peaqPrice.t1_common * 39n });
+            expect(await fundraisingCenter.getFundraisingStatus(0)).to.equal(fundrationStatus.open);
+
+            await fundraisingCenter.connect(user2).contribute(0, 3, { value: peaqPrice.t1_common * 3n });
+            expect(await fundraisingCenter.getFundraisingStatus(0)).to.equal(fundrationStatus.success);
+
+            // claims start before the end time of the raise
+            await expect(fundraisingCenter.connect(user2).contribute(0, 1, { value: peaqPrice.t1_common })).to.be.revertedWith("Not open");
+            await fundraisingCenter.connect(user2).claimAllNft(0);
+            expect(await peaqNFT.balanceOf(await user2.getAddress())).to.equal(1);
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.changeEtherBalance(moderator, hardCap);
+        });
+    });
+
+    describe("9. Price curves", function () {
+        let snapshotId: string;
+        let startTime: number;
+        let epicPhase: number;
+        let commonPhase: number;
+
+        const fixed = { curve: priceCurve.fixed, step: 0, interval: 0, floorPrice: 0 };
+        const linear = (step: bigint) => ({ curve: priceCurve.linear, step, interval: 0, floorPrice: 0 });
+        const dutch = (step: bigint, interval: number, floorPrice: bigint) => ({ curve: priceCurve.dutchAuction, step, interval, floorPrice });
+
+        beforeEach(async function () {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            startTime = await lastBlockTimestamp() + 60; // Start in 1 minute
+            epicPhase = startTime + peaqDuration.t4_legendary;
+            commonPhase = epicPhase + peaqDuration.t3_epic;
+            await createFundraising(moderator, startTime, 3600, targetAmount);
+        });
+
+        afterEach(async function () {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("should only let the moderator set valid price curves while in creation", async function () {
+            const pricing = [fixed, dutch(ethers.parseEther("0.5"), 600, ethers.parseEther("2")), linear(ethers.parseEther("0.1"))];
+            await expect(fundraisingCenter.connect(user1).setPricing(0, pricing)).to.be.revertedWith("only moderator");
+            await expect(fundraisingCenter.connect(moderator).setPricing(0, pricing.slice(1))).to.be.revertedWith("Invalid pricing");
+            await expect(
+                fundraisingCenter.connect(moderator).setPricing(0, [fixed, dutch(ethers.parseEther("0.5"), 0, ethers.parseEther("2")), fixed])
+            ).to.be.revertedWith("Invalid pricing");
+            await expect(
+                fundraisingCenter.connect(moderator).setPricing(0, [fixed, dutch(ethers.parseEther("0.5"), 600, ethers.parseEther("4")), fixed])
+            ).to.be.revertedWith("Invalid pricing");
+            await expect(fundraisingCenter.connect(moderator).setPricing(0, pricing)).to.emit(fundraisingCenter, "PricingUpdated");
+
+            const stored = await fundraisingCenter.getPricing(0);
+            expect(stored.map((item) => [Number(item.curve), item.step, item.interval, item.floorPrice])).to.deep.equal(
+                pricing.map((item) => [item.curve, BigInt(item.step), BigInt(item.interval), BigInt(item.floorPrice)])
+            );
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+            await expect(fundraisingCenter.connect(moderator).setPricing(0, pricing)).to.be.revertedWith("Fundraising not in creation");
+        });
+
+        it("should raise the price of a linear tier with every NFT sold", async function () {
+            const step = ethers.parseEther("0.1");
+            await fundraisingCenter.connect(moderator).setPricing(0, [fixed, fixed, linear(step)]);
+
+            // 1 + 1.1 + 1.2
+            const [, totalValue] = await fundraisingCenter.determineBuyAmounts(0, 3, commonPhase);
+            expect(totalValue).to.equal(peaqPrice.t1_common * 3n + step * 3n);
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [commonPhase]);
+            await expect(fundraisingCenter.connect(user1).contribute(0, 3, { value: totalValue + step })).to.changeEtherBalance(user1, -totalValue);
+            expect(await fundraisingCenter.getUnitPrice(0, peaqType.t1_common, commonPhase)).to.equal(peaqPrice.t1_common + step * 3n);
+            expect((await fundraisingCenter.getUserContribution(0, await user1.getAddress())).totalValue).to.equal(totalValue);
+        });
+
+        it("should lower the price of a dutch auction tier over its phase down to its floor", async function () {
+            const step = ethers.parseEther("0.5");
+            const floorPrice = ethers.parseEther("2");
+            await fundraisingCenter.connect(moderator).setPricing(0, [fixed, dutch(step, 600, floorPrice), fixed]);
+
+            // no decay before the epic phase
+            expect(await fundraisingCenter.getUnitPrice(0, peaqType.t3_epic, startTime)).to.equal(peaqPrice.t3_epic);
+            expect(await fundraisingCenter.getUnitPrice(0, peaqType.t3_epic, epicPhase + 599)).to.equal(peaqPrice.t3_epic);
+            expect(await fundraisingCenter.getUnitPrice(0, peaqType.t3_epic, epicPhase + 600)).to.equal(peaqPrice.t3_epic - step);
+            expect(await fundraisingCenter.getUnitPrice(0, peaqType.t3_epic, epicPhase + 1500)).to.equal(floorPrice);
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [epicPhase + 600]);
+            await expect(fundraisingCenter.connect(user1).contribute(0, 2, { value: peaqPrice.t3_epic * 2n })).to.changeEtherBalance(
+                user1,
+                -(peaqPrice.t3_epic - step) * 2n
+            );
+        });
+
+        it("should refund what was paid rather than the base prices", async function () {
+            const step = ethers.parseEther("0.1");
+            await fundraisingCenter.connect(moderator).setPricing(0, [fixed, fixed, linear(step)]);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [commonPhase]);
+            await fundraisingCenter.connect(user1).contribute(0, 3, { value: peaqPrice.t1_common * 4n });
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime + 3600]);
+            await expect(fundraisingCenter.connect(user1).refund(0)).to.changeEtherBalance(user1, peaqPrice.t1_common * 3n + step * 3n);
+        });
+
+        it("should trim a linear purchase to the NFTs fitting under the hard cap", async function () {
+            // commons cost 1, 2, 3... ether: the 8 first ones cost 36 ether
+            await fundraisingCenter.connect(moderator).setPricing(0, [fixed, fixed, linear(peaqPrice.t1_common)]);
+            await fundraisingCenter.connect(moderator).setHardCap(0, ethers.parseEther("40"), false);
+
+            const [amounts, totalValue] = await fundraisingCenter.determineBuyAmounts(0, 10, commonPhase);
+            expect(amounts.map((item) => [Number(item.nftType), item.amount])).to.deep.equal([[peaqType.t1_common, 8n]]);
+            expect(totalValue).to.equal(ethers.parseEther("36"));
+        });
+    });
+
+    describe("10. Referrals", function () {
+        let snapshotId: string;
+        let startTime: number;
+        let commonPhase: number;
+        let referrer: Signer;
+
+        // 5.00%
+        const percentage = 500n;
+
+        beforeEach(async function () {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            referrer = addresses[0];
+            startTime = await lastBlockTimestamp() + 60; // Start in 1 minute
+            commonPhase = startTime + peaqDuration.t4_legendary + peaqDuration.t3_epic;
+            await createFundraising(moderator, startTime, 3600, targetAmount);
+        });
+
+        afterEach(async function () {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("should only let the moderator set a referral percentage up to 100% while in creation", async function () {
+            await expect(fundraisingCenter.connect(user1).setReferralPercentage(0, percentage)).to.be.revertedWith("only moderator");
+            await expect(fundraisingCenter.connect(moderator).setReferralPercentage(0, 100_01)).to.be.revertedWith("Invalid percentage");
+            await expect(fundraisingCenter.connect(moderator).setReferralPercentage(0, percentage))
+                .to.emit(fundraisingCenter, "ReferralPercentageUpdated")
+                .withArgs(0, percentage);
+            expect(await fundraisingCenter.getReferralInfo(0)).to.deep.equal([percentage, 0n]);
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime]);
+            await expect(fundraisingCenter.connect(moderator).setReferralPercentage(0, 0)).to.be.revertedWith("Fundraising not in creation");
+        });
+
+        it("should attribute a contributor to their first referrer", async function () {
+            await fundraisingCenter.connect(moderator).setReferralPercentage(0, percentage);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [commonPhase]);
+            const value = peaqPrice.t1_common * 2n;
+            await expect(
+                fundraisingCenter.connect(user1).contributeWithReferrer(0, 2, [], await user1.getAddress(), { value })
+            ).to.be.revertedWith("Invalid referrer");
+            await expect(fundraisingCenter.connect(user1).contributeWithReferrer(0, 2, [], await referrer.getAddress(), { value }))
+                .to.emit(fundraisingCenter, "ReferralRecorded")
+                .withArgs(0, await user1.getAddress(), await referrer.getAddress(), value, value * percentage / 100_00n);
+
+            // neither a later referrer nor a plain contribution change the attribution
+            await fundraisingCenter.connect(user1).contributeWithReferrer(0, 1, [], await user2.getAddress(), { value: peaqPrice.t1_common });
+            await fundraisingCenter.connect(user1).contribute(0, 1, { value: peaqPrice.t1_common });
+            expect(await fundraisingCenter.getReferrer(0, await user1.getAddress())).to.equal(await referrer.getAddress());
+            expect(await fundraisingCenter.getReferralReward(0, await user2.getAddress())).to.equal(0n);
+            expect(await fundraisingCenter.getReferralReward(0, await referrer.getAddress())).to.equal(peaqPrice.t1_common * 4n * percentage / 100_00n);
+
+            // a contribution without referrer is not recorded
+            await expect(fundraisingCenter.connect(user2).contributeWithReferrer(0, 1, [], ZERO_ADDRESS, { value: peaqPrice.t1_common })).not.to.emit(
+                fundraisingCenter,
+                "ReferralRecorded"
+            );
+        });
+
+        it("should pay referral rewards out of the fund of a successful raise", async function () {
+            await fundraisingCenter.connect(moderator).setReferralPercentage(0, percentage);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [commonPhase]);
+            await fundraisingCenter.connect(user1).contributeWithReferrer(0, 37, [], await referrer.getAddress(), { value: targetAmount });
+            const reward = targetAmount * percentage / 100_00n;
+            await expect(fundraisingCenter.connect(referrer).claimReferralReward(0)).to.be.revertedWith("Fundraising not successful");
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime + 3600]);
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.changeEtherBalance(moderator, targetAmount - reward);
+            await expect(fundraisingCenter.connect(referrer).claimReferralReward(0))
+                .to.emit(fundraisingCenter, "ReferralRewardClaimed")
+                .withArgs(0, await referrer.getAddress(), reward);
+            await expect(fundraisingCenter.connect(referrer).claimReferralReward(0)).to.be.revertedWith("No referral reward");
+            expect(await ethers.provider.getBalance(await fundraisingCenter.getAddress())).to.equal(0n);
+        });
+
+        it("should pay no referral reward and refund in full when the raise fails", async function () {
+            await fundraisingCenter.connect(moderator).setReferralPercentage(0, percentage);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [commonPhase]);
+            const value = peaqPrice.t1_common * 10n;
+            await fundraisingCenter.connect(user1).contributeWithReferrer(0, 10, [], await referrer.getAddress(), { value });
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [startTime + 3600]);
+            await expect(fundraisingCenter.connect(referrer).claimReferralReward(0)).to.be.revertedWith("Fundraising not successful");
+            await expect(fundraisingCenter.connect(user1).refund(0)).to.changeEtherBalance(user1, value);
+        });
+    });
+
+    describe("11. Vesting", function () {
+        let snapshotId: string;
+        let startTime: number;
+        let endTime: number;
+
+        const day = 24 * 60 * 60;
+        const immediate = { kind: releaseKind.immediate, cliff: 0, duration: 0, tranches: [] };
+        const linear = (cliff: number, duration: number) => ({ kind: releaseKind.linear, cliff, duration, tranches: [] });
+        const milestones = (tranches: [number, number][]) => ({
+            kind: releaseKind.milestones,
+            cliff: 0,
+            duration: 0,
+            tranches: tranches.map(([delay, percentage]) => ({ delay, percentage })),
+        });
+
+        // raises exactly the target amount with commons
+        const reachTarget = async () => {
+            await time.increaseTo(startTime + peaqDuration.t4_legendary + peaqDuration.t3_epic);
+            await fundraisingCenter.connect(user1).contribute(0, 37, { value: targetAmount });
+            await time.increaseTo(endTime);
+        };
+
+        beforeEach(async function () {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            startTime = await time.latest() + 60; // Start in 1 minute
+            endTime = startTime + 3600;
+            await createFundraising(moderator, startTime, 3600, targetAmount);
+        });
+
+        afterEach(async function () {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("should only let the moderator set a valid release schedule while in creation", async function () {
+            const schedule = milestones([[0, 25_00], [30 * day, 75_00]]);
+            await expect(fundraisingCenter.connect(user1).setVesting(0, schedule)).to.be.revertedWith("only moderator");
+            for (const invalid of [
+                { ...immediate, cliff: 1 },
+                linear(0, 0),
+                linear(2 * day, day),
+                { ...linear(0, day), tranches: schedule.tranches },
+                milestones([]),
+                milestones([[0, 25_00], [30 * day, 70_00]]),
+                milestones([[30 * day, 25_00], [30 * day, 75_00]]),
+                { ...schedule, duration: day },
+                milestones(Array.from({ length: 17 }, (_, i): [number, number] => [i, i === 0 ? 100_00 - 16 : 1])),
+            ]) {
+                await expect(fundraisingCenter.connect(moderator).setVesting(0, invalid)).to.be.revertedWith("Invalid vesting");
+            }
+            await expect(fundraisingCenter.connect(moderator).setVesting(0, schedule)).to.emit(fundraisingCenter, "VestingUpdated");
+
+            const stored = await fundraisingCenter.getVesting(0);
+            expect(stored.kind).to.equal(releaseKind.milestones);
+            expect(stored.tranches.map((tranche) => [Number(tranche.delay), Number(tranche.percentage)])).to.deep.equal([[0, 25_00], [30 * day, 75_00]]);
+
+            await time.setNextBlockTimestamp(startTime);
+            await expect(fundraisingCenter.connect(moderator).setVesting(0, immediate)).to.be.revertedWith("Fundraising not in creation");
+        });
+
+        it("should release the whole fund at once by default", async function () {
+            await reachTarget();
+            expect(await fundraisingCenter.getFundRelease(0)).to.deep.equal([0n, targetAmount, targetAmount]);
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.changeEtherBalance(moderator, targetAmount);
+            expect(await fundraisingCenter.getFundRelease(0)).to.deep.equal([targetAmount, 0n, 0n]);
+            expect((await fundraisingCenter.getFundraising(0)).fundClaimed).to.be.true;
+        });
+
+        it("should release nothing before the cliff, then the fund linearly", async function () {
+            await fundraisingCenter.connect(moderator).setVesting(0, linear(30 * day, 120 * day));
+            await reachTarget();
+
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.be.revertedWith("Nothing vested");
+            await time.increaseTo(endTime + 30 * day - 1);
+            expect((await fundraisingCenter.getFundRelease(0)).releasable).to.equal(0n);
+
+            // a quarter of the duration
+            await time.setNextBlockTimestamp(endTime + 30 * day);
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.changeEtherBalance(moderator, targetAmount / 4n);
+            expect((await fundraisingCenter.getFundraising(0)).fundClaimed).to.be.false;
+
+            await time.setNextBlockTimestamp(endTime + 60 * day);
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.changeEtherBalance(moderator, targetAmount / 4n);
+            expect(await fundraisingCenter.getFundRelease(0)).to.deep.equal([targetAmount / 2n, 0n, targetAmount / 2n]);
+            expect(await fundraisingCenter.getVestedFund(0, endTime + 90 * day)).to.equal((targetAmount * 3n) / 4n);
+
+            await time.increaseTo(endTime + 365 * day);
+            expect((await fundraisingCenter.getFundRelease(0)).releasable).to.equal(targetAmount / 2n);
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.changeEtherBalance(moderator, targetAmount / 2n);
+            expect((await fundraisingCenter.getFundraising(0)).fundClaimed).to.be.true;
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.be.revertedWith("already claimed");
+        });
+
+        it("should release each milestone tranche once its delay has passed", async function () {
+            await fundraisingCenter.connect(moderator).setVesting(0, milestones([[0, 25_00], [7 * day, 25_00], [30 * day, 50_00]]));
+            await reachTarget();
+
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.changeEtherBalance(moderator, targetAmount / 4n);
+            await time.setNextBlockTimestamp(endTime + 7 * day - 1);
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.be.revertedWith("Nothing vested");
+
+            // the two last tranches are claimed together
+            await time.increaseTo(endTime + 30 * day);
+            expect(await fundraisingCenter.getFundRelease(0)).to.deep.equal([targetAmount / 4n, (targetAmount * 3n) / 4n, (targetAmount * 3n) / 4n]);
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.changeEtherBalance(moderator, (targetAmount * 3n) / 4n);
+            expect(await ethers.provider.getBalance(await fundraisingCenter.getAddress())).to.equal(0n);
+        });
+
+        it("should vest the fund net of the referral rewards", async function () {
+            await fundraisingCenter.connect(moderator).setReferralPercentage(0, 10_00);
+            await fundraisingCenter.connect(moderator).setVesting(0, linear(0, 10 * day));
+            await time.increaseTo(startTime + peaqDuration.t4_legendary + peaqDuration.t3_epic);
+            await fundraisingCenter.connect(user1).contributeWithReferrer(0, 37, [], await user2.getAddress(), { value: targetAmount });
+            const fund = targetAmount - targetAmount / 10n;
+
+            await time.setNextBlockTimestamp(endTime + 5 * day);
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.changeEtherBalance(moderator, fund / 2n);
+            expect(await fundraisingCenter.getFundRelease(0)).to.deep.equal([fund / 2n, 0n, fund / 2n]);
+            await fundraisingCenter.connect(user2).claimReferralReward(0);
+            expect(await ethers.provider.getBalance(await fundraisingCenter.getAddress())).to.equal(fund / 2n);
+        });
+    });
+
+    describe("12. Emergency", function () {
+        let snapshotId: string;
+        let startTime: number;
+        let commonPhase: number;
+        let endTime: number;
+        let guardian: Signer;
+
+        const selector = (name: string) => (fundraisingCenter.interface as Interface).getFunction(name)!.selector;
+
+        // pauses `name` as the guardian and expects `call` to revert
+        const expectPaused = async (name: string, call: () => Promise<unknown>) => {
+            await fundraisingCenter.connect(guardian).setFunctionPaused(selector(name), true);
+            await expect(call()).to.be.revertedWith("Function paused");
+        };
+
+        beforeEach(async function () {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            guardian = addresses[1];
+            await fundraisingCenter.connect(admin).grantRole(await fundraisingCenter.PAUSER_ROLE(), await guardian.getAddress());
+            startTime = await time.latest() + 60; // Start in 1 minute
+            commonPhase = startTime + peaqDuration.t4_legendary + peaqDuration.t3_epic;
+            endTime = startTime + 3600;
+            await createFundraising(moderator, startTime, 3600, targetAmount);
+        });
+
+        afterEach(async function () {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("should let pausers stop an entry point and only the admin resume it", async function () {
+            await expect(fundraisingCenter.connect(user1).setFunctionPaused(selector("contribute"), true)).to.be.revertedWith(
+                `AccessControl: account ${(await user1.getAddress()).toLowerCase()} is missing role ${await fundraisingCenter.PAUSER_ROLE()}`
+            );
+            await expect(fundraisingCenter.connect(guardian).setFunctionPaused(selector("contribute"), true))
+                .to.emit(fundraisingCenter, "FunctionPauseUpdated")
+                .withArgs(selector("contribute"), true);
+            expect(await fundraisingCenter.pausedFunctions(selector("contribute"))).to.equal(true);
+
+            await time.increaseTo(commonPhase);
+            await expect(fundraisingCenter.connect(user1).contribute(0, 1, { value: peaqPrice.t1_common })).to.be.revertedWith("Function paused");
+            // every variant has a switch of its own
+            await fundraisingCenter.connect(user1).contributeWithProof(0, 1, [], { value: peaqPrice.t1_common });
+
+            await expect(fundraisingCenter.connect(guardian).setFunctionPaused(selector("contribute"), false)).to.be.revertedWith(
+                `AccessControl: account ${(await guardian.getAddress()).toLowerCase()} is missing role ${ZERO_BYTES32}`
+            );
+            await fundraisingCenter.connect(admin).setFunctionPaused(selector("contribute"), false);
+            await fundraisingCenter.connect(user1).contribute(0, 1, { value: peaqPrice.t1_common });
+            expect((await fundraisingCenter.getUserContribution(0, await user1.getAddress())).totalContribution).to.equal(2n);
+        });
+
+        it("should stop every entry point acting on a fundraising while paused", async function () {
+            const tiers = (await fundraisingCenter.getFundraisingTiers(0)).map((tier) => ({
+                nftType: tier.nftType,
+                whitelistOnly: tier.whitelistOnly,
+                basePrice: tier.basePrice,
+                maxBuyAmount: tier.maxBuyAmount,
+                duration: tier.duration,
+            }));
+            const token = await (await ethers.getContractFactory("MockERC20")).deploy("USD Coin", "USDC", 6);
+            await fundraisingCenter.connect(moderator).createFundraisingWithTiers(startTime, 3600, 1, tiers, await token.getAddress());
+            await fundraisingCenter.connect(moderator).setReferralPercentage(0, 10_00);
+            await fundraisingCenter.connect(admin).setGovernor(await admin.getAddress());
+            const users = [await user1.getAddress()];
+            const noPricing = tiers.map(() => ({ curve: priceCurve.fixed, step: 0, interval: 0, floorPrice: 0 }));
+            const immediate = { kind: releaseKind.immediate, cliff: 0, duration: 0, tranches: [] };
+
+            const byModerator = fundraisingCenter.connect(moderator);
+            await expectPaused("createFundraising", () => createFundraising(moderator, startTime, 3600, targetAmount));
+            await expectPaused("createFundraisingWithTiers", () => byModerator.createFundraisingWithTiers(startTime, 3600, 1, tiers, ZERO_ADDRESS));
+            await expectPaused("setBasePrice", () => byModerator.setBasePrice(0, peaqType.t1_common, peaqPrice.t3_epic));
+            await expectPaused("setWalletLimits", () => byModerator.setWalletLimits(0, { minContribution: 0, maxWalletValue: 0, maxPerWallet: [0, 0, 0] }));
+            await expectPaused("setHardCap", () => byModerator.setHardCap(0, 0, false));
+            await expectPaused("setPricing", () => byModerator.setPricing(0, noPricing));
+            await expectPaused("setReferralPercentage", () => byModerator.setReferralPercentage(0, 0));
+            await expectPaused("setVesting", () => byModerator.setVesting(0, immediate));
+            await expectPaused("cancelFundraising", () => byModerator.cancelFundraising(0));
+            await expectPaused("addToWhitelist", () => byModerator.addToWhitelist(0, users[0]));
+            await expectPaused("removeFromWhitelist", () => byModerator.removeFromWhitelist(0, users[0]));
+            await expectPaused("addToWhitelistBatch", () => byModerator.addToWhitelistBatch(0, users));
+            await expectPaused("removeFromWhitelistBatch", () => byModerator.removeFromWhitelistBatch(0, users));
+            await expectPaused("setWhitelistRoot", () => byModerator.setWhitelistRoot(0, ZERO_BYTES32));
+
+            // raises the target with a referrer before the contributions are paused
+            await time.increaseTo(commonPhase);
+            await fundraisingCenter.connect(user1).contributeWithReferrer(0, 37, [], await user2.getAddress(), { value: targetAmount });
+            const value = { value: peaqPrice.t1_common };
+            const permit = { value: 0, deadline: 0, v: 27, r: ZERO_BYTES32, s: ZERO_BYTES32 };
+            await expectPaused("contribute", () => fundraisingCenter.connect(user2).contribute(0, 1, value));
+            await expectPaused("contributeWithProof", () => fundraisingCenter.connect(user2).contributeWithProof(0, 1, [], value));
+            await expectPaused("contributeWithReferrer", () => fundraisingCenter.connect(user2).contributeWithReferrer(0, 1, [], users[0], value));
+            await expectPaused("contributeWithPermit", () => fundraisingCenter.connect(user2).contributeWithPermit(1, 1, [], permit));
+
+            await time.increaseTo(endTime);
+            await expectPaused("claimNft", () => fundraisingCenter.connect(user1).claimNft(0, 1));
+            await expectPaused("claimAllNft", () => fundraisingCenter.connect(user1).claimAllNft(0));
+            await expectPaused("claimFund", () => byModerator.claimFund(0));
+            await expectPaused("claimReferralReward", () => fundraisingCenter.connect(user2).claimReferralReward(0));
+            await expectPaused("payGovernedFund", () => fundraisingCenter.connect(admin).payGovernedFund(0, users[0], 1));
+            await expectPaused("refund", () => fundraisingCenter.connect(user1).refund(0));
+            expect(await fundraisingCenter.getFundraisingStatus(0)).to.equal(fundrationStatus.success);
+        });
+
+        it("should let the admin freeze a fundraising in creation and lift the freeze", async function () {
+            await expect(fundraisingCenter.connect(guardian).setFrozen(0, true)).to.be.revertedWith(
+                `AccessControl: account ${(await guardian.getAddress()).toLowerCase()} is missing role ${ZERO_BYTES32}`
+            );
+            await expect(fundraisingCenter.connect(admin).setFrozen(0, true)).to.emit(fundraisingCenter, "FundraisingFrozen").withArgs(0, true);
+            expect(await fundraisingCenter.isFrozen(0)).to.equal(true);
+            await expect(fundraisingCenter.connect(moderator).setBasePrice(0, peaqType.t1_common, peaqPrice.t3_epic)).to.be.revertedWith("Fundraising frozen");
+            await expect(fundraisingCenter.connect(moderator).addToWhitelist(0, await user1.getAddress())).to.be.revertedWith("Fundraising frozen");
+
+            await expect(fundraisingCenter.connect(admin).setFrozen(0, false)).to.emit(fundraisingCenter, "FundraisingFrozen").withArgs(0, false);
+            await fundraisingCenter.connect(moderator).setBasePrice(0, peaqType.t1_common, peaqPrice.t3_epic);
+        });
+
+        it("should refund the backers of a frozen fundraising in an emergency", async function () {
+            await time.increaseTo(commonPhase);
+            await fundraisingCenter.connect(user1).contribute(0, 35, { value: peaqPrice.t1_common * 35n });
+            await fundraisingCenter.connect(user2).contribute(0, 2, { value: peaqPrice.t1_common * 2n });
+            await expect(fundraisingCenter.connect(admin).enableEmergencyRefund(0)).to.be.revertedWith("Fundraising not frozen");
+
+            await fundraisingCenter.connect(admin).setFrozen(0, true);
+            await expect(fundraisingCenter.connect(user1).contribute(0, 5, { value: peaqPrice.t1_common * 5n })).to.be.revertedWith("Fundraising frozen");
+            await expect(fundraisingCenter.connect(user1).refund(0)).to.be.revertedWith("Fundraising frozen");
+
+            await expect(fundraisingCenter.connect(admin).enableEmergencyRefund(0))
+                .to.emit(fundraisingCenter, "FundraisingFrozen")
+                .withArgs(0, false)
+                .and.to.emit(fundraisingCenter, "EmergencyRefundEnabled")
+                .withArgs(0);
+            expect(await fundraisingCenter.getFundraisingStatus(0)).to.equal(fundrationStatus.failed);
+            expect(await fundraisingCenter.isFrozen(0)).to.equal(false);
+
+            // the target was reached, the raise still ends failed
+            await time.increaseTo(endTime);
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.be.revertedWith("Fundraising not successful");
+            await expect(fundraisingCenter.connect(user1).refund(0)).to.changeEtherBalance(user1, peaqPrice.t1_common * 35n);
+            await expect(fundraisingCenter.connect(user2).refund(0)).to.changeEtherBalance(user2, peaqPrice.t1_common * 2n);
+            expect(await ethers.provider.getBalance(await fundraisingCenter.getAddress())).to.equal(0n);
+            await expect(fundraisingCenter.connect(admin).setFrozen(0, true)).to.be.revertedWith("Fundraising ended");
+        });
+    });
+
+    describe("13. Force fail", function () {
+        let snapshotId: string;
+        let startTime: number;
+        let epicPhase: number;
+
+        const day = 24 * 60 * 60;
+        const reason = "Project abandoned";
+
+        beforeEach(async function () {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            startTime = await time.latest() + 60; // Start in 1 minute
+            epicPhase = startTime + peaqDuration.t4_legendary;
+            await createFundraising(moderator, startTime, 2 * day, targetAmount);
+            await fundraisingCenter.connect(moderator).addToWhitelist(0, await user1.getAddress());
+            await expect(fundraisingCenter.connect(admin).forceFail(0, reason)).to.be.revertedWith("Fundraising not open");
+            await expect(fundraisingCenter.connect(moderator).requestForceFail(0, reason)).to.be.revertedWith("Fundraising not open");
+
+            // user1 pays 8 for 2 legendaries then 3 for an epic, user2 9 for 3 epics
+            await time.increaseTo(startTime);
+            await fundraisingCenter.connect(user1).contribute(0, 2, { value: peaqPrice.t4_legendary * 2n });
+            await time.increaseTo(epicPhase);
+            await fundraisingCenter.connect(user1).contribute(0, 1, { value: peaqPrice.t3_epic });
+            await fundraisingCenter.connect(user2).contribute(0, 3, { value: peaqPrice.t3_epic * 3n });
+        });
+
+        afterEach(async function () {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("should let the admin fail an open fundraising mid-phase and refund every contributor", async function () {
+            await time.increaseTo(epicPhase + peaqDuration.t3_epic / 2);
+            await expect(fundraisingCenter.connect(admin).forceFail(0, reason))
+                .to.emit(fundraisingCenter, "FundraisingForceFailed")
+                .withArgs(0, await admin.getAddress(), reason);
+            expect(await fundraisingCenter.getFundraisingStatus(0)).to.equal(fundrationStatus.failed);
+
+            await expect(fundraisingCenter.connect(admin).forceFail(0, reason)).to.be.revertedWith("Fundraising not open");
+            await expect(fundraisingCenter.connect(user2).contribute(0, 1, { value: peaqPrice.t3_epic })).to.be.revertedWith("Not open");
+            await expect(fundraisingCenter.connect(moderator).claimFund(0)).to.be.revertedWith("Fundraising not successful");
+            await expect(fundraisingCenter.connect(user1).claimAllNft(0)).to.be.revertedWith("Raise not success");
+
+            await expect(fundraisingCenter.connect(user1).refund(0)).to.changeEtherBalance(user1, peaqPrice.t4_legendary * 2n + peaqPrice.t3_epic);
+            await expect(fundraisingCenter.connect(user2).refund(0)).to.changeEtherBalance(user2, peaqPrice.t3_epic * 3n);
+            expect(await ethers.provider.getBalance(await fundraisingCenter.getAddress())).to.equal(0n);
+        });
+
+        it("should let the moderator fail their open fundraising once the timelock of their request has passed", async function () {
+            await expect(fundraisingCenter.connect(user1).requestForceFail(0, reason)).to.be.revertedWith("only moderator");
+            await expect(fundraisingCenter.connect(user1).forceFail(0, reason)).to.be.revertedWith("only moderator");
+            await expect(fundraisingCenter.connect(moderator).forceFail(0, reason)).to.be.revertedWith("Timelock not passed");
+
+            const forceFailTime = (await time.latest()) + 1 + day;
+            await expect(fundraisingCenter.connect(moderator).requestForceFail(0, reason))
+                .to.emit(fundraisingCenter, "ForceFailRequested")
+                .withArgs(0, forceFailTime, reason);
+            expect(await fundraisingCenter.getForceFailTime(0)).to.equal(forceFailTime);
+            await expect(fundraisingCenter.connect(moderator).requestForceFail(0, reason)).to.be.revertedWith("Force fail requested");
+            await expect(fundraisingCenter.connect(moderator).forceFail(0, reason)).to.be.revertedWith("Timelock not passed");
+
+            // contributions go on during the timelock, and are refunded as well
+            await fundraisingCenter.connect(user2).contribute(0, 1, { value: peaqPrice.t3_epic });
+            await time.setNextBlockTimestamp(forceFailTime);
+            await expect(fundraisingCenter.connect(moderator).forceFail(0, reason))
+                .to.emit(fundraisingCenter, "FundraisingForceFailed")
+                .withArgs(0, await moderator.getAddress(), reason);
+            await expect(fundraisingCenter.connect(user2).refund(0)).to.changeEtherBalance(user2, peaqPrice.t3_epic * 4n);
+        });
+    });
+
+    describe("14. Creation parameters", function () {
+        let snapshotId: string;
+        let startTime: number;
+
+        const duration = 60 * 60;
+
+        beforeEach(async function () {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            startTime = await time.latest() + 60; // Start in 1 minute
+            await createFundraising(moderator, startTime, duration, targetAmount);
+        });
+
+        afterEach(async function () {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("should only let the moderator change valid creation parameters", async function () {
+            await expect(fundraisingCenter.connect(user1).setStartTime(0, startTime)).to.be.revertedWith("only moderator");
+            await expect(fundraisingCenter.connect(user1).setDuration(0, duration)).to.be.revertedWith("only moderator");
+            await expect(fundraisingCenter.connect(user1).setTargetAmount(0, targetAmount)).to.be.revertedWith("only moderator");
+            await expect(fundraisingCenter.connect(user1).setMaxBuyAmount(0, peaqType.t3_epic, 1)).to.be.revertedWith("only moderator");
+
+            await expect(fundraisingCenter.connect(moderator).setStartTime(0, (await time.latest()) + maxStartTime + 2)).to.be.revertedWith(
+                "Start time too late"
+            );
+            await expect(fundraisingCenter.connect(moderator).setDuration(0, maxDuration + 1)).to.be.revertedWith("Duration too long");
+            await expect(fundraisingCenter.connect(moderator).setMaxBuyAmount(0, peaqType.t3_epic, 0)).to.be.revertedWith("invalid max buy amount");
+            await expect(fundraisingCenter.connect(moderator).setMaxBuyAmount(0, 4, 1)).to.be.revertedWith("Unknown tier");
+            await fundraisingCenter.connect(moderator).setHardCap(0, targetAmount, false);
+            await expect(fundraisingCenter.connect(moderator).setTargetAmount(0, targetAmount + 1n)).to.be.revertedWith("Invalid target amount");
+        });
+
+        it("should update the schedule, target and caps of a fundraising in creation", async function () {
+            // the start time moves the end along, the duration counts from the start
+            const newStartTime = startTime + 600;
+            await expect(fundraisingCenter.connect(moderator).setStartTime(0, newStartTime))
+                .to.emit(fundraisingCenter, "StartTimeUpdated")
+                .withArgs(0, newStartTime);
+            expect((await fundraisingCenter.getFundraising(0)).targetTime).to.equal(newStartTime + duration);
+            await expect(fundraisingCenter.connect(moderator).setDuration(0, 2 * duration))
+                .to.emit(fundraisingCenter, "DurationUpdated")
+                .withArgs(0, 2 * duration);
+            expect((await fundraisingCenter.getFundraising(0)).targetTime).to.equal(newStartTime + 2 * duration);
+
+            await expect(fundraisingCenter.connect(moderator).setTargetAmount(0, peaqPrice.t3_epic))
+                .to.emit(fundraisingCenter, "TargetAmountUpdated")
+                .withArgs(0, peaqPrice.t3_epic);
+            await expect(fundraisingCenter.connect(moderator).setMaxBuyAmount(0, peaqType.t3_epic, 1))
+                .to.emit(fundraisingCenter, "MaxBuyAmountUpdated")
+                .withArgs(0, peaqType.t3_epic, 1);
+            expect(await fundraisingCenter.getFundraisingMaxBuyAmount(0, peaqType.t3_epic)).to.equal(1n);
+
+            // the old start time does not open the raise anymore, the new one does with the new caps
+            await time.increaseTo(startTime);
+            expect(await fundraisingCenter.getFundraisingStatus(0)).to.equal(fundrationStatus.creation);
+            await time.increaseTo(newStartTime + peaqDuration.t4_legendary);
+            // a single epic is left, the second NFT is a common
+            await fundraisingCenter.connect(user1).contribute(0, 2, { value: peaqPrice.t3_epic + peaqPrice.t1_common });
+            expect(await fundraisingCenter.getFundraisingBoughtAmount(0, peaqType.t3_epic)).to.equal(1n);
+            expect(await fundraisingCenter.getFundraisingBoughtAmount(0, peaqType.t1_common)).to.equal(1n);
+            await expect(fundraisingCenter.connect(moderator).setDuration(0, duration)).to.be.revertedWith("Fundraising not in creation");
+
+            await time.increaseTo(newStartTime + 2 * duration);
+            expect(await fundraisingCenter.getFundraisingStatus(0)).to.equal(fundrationStatus.success);
+        });
+    });
 });
 
 const lastBlockTimestamp = async () => {
@@ -0,0 +1,245 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FundraisingCenter, PeaqNFT } from "../typechain-types";
+import { FundraisingClient, NftType, ReleaseKind, UNCAPPED } from "../sdk";
+import { Indexer, IndexerStore, ReorgError } from "../indexer";
+import { deployFundraisingCenter } from "./fixtures";
+
+const legendaryDuration = 10 * 60; // 10 minutes
+const duration = 2 * 60 * 60; // 2 hours
+
+describe("Indexer", function () {
+    let moderator: Signer;
+    let user1: Signer;
+    let user2: Signer;
+    let user3: Signer;
+
+    let fundraisingCenter: FundraisingCenter;
+    let peaqNFT: PeaqNFT;
+    let client: FundraisingClient;
+    let deployBlock: number;
+    let refundValue: bigint;
+    let fixtureId: string;
+    let snapshotId: string;
+
+    const createIndexer = (store: IndexerStore, confirmations: number, batchSize?: number) =>
+        new Indexer({
+            provider: ethers.provider,
+            fundraisingCenter: fundraisingCenter.target as string,
+            peaqNFT: peaqNFT.target as string,
+            store,
+            startBlock: deployBlock,
+            confirmations,
+            batchSize,
+        });
+
+    const createFundraising = async (targetAmount: string) => {
+        const startTime = (await time.latest()) + 60;
+        const { fundraisingId } = await client.connect(moderator).createFundraising({
+            startTime,
+            duration,
+            targetAmount: ethers.parseEther(targetAmount),
+            basePrices: {
+                [NftType.LEGENDARY]: ethers.parseEther("4"),
+                [NftType.EPIC]: ethers.parseEther("3"),
+                [NftType.COMMON]: ethers.parseEther("1"),
+            },
+            maxBuyAmounts: { [NftType.LEGENDARY]: 3n, [NftType.EPIC]: 5n },
+        });
+        return { fundraisingId, startTime };
+    };
+
+    before(async function () {
+        // The scenario moves time forward, restore it for the suites relying on the wall clock
+        fixtureId = await ethers.provider.send("evm_snapshot", []);
+        const [admin] = await ethers.getSigners();
+        [, moderator, user1, user2, user3] = await ethers.getSigners();
+
+        const PeaqNFT = await ethers.getContractFactory("PeaqNFT");
+        peaqNFT = (await upgrades.deployProxy(PeaqNFT, { initializer: "initialize" })) as unknown as PeaqNFT;
+
+        fundraisingCenter = await deployFundraisingCenter(admin, [
+            await peaqNFT.getAddress(),
+            3 * 24 * 60 * 60,
+            3 * 24 * 60 * 60,
+            legendaryDuration,
+            30 * 60,
+        ]);
+        deployBlock = (await fundraisingCenter.deploymentTransaction()!.wait())!.blockNumber;
+
+        await peaqNFT.connect(admin).grantRole(await peaqNFT.MINTER_ROLE(), await fundraisingCenter.getAddress());
+        await fundraisingCenter.connect(admin).grantRole(await fundraisingCenter.MODERATOR_ROLE(), await moderator.getAddress());
+        client = FundraisingClient.connect(await fundraisingCenter.getAddress(), ethers.provider);
+
+        // #0 succeeds, #1 fails and #2 is cancelled
+        const success = await createFundraising("10");
+        const failed = await createFundraising("100");
+        const cancelled = await createFundraising("1");
+        await client.connect(moderator).addToWhitelistBatch(success.fundraisingId, [await user1.getAddress(), await user3.getAddress()]);
+        await client.connect(moderator).removeFromWhitelist(success.fundraisingId, await user3.getAddress());
+        await client.connect(moderator).cancelFundraising(cancelled.fundraisingId);
+
+        await time.increaseTo(success.startTime);
+        await client.connect(user1).quoteAndContribute(success.fundraisingId, 2);
+        await time.increaseTo(success.startTime + legendaryDuration);
+        await client.connect(user2).quoteAndContribute(success.fundraisingId, 2);
+        await client.connect(user1).quoteAndContribute(success.fundraisingId, 2);
+        await time.increaseTo(failed.startTime + legendaryDuration + 60);
+        ({ quote: { totalValue: refundValue } } = await client.connect(user2).quoteAndContribute(failed.fundraisingId, 1));
+
+        await time.increaseTo(success.startTime + duration);
+        await client.connect(user1).claimNft(success.fundraisingId);
+        await client.connect(moderator).claimFund(success.fundraisingId);
+        await client.connect(user2).refund(failed.fundraisingId);
+        // A secondary sale, so ownership differs from who contributed
+        const [mint] = await peaqNFT.queryFilter(peaqNFT.filters.Transfer(ethers.ZeroAddress, await user1.getAddress()));
+        await peaqNFT.connect(user1).transferFrom(await user1.getAddress(), await user3.getAddress(), mint.args.tokenId);
+    });
+
+    after(async function () {
+        await ethers.provider.send("evm_revert", [fixtureId]);
+    });
+
+    beforeEach(async function () {
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+    });
+
+    afterEach(async function () {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    it("should rebuild fundraisings, contributors, whitelists and NFT owners", async function () {
+        const store = await IndexerStore.open();
+        const result = await createIndexer(store, 2).sync();
+
+        expect(result.fromBlock).to.equal(deployBlock);
+        expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+
+        const fundraisings = store.getFundraisings();
+        expect(fundraisings.map((fundraising) => fundraising.id)).to.deep.equal([0n, 1n, 2n]);
+        expect(fundraisings[0]).to.deep.include({
+            moderator: await moderator.getAddress(),
+            targetAmount: ethers.parseEther("10"),
+            duration: BigInt(duration),
+            cancelled: false,
+            claimedFund: ethers.parseEther("4") * 2n + ethers.parseEther("3") * 4n,
+        });
+        expect(fundraisings[1]).to.deep.include({ cancelled: false, claimedFund: undefined });
+        expect(fundraisings[2]).to.deep.include({ cancelled: true });
+
+        const contributors = store.getContributors(0n);
+        expect(contributors.map((contributor) => contributor.user)).to.deep.equal([await user1.getAddress(), await user2.getAddress()]);
+        expect(contributors[0]).to.deep.include({ totalAmount: 4n, nftClaimed: true });
+        expect(contributors[0].refund).to.be.undefined;
+        expect(contributors[0].byType).to.deep.include({ [NftType.LEGENDARY]: 2n, [NftType.EPIC]: 2n });
+        expect(contributors[1]).to.deep.include({ totalAmount: 2n, nftClaimed: false });
+        expect(contributors[1].byType).to.deep.include({ [NftType.LEGENDARY]: 0n, [NftType.EPIC]: 2n });
+
+        const refunded = store.getContributors(1n);
+        expect(refunded).to.have.length(1);
+        expect(refunded[0].refund).to.equal(refundValue);
+
+        expect(store.getWhitelist(0n)).to.deep.equal([await user1.getAddress()]);
+
+        for (const user of [user1, user3]) {
+            const tokens = store.getTokensOf(await user.getAddress());
+            expect(tokens).to.have.length(Number(await peaqNFT.balanceOf(await user.getAddress())));
+            for (const tokenId of tokens) {
+                expect(await peaqNFT.ownerOf(tokenId)).to.equal(await user.getAddress());
+                expect(store.getOwner(tokenId)).to.equal(await user.getAddress());
+            }
+        }
+        expect(store.getTokensOf(await user3.getAddress())).to.have.length(1);
+    });
+
+    it("should sum the releases of a vested fund", async function () {
+        const { fundraisingId, startTime } = await createFundraising("1");
+        await client.connect(moderator).setVesting(fundraisingId, { kind: ReleaseKind.LINEAR, duration: 100n });
+        await time.increaseTo(startTime + legendaryDuration);
+        await client.connect(user2).quoteAndContribute(fundraisingId, 1);
+        await time.increaseTo(startTime + duration + 50);
+        await client.connect(moderator).claimFund(fundraisingId);
+        await time.increaseTo(startTime + duration + 100);
+        await client.connect(moderator).claimFund(fundraisingId);
+
+        const store = await IndexerStore.open();
+        await createIndexer(store, 0).sync();
+        expect(store.getFundraising(fundraisingId)?.claimedFund).to.equal(ethers.parseEther("3"));
+    });
+
+    it("should apply the creation parameters edited before the start", async function () {
+        const { fundraisingId, startTime } = await createFundraising("1");
+        await client.connect(moderator).updateFundraising(fundraisingId, {
+            startTime: startTime + 600,
+            duration: duration * 2,
+            targetAmount: ethers.parseEther("2"),
+            maxBuyAmounts: { [NftType.EPIC]: 7n },
+        });
+
+        const store = await IndexerStore.open();
+        await createIndexer(store, 0).sync();
+        const fundraising = store.getFundraising(fundraisingId)!;
+        expect(fundraising).to.deep.include({
+            startTime: BigInt(startTime + 600),
+            duration: BigInt(duration * 2),
+            targetAmount: ethers.parseEther("2"),
+        });
+        expect(fundraising.maxBuyAmounts).to.deep.equal({ [NftType.LEGENDARY]: 3n, [NftType.EPIC]: 7n, [NftType.COMMON]: UNCAPPED });
+    });
+
+    it("should resume from the checkpoint saved in the database file", async function () {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "indexer.sqlite");
+        const head = await ethers.provider.getBlockNumber();
+        const middle = deployBlock + Math.floor((head - deployBlock) / 2);
+
+        const first = await IndexerStore.open(file);
+        await createIndexer(first, 2, 3).sync(middle);
+        expect(first.getCheckpoint()).to.deep.include({ blockNumber: middle, safeBlockNumber: middle - 2 });
+        first.close();
+
+        const resumed = await IndexerStore.open(file);
+        const result = await createIndexer(resumed, 2, 3).sync();
+        expect(result.fromBlock).to.equal(middle - 1);
+
+        const full = await IndexerStore.open();
+        await createIndexer(full, 2).sync();
+        expect(resumed.getFundraisings()).to.deep.equal(full.getFundraisings());
+        expect(resumed.getContributors(0n)).to.deep.equal(full.getContributors(0n));
+        expect(resumed.getTokensOf(await user3.getAddress())).to.deep.equal(full.getTokensOf(await user3.getAddress()));
+    });
+
+    it("should drop events of blocks reorged within the confirmation window", async function () {
+        const store = await IndexerStore.open();
+        const indexer = createIndexer(store, 5);
+        const { fundraisingId } = await createFundraising("1");
+        await indexer.sync();
+
+        const fork = await ethers.provider.send("evm_snapshot", []);
+        await client.connect(moderator).addToWhitelist(fundraisingId, await user2.getAddress());
+        await indexer.sync();
+        expect(store.getWhitelist(fundraisingId)).to.deep.equal([await user2.getAddress()]);
+
+        // Replace the block with another one at the same height
+        await ethers.provider.send("evm_revert", [fork]);
+        await client.connect(moderator).addToWhitelist(fundraisingId, await user3.getAddress());
+        await indexer.sync();
+        expect(store.getWhitelist(fundraisingId)).to.deep.equal([await user3.getAddress()]);
+    });
+
+    it("should refuse to sync past a reorg deeper than the confirmation window", async function () {
+        const store = await IndexerStore.open();
+        const fork = await ethers.provider.send("evm_snapshot", []);
+        await createFundraising("1");
+        await createIndexer(store, 0).sync();
+
+        await ethers.provider.send("evm_revert", [fork]);
+        await createFundraising("2");
+        const error = await createIndexer(store, 0).sync().catch((e: Error) => e);
+        expect(error).to.be.instanceOf(ReorgError);
+    });
+});
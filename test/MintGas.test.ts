@@ -0,0 +1,90 @@
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FundraisingCenter, PeaqNFT } from "../typechain-types";
+import { NftType, UNCAPPED } from "../sdk";
+import { deployFundraisingCenter } from "./fixtures";
+
+const SIZES = [10, 100, 1000];
+const BLOCK_GAS_LIMIT = 30_000_000n;
+const MAX_GAS_PER_TOKEN = 2_500n; // each NFT claimed on top of others, in a batch mint
+const basePrice = ethers.parseUnits("1", "gwei");
+const duration = 60 * 60; // 1 hour
+
+// Gas of `claimAllNft` for a single tier of commons, minted by PeaqNFT or by the per-token loop it replaced
+describe("Claim gas benchmark", function () {
+    let admin: Signer;
+    let user: Signer;
+    let snapshotId: string;
+    const results: Record<string, Record<number, bigint | undefined>> = { loop: {}, batch: {} };
+
+    before(async function () {
+        // Raises move time forward, restore it for the suites relying on the wall clock
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+        [admin, user] = await ethers.getSigners();
+    });
+
+    after(async function () {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    const deploy = async (nftContract: string) => {
+        // Both expose the roles and `mintTaggedBatch` FundraisingCenter uses
+        const nft = (await upgrades.deployProxy(await ethers.getContractFactory(nftContract), { initializer: "initialize" })) as unknown as PeaqNFT;
+        const fundraisingCenter = await deployFundraisingCenter(admin, [await nft.getAddress(), 24 * 60 * 60, 24 * 60 * 60, 0, 0]);
+        await nft.grantRole(await nft.MINTER_ROLE(), await fundraisingCenter.getAddress());
+        await fundraisingCenter.grantRole(await fundraisingCenter.MODERATOR_ROLE(), await admin.getAddress());
+        return fundraisingCenter;
+    };
+
+    // Gas used to claim `size` commons from the first raise of a fresh deployment, undefined when it does not fit in a block
+    const claimGas = async (fundraisingCenter: FundraisingCenter, size: number): Promise<bigint | undefined> => {
+        const fundraisingId = 0;
+        const startTime = (await time.latest()) + 60;
+        await fundraisingCenter.createFundraisingWithTiers(
+            startTime,
+            duration,
+            basePrice,
+            [{ nftType: NftType.COMMON, whitelistOnly: false, basePrice, maxBuyAmount: UNCAPPED, duration: 0 }],
+            ethers.ZeroAddress
+        );
+        await time.increaseTo(startTime);
+        await fundraisingCenter.connect(user).contribute(fundraisingId, size, { value: basePrice * BigInt(size) * 2n });
+        await time.increaseTo(startTime + duration);
+
+        try {
+            const tx = await fundraisingCenter.connect(user).claimAllNft(fundraisingId, { gasLimit: BLOCK_GAS_LIMIT });
+            return (await tx.wait())!.gasUsed;
+        } catch {
+            return undefined;
+        }
+    };
+
+    for (const size of SIZES) {
+        it(`should claim ${size} NFTs for less gas than the per-token loop`, async function () {
+            results.loop[size] = await claimGas(await deploy("MockLoopMintNFT"), size);
+            results.batch[size] = await claimGas(await deploy("PeaqNFT"), size);
+
+            expect(results.batch[size]).to.not.be.undefined;
+            if (results.loop[size] !== undefined) {
+                expect(results.batch[size]!).to.be.lessThan(results.loop[size]!);
+                // past the fixed cost of the claim, the batch mint saves most of the per-token loop
+                if (size >= 100) {
+                    expect(results.batch[size]! * 4n).to.be.lessThan(results.loop[size]!);
+                }
+            }
+        });
+    }
+
+    it("should claim 1000 NFTs in well under a block", async function () {
+        expect(results.batch[1000]!).to.be.lessThan(BLOCK_GAS_LIMIT / 5n);
+    });
+
+    it(`should claim each additional NFT for at most ${MAX_GAS_PER_TOKEN} gas`, async function () {
+        for (let i = 1; i < SIZES.length; i++) {
+            const extraGas = results.batch[SIZES[i]]! - results.batch[SIZES[i - 1]]!;
+            expect(extraGas).to.be.at.most(MAX_GAS_PER_TOKEN * BigInt(SIZES[i] - SIZES[i - 1]));
+        }
+    });
+});
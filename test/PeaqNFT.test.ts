@@ -3,6 +3,7 @@
 import { expect } from "chai";
 import { Signer } from "ethers";
 import { upgrades, ethers } from "hardhat";
+import { NftType, decodeTokenUri, svgDataUri, tokenMetadataJson, tokenSvg } from "../sdk";
 
 const COMMON = 1;
 const RARE = 2;
@@ -52,6 +53,19 @@ describe("PeaqNFT", function () {
 
         expect(await peaqNFT.ownerOf(tokenId1)).to.equal(minter.address);
         expect(await peaqNFT.ownerOf(tokenId2)).to.equal(minter.address);
+        expect(await peaqNFT.getMintedCount(COMMON)).to.equal(2);
+        expect(await peaqNFT.getMintedCount(EPIC)).to.equal(0);
+    });
+
+    it("should mint any NFT type but NONE", async function () {
+        const MYTHIC = 4;
+
+        await peaqNFT.connect(minter).mint(await addr1.getAddress(), MYTHIC, 1);
+
+        const tokenId = generateTokenId(MYTHIC, 0);
+        expect(await peaqNFT.ownerOf(tokenId)).to.equal(await addr1.getAddress());
+        expect(await peaqNFT.idToType(tokenId)).to.equal(MYTHIC);
+        await expect(peaqNFT.connect(minter).mint(await addr1.getAddress(), 0, 1)).to.be.revertedWith("PeaqNFT: Invalid type");
     });
 
     it("should restrict minting to MINTER_ROLE", async function () {
@@ -116,4 +130,223 @@ describe("PeaqNFT", function () {
         expect(await peaqNFT.supportsInterface(ERC721_INTERFACE_ID)).to.be.true;
         expect(await peaqNFT.supportsInterface(ACCESS_CONTROL_INTERFACE_ID)).to.be.true;
     });
+
+    describe("Batch minting", function () {
+        it("should resolve owners and balances of batch minted tokens", async function () {
+            const [, , , other] = await ethers.getSigners();
+            await expect(peaqNFT.connect(minter).mintBatch(minter.address, NftType.COMMON, 3))
+                .to.emit(peaqNFT, "Transfer")
+                .withArgs(ethers.ZeroAddress, minter.address, generateTokenId(NftType.COMMON, 2));
+            await peaqNFT.connect(minter).mintBatch(other.address, NftType.EPIC, 2);
+            await peaqNFT.connect(minter).mintBatch(other.address, NftType.COMMON, 2);
+
+            expect(await peaqNFT.ownerOf(generateTokenId(NftType.COMMON, 0))).to.equal(minter.address);
+            expect(await peaqNFT.ownerOf(generateTokenId(NftType.COMMON, 2))).to.equal(minter.address);
+            expect(await peaqNFT.ownerOf(generateTokenId(NftType.COMMON, 3))).to.equal(other.address);
+            expect(await peaqNFT.ownerOf(generateTokenId(NftType.EPIC, 1))).to.equal(other.address);
+            expect(await peaqNFT.balanceOf(minter.address)).to.equal(3);
+            expect(await peaqNFT.balanceOf(other.address)).to.equal(4);
+            expect(await peaqNFT.getMintedCount(NftType.COMMON)).to.equal(5);
+            await expect(peaqNFT.ownerOf(generateTokenId(NftType.COMMON, 5))).to.be.revertedWith("ERC721: invalid token ID");
+            await expect(peaqNFT.ownerOf(generateTokenId(NftType.LEGENDARY, 0))).to.be.revertedWith("ERC721: invalid token ID");
+        });
+
+        it("should transfer a token out of its batch without moving the others", async function () {
+            const [, , , other] = await ethers.getSigners();
+            await peaqNFT.connect(minter).mintBatch(minter.address, NftType.COMMON, 3);
+            const tokenId = generateTokenId(NftType.COMMON, 1);
+
+            await peaqNFT.connect(minter).transferFrom(minter.address, other.address, tokenId);
+            expect(await peaqNFT.ownerOf(tokenId)).to.equal(other.address);
+            expect(await peaqNFT.ownerOf(generateTokenId(NftType.COMMON, 0))).to.equal(minter.address);
+            expect(await peaqNFT.ownerOf(generateTokenId(NftType.COMMON, 2))).to.equal(minter.address);
+            expect(await peaqNFT.balanceOf(minter.address)).to.equal(2);
+
+            await peaqNFT.connect(other).transferFrom(other.address, minter.address, tokenId);
+            expect(await peaqNFT.ownerOf(tokenId)).to.equal(minter.address);
+            await expect(peaqNFT.connect(other).transferFrom(minter.address, other.address, tokenId)).to.be.revertedWith(
+                "ERC721: caller is not token owner or approved"
+            );
+        });
+
+        it("should tell the owner of a token at a past block", async function () {
+            const [, , , other] = await ethers.getSigners();
+            await peaqNFT.connect(minter).mintBatch(minter.address, NftType.COMMON, 2);
+            const tokenId = generateTokenId(NftType.COMMON, 1);
+            const minted = await ethers.provider.getBlockNumber();
+
+            await peaqNFT.connect(minter).transferFrom(minter.address, other.address, tokenId);
+            const transferred = await ethers.provider.getBlockNumber();
+            await peaqNFT.connect(other).transferFrom(other.address, await addr1.getAddress(), tokenId);
+            // calls run in the latest block, which is not past yet
+            await expect(peaqNFT.getPastOwner(tokenId, transferred + 1)).to.be.revertedWith("PeaqNFT: Future lookup");
+            await ethers.provider.send("evm_mine", []);
+
+            expect(await peaqNFT.getPastOwner(tokenId, minted)).to.equal(minter.address);
+            expect(await peaqNFT.getPastOwner(tokenId, transferred)).to.equal(other.address);
+            expect(await peaqNFT.getPastOwner(tokenId, transferred + 1)).to.equal(await addr1.getAddress());
+            expect(await peaqNFT.getPastOwner(generateTokenId(NftType.COMMON, 0), minted)).to.equal(minter.address);
+        });
+
+        it("should tell the minter and tag of tokens minted in tagged batches", async function () {
+            await peaqNFT.connect(minter).mintBatch(minter.address, NftType.COMMON, 2);
+            await peaqNFT.connect(minter).mintTaggedBatch(minter.address, NftType.COMMON, 2, 7);
+            await peaqNFT.connect(minter).mintTaggedBatch(minter.address, NftType.COMMON, 1, 0);
+            await peaqNFT.connect(minter).mint(minter.address, NftType.COMMON, 1);
+            await peaqNFT.connect(minter).mintTaggedBatch(minter.address, NftType.COMMON, 1, 7);
+
+            const tags = await Promise.all([0, 1, 2, 3, 4, 5, 6, 7].map((index) => peaqNFT.getMintTag(generateTokenId(NftType.COMMON, index))));
+            const untagged = [ethers.ZeroAddress, 0n];
+            expect(tags.map((tag) => [...tag])).to.deep.equal([
+                untagged,
+                untagged,
+                [minter.address, 7n],
+                [minter.address, 7n],
+                [minter.address, 0n],
+                untagged,
+                [minter.address, 7n],
+                untagged, // not minted
+            ]);
+            await expect(peaqNFT.connect(minter).mintTaggedBatch(minter.address, NftType.COMMON, 1, 2n ** 64n)).to.be.revertedWith("PeaqNFT: Invalid tag");
+            await expect(peaqNFT.mintTaggedBatch(minter.address, NftType.COMMON, 1, 0)).to.be.revertedWith(
+                `AccessControl: account ${owner.address.toLowerCase()} is missing role ${await peaqNFT.MINTER_ROLE()}`
+            );
+        });
+
+        it("should validate batch mints", async function () {
+            await expect(peaqNFT.connect(minter).mintBatch(ethers.ZeroAddress, NftType.COMMON, 1)).to.be.revertedWith("ERC721: mint to the zero address");
+            await expect(peaqNFT.connect(minter).mintBatch(minter.address, NftType.NONE, 1)).to.be.revertedWith("PeaqNFT: Invalid type");
+            await expect(peaqNFT.mintBatch(minter.address, NftType.COMMON, 1)).to.be.revertedWith(
+                `AccessControl: account ${owner.address.toLowerCase()} is missing role ${await peaqNFT.MINTER_ROLE()}`
+            );
+
+            await peaqNFT.connect(minter).mintBatch(minter.address, NftType.COMMON, 0);
+            expect(await peaqNFT.getMintedCount(NftType.COMMON)).to.equal(0);
+        });
+    });
+
+    describe("Royalties", function () {
+        const ERC2981_INTERFACE_ID = "0x2a55205a";
+        const salePrice = ethers.parseEther("10");
+
+        it("should support ERC-2981 and pay nothing until a receiver is set", async function () {
+            expect(await peaqNFT.supportsInterface(ERC2981_INTERFACE_ID)).to.be.true;
+
+            await peaqNFT.setRoyaltyRate(NftType.LEGENDARY, 500);
+            expect(await peaqNFT.royaltyInfo(generateTokenId(NftType.LEGENDARY, 0), salePrice)).to.deep.equal([ethers.ZeroAddress, 0n]);
+        });
+
+        it("should pay the receiver at the rate of the token type", async function () {
+            const receiver = await addr1.getAddress();
+            await expect(peaqNFT.setRoyaltyReceiver(receiver)).to.emit(peaqNFT, "RoyaltyReceiverSet").withArgs(receiver);
+            await expect(peaqNFT.setRoyaltyRate(NftType.LEGENDARY, 750)).to.emit(peaqNFT, "RoyaltyRateSet").withArgs(NftType.LEGENDARY, 750);
+            await peaqNFT.setRoyaltyRate(NftType.EPIC, 500);
+
+            expect(await peaqNFT.royaltyInfo(generateTokenId(NftType.LEGENDARY, 3), salePrice)).to.deep.equal([receiver, ethers.parseEther("0.75")]);
+            expect(await peaqNFT.royaltyInfo(generateTokenId(NftType.EPIC, 0), salePrice)).to.deep.equal([receiver, ethers.parseEther("0.5")]);
+            expect(await peaqNFT.royaltyInfo(generateTokenId(NftType.COMMON, 0), salePrice)).to.deep.equal([receiver, 0n]);
+            expect(await peaqNFT.getRoyaltyReceiver()).to.equal(receiver);
+            expect(await peaqNFT.getRoyaltyRate(NftType.LEGENDARY)).to.equal(750);
+        });
+
+        it("should validate and restrict royalty settings to the admin", async function () {
+            const missingRole = `AccessControl: account ${minter.address.toLowerCase()} is missing role ${await peaqNFT.DEFAULT_ADMIN_ROLE()}`;
+            await expect(peaqNFT.connect(minter).setRoyaltyReceiver(minter.address)).to.be.revertedWith(missingRole);
+            await expect(peaqNFT.connect(minter).setRoyaltyRate(NftType.EPIC, 500)).to.be.revertedWith(missingRole);
+
+            await expect(peaqNFT.setRoyaltyReceiver(ethers.ZeroAddress)).to.be.revertedWith("PeaqNFT: Invalid receiver");
+            await expect(peaqNFT.setRoyaltyRate(NftType.EPIC, 100_01)).to.be.revertedWith("PeaqNFT: Invalid percentage");
+            await expect(peaqNFT.setRoyaltyRate(NftType.NONE, 500)).to.be.revertedWith("PeaqNFT: Invalid type");
+        });
+    });
+
+    describe("Metadata", function () {
+        const TYPES = [NftType.LEGENDARY, NftType.EPIC, NftType.COMMON, 4];
+
+        beforeEach(async function () {
+            for (const nftType of TYPES) {
+                await peaqNFT.connect(minter).mint(await addr1.getAddress(), nftType, 2);
+            }
+        });
+
+        it("should have no token URI until the base URI of the type is set", async function () {
+            expect(await peaqNFT.tokenURI(generateTokenId(NftType.EPIC, 1))).to.equal("");
+            await expect(peaqNFT.tokenURI(generateTokenId(NftType.EPIC, 2))).to.be.revertedWith("ERC721: invalid token ID");
+        });
+
+        it("should point each tier to its own base URI", async function () {
+            for (const nftType of TYPES) {
+                await expect(peaqNFT.setBaseURI(nftType, `ipfs://cid/type${nftType}/`))
+                    .to.emit(peaqNFT, "BaseURISet")
+                    .withArgs(nftType, `ipfs://cid/type${nftType}/`);
+            }
+
+            for (const nftType of TYPES) {
+                expect(await peaqNFT.tokenURI(generateTokenId(nftType, 0))).to.equal(`ipfs://cid/type${nftType}/0.json`);
+                expect(await peaqNFT.tokenURI(generateTokenId(nftType, 1))).to.equal(`ipfs://cid/type${nftType}/1.json`);
+            }
+            expect(await peaqNFT.getBaseURI(NftType.LEGENDARY)).to.equal(`ipfs://cid/type${NftType.LEGENDARY}/`);
+        });
+
+        it("should serve the same JSON and SVG as the generator in on-chain mode", async function () {
+            await peaqNFT.setBaseURI(NftType.LEGENDARY, "ipfs://cid/legendary/");
+            await expect(peaqNFT.setOnChainMetadata(true)).to.emit(peaqNFT, "OnChainMetadataSet").withArgs(true);
+
+            for (const nftType of TYPES) {
+                const tokenId = generateTokenId(nftType, 1);
+                const json = tokenMetadataJson(tokenId, svgDataUri(tokenSvg(tokenId)));
+                expect(await peaqNFT.tokenURI(tokenId)).to.equal(`data:application/json;base64,${Buffer.from(json).toString("base64")}`);
+            }
+            const legendary = decodeTokenUri(await peaqNFT.tokenURI(generateTokenId(NftType.LEGENDARY, 1)));
+            expect(legendary.name).to.equal("PeaqNFT Legendary #1");
+            expect(legendary.attributes).to.deep.equal([
+                { trait_type: "Tier", value: "Legendary" },
+                { trait_type: "Index", display_type: "number", value: 1 },
+            ]);
+            expect(decodeTokenUri(await peaqNFT.tokenURI(generateTokenId(4, 0))).name).to.equal("PeaqNFT Type 4 #0");
+
+            await peaqNFT.setOnChainMetadata(false);
+            expect(await peaqNFT.tokenURI(generateTokenId(NftType.LEGENDARY, 1))).to.equal("ipfs://cid/legendary/1.json");
+        });
+
+        it("should restrict metadata settings to the admin", async function () {
+            const DEFAULT_ADMIN_ROLE = await peaqNFT.DEFAULT_ADMIN_ROLE();
+            const missingRole = `AccessControl: account ${minter.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`;
+            await expect(peaqNFT.connect(minter).setBaseURI(NftType.EPIC, "ipfs://cid/")).to.be.revertedWith(missingRole);
+            await expect(peaqNFT.connect(minter).setOnChainMetadata(true)).to.be.revertedWith(missingRole);
+            await expect(peaqNFT.setBaseURI(NftType.NONE, "ipfs://cid/")).to.be.revertedWith("PeaqNFT: Invalid type");
+        });
+    });
+
+    describe("Pause", function () {
+        const selector = (signature: string) => peaqNFT.interface.getFunction(signature).selector;
+
+        it("should let pausers stop mints and transfers, and only the admin resume them", async function () {
+            const PAUSER_ROLE = await peaqNFT.PAUSER_ROLE();
+            await expect(peaqNFT.connect(addr1).setFunctionPaused(selector("mintBatch"), true)).to.be.revertedWith(
+                `AccessControl: account ${(await addr1.getAddress()).toLowerCase()} is missing role ${PAUSER_ROLE}`
+            );
+            await peaqNFT.grantRole(PAUSER_ROLE, await addr1.getAddress());
+            await peaqNFT.connect(minter).mintBatch(minter.address, NftType.COMMON, 2);
+
+            await expect(peaqNFT.connect(addr1).setFunctionPaused(selector("mintBatch"), true))
+                .to.emit(peaqNFT, "FunctionPauseUpdated")
+                .withArgs(selector("mintBatch"), true);
+            await peaqNFT.connect(addr1).setFunctionPaused(selector("transferFrom"), true);
+            await expect(peaqNFT.connect(minter).mintBatch(minter.address, NftType.COMMON, 1)).to.be.revertedWith("PeaqNFT: Function paused");
+            await expect(peaqNFT.connect(minter).transferFrom(minter.address, owner.address, generateTokenId(NftType.COMMON, 0))).to.be.revertedWith(
+                "PeaqNFT: Function paused"
+            );
+            // every variant has a switch of its own
+            await peaqNFT.connect(minter).mint(minter.address, NftType.COMMON, 1);
+            await peaqNFT.connect(minter)["safeTransferFrom(address,address,uint256)"](minter.address, owner.address, generateTokenId(NftType.COMMON, 0));
+
+            await expect(peaqNFT.connect(addr1).setFunctionPaused(selector("mintBatch"), false)).to.be.revertedWith(
+                `AccessControl: account ${(await addr1.getAddress()).toLowerCase()} is missing role ${await peaqNFT.DEFAULT_ADMIN_ROLE()}`
+            );
+            await peaqNFT.setFunctionPaused(selector("mintBatch"), false);
+            await peaqNFT.connect(minter).mintBatch(minter.address, NftType.COMMON, 1);
+            expect(await peaqNFT.getMintedCount(NftType.COMMON)).to.equal(4);
+        });
+    });
 });
@@ -0,0 +1,151 @@
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FundraisingCenter, PeaqNFT } from "../typechain-types";
+import { FundraisingClient, FundraisingError, FundraisingStatus, NftType, PriceCurve, Pricing, SALE_TYPES } from "../sdk";
+import { deployFundraisingCenter } from "./fixtures";
+
+const legendaryDuration = 10 * 60; // 10 minutes
+const epicDuration = 30 * 60; // 30 minutes
+const duration = 2 * 60 * 60; // 2 hours
+
+// Every seed is a scenario of its own, a failing one is replayed by running its test alone
+const SEEDS = [1, 7, 42, 1337, 2024, 31337, 65535, 123456];
+
+// mulberry32: small seeded PRNG, so that scenarios are reproducible
+const random = (seed: number) => {
+    let state = seed >>> 0;
+    const next = () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    return {
+        // integer in [min, max]
+        int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+        // amount of ether in [0, max] with 2 decimals
+        ether: (max: number): bigint => ethers.parseEther((Math.floor(next() * max * 100) / 100).toFixed(2)),
+    };
+};
+
+describe("Refund ledger", function () {
+    let moderator: Signer;
+    let users: Signer[];
+
+    let fundraisingCenter: FundraisingCenter;
+    let client: FundraisingClient;
+    let snapshotId: string;
+
+    const basePrices = {
+        [NftType.LEGENDARY]: ethers.parseEther("4"),
+        [NftType.EPIC]: ethers.parseEther("3"),
+        [NftType.COMMON]: ethers.parseEther("1"),
+    };
+
+    before(async function () {
+        const [admin] = await ethers.getSigners();
+        [, moderator, ...users] = (await ethers.getSigners()).slice(0, 6);
+
+        const PeaqNFT = await ethers.getContractFactory("PeaqNFT");
+        const peaqNFT = (await upgrades.deployProxy(PeaqNFT, { initializer: "initialize" })) as unknown as PeaqNFT;
+
+        fundraisingCenter = await deployFundraisingCenter(admin, [
+            await peaqNFT.getAddress(),
+            3 * 24 * 60 * 60,
+            3 * 24 * 60 * 60,
+            legendaryDuration,
+            epicDuration,
+        ]);
+
+        await peaqNFT.connect(admin).grantRole(await peaqNFT.MINTER_ROLE(), await fundraisingCenter.getAddress());
+        await fundraisingCenter.connect(admin).grantRole(await fundraisingCenter.MODERATOR_ROLE(), await moderator.getAddress());
+        client = FundraisingClient.connect(await fundraisingCenter.getAddress(), ethers.provider);
+    });
+
+    beforeEach(async function () {
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+    });
+
+    afterEach(async function () {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    for (const seed of SEEDS) {
+        it(`should hold enough to refund everyone what they paid in a failed raise (seed ${seed})`, async function () {
+            const rng = random(seed);
+            const startTime = (await time.latest()) + 60;
+
+            // out of reach, the raise fails whatever is bought
+            const { fundraisingId } = await client.connect(moderator).createFundraising({
+                startTime,
+                duration,
+                targetAmount: ethers.parseEther("1000000"),
+                basePrices,
+                maxBuyAmounts: { [NftType.LEGENDARY]: BigInt(rng.int(1, 5)), [NftType.EPIC]: BigInt(rng.int(1, 10)) },
+            });
+            const pricing: Partial<Record<NftType, Pricing>> = {};
+            for (const nftType of SALE_TYPES) {
+                const curve = rng.int(0, 2) as PriceCurve;
+                pricing[nftType] = {
+                    curve,
+                    step: rng.ether(0.5),
+                    interval: curve === PriceCurve.DUTCH_AUCTION ? BigInt(rng.int(60, 600)) : 0n,
+                    floorPrice: curve === PriceCurve.DUTCH_AUCTION ? rng.ether(Number(ethers.formatEther(basePrices[nftType as keyof typeof basePrices]))) : 0n,
+                };
+            }
+            await client.connect(moderator).setPricing(fundraisingId, pricing);
+            for (const user of users) {
+                await client.connect(moderator).addToWhitelist(fundraisingId, await user.getAddress());
+            }
+
+            await time.increaseTo(startTime);
+            const expected = new Map<string, bigint>();
+            for (let step = rng.int(3, 10); step > 0; step--) {
+                await time.increase(rng.int(0, 20 * 60));
+                const user = users[rng.int(0, users.length - 1)];
+                const address = await user.getAddress();
+                const quote = await client
+                    .quote(fundraisingId, rng.int(1, 6), { user: address })
+                    .catch((e) => (e instanceof FundraisingError ? undefined : Promise.reject(e)));
+                if (quote === undefined || (await client.getStatus(fundraisingId)) !== FundraisingStatus.OPEN) {
+                    continue;
+                }
+                // overpaying is refunded right away, only the charged value is recorded
+                const balance: bigint = await ethers.provider.getBalance(await fundraisingCenter.getAddress());
+                await client.connect(user).contribute(fundraisingId, quote.number, quote.totalValue + rng.ether(1));
+                const balanceAfter: bigint = await ethers.provider.getBalance(await fundraisingCenter.getAddress());
+                expected.set(address, (expected.get(address) ?? 0n) + balanceAfter - balance);
+            }
+
+            await time.increaseTo(startTime + duration);
+            expect(await client.getStatus(fundraisingId)).to.equal(FundraisingStatus.FAILED);
+
+            let owed = 0n;
+            for (const [address, paid] of expected) {
+                const contribution = await client.getUserContribution(fundraisingId, address);
+                expect(await client.getRefundAmount(fundraisingId, address)).to.equal(paid);
+                expect(Object.values(contribution.paidByType).reduce((sum, value) => sum + value, 0n)).to.equal(paid);
+                expect(contribution.payments.reduce((sum, value) => sum + value, 0n)).to.equal(paid);
+                owed += paid;
+            }
+            const center = await fundraisingCenter.getAddress();
+            expect(await ethers.provider.getBalance(center)).to.be.gte(owed);
+            expect((await client.getFundraising(fundraisingId)).totalContribution).to.equal(owed);
+
+            for (const user of users) {
+                const paid = expected.get(await user.getAddress());
+                if (paid === undefined) {
+                    continue;
+                }
+                const balance = await ethers.provider.getBalance(center);
+                await client.connect(user).refund(fundraisingId);
+                expect(balance - (await ethers.provider.getBalance(center))).to.equal(paid);
+                expect(await client.getRefundAmount(fundraisingId, await user.getAddress())).to.equal(0n);
+            }
+            expect(await ethers.provider.getBalance(center)).to.equal(0n);
+        });
+    }
+});
@@ -0,0 +1,141 @@
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { MockERC20, PeaqNFT, RevenueVault } from "../typechain-types";
+import { FundraisingError, NftType, RevenueVaultClient, tokenIdToIndex } from "../sdk";
+
+const tokenId = (nftType: NftType, index: number) => (BigInt(nftType) << 32n) | BigInt(index);
+
+describe("RevenueVault", function () {
+    let admin: Signer;
+    let user1: Signer;
+    let user2: Signer;
+    let depositor: Signer;
+
+    let peaqNFT: PeaqNFT;
+    let vault: RevenueVault;
+
+    beforeEach(async function () {
+        [admin, user1, user2, depositor] = await ethers.getSigners();
+
+        const PeaqNFT = await ethers.getContractFactory("PeaqNFT");
+        peaqNFT = (await upgrades.deployProxy(PeaqNFT, { initializer: "initialize" })) as unknown as PeaqNFT;
+        await peaqNFT.grantRole(await peaqNFT.MINTER_ROLE(), await admin.getAddress());
+        await peaqNFT.setShareRevenuePercentage(NftType.LEGENDARY, 5000);
+        await peaqNFT.setShareRevenuePercentage(NftType.EPIC, 3000);
+        await peaqNFT.setShareRevenuePercentage(NftType.COMMON, 2000);
+
+        const RevenueVault = await ethers.getContractFactory("RevenueVault");
+        vault = (await upgrades.deployProxy(
+            RevenueVault.connect(admin),
+            [await peaqNFT.getAddress(), [NftType.LEGENDARY, NftType.EPIC, NftType.COMMON]],
+            { initializer: "initialize" }
+        )) as unknown as RevenueVault;
+
+        // user1: legendary #0 and #1, user2: epic #0 to #2, no common minted
+        await peaqNFT.mint(await user1.getAddress(), NftType.LEGENDARY, 2);
+        await peaqNFT.mint(await user2.getAddress(), NftType.EPIC, 3);
+    });
+
+    const depositNative = (amount: bigint) => vault.connect(depositor).deposit(ethers.ZeroAddress, amount, { value: amount });
+
+    it("should split a deposit across tiers by revenue share and supply", async function () {
+        await expect(depositNative(ethers.parseEther("10")))
+            .to.emit(vault, "RevenueDeposited")
+            .withArgs(ethers.ZeroAddress, await depositor.getAddress(), ethers.parseEther("10"), ethers.parseEther("2"));
+
+        expect(await vault.claimable(tokenId(NftType.LEGENDARY, 0), ethers.ZeroAddress)).to.equal(ethers.parseEther("2.5"));
+        expect(await vault.claimable(tokenId(NftType.LEGENDARY, 1), ethers.ZeroAddress)).to.equal(ethers.parseEther("2.5"));
+        expect(await vault.claimable(tokenId(NftType.EPIC, 2), ethers.ZeroAddress)).to.equal(ethers.parseEther("1"));
+        // No common minted yet: its share is left undistributed
+        expect(await vault.claimable(tokenId(NftType.COMMON, 0), ethers.ZeroAddress)).to.equal(0);
+        expect(await vault.undistributed(ethers.ZeroAddress)).to.equal(ethers.parseEther("2"));
+    });
+
+    it("should not pay tokens minted after a deposit for it", async function () {
+        await depositNative(ethers.parseEther("6"));
+        await peaqNFT.mint(await user2.getAddress(), NftType.LEGENDARY, 1);
+        await depositNative(ethers.parseEther("6"));
+
+        // 3 ETH to 2 legendaries, then 3 ETH to 3 legendaries
+        expect(await vault.claimable(tokenId(NftType.LEGENDARY, 0), ethers.ZeroAddress)).to.equal(ethers.parseEther("2.5"));
+        expect(await vault.claimable(tokenId(NftType.LEGENDARY, 2), ethers.ZeroAddress)).to.equal(ethers.parseEther("1"));
+        expect(await vault.claimable(tokenId(NftType.LEGENDARY, 3), ethers.ZeroAddress)).to.equal(0);
+    });
+
+    it("should pay the current holder what a token was not paid yet", async function () {
+        await depositNative(ethers.parseEther("10"));
+        const [legendary0, legendary1] = [tokenId(NftType.LEGENDARY, 0), tokenId(NftType.LEGENDARY, 1)];
+
+        await expect(vault.connect(user1).claim([legendary0], ethers.ZeroAddress)).to.changeEtherBalances(
+            [user1, vault],
+            [ethers.parseEther("2.5"), -ethers.parseEther("2.5")]
+        );
+        await peaqNFT.connect(user1).transferFrom(await user1.getAddress(), await user2.getAddress(), legendary0);
+        await peaqNFT.connect(user1).transferFrom(await user1.getAddress(), await user2.getAddress(), legendary1);
+
+        // The claimed token is not paid twice, the unclaimed one moves with the transfer
+        await expect(vault.connect(user1).claim([legendary1], ethers.ZeroAddress)).to.be.revertedWith("Not token owner");
+        await expect(vault.connect(user2).claim([legendary0], ethers.ZeroAddress)).to.be.revertedWith("Nothing to claim");
+        await expect(vault.connect(user2).claim([legendary0, legendary1, legendary1], ethers.ZeroAddress))
+            .to.emit(vault, "RevenueClaimed")
+            .withArgs(ethers.ZeroAddress, await user2.getAddress(), [legendary0, legendary1, legendary1], ethers.parseEther("2.5"));
+
+        await depositNative(ethers.parseEther("10"));
+        expect(await vault.claimable(legendary0, ethers.ZeroAddress)).to.equal(ethers.parseEther("2.5"));
+        expect(await vault.claimable(legendary1, ethers.ZeroAddress)).to.equal(ethers.parseEther("2.5"));
+    });
+
+    it("should keep ERC-20 revenue apart and batch-claim it with the SDK", async function () {
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const token: MockERC20 = await MockERC20.deploy("USD Coin", "USDC", 6);
+        await token.mint(await depositor.getAddress(), 1000_000000n);
+        const client = RevenueVaultClient.connect(await vault.getAddress(), depositor);
+
+        await client.deposit(await token.getAddress(), 100_000000n);
+        expect(await token.balanceOf(await vault.getAddress())).to.equal(100_000000n);
+        expect(await vault.claimable(tokenId(NftType.EPIC, 0), ethers.ZeroAddress)).to.equal(0);
+
+        const preview = await client.previewClaimable(user2, await token.getAddress());
+        expect(preview.total).to.equal(30_000000n);
+        expect([...preview.byToken.keys()].map(tokenIdToIndex)).to.deep.equal([0n, 1n, 2n]);
+
+        const { receipts, claimed } = await client.connect(user2).claim(undefined, await token.getAddress(), 2);
+        expect(receipts).to.have.length(2);
+        expect(claimed).to.equal(30_000000n);
+        expect(await token.balanceOf(await user2.getAddress())).to.equal(30_000000n);
+        expect((await client.previewClaimable(user2, await token.getAddress())).total).to.equal(0);
+        const error = await client.deposit(await token.getAddress(), 0n).catch((e) => e);
+        expect(error).to.be.instanceOf(FundraisingError);
+        expect(error.reason).to.equal("Invalid amount");
+    });
+
+    it("should reject invalid deposits", async function () {
+        await expect(vault.deposit(ethers.ZeroAddress, 0)).to.be.revertedWith("Invalid amount");
+        await expect(vault.deposit(ethers.ZeroAddress, 10, { value: 9 })).to.be.revertedWith("Invalid value");
+        await expect(vault.deposit(await peaqNFT.getAddress(), 10, { value: 10 })).to.be.revertedWith("Invalid value");
+
+        await peaqNFT.setShareRevenuePercentage(NftType.COMMON, 3000);
+        await expect(depositNative(10n)).to.be.revertedWith("Shares exceed 100%");
+    });
+
+    it("should let the admin set the tiers and withdraw undistributed revenue", async function () {
+        await expect(vault.setTiers([NftType.EPIC, NftType.EPIC])).to.be.revertedWith("Invalid tier type");
+        await expect(vault.setTiers([NftType.NONE])).to.be.revertedWith("Invalid tier type");
+        await expect(vault.connect(user1).setTiers([NftType.EPIC])).to.be.revertedWith(
+            `AccessControl: account ${(await user1.getAddress()).toLowerCase()} is missing role ${await vault.DEFAULT_ADMIN_ROLE()}`
+        );
+
+        await expect(vault.setTiers([NftType.LEGENDARY])).to.emit(vault, "TiersUpdated").withArgs([NftType.LEGENDARY]);
+        await depositNative(ethers.parseEther("10"));
+        expect(await vault.claimable(tokenId(NftType.EPIC, 0), ethers.ZeroAddress)).to.equal(0);
+        expect(await vault.undistributed(ethers.ZeroAddress)).to.equal(ethers.parseEther("5"));
+
+        await expect(vault.connect(user1).withdrawUndistributed(ethers.ZeroAddress, await user1.getAddress())).to.be.reverted;
+        await expect(vault.withdrawUndistributed(ethers.ZeroAddress, await admin.getAddress())).to.changeEtherBalance(
+            admin,
+            ethers.parseEther("5")
+        );
+        await expect(vault.withdrawUndistributed(ethers.ZeroAddress, await admin.getAddress())).to.be.revertedWith("Nothing to withdraw");
+    });
+});
@@ -0,0 +1,141 @@
+import { artifacts, ethers, network, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FundraisingCenter, MockFundraisingCenterV2, PeaqNFT } from "../typechain-types";
+import { FundraisingLibraries, deployFundraisingCenter, deployFundraisingLibraries, upgradeFundraisingCenter } from "./fixtures";
+
+const legendaryDuration = 10 * 60; // 10 minutes
+const duration = 2 * 60 * 60; // 2 hours
+
+describe("FundraisingCenter upgrade", function () {
+    let admin: Signer;
+    let moderator: Signer;
+    let user1: Signer;
+    let user2: Signer;
+
+    let peaqNFT: PeaqNFT;
+    let fundraisingCenter: FundraisingCenter;
+    let libraries: FundraisingLibraries;
+    let startTime: number;
+    let snapshotId: string;
+
+    beforeEach(async function () {
+        // The raise moves time forward, restore it for the suites relying on the wall clock
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+        [admin, moderator, user1, user2] = await ethers.getSigners();
+
+        const PeaqNFT = await ethers.getContractFactory("PeaqNFT");
+        peaqNFT = (await upgrades.deployProxy(PeaqNFT, { initializer: "initialize" })) as unknown as PeaqNFT;
+
+        libraries = await deployFundraisingLibraries();
+        fundraisingCenter = await deployFundraisingCenter(
+            admin,
+            [await peaqNFT.getAddress(), 3 * 24 * 60 * 60, 3 * 24 * 60 * 60, legendaryDuration, 30 * 60],
+            libraries
+        );
+
+        await peaqNFT.connect(admin).grantRole(await peaqNFT.MINTER_ROLE(), await fundraisingCenter.getAddress());
+        await fundraisingCenter.connect(admin).grantRole(await fundraisingCenter.MODERATOR_ROLE(), await moderator.getAddress());
+
+        startTime = (await time.latest()) + 60;
+        await fundraisingCenter
+            .connect(moderator)
+            .createFundraising(startTime, duration, ethers.parseEther("10"), ethers.parseEther("4"), ethers.parseEther("3"), ethers.parseEther("1"), 3, 5);
+        await fundraisingCenter.connect(moderator).addToWhitelistBatch(0, [await user1.getAddress(), await user2.getAddress()]);
+        await time.increaseTo(startTime);
+        await fundraisingCenter.connect(user1).contribute(0, 2, { value: ethers.parseEther("8") });
+    });
+
+    afterEach(async function () {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    const upgrade = () =>
+        upgradeFundraisingCenter<MockFundraisingCenterV2>(fundraisingCenter, "MockFundraisingCenterV2", admin, libraries, "initializeV2");
+
+    // Empties the refund ledger of a user, as the versions before it left it for their contributions
+    const eraseLedger = async (fundraisingId: number, user: string, nftTypes: number[]) => {
+        const buildInfo = await artifacts.getBuildInfo("contracts/Fundraising.sol:FundraisingCenter");
+        const { storage, types } = (buildInfo!.output.contracts["contracts/Fundraising.sol"].FundraisingCenter as any).storageLayout;
+        const member = (structType: string, label: string) => types[structType].members.find((item: any) => item.label === label);
+        const mappingSlot = (keyType: string, key: unknown, slot: bigint) =>
+            BigInt(ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode([keyType, "uint256"], [key, slot])));
+
+        const fundraisings = storage.find((item: any) => item.label === "_fundraisings");
+        const fundraising = mappingSlot("uint256", fundraisingId, BigInt(fundraisings.slot));
+        const users = member(types[fundraisings.type].value, "users");
+        const userSlot = mappingSlot("address", user, fundraising + BigInt(users.slot));
+        const paid = member(types[users.type].value, "paid");
+        const payments = member(types[users.type].value, "payments");
+
+        const setSlot = (slot: bigint) => network.provider.send("hardhat_setStorageAt", [fundraisingCenter.target, ethers.toQuantity(slot), ethers.ZeroHash]);
+        await setSlot(userSlot + BigInt(payments.slot));
+        for (const nftType of nftTypes) {
+            await setSlot(mappingSlot("uint8", nftType, userSlot + BigInt(paid.slot)));
+        }
+    };
+
+    it("should not be initialized twice", async function () {
+        await expect(fundraisingCenter.initialize(await peaqNFT.getAddress(), 0, 0, 0, 0)).to.be.revertedWith(
+            "Initializable: contract is already initialized"
+        );
+    });
+
+    it("should keep contributions and roles across an upgrade mid-raise", async function () {
+        const upgraded = await upgrade();
+
+        expect(await upgraded.getAddress()).to.equal(await fundraisingCenter.getAddress());
+        expect(await upgraded.version()).to.equal("2");
+        expect(await upgraded.upgradedAt()).to.be.greaterThan(0n);
+        expect(await upgraded.nftContract()).to.equal(await peaqNFT.getAddress());
+        expect(await upgraded.nftDurations(3)).to.equal(legendaryDuration);
+        expect(await upgraded.hasRole(await upgraded.MODERATOR_ROLE(), await moderator.getAddress())).to.be.true;
+
+        const contribution = await upgraded.getUserContribution(0, await user1.getAddress());
+        expect(contribution.totalValue).to.equal(ethers.parseEther("8"));
+        expect(contribution.totalContribution).to.equal(2n);
+        expect(contribution.whitelisted).to.be.true;
+        expect(await upgraded.getFundraisingBoughtAmount(0, 3)).to.equal(2n);
+
+        // the raise goes on where it stopped
+        await upgraded.connect(user2).contribute(0, 1, { value: ethers.parseEther("4") });
+        expect((await upgraded.getFundraising(0)).totalContribution).to.equal(ethers.parseEther("12"));
+        await expect(upgraded.connect(moderator).createFundraising(startTime + 60, duration, 0, 1, 1, 1, 1, 1))
+            .to.emit(upgraded, "FundraisingCreated")
+            .withArgs(1, await moderator.getAddress(), startTime + 60, duration, 0);
+    });
+
+    it("should keep partial NFT claims and the fund across an upgrade", async function () {
+        await fundraisingCenter.connect(user2).contribute(0, 1, { value: ethers.parseEther("4") });
+        await time.increaseTo(startTime + duration);
+        await fundraisingCenter.connect(user1).claimNft(0, 1);
+
+        const upgraded = await upgrade();
+
+        const contribution = await upgraded.getUserContribution(0, await user1.getAddress());
+        expect(contribution.claimedCount).to.equal(1n);
+        expect(contribution.fullClaimed).to.be.false;
+        await expect(upgraded.connect(user1).claimAllNft(0)).to.emit(upgraded, "NftClaimed");
+        expect(await peaqNFT.balanceOf(await user1.getAddress())).to.equal(2n);
+        await expect(upgraded.connect(user1).claimAllNft(0)).to.be.revertedWith("already claimed");
+
+        await expect(upgraded.connect(moderator).claimFund(0)).to.changeEtherBalance(moderator, ethers.parseEther("12"));
+    });
+
+    it("should refund contributions made before the refund ledger on top of the ledger", async function () {
+        await eraseLedger(0, await user1.getAddress(), [3]);
+        expect(await fundraisingCenter.getUserPaidByType(0, await user1.getAddress(), 3)).to.equal(0n);
+        expect(await fundraisingCenter.getRefundAmount(0, await user1.getAddress())).to.equal(ethers.parseEther("8"));
+
+        const upgraded = await upgrade();
+        // a common keeps the raise below its target of 10, so that it fails
+        await time.increaseTo(startTime + legendaryDuration + 30 * 60);
+        await upgraded.connect(user1).contribute(0, 1, { value: ethers.parseEther("1") });
+        expect(await upgraded.getUserPaidByType(0, await user1.getAddress(), 1)).to.equal(ethers.parseEther("1"));
+        await time.increaseTo(startTime + duration);
+
+        expect(await upgraded.getRefundAmount(0, await user1.getAddress())).to.equal(ethers.parseEther("9"));
+        await expect(upgraded.connect(user1).refund(0)).to.changeEtherBalance(user1, ethers.parseEther("9"));
+    });
+});
@@ -0,0 +1,48 @@
+import { ethers, upgrades } from "hardhat";
+import { Signer } from "ethers";
+import { FundraisingCenter } from "../typechain-types";
+
+// Addresses of the libraries FundraisingCenter is linked to, see `deploy/02_fundraising_center.ts`
+export type FundraisingLibraries = Record<"FundraisingPricing" | "FundraisingVesting", string>;
+
+// `FundraisingCenter.initialize` arguments: NFT contract, max start time, max duration, legendary and epic phase durations
+export type FundraisingCenterArgs = [string, number, number, number, number];
+
+export const deployFundraisingLibraries = async (): Promise<FundraisingLibraries> => {
+    const pricing = await (await ethers.getContractFactory("FundraisingPricing")).deploy();
+    const vesting = await (await ethers.getContractFactory("FundraisingVesting")).deploy();
+    return { FundraisingPricing: await pricing.getAddress(), FundraisingVesting: await vesting.getAddress() };
+};
+
+// Deploys FundraisingCenter behind a transparent proxy administered by `admin`, linked to `libraries` or to new ones
+export const deployFundraisingCenter = async (
+    admin: Signer,
+    args: FundraisingCenterArgs,
+    libraries?: FundraisingLibraries
+): Promise<FundraisingCenter> => {
+    const FundraisingCenter = await ethers.getContractFactory("FundraisingCenter", {
+        signer: admin,
+        libraries: libraries ?? (await deployFundraisingLibraries()),
+    });
+    const fundraisingCenter = (await upgrades.deployProxy(FundraisingCenter, args, {
+        initializer: "initialize",
+        unsafeAllowLinkedLibraries: true,
+    })) as unknown as FundraisingCenter;
+    await fundraisingCenter.waitForDeployment();
+    return fundraisingCenter;
+};
+
+// Upgrades a FundraisingCenter proxy to `contractName`, linked to the libraries it was deployed with, then calls `call`
+export const upgradeFundraisingCenter = async <T>(
+    fundraisingCenter: FundraisingCenter,
+    contractName: string,
+    admin: Signer,
+    libraries: FundraisingLibraries,
+    call?: string
+): Promise<T> => {
+    const implementation = await ethers.getContractFactory(contractName, { signer: admin, libraries });
+    return (await upgrades.upgradeProxy(fundraisingCenter, implementation, {
+        call,
+        unsafeAllowLinkedLibraries: true,
+    })) as unknown as T;
+};
@@ -0,0 +1,552 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { deployments, ethers } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FundraisingCenter, PeaqNFT } from "../typechain-types";
+import { FundraisingStatus, NftType } from "../sdk";
+import { parseTierAmounts, parseTierCounts, parseTierPricing, parseVesting, readTiers } from "../tasks/fundraising";
+import { parseTokenIds } from "../tasks/revenue";
+import { formatTimestamp, parseDuration, parsePercentage, parseTimestamp } from "../tasks/utils";
+import { chunkByGas, readWhitelistCsv } from "../tasks/whitelist";
+
+// Breaks the EIP-55 checksum of an address
+const flipFirstLetterCase = (address: string) =>
+    address.replace(/[a-fA-F](?=[^x]*$)/, (c) => (c === c.toLowerCase() ? c.toUpperCase() : c.toLowerCase()));
+
+// Runs a task and returns what it printed along with its result
+const runTask = async (name: string, args: Record<string, unknown>) => {
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...items: unknown[]) => {
+        lines.push(items.join(" "));
+    };
+    try {
+        const result = await hre.run(name, args);
+        return { result, output: lines.join("\n") };
+    } finally {
+        console.log = log;
+    }
+};
+
+describe("Hardhat tasks", function () {
+    let fundraisingCenter: FundraisingCenter;
+    let peaqNFT: PeaqNFT;
+    let deployer: string;
+    let snapshotId: string;
+
+    before(async function () {
+        await deployments.fixture(["PeaqNFT", "FundraisingCenter", "GrantMinterRole", "GrantPauserRole", "RevenueVault", "FundraisingGovernor", "FundraisingLens"]);
+        ({ deployer } = await hre.getNamedAccounts());
+
+        fundraisingCenter = await ethers.getContractAt("FundraisingCenter", (await deployments.get("FundraisingCenter")).address);
+        peaqNFT = await ethers.getContractAt("PeaqNFT", (await deployments.get("PeaqNFT")).address);
+        await fundraisingCenter.grantRole(await fundraisingCenter.MODERATOR_ROLE(), deployer);
+    });
+
+    beforeEach(async function () {
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+    });
+
+    afterEach(async function () {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    const create = () =>
+        runTask("fundraising:create", {
+            start: "+10m",
+            duration: "2h",
+            target: "20",
+            priceLegendary: "4",
+            priceEpic: "3",
+            priceCommon: "0.5",
+            maxLegendary: 3,
+            maxEpic: 5,
+        });
+
+    it("should create a fundraising from human units", async function () {
+        const now = await time.latest();
+        const { result, output } = await create();
+
+        expect(result).to.equal(0n);
+        expect(output).to.contain("FundraisingCreated #0");
+        const info = await fundraisingCenter.getFundraising(0);
+        expect(info.targetAmount).to.equal(ethers.parseEther("20"));
+        expect(info.targetTime - info.startTime).to.equal(2n * 60n * 60n);
+        expect(info.startTime).to.be.closeTo(BigInt(now + 10 * 60), 5n);
+        expect(await fundraisingCenter.getFundraisingBasePrice(0, NftType.COMMON)).to.equal(ethers.parseEther("0.5"));
+    });
+
+    it("should update the price, whitelist and cancel a fundraising", async function () {
+        await create();
+        const user = (await ethers.getSigners())[5].address;
+
+        const price = await runTask("fundraising:set-price", { id: "0", type: "legendary", price: "2.5" });
+        expect(price.output).to.equal("BasePriceUpdated #0 legendary=2.5");
+        expect(await fundraisingCenter.getFundraisingBasePrice(0, NftType.LEGENDARY)).to.equal(ethers.parseEther("2.5"));
+
+        const whitelist = await runTask("fundraising:whitelist", { id: "0", address: user, remove: false });
+        expect(whitelist.output).to.equal(`WhitelistUpdated #0 user=${user} added`);
+        expect(await fundraisingCenter.getUserWhitelisted(0, user)).to.be.true;
+
+        const cancel = await runTask("fundraising:cancel", { id: "0" });
+        expect(cancel.output).to.equal("FundraisingCancelled #0");
+
+        const status = await runTask("fundraising:status", { id: "0", user });
+        expect(status.result).to.equal(FundraisingStatus.CANCELLED);
+        expect(status.output).to.contain("Fundraising #0: cancelled");
+        expect(status.output).to.contain("whitelisted:  true");
+        expect(status.output).to.contain("refundable:   0.0 if the raise fails");
+    });
+
+    it("should update the changed creation parameters of a fundraising", async function () {
+        await create();
+        const info = await fundraisingCenter.getFundraising(0);
+
+        const { output } = await runTask("fundraising:update", { id: "0", duration: "2h", target: "25", prices: "epic=2.5, common=0.5", maxBuy: "legendary=2" });
+        expect(output.split("\n")).to.deep.equal(["TargetAmountUpdated #0 target=25.0", "MaxBuyAmountUpdated #0 legendary=2", "BasePriceUpdated #0 epic=2.5"]);
+        expect(await fundraisingCenter.getFundraisingMaxBuyAmount(0, NftType.LEGENDARY)).to.equal(2n);
+
+        const start = Number(info.startTime) + 60;
+        expect((await runTask("fundraising:update", { id: "0", start: String(start) })).output).to.equal(`StartTimeUpdated #0 start=${formatTimestamp(start)}`);
+        expect((await fundraisingCenter.getFundraising(0)).targetTime).to.equal(info.targetTime + 60n);
+        expect((await runTask("fundraising:update", { id: "0", target: "25" })).output).to.equal("No events emitted");
+        expect(() => parseTierAmounts("epic:2")).to.throw("Invalid tier amount: epic:2");
+    });
+
+    it("should print the phase timeline of a fundraising and its current phase", async function () {
+        await create();
+        const info = await fundraisingCenter.getFundraising(0);
+
+        const upcoming = await runTask("fundraising:phases", { id: "0", at: String(info.startTime - 600n) });
+        expect(upcoming.output.split("\n")).to.deep.equal([
+            "Fundraising #0: starts in 10m with the legendary phase",
+            `  legendary  ${formatTimestamp(info.startTime)} -> ${formatTimestamp(info.startTime + 600n)}`,
+            `  epic       ${formatTimestamp(info.startTime + 600n)} -> ${formatTimestamp(info.startTime + 2400n)}`,
+            `  common     ${formatTimestamp(info.startTime + 2400n)} -> ${formatTimestamp(info.targetTime)}`,
+        ]);
+        const at = await runTask("fundraising:phases", { id: "0", at: String(info.startTime + 2400n + 60n) });
+        expect(at.output.split("\n")[0]).to.equal("Fundraising #0: common phase, ends in 1h 19m");
+        expect(at.result).to.deep.include({ stage: "phase", index: 2 });
+    });
+
+    it("should print a dashboard of the fundraisings", async function () {
+        await create();
+        await create();
+
+        const page = await runTask("fundraising:dashboard", { offset: 1, limit: 50 });
+        expect(page.output.split("\n")).to.deep.equal([
+            "Fundraisings #1 to #1 of 2",
+            "#1 creation raised=0.0/20.0 whitelist=list legendary 0/3 @4.0, epic 0/5 @3.0, common 0/unlimited @0.5",
+        ]);
+        await time.increase(50 * 60 + 10);
+        const dashboard = await runTask("fundraising:dashboard", { offset: 0, limit: 50, ids: "1, 0" });
+        expect(dashboard.output.split("\n")).to.have.length(2);
+        expect(dashboard.output).to.match(/^#1 open common phase raised=0.0\/20.0/);
+        expect((await runTask("fundraising:dashboard", { offset: 5, limit: 50 })).output).to.equal("No fundraising from #5, 2 in total");
+    });
+
+    it("should set the wallet limits of a fundraising", async function () {
+        await create();
+
+        const { output } = await runTask("fundraising:set-wallet-limits", { id: "0", min: "1", maxPerWallet: "legendary=1, epic=2" });
+        expect(output).to.equal("WalletLimitsUpdated #0 min=1.0 maxValue=0.0 maxPerWallet=1,2,0");
+        const status = await runTask("fundraising:status", { id: "0" });
+        expect(status.output).to.contain("min per tx:   1.0");
+        expect(status.output).to.contain("max per user: none");
+        expect(status.output).to.contain("per-wallet=2");
+        expect(() => parseTierCounts("epic:2")).to.throw("Invalid tier count: epic:2");
+    });
+
+    it("should set the hard cap of a fundraising", async function () {
+        await create();
+
+        const { output } = await runTask("fundraising:set-hard-cap", { id: "0", cap: "25", closeEarly: true });
+        expect(output).to.equal("HardCapUpdated #0 hardCap=25.0 closeOnHardCap");
+        expect((await runTask("fundraising:status", { id: "0" })).output).to.contain("hard cap:     25.0 (closes when reached)");
+        const error = await runTask("fundraising:set-hard-cap", { id: "0", cap: "19", closeEarly: false }).catch((e) => e);
+        expect(error.reason).to.equal("Invalid hard cap");
+    });
+
+    it("should set the price curves of a fundraising", async function () {
+        await create();
+
+        const { output } = await runTask("fundraising:set-pricing", { id: "0", pricing: "epic=dutch:0.5/10m/2, common=linear:0.1" });
+        expect(output).to.equal("PricingUpdated #0 fixed, dutch -0.5/600s floor=2.0, linear +0.1");
+        const status = await runTask("fundraising:status", { id: "0" });
+        expect(status.output).to.contain("curve=linear +0.1");
+        expect(() => parseTierPricing("epic=dutch:0.5", 18)).to.throw("Invalid tier pricing: epic=dutch:0.5");
+        expect(() => parseTierPricing("epic=curved", 18)).to.throw("Invalid tier pricing: epic=curved");
+    });
+
+    it("should claim the fund of a successful fundraising", async function () {
+        await create();
+        const [, , , contributor] = await ethers.getSigners();
+        const info = await fundraisingCenter.getFundraising(0);
+        await time.increaseTo(info.startTime + BigInt(parseDuration("40m")));
+        await fundraisingCenter.connect(contributor).contribute(0, 40, { value: ethers.parseEther("20") });
+        await time.increaseTo(info.targetTime);
+
+        const { output } = await runTask("fundraising:claim-fund", { id: "0" });
+        expect(output).to.equal(`FundClaimed #0 moderator=${deployer} amount=20.0`);
+    });
+
+    it("should create a fundraising with the tiers of a JSON file", async function () {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "tiers-")), "tiers.json");
+        fs.writeFileSync(file, JSON.stringify([
+            { type: 4, price: "10", max: 1, phase: "5m", whitelistOnly: true },
+            { type: "legendary", price: "4", max: 3, phase: "10m" },
+            { type: "common", price: "0.5" },
+        ]));
+
+        const { result, output } = await runTask("fundraising:create-tiers", { start: "+10m", duration: "2h", target: "20", tiers: file });
+
+        expect(result).to.equal(0n);
+        expect(output).to.contain("TiersConfigured #0 type4=10.0, legendary=4.0, common=0.5");
+        const tiers = await fundraisingCenter.getFundraisingTiers(0);
+        expect(tiers.map((tier) => [Number(tier.nftType), tier.whitelistOnly, tier.maxBuyAmount, tier.duration])).to.deep.equal([
+            [4, true, 1n, 5n * 60n],
+            [NftType.LEGENDARY, false, 3n, 10n * 60n],
+            [NftType.COMMON, false, ethers.MaxUint256, 0n],
+        ]);
+
+        fs.writeFileSync(file, JSON.stringify([{ type: "epic" }]));
+        expect(() => readTiers(file)).to.throw(`Tier 0 of ${file} needs a type and a price`);
+    });
+
+    it("should create a fundraising paid in an ERC-20 token, in units of the token", async function () {
+        const token = await (await ethers.getContractFactory("MockERC20")).deploy("USD Coin", "USDC", 6);
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "tiers-")), "tiers.json");
+        fs.writeFileSync(file, JSON.stringify([{ type: "common", price: "12.5" }]));
+
+        await runTask("fundraising:create-tiers", { start: "+10m", duration: "2h", target: "1000", tiers: file, token: await token.getAddress() });
+
+        const info = await fundraisingCenter.getFundraising(0);
+        expect(info.paymentToken).to.equal(await token.getAddress());
+        expect(info.targetAmount).to.equal(ethers.parseUnits("1000", 6));
+        const { output } = await runTask("fundraising:status", { id: "0" });
+        expect(output).to.contain(`currency:     ${await token.getAddress()}`);
+        expect(output).to.contain("common     price=12.5 sold=0/unlimited");
+    });
+
+    it("should set the revenue share of an NFT type", async function () {
+        const { output } = await runTask("nft:set-revenue-share", { type: "epic", percentage: "12.5%" });
+
+        expect(output).to.equal("RevenueSharePercentageSet epic=12.5%");
+        expect(await peaqNFT.getShareRevenuePercentage(NftType.EPIC)).to.equal(12_50);
+    });
+
+    it("should set and print the royalty configuration", async function () {
+        const [, treasury] = await ethers.getSigners();
+        expect((await runTask("nft:set-royalty-receiver", { receiver: treasury.address })).output).to.equal(
+            `RoyaltyReceiverSet ${treasury.address}`
+        );
+        expect((await runTask("nft:set-royalty-rate", { type: "legendary", rate: "7.5%" })).output).to.equal("RoyaltyRateSet legendary=7.5%");
+
+        const { output } = await runTask("nft:royalty", { salePrice: "2" });
+        expect(output).to.equal(
+            [
+                `receiver: ${treasury.address}`,
+                "legendary  rate=7.5% royalty=0.15",
+                "epic       rate=0% royalty=0.0",
+                "common     rate=0% royalty=0.0",
+            ].join("\n")
+        );
+    });
+
+    it("should set a base URI and write the metadata files of the minted tokens", async function () {
+        await peaqNFT.grantRole(await peaqNFT.MINTER_ROLE(), deployer);
+        await peaqNFT.mint(deployer, NftType.LEGENDARY, 2);
+        await peaqNFT.mint(deployer, NftType.COMMON, 1);
+
+        await runTask("nft:set-base-uri", { type: "legendary", uri: "https://example.com/nft/legendary/" });
+        expect(await peaqNFT.tokenURI((BigInt(NftType.LEGENDARY) << 32n) | 1n)).to.equal("https://example.com/nft/legendary/1.json");
+
+        const out = fs.mkdtempSync(path.join(os.tmpdir(), "metadata-"));
+        const { output } = await runTask("nft:metadata", { out, imageBaseUri: "https://example.com/nft/" });
+        expect(output).to.contain("Wrote 6 files");
+        expect(fs.readdirSync(path.join(out, "legendary")).sort()).to.deep.equal(["0.json", "0.svg", "1.json", "1.svg"]);
+        expect(fs.existsSync(path.join(out, "epic"))).to.be.false;
+        const metadata = JSON.parse(fs.readFileSync(path.join(out, "common", "0.json"), "utf8"));
+        expect(metadata.name).to.equal("PeaqNFT Common #0");
+        expect(metadata.image).to.equal("https://example.com/nft/common/0.svg");
+    });
+
+    it("should set the release schedule of a fundraising", async function () {
+        await create();
+
+        const { output } = await runTask("fundraising:set-vesting", { id: "0", kind: "milestones", tranches: "0=25, 30d=75" });
+        expect(output).to.equal("VestingUpdated #0 milestones 25%@0s, 75%@2592000s");
+        const status = await runTask("fundraising:status", { id: "0" });
+        expect(status.output).to.contain("vesting:      milestones 25%@0s, 75%@2592000s");
+        expect(status.output).to.contain("released:     0.0 (releasable 0.0, remaining 0.0)");
+
+        expect(parseVesting("linear", { cliff: "30d", duration: "180d" })).to.deep.include({ cliff: 2592000n, duration: 15552000n });
+        expect(() => parseVesting("cliff", {})).to.throw("Invalid release kind: cliff");
+        expect(() => parseVesting("milestones", { tranches: "30d:75" })).to.throw("Invalid tranche: 30d:75");
+    });
+
+    it("should set the referral percentage and report the referral payouts", async function () {
+        await create();
+        const [, , user, referrer] = await ethers.getSigners();
+        const set = await runTask("referral:set-percentage", { id: "0", percentage: "5" });
+        expect(set.output).to.equal("ReferralPercentageUpdated #0 percentage=5%");
+
+        await time.increase(50 * 60 + 10);
+        await fundraisingCenter.connect(user).contributeWithReferrer(0, 4, [], referrer.address, { value: ethers.parseEther("2") });
+        const leaderboard = await runTask("referral:leaderboard", { id: "0", fromBlock: 0 });
+        expect(leaderboard.output).to.equal(`#1 ${referrer.address} referrals=1 contributions=1 value=2.0 reward=0.1`);
+
+        const out = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "referrals-")), "report.csv");
+        const report = await runTask("referral:report", { id: "0", out, fromBlock: 0 });
+        expect(report.output).to.contain(`${referrer.address} reward=0.1 claimed=0.0 outstanding=0.1 pending`);
+        expect(report.output).to.contain("payable: 0.0");
+        expect(fs.readFileSync(out, "utf8").split("\n")[1]).to.equal(`${referrer.address},1,1,2.0,0.1,0.0,0.1,pending`);
+
+        // the raise falls short of its target: the reward is forfeited
+        await time.increase(2 * 60 * 60);
+        const failed = await runTask("referral:report", { id: "0", fromBlock: 0 });
+        expect(failed.output).to.contain("outstanding=0.1 forfeited");
+    });
+
+    it("should propose, vote on and execute the release of a governed fund", async function () {
+        await create();
+        const [, , user] = await ethers.getSigners();
+        const vesting = await runTask("fundraising:set-vesting", { id: "0", kind: "governed", tranches: "0=100" });
+        expect(vesting.output).to.equal("VestingUpdated #0 governed 100%@0s");
+
+        // 40 commons reach the target, they weigh 1 each against a quorum of 10%
+        await time.increase(50 * 60 + 10);
+        await fundraisingCenter.connect(user).contribute(0, 40, { value: ethers.parseEther("20") });
+        await time.increase(2 * 60 * 60);
+        await fundraisingCenter.connect(user).claimNft(0, 40);
+
+        const propose = await runTask("governance:propose", { id: "0" });
+        expect(propose.output).to.match(/^ProposalCreated #0 fundraising=#0 tranche=0 amount=20.0 deadline=/);
+        const vote = await runTask("governance:vote", { proposal: "0", against: false, from: user.address });
+        expect(vote.output).to.equal("VoteCast #0 for tokens=40 weight=40");
+
+        await time.increase(3 * 24 * 60 * 60);
+        const status = await runTask("governance:status", { proposal: "0" });
+        expect(status.output).to.contain("proposal:     #0 (succeeded)");
+        expect(status.output).to.contain("votes:        for=40 against=0 quorum=4");
+        const execute = await runTask("governance:execute", { proposal: "0" });
+        expect(execute.output).to.equal("Proposal #0 passed: released 20.0");
+        expect((await fundraisingCenter.getFundraising(0)).fundClaimed).to.equal(true);
+    });
+
+    it("should pause entry points, freeze a fundraising and refund it in an emergency", async function () {
+        await create();
+        const [, , user, guardian] = await ethers.getSigners();
+        const grant = await runTask("emergency:grant-pauser", { account: guardian.address });
+        expect(grant.output).to.equal(`Pauser role granted to ${guardian.address}`);
+
+        const pause = await runTask("emergency:pause", { functions: "contribute, claimNft", nft: false, from: guardian.address });
+        expect(pause.output.split("\n")).to.deep.equal([
+            "FundraisingCenter contribute paused",
+            "FundraisingCenter contributeWithProof paused",
+            "FundraisingCenter contributeWithReferrer paused",
+            "FundraisingCenter contributeWithPermit paused",
+            "FundraisingCenter claimNft paused",
+            "FundraisingCenter claimAllNft paused",
+        ]);
+        // the deploy scripts make the admin a pauser
+        await runTask("emergency:pause", { functions: "mint,safeTransferFrom(address,address,uint256)", nft: true });
+        const paused = await runTask("emergency:status", {});
+        expect(paused.output).to.contain(
+            "FundraisingCenter paused: claimAllNft, claimNft, contribute, contributeWithPermit, contributeWithProof, contributeWithReferrer"
+        );
+        expect(paused.output).to.contain(
+            "PeaqNFT paused: mint(address,uint8,uint16), mintBatch(address,uint8,uint256), mintTaggedBatch(address,uint8,uint256,uint256), safeTransferFrom(address,address,uint256)"
+        );
+
+        const unpause = await runTask("emergency:unpause", { functions: "contribute", nft: false });
+        expect(unpause.output).to.contain("FundraisingCenter contributeWithPermit resumed");
+        await time.increase(50 * 60 + 10);
+        await fundraisingCenter.connect(user).contribute(0, 4, { value: ethers.parseEther("2") });
+
+        const freeze = await runTask("emergency:freeze", { id: "0", unfreeze: false });
+        expect(freeze.output).to.equal("FundraisingFrozen #0 frozen");
+        expect((await runTask("emergency:status", { id: "0" })).output).to.contain("Fundraising #0: open (frozen)");
+        const refund = await runTask("emergency:refund", { id: "0" });
+        expect(refund.output).to.equal("FundraisingFrozen #0 unfrozen\nEmergencyRefundEnabled #0");
+        expect(await fundraisingCenter.getFundraisingStatus(0)).to.equal(FundraisingStatus.FAILED);
+        await expect(fundraisingCenter.connect(user).refund(0)).to.changeEtherBalance(user, ethers.parseEther("2"));
+    });
+
+    it("should request the force fail of an open fundraising and fail it with a reason", async function () {
+        await create();
+        const [, , user] = await ethers.getSigners();
+        await time.increase(50 * 60 + 10);
+        await fundraisingCenter.connect(user).contribute(0, 4, { value: ethers.parseEther("2") });
+
+        const request = await runTask("emergency:force-fail", { id: "0", reason: "Team left", request: true });
+        expect(request.output).to.match(/^ForceFailRequested #0 from=.* reason="Team left"$/);
+        expect((await runTask("emergency:status", { id: "0" })).output).to.contain("Force fail by the moderator from");
+
+        // the deployer is the admin as well, who fails it without waiting for the timelock
+        const fail = await runTask("emergency:force-fail", { id: "0", reason: "Team left", request: false });
+        expect(fail.output).to.equal(`FundraisingForceFailed #0 by=${deployer} reason="Team left"`);
+        await expect(fundraisingCenter.connect(user).refund(0)).to.changeEtherBalance(user, ethers.parseEther("2"));
+    });
+
+    it("should deposit revenue, preview it per token and claim it", async function () {
+        await peaqNFT.grantRole(await peaqNFT.MINTER_ROLE(), deployer);
+        await peaqNFT.mint(deployer, NftType.LEGENDARY, 2);
+        await runTask("nft:set-revenue-share", { type: "legendary", percentage: "40" });
+
+        const deposit = await runTask("revenue:deposit", { amount: "5", token: ethers.ZeroAddress });
+        expect(deposit.output).to.equal("RevenueDeposited amount=5.0 undistributed=3.0");
+
+        const claimable = await runTask("revenue:claimable", { owner: deployer, token: ethers.ZeroAddress });
+        expect(claimable.output).to.equal(["token 12884901888 (legendary): 1.0", "token 12884901889 (legendary): 1.0", "total: 2.0"].join("\n"));
+
+        const claim = await runTask("revenue:claim", { token: ethers.ZeroAddress, tokens: "12884901889", batchSize: 50 });
+        expect(claim.output).to.equal("Claimed 1.0 in 1 transaction(s)");
+        expect((await runTask("revenue:claim", { token: ethers.ZeroAddress, tokens: "12884901889", batchSize: 50 })).output).to.equal(
+            "Nothing to claim"
+        );
+        expect(() => parseTokenIds("1,x")).to.throw("Invalid token ID: x");
+    });
+
+    describe("Whitelist import", function () {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "whitelist-"));
+        const file = path.join(dir, "backers.csv");
+        const report = path.join(dir, "report.json");
+        let backers: string[];
+
+        before(async function () {
+            backers = (await ethers.getSigners()).slice(10, 20).map((signer) => signer.address);
+            fs.writeFileSync(file, [
+                "Name,Address",
+                ...backers.map((address, i) => `backer${i},${address.toLowerCase()}`),
+                `duplicate,${backers[0]}`,
+                "typo,0x1234",
+                `bad checksum,${flipFirstLetterCase(backers[1])}`,
+                "missing,",
+            ].join("\n"));
+        });
+
+        it("should validate, dedupe and checksum the CSV", async function () {
+            const csv = readWhitelistCsv(file);
+
+            expect(csv.addresses).to.deep.equal(backers);
+            expect(csv.duplicates).to.deep.equal([backers[0]]);
+            expect(csv.invalid.map((row) => [row.row, row.reason])).to.deep.equal([
+                [13, "invalid address"],
+                [14, "invalid address"],
+                [15, `missing "address" column`],
+            ]);
+        });
+
+        it("should split batches by gas", async function () {
+            const estimate = async (batch: string[]) => 30_000n + 25_000n * BigInt(batch.length);
+            const chunks = await chunkByGas(backers, 130_000n, estimate);
+
+            expect(chunks.map((chunk) => chunk.length)).to.deep.equal([4, 4, 2]);
+            expect(chunks.flat()).to.deep.equal(backers);
+            const error = await chunkByGas(backers, 50_000n, estimate).catch((e: Error) => e);
+            expect(error).to.be.instanceOf(Error).with.property("message").that.contains("A single address needs 55000 gas");
+        });
+
+        it("should whitelist the CSV in batches, skipping addresses already whitelisted", async function () {
+            await create();
+            await fundraisingCenter.addToWhitelist(0, backers[3]);
+
+            const { result } = await runTask("fundraising:whitelist-import", {
+                id: "0",
+                file,
+                column: "address",
+                maxGas: 200_000,
+                report,
+                remove: false,
+                dryRun: false,
+            });
+
+            expect(result.skipped).to.deep.equal([backers[3]]);
+            expect(result.applied.length).to.be.greaterThan(1);
+            expect(result.applied.flatMap((batch: { addresses: string[] }) => batch.addresses)).to.deep.equal(
+                backers.filter((_, i) => i !== 3)
+            );
+            for (const batch of result.applied) {
+                expect(BigInt(batch.gasUsed)).to.be.lessThanOrEqual(200_000n);
+            }
+            for (const backer of backers) {
+                expect(await fundraisingCenter.getUserWhitelisted(0, backer)).to.be.true;
+            }
+            expect(JSON.parse(fs.readFileSync(report, "utf8"))).to.deep.equal(result);
+        });
+
+        it("should not send transactions on a dry run", async function () {
+            await create();
+
+            const { result } = await runTask("fundraising:whitelist-import", {
+                id: "0",
+                file,
+                column: "address",
+                maxGas: 10_000_000,
+                report,
+                remove: false,
+                dryRun: true,
+            });
+
+            expect(result.applied).to.deep.equal([]);
+            expect(await fundraisingCenter.getUserWhitelisted(0, backers[0])).to.be.false;
+        });
+    });
+
+    describe("Merkle whitelist", function () {
+        it("should write the root and per-address proofs and set the root", async function () {
+            await create();
+            const out = fs.mkdtempSync(path.join(os.tmpdir(), "merkle-"));
+            const backers = (await ethers.getSigners()).slice(10, 13).map((signer) => signer.address);
+            const file = path.join(out, "backers.csv");
+            fs.writeFileSync(file, ["address", ...backers, "not an address"].join("\n"));
+
+            const { result, output } = await runTask("fundraising:whitelist-merkle", { file, out, column: "address", id: "0" });
+
+            expect(output).to.contain("Skipping row 5 (not an address): invalid address");
+            expect(output).to.contain(`WhitelistRootUpdated #0 root=${result}`);
+            expect(await fundraisingCenter.getWhitelistRoot(0)).to.equal(result);
+
+            const root = JSON.parse(fs.readFileSync(path.join(out, "root.json"), "utf8"));
+            expect(root.root).to.equal(result);
+            expect(root.count).to.equal(3);
+            for (const backer of backers) {
+                const proof = JSON.parse(fs.readFileSync(path.join(out, "proofs", `${backer}.json`), "utf8"));
+                expect(proof.address).to.equal(backer);
+                expect(await fundraisingCenter.isWhitelisted(0, backer, proof.proof)).to.be.true;
+            }
+        });
+    });
+
+    it("should sync the indexer database and resume from it", async function () {
+        await create();
+        const db = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "indexer.sqlite");
+
+        const first = await runTask("indexer:sync", { db, confirmations: 0, batchSize: 2000 });
+        expect(first.output).to.contain("1 fundraisings");
+        await create();
+
+        const second = await runTask("indexer:sync", { db, confirmations: 0, batchSize: 2000 });
+        expect(second.result.fromBlock).to.equal(first.result.toBlock + 1);
+        expect(second.output).to.contain("2 fundraisings");
+    });
+
+    describe("Argument parsing", function () {
+        it("should parse durations, timestamps and percentages", async function () {
+            expect(parseDuration("90")).to.equal(90);
+            expect(parseDuration("30m")).to.equal(30 * 60);
+            expect(parseDuration("7d")).to.equal(7 * 24 * 60 * 60);
+            expect(() => parseDuration("30 minutes")).to.throw("Invalid duration");
+
+            expect(parseTimestamp("+1h", 1000)).to.equal(1000 + 3600);
+            expect(parseTimestamp("2025-01-01T00:00:00Z", 0)).to.equal(1735689600);
+
+            expect(parsePercentage("25")).to.equal(25_00n);
+            expect(parsePercentage("0.5%")).to.equal(50n);
+            expect(() => parsePercentage("101")).to.throw("Percentage above 100%");
+        });
+    });
+});